@@ -0,0 +1,8 @@
+-- Drop the base schema, and with it every user's data
+DROP TABLE IF EXISTS active_schedules;
+DROP TABLE IF EXISTS settings;
+DROP TABLE IF EXISTS schedule_chunks;
+DROP TABLE IF EXISTS schedule_breaks;
+DROP TABLE IF EXISTS schedules;
+DROP TABLE IF EXISTS tasks;
+DROP TABLE IF EXISTS users;
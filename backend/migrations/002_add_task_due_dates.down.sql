@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_tasks_user_due;
+
+ALTER TABLE tasks DROP COLUMN IF EXISTS due_time;
+ALTER TABLE tasks DROP COLUMN IF EXISTS due_date;
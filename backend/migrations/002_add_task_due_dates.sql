@@ -0,0 +1,5 @@
+-- Add optional deadlines to tasks
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_date DATE;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS due_time TIME;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_due ON tasks(user_id, due_date);
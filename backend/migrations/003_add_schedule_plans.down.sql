@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_schedules_user_plan;
+
+ALTER TABLE schedules DROP COLUMN IF EXISTS plan_id;
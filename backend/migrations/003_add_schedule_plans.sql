@@ -0,0 +1,4 @@
+-- Link the daily schedules of a multi-day plan
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS plan_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_schedules_user_plan ON schedules(user_id, plan_id);
@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS schedule_templates;
+
+ALTER TABLE tasks DROP COLUMN IF EXISTS last_recurred_on;
+ALTER TABLE tasks DROP COLUMN IF EXISTS recurrence;
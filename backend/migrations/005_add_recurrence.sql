@@ -0,0 +1,21 @@
+-- Recurring tasks reset their progress on every matching date
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS recurrence JSONB;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS last_recurred_on DATE;
+
+-- Saved schedules that are created automatically on every matching date
+CREATE TABLE IF NOT EXISTS schedule_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  default_chunk_size INTEGER NOT NULL,
+  breaks JSONB NOT NULL DEFAULT '[]',
+  task_ids UUID[] NOT NULL DEFAULT '{}',
+  recurrence JSONB NOT NULL,
+  last_created_on DATE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_templates_user_id ON schedule_templates(user_id);
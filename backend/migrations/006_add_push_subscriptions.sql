@@ -0,0 +1,14 @@
+-- Browsers registered for server-sent Web Push nags
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint TEXT UNIQUE NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC', -- Chunk times are wall-clock times in this zone
+  user_agent TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  last_sent_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
@@ -0,0 +1,3 @@
+ALTER TABLE schedule_chunks DROP COLUMN IF EXISTS snoozed_until;
+ALTER TABLE schedule_chunks DROP COLUMN IF EXISTS skipped_at;
+ALTER TABLE schedule_chunks DROP COLUMN IF EXISTS skipped;
@@ -0,0 +1,4 @@
+-- Snoozed chunks stay quiet until snoozed_until; skipped chunks were given up without credit
+ALTER TABLE schedule_chunks ADD COLUMN IF NOT EXISTS skipped BOOLEAN DEFAULT FALSE;
+ALTER TABLE schedule_chunks ADD COLUMN IF NOT EXISTS skipped_at TIMESTAMP;
+ALTER TABLE schedule_chunks ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP;
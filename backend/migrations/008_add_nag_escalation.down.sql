@@ -0,0 +1,3 @@
+ALTER TABLE schedule_chunks DROP COLUMN IF EXISTS last_interaction_at;
+ALTER TABLE tasks DROP COLUMN IF EXISTS escalation;
+ALTER TABLE settings DROP COLUMN IF EXISTS escalation;
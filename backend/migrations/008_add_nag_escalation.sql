@@ -0,0 +1,5 @@
+-- Escalation policy for nags: a user-wide default in settings, optionally overridden per task.
+-- last_interaction_at resets a chunk's escalation when the user answers a nag.
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS escalation JSONB;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS escalation JSONB;
+ALTER TABLE schedule_chunks ADD COLUMN IF NOT EXISTS last_interaction_at TIMESTAMP;
@@ -0,0 +1,2 @@
+ALTER TABLE schedule_chunks DROP COLUMN IF EXISTS focus_minutes;
+ALTER TABLE schedule_chunks DROP COLUMN IF EXISTS time_events;
@@ -0,0 +1,3 @@
+-- Start/pause/resume events per chunk; focus_minutes is the measured time credited on completion
+ALTER TABLE schedule_chunks ADD COLUMN IF NOT EXISTS time_events JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE schedule_chunks ADD COLUMN IF NOT EXISTS focus_minutes INTEGER;
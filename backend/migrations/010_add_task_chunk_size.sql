@@ -0,0 +1,2 @@
+-- Per-task chunk size, so it survives a sync round trip like the rest of the task
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS default_chunk_size INTEGER;
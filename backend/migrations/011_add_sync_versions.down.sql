@@ -0,0 +1,27 @@
+DROP TRIGGER IF EXISTS schedule_chunks_touch_schedule ON schedule_chunks;
+DROP TRIGGER IF EXISTS schedule_chunks_sync_tombstone ON schedule_chunks;
+DROP TRIGGER IF EXISTS schedules_sync_tombstone ON schedules;
+DROP TRIGGER IF EXISTS tasks_sync_tombstone ON tasks;
+DROP TRIGGER IF EXISTS settings_sync_version ON settings;
+DROP TRIGGER IF EXISTS schedule_chunks_sync_version ON schedule_chunks;
+DROP TRIGGER IF EXISTS schedules_sync_version ON schedules;
+DROP TRIGGER IF EXISTS tasks_sync_version ON tasks;
+
+DROP FUNCTION IF EXISTS touch_chunk_schedule();
+DROP FUNCTION IF EXISTS record_sync_tombstone();
+DROP FUNCTION IF EXISTS stamp_sync_version();
+
+DROP TABLE IF EXISTS sync_tombstones;
+
+DROP INDEX IF EXISTS idx_schedule_chunks_version;
+DROP INDEX IF EXISTS idx_schedules_user_version;
+DROP INDEX IF EXISTS idx_tasks_user_version;
+
+ALTER TABLE settings DROP COLUMN IF EXISTS updated_version;
+ALTER TABLE settings DROP COLUMN IF EXISTS created_version;
+ALTER TABLE schedule_chunks DROP COLUMN IF EXISTS updated_version;
+ALTER TABLE schedule_chunks DROP COLUMN IF EXISTS created_version;
+ALTER TABLE schedules DROP COLUMN IF EXISTS updated_version;
+ALTER TABLE schedules DROP COLUMN IF EXISTS created_version;
+ALTER TABLE tasks DROP COLUMN IF EXISTS updated_version;
+ALTER TABLE tasks DROP COLUMN IF EXISTS created_version;
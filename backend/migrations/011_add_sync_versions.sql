@@ -0,0 +1,95 @@
+-- Change cursors for GET /api/sync. Every insert or update stamps the row with the ID of
+-- the transaction that wrote it; deletes leave a tombstone stamped the same way. A cursor
+-- is the oldest transaction still running when changes were read, so work that commits
+-- late is picked up by the next read instead of being skipped.
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS created_version BIGINT;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS updated_version BIGINT;
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS created_version BIGINT;
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS updated_version BIGINT;
+ALTER TABLE schedule_chunks ADD COLUMN IF NOT EXISTS created_version BIGINT;
+ALTER TABLE schedule_chunks ADD COLUMN IF NOT EXISTS updated_version BIGINT;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS created_version BIGINT;
+ALTER TABLE settings ADD COLUMN IF NOT EXISTS updated_version BIGINT;
+
+-- Rows from before this migration all count as version 1
+UPDATE tasks SET created_version = 1, updated_version = 1 WHERE updated_version IS NULL;
+UPDATE schedules SET created_version = 1, updated_version = 1 WHERE updated_version IS NULL;
+UPDATE schedule_chunks SET created_version = 1, updated_version = 1 WHERE updated_version IS NULL;
+UPDATE settings SET created_version = 1, updated_version = 1 WHERE updated_version IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_user_version ON tasks(user_id, updated_version);
+CREATE INDEX IF NOT EXISTS idx_schedules_user_version ON schedules(user_id, updated_version);
+CREATE INDEX IF NOT EXISTS idx_schedule_chunks_version ON schedule_chunks(schedule_id, updated_version);
+
+-- No foreign key on user_id: tombstones are written while a user's rows cascade away
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  entity VARCHAR(20) NOT NULL CHECK (entity IN ('task', 'schedule', 'chunk')),
+  entity_id UUID NOT NULL,
+  version BIGINT NOT NULL DEFAULT txid_current(),
+  deleted_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_user_version ON sync_tombstones(user_id, version);
+
+CREATE OR REPLACE FUNCTION stamp_sync_version() RETURNS trigger AS $$
+BEGIN
+  NEW.updated_version := txid_current();
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_version := NEW.updated_version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_sync_tombstone() RETURNS trigger AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'schedule_chunks' THEN
+    -- Chunks going with their schedule are covered by the schedule's tombstone
+    INSERT INTO sync_tombstones (user_id, entity, entity_id)
+    SELECT s.user_id, 'chunk', OLD.id FROM schedules s WHERE s.id = OLD.schedule_id;
+  ELSE
+    INSERT INTO sync_tombstones (user_id, entity, entity_id)
+    VALUES (OLD.user_id, CASE TG_TABLE_NAME WHEN 'tasks' THEN 'task' ELSE 'schedule' END, OLD.id);
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A chunk change is a change to its schedule, so baseUpdatedAt conflict checks see it
+CREATE OR REPLACE FUNCTION touch_chunk_schedule() RETURNS trigger AS $$
+BEGIN
+  UPDATE schedules SET updated_at = NOW()
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.schedule_id ELSE NEW.schedule_id END;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tasks_sync_version ON tasks;
+CREATE TRIGGER tasks_sync_version BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION stamp_sync_version();
+DROP TRIGGER IF EXISTS schedules_sync_version ON schedules;
+CREATE TRIGGER schedules_sync_version BEFORE INSERT OR UPDATE ON schedules
+  FOR EACH ROW EXECUTE FUNCTION stamp_sync_version();
+DROP TRIGGER IF EXISTS schedule_chunks_sync_version ON schedule_chunks;
+CREATE TRIGGER schedule_chunks_sync_version BEFORE INSERT OR UPDATE ON schedule_chunks
+  FOR EACH ROW EXECUTE FUNCTION stamp_sync_version();
+DROP TRIGGER IF EXISTS settings_sync_version ON settings;
+CREATE TRIGGER settings_sync_version BEFORE INSERT OR UPDATE ON settings
+  FOR EACH ROW EXECUTE FUNCTION stamp_sync_version();
+
+DROP TRIGGER IF EXISTS tasks_sync_tombstone ON tasks;
+CREATE TRIGGER tasks_sync_tombstone AFTER DELETE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION record_sync_tombstone();
+DROP TRIGGER IF EXISTS schedules_sync_tombstone ON schedules;
+CREATE TRIGGER schedules_sync_tombstone AFTER DELETE ON schedules
+  FOR EACH ROW EXECUTE FUNCTION record_sync_tombstone();
+DROP TRIGGER IF EXISTS schedule_chunks_sync_tombstone ON schedule_chunks;
+CREATE TRIGGER schedule_chunks_sync_tombstone AFTER DELETE ON schedule_chunks
+  FOR EACH ROW EXECUTE FUNCTION record_sync_tombstone();
+
+DROP TRIGGER IF EXISTS schedule_chunks_touch_schedule ON schedule_chunks;
+CREATE TRIGGER schedule_chunks_touch_schedule AFTER INSERT OR UPDATE OR DELETE ON schedule_chunks
+  FOR EACH ROW EXECUTE FUNCTION touch_chunk_schedule();
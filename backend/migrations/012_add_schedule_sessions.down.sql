@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS schedule_sessions;
+
+ALTER TABLE schedules DROP COLUMN IF EXISTS completed_at;
@@ -0,0 +1,19 @@
+-- When a schedule was finished
+ALTER TABLE schedules ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP;
+
+-- One row per finished session - ended early or completed - with a summary taken at
+-- the time, so history survives later edits to (or deletion of) the schedule.
+-- active_schedules.updated_at is when the running session started.
+CREATE TABLE IF NOT EXISTS schedule_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  schedule_id UUID REFERENCES schedules(id) ON DELETE SET NULL,
+  schedule_name VARCHAR(255),
+  schedule_date DATE NOT NULL,
+  started_at TIMESTAMP NOT NULL,
+  ended_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('completed', 'ended')),
+  summary JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_sessions_user_ended ON schedule_sessions(user_id, ended_at DESC);
@@ -0,0 +1,8 @@
+-- One iCalendar feed per user. The token in the feed URL is the only credential calendar
+-- apps can send, so it's long and random; rotating it cuts off old subscriptions.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  token VARCHAR(64) UNIQUE NOT NULL,
+  time_zone VARCHAR(64) NOT NULL DEFAULT 'UTC', -- Chunk times are wall-clock times in this zone
+  created_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,6 @@
+-- Busy chunks have nothing to fall back to, so they go before the old check comes back
+DELETE FROM schedule_chunks WHERE type = 'busy';
+
+ALTER TABLE schedule_chunks DROP CONSTRAINT IF EXISTS schedule_chunks_type_check;
+ALTER TABLE schedule_chunks ADD CONSTRAINT schedule_chunks_type_check
+  CHECK (type IN ('task', 'break'));
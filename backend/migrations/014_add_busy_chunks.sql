@@ -0,0 +1,5 @@
+-- Busy chunks: fixed appointments (e.g. imported from a calendar) that task chunks
+-- are scheduled around
+ALTER TABLE schedule_chunks DROP CONSTRAINT IF EXISTS schedule_chunks_type_check;
+ALTER TABLE schedule_chunks ADD CONSTRAINT schedule_chunks_type_check
+  CHECK (type IN ('task', 'break', 'busy'));
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_sync_tombstones_deleted_at;
+
+DROP TABLE IF EXISTS sync_horizons;
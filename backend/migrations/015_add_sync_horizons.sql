@@ -0,0 +1,9 @@
+-- Tombstones are pruned once they're old enough (see pruneTombstones in sync.service.ts).
+-- The newest version pruned for a user is kept here: a cursor at or before it may have
+-- missed a deletion, so GET /api/sync answers it with everything and `full: true`.
+CREATE TABLE IF NOT EXISTS sync_horizons (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  version BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_deleted_at ON sync_tombstones(deleted_at);
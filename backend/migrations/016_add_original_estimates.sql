@@ -0,0 +1,5 @@
+-- The estimate a task was created with, kept when the estimate is raised later, so
+-- estimate accuracy (and the calibration built on it) sees tasks that ran over
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS original_estimated_hours DECIMAL(10,2);
+
+UPDATE tasks SET original_estimated_hours = estimated_hours WHERE original_estimated_hours IS NULL;
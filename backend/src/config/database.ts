@@ -8,6 +8,9 @@ const pgp = pgPromise({
   }
 });
 
+// Keep DATE columns as YYYY-MM-DD strings - as Dates they'd shift with the server's time zone
+pgp.pg.types.setTypeParser(pgp.pg.types.builtins.DATE, (value: string) => value);
+
 // Create database connection
 export const db = pgp(env.DATABASE_URL);
 
@@ -22,10 +25,3 @@ export async function testConnection(): Promise<boolean> {
     return false;
   }
 }
-
-// Helper to run migrations
-export async function runMigrations(): Promise<void> {
-  // For MVP, we'll run migrations manually
-  // In production, use a proper migration tool like node-pg-migrate
-  console.log('Run migrations manually using psql or a migration tool');
-}
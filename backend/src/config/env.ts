@@ -13,6 +13,10 @@ interface EnvConfig {
   JWT_EXPIRES_IN: string;
   ENCRYPTION_KEY: string;
   FRONTEND_URL: string;
+  VAPID_PUBLIC_KEY?: string;
+  VAPID_PRIVATE_KEY?: string;
+  VAPID_SUBJECT?: string;
+  PUSH_WORKER_INTERVAL_MS: number;
 }
 
 function validateEnv(): EnvConfig {
@@ -42,7 +46,12 @@ function validateEnv(): EnvConfig {
     JWT_SECRET: process.env.JWT_SECRET!,
     JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '24h',
     ENCRYPTION_KEY: process.env.ENCRYPTION_KEY!,
-    FRONTEND_URL: process.env.FRONTEND_URL!
+    FRONTEND_URL: process.env.FRONTEND_URL!,
+    // Web Push is optional - nags stay in the browser when these aren't set
+    VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY,
+    VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
+    VAPID_SUBJECT: process.env.VAPID_SUBJECT,
+    PUSH_WORKER_INTERVAL_MS: parseInt(process.env.PUSH_WORKER_INTERVAL_MS || '30000', 10)
   };
 }
 
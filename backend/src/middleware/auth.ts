@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyJWT } from '../services/jwt.service';
+import { verifyJWT, verifyStreamTicket } from '../services/jwt.service';
+import { sendError } from './errorHandler';
 
 // Extend Express Request type to include userId
 declare global {
@@ -11,22 +12,23 @@ declare global {
   }
 }
 
-export function authenticateJWT(
-  req: Request,
+// Generic so a route's validate() decides the request types rather than this
+export function authenticateJWT<Params, Body, Query>(
+  req: Request<Params, any, Body, Query>,
   res: Response,
   next: NextFunction
 ): void {
   const authHeader = req.headers.authorization;
 
   if (!authHeader) {
-    res.status(401).json({ error: 'No authorization header provided' });
+    sendError(res, 'UNAUTHENTICATED', 'No authorization header provided');
     return;
   }
 
   const token = authHeader.split(' ')[1]; // Bearer <token>
 
   if (!token) {
-    res.status(401).json({ error: 'No token provided' });
+    sendError(res, 'UNAUTHENTICATED', 'No token provided');
     return;
   }
 
@@ -36,7 +38,30 @@ export function authenticateJWT(
     req.userEmail = payload.email;
     next();
   } catch (error) {
-    res.status(403).json({ error: 'Invalid or expired token' });
+    sendError(res, 'INVALID_TOKEN', 'Invalid or expired token');
+    return;
+  }
+}
+
+// EventSource can't send headers, so event streams pass a stream ticket (see
+// POST /api/events/ticket) as ?ticket= - never the sign-in token itself
+export function authenticateEventStream(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : '';
+
+  if (!ticket) {
+    sendError(res, 'UNAUTHENTICATED', 'No ticket provided');
+    return;
+  }
+
+  try {
+    req.userId = verifyStreamTicket(ticket);
+    next();
+  } catch (error) {
+    sendError(res, 'INVALID_TOKEN', 'Invalid or expired ticket');
     return;
   }
 }
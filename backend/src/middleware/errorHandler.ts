@@ -1,4 +1,48 @@
 import { Request, Response, NextFunction } from 'express';
+import { ERROR_STATUS, ErrorCode, ErrorResponse } from '../types/errors';
+import { FieldError } from '../types/schemas';
+
+// An error the client should hear about as it is - anything else is answered as INTERNAL
+export class AppError extends Error {
+  constructor(public code: ErrorCode, message: string, public details?: FieldError[]) {
+    super(message);
+  }
+
+  get statusCode(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+// Answers with the code's status and the shared error body (see src/types/errors.ts).
+// INTERNAL errors are logged with the request ID when their cause is passed.
+export function sendError(
+  res: Response,
+  code: ErrorCode,
+  message: string,
+  extra: Pick<ErrorResponse, 'details' | 'current'> & { cause?: unknown } = {}
+): Response {
+  const { cause, ...fields } = extra;
+  const requestId = res.req.requestId || '';
+
+  if (cause !== undefined) {
+    console.error(`[${requestId}] ${message}:`, cause);
+  }
+
+  const body: ErrorResponse = { error: message, code, requestId, ...fields };
+  return res.status(ERROR_STATUS[code]).json(body);
+}
+
+// Malformed JSON and bodies over the size limit come from express.json
+function toAppError(err: any): AppError | null {
+  if (err instanceof AppError) return err;
+  if (err?.type === 'entity.parse.failed') return new AppError('VALIDATION', 'Request body is not valid JSON');
+  if (err?.type === 'entity.too.large') return new AppError('PAYLOAD_TOO_LARGE', 'Request body is too large');
+  return null;
+}
+
+export function notFoundHandler(req: Request, res: Response): void {
+  sendError(res, 'NOT_FOUND', `No route for ${req.method} ${req.path}`);
+}
 
 export function errorHandler(
   err: any,
@@ -6,13 +50,12 @@ export function errorHandler(
   res: Response,
   next: NextFunction
 ): void {
-  console.error('Error:', err);
+  const appError = toAppError(err);
 
-  const statusCode = err.statusCode || 500;
-  const message = err.message || 'Internal server error';
+  if (!appError) {
+    sendError(res, 'INTERNAL', 'Internal server error', { cause: err });
+    return;
+  }
 
-  res.status(statusCode).json({
-    error: message,
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
-  });
+  sendError(res, appError.code, appError.message, { details: appError.details });
 }
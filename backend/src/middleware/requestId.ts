@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// A proxy's ID is kept so its logs and ours line up; anything odd-looking is replaced
+const FORWARDED_ID = /^[\w.-]{1,100}$/;
+
+// Tags every request with an ID, sent back as X-Request-Id and in error bodies, so an
+// error a user reports can be found in the server log
+export function assignRequestId(req: Request, res: Response, next: NextFunction): void {
+  const forwarded = req.get('X-Request-Id');
+  req.requestId = forwarded && FORWARDED_ID.test(forwarded) ? forwarded : randomUUID();
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+}
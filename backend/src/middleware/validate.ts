@@ -0,0 +1,58 @@
+import { RequestHandler } from 'express';
+import { ParamsDictionary } from 'express-serve-static-core';
+import { ParsedQs } from 'qs';
+import { z } from 'zod';
+import { AppError } from './errorHandler';
+import { describeIssues, FieldError } from '../types/schemas';
+
+// Input that doesn't match its schema - answered with every problem found
+export class ValidationError extends AppError {
+  constructor(details: FieldError[], message = 'Invalid request') {
+    super('VALIDATION', message, details);
+  }
+}
+
+interface RequestSchemas {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+}
+
+// What a part is once parsed - as Express types it when there's no schema for it
+type Parsed<Schema, Unchecked> = Schema extends z.ZodType ? z.output<Schema> : Unchecked;
+
+// Checks the parts of a request against their schemas (see src/types/schemas.ts) and
+// swaps in the parsed values, so routes see defaults applied and unknown fields removed.
+// Handlers after it get req.params, req.query and req.body typed as the parsed values.
+export function validate<Schemas extends RequestSchemas>(
+  schemas: Schemas
+): NoInfer<RequestHandler<
+  Parsed<Schemas['params'], ParamsDictionary>,
+  any,
+  Parsed<Schemas['body'], unknown>,
+  Parsed<Schemas['query'], ParsedQs>
+>> {
+  return (req, res, next) => {
+    const details: FieldError[] = [];
+
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[part] ?? {});
+      if (!result.success) {
+        details.push(...describeIssues(result.error));
+        continue;
+      }
+
+      // Express 5 makes req.query a getter, so it can't simply be assigned
+      Object.defineProperty(req, part, { value: result.data, writable: true, enumerable: true, configurable: true });
+    }
+
+    if (details.length > 0) {
+      next(new ValidationError(details));
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,60 @@
+import { randomBytes } from 'crypto';
+import { db } from '../config/database';
+import { CalendarFeed } from '../types';
+
+const COLUMNS = `user_id AS "userId", token, time_zone AS "timeZone", created_at AS "createdAt"`;
+
+export class CalendarFeedModel {
+  static async findByUser(userId: string): Promise<CalendarFeed | null> {
+    try {
+      return await db.oneOrNone<CalendarFeed>(
+        `SELECT ${COLUMNS} FROM calendar_feeds WHERE user_id = $1`,
+        [userId]
+      );
+    } catch (error) {
+      console.error('Error finding calendar feed:', error);
+      throw error;
+    }
+  }
+
+  static async findByToken(token: string): Promise<CalendarFeed | null> {
+    try {
+      return await db.oneOrNone<CalendarFeed>(
+        `SELECT ${COLUMNS} FROM calendar_feeds WHERE token = $1`,
+        [token]
+      );
+    } catch (error) {
+      console.error('Error finding calendar feed:', error);
+      throw error;
+    }
+  }
+
+  // Creating a feed that already exists hands out a new token
+  static async create(userId: string, timeZone: string): Promise<CalendarFeed> {
+    try {
+      return await db.one<CalendarFeed>(
+        `INSERT INTO calendar_feeds (user_id, token, time_zone, created_at)
+         VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (user_id) DO UPDATE
+         SET token = EXCLUDED.token,
+             time_zone = EXCLUDED.time_zone,
+             created_at = EXCLUDED.created_at
+         RETURNING ${COLUMNS}`,
+        [userId, randomBytes(24).toString('base64url'), timeZone]
+      );
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      throw error;
+    }
+  }
+
+  static async delete(userId: string): Promise<boolean> {
+    try {
+      const result = await db.result('DELETE FROM calendar_feeds WHERE user_id = $1', [userId]);
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error('Error deleting calendar feed:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { db } from '../config/database';
+import { addDays, fillDays, fillWeeks, getStreak, getWeekStart } from '../types/shared';
+import { CompletionInsights, EstimateInsight, FocusInsights, StreakInsights, TimeInsights } from '../types';
+
+// Focus time of a completed task chunk - chunks completed before tracking count their planned length
+const FOCUS = 'COALESCE(c.focus_minutes, c.duration_minutes)';
+
+// Completed task chunks of the user, joined to their schedule
+const COMPLETED_CHUNKS = `schedule_chunks c
+  INNER JOIN schedules s ON s.id = c.schedule_id
+  WHERE s.user_id = $1 AND c.type = 'task' AND c.completed`;
+
+export class InsightsModel {
+  static async getFocus(userId: string, today: string, days: number, weeks: number): Promise<FocusInsights> {
+    try {
+      const from = [addDays(today, 1 - days), addDays(getWeekStart(today), (1 - weeks) * 7)].sort()[0];
+      const rows = await db.any<{ date: string; minutes: number }>(
+        `SELECT s.date, SUM(${FOCUS})::int AS minutes
+         FROM ${COMPLETED_CHUNKS} AND s.date BETWEEN $2 AND $3
+         GROUP BY s.date`,
+        [userId, from, today]
+      );
+
+      const minutesByDate = new Map(rows.map(row => [row.date, row.minutes]));
+      return {
+        daily: fillDays(minutesByDate, today, days),
+        weekly: fillWeeks(minutesByDate, today, weeks)
+      };
+    } catch (error) {
+      console.error('Error loading focus insights:', error);
+      throw error;
+    }
+  }
+
+  // Chunks still ahead today don't count against the rate
+  static async getCompletion(userId: string, today: string): Promise<CompletionInsights> {
+    try {
+      const row = await db.one<{ planned: number; completed: number; skipped: number }>(
+        `SELECT COUNT(*)::int AS planned,
+                COUNT(*) FILTER (WHERE c.completed)::int AS completed,
+                COUNT(*) FILTER (WHERE NOT c.completed AND c.skipped)::int AS skipped
+         FROM schedule_chunks c
+         INNER JOIN schedules s ON s.id = c.schedule_id
+         WHERE s.user_id = $1 AND c.type = 'task'
+           AND (s.date < $2 OR (s.date = $2 AND (c.completed OR c.skipped)))`,
+        [userId, today]
+      );
+
+      return { ...row, rate: row.planned > 0 ? row.completed / row.planned : null };
+    } catch (error) {
+      console.error('Error loading completion insights:', error);
+      throw error;
+    }
+  }
+
+  static async getTime(userId: string): Promise<TimeInsights> {
+    try {
+      // Deleted tasks are listed under their chunks' title
+      const byTask = await db.any(
+        `SELECT t.id AS "taskId", COALESCE(t.title, c.task_title) AS title, SUM(${FOCUS})::int AS minutes
+         FROM schedule_chunks c
+         INNER JOIN schedules s ON s.id = c.schedule_id
+         LEFT JOIN tasks t ON t.id = c.task_id
+         WHERE s.user_id = $1 AND c.type = 'task' AND c.completed
+         GROUP BY t.id, COALESCE(t.title, c.task_title)
+         ORDER BY minutes DESC`,
+        [userId]
+      );
+
+      const byPriority = await db.any(
+        `SELECT c.task_priority AS priority, SUM(${FOCUS})::int AS minutes
+         FROM ${COMPLETED_CHUNKS}
+         GROUP BY c.task_priority
+         ORDER BY minutes DESC`,
+        [userId]
+      );
+
+      return { byTask, byPriority };
+    } catch (error) {
+      console.error('Error loading time insights:', error);
+      throw error;
+    }
+  }
+
+  static async getStreak(userId: string, today: string): Promise<StreakInsights> {
+    try {
+      const dates = await db.map(
+        `SELECT DISTINCT s.date FROM ${COMPLETED_CHUNKS} AND s.date <= $2`,
+        [userId, today],
+        row => row.date as string
+      );
+      return getStreak(dates, today);
+    } catch (error) {
+      console.error('Error loading streak insights:', error);
+      throw error;
+    }
+  }
+
+  // Tasks with tracked time, the estimate they were created with against what they
+  // actually took - a task whose estimate was raised along the way still counts as over
+  static async getEstimates(userId: string): Promise<EstimateInsight[]> {
+    try {
+      const rows = await db.any(
+        `SELECT t.id, t.title, t.estimated_hours, t.original_estimated_hours, t.hours_completed,
+                SUM(${FOCUS})::int AS actual_minutes
+         FROM tasks t
+         INNER JOIN schedule_chunks c ON c.task_id = t.id AND c.type = 'task' AND c.completed
+         WHERE t.user_id = $1
+         GROUP BY t.id
+         ORDER BY t.title`,
+        [userId]
+      );
+
+      // DECIMAL columns arrive as strings
+      return rows.map(row => ({
+        taskId: row.id,
+        title: row.title,
+        estimatedMinutes: Math.round(Number(row.original_estimated_hours) * 60),
+        actualMinutes: row.actual_minutes,
+        finished: Number(row.hours_completed) >= Number(row.estimated_hours)
+      }));
+    } catch (error) {
+      console.error('Error loading estimate insights:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { db } from '../config/database';
+import { PushSubscriptionRecord } from '../types';
+
+const COLUMNS = `id, user_id AS "userId", endpoint, p256dh, auth, time_zone AS "timeZone",
+  user_agent AS "userAgent", created_at AS "createdAt", last_sent_at AS "lastSentAt"`;
+
+export class PushSubscriptionModel {
+  static async findAll(): Promise<PushSubscriptionRecord[]> {
+    try {
+      return await db.any<PushSubscriptionRecord>(
+        `SELECT ${COLUMNS} FROM push_subscriptions ORDER BY user_id`
+      );
+    } catch (error) {
+      console.error('Error finding push subscriptions:', error);
+      throw error;
+    }
+  }
+
+  static async findByUser(userId: string): Promise<PushSubscriptionRecord[]> {
+    try {
+      return await db.any<PushSubscriptionRecord>(
+        `SELECT ${COLUMNS} FROM push_subscriptions WHERE user_id = $1 ORDER BY created_at`,
+        [userId]
+      );
+    } catch (error) {
+      console.error('Error finding push subscriptions:', error);
+      throw error;
+    }
+  }
+
+  // A browser re-subscribing (or switching accounts) keeps its endpoint, so upsert on it
+  static async upsert(userId: string, data: {
+    endpoint: string;
+    p256dh: string;
+    auth: string;
+    timeZone: string;
+    userAgent?: string;
+  }): Promise<PushSubscriptionRecord> {
+    try {
+      return await db.one<PushSubscriptionRecord>(
+        `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, time_zone, user_agent, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, NOW())
+         ON CONFLICT (endpoint) DO UPDATE
+         SET user_id = EXCLUDED.user_id,
+             p256dh = EXCLUDED.p256dh,
+             auth = EXCLUDED.auth,
+             time_zone = EXCLUDED.time_zone,
+             user_agent = EXCLUDED.user_agent
+         RETURNING ${COLUMNS}`,
+        [userId, data.endpoint, data.p256dh, data.auth, data.timeZone, data.userAgent || null]
+      );
+    } catch (error) {
+      console.error('Error saving push subscription:', error);
+      throw error;
+    }
+  }
+
+  static async delete(userId: string, endpoint: string): Promise<boolean> {
+    try {
+      const result = await db.result(
+        'DELETE FROM push_subscriptions WHERE user_id = $1 AND endpoint = $2',
+        [userId, endpoint]
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error('Error deleting push subscription:', error);
+      throw error;
+    }
+  }
+
+  // Used by the push worker when the push service reports a subscription as gone
+  static async deleteById(id: string): Promise<void> {
+    try {
+      await db.none('DELETE FROM push_subscriptions WHERE id = $1', [id]);
+    } catch (error) {
+      console.error('Error deleting push subscription:', error);
+      throw error;
+    }
+  }
+
+  static async markSent(id: string): Promise<void> {
+    try {
+      await db.none('UPDATE push_subscriptions SET last_sent_at = NOW() WHERE id = $1', [id]);
+    } catch (error) {
+      console.error('Error updating push subscription:', error);
+      throw error;
+    }
+  }
+}
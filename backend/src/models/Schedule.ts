@@ -1,10 +1,18 @@
+import { IBaseProtocol } from 'pg-promise';
 import { db } from '../config/database';
-import { Schedule, ScheduleChunk, ScheduleBreak } from '../types';
+import { canRecordTimeEvent, getFocusMinutes, withImplicitStart } from '../types/shared';
+import { ConflictError, isStale } from '../services/sync.service';
+import { AppError } from '../middleware/errorHandler';
+import { ScheduleSessionModel } from './ScheduleSession';
+import {
+  ScheduleRow, ScheduleChunkRow, ScheduleBreakRow, ScheduleSessionRow, ChunkTimeEvent, ChunkTimeEventType
+} from '../types';
+import { ScheduleInput, ChunkInput, BreakInput, UpdateScheduleRequest } from '../types/schemas';
 
 export class ScheduleModel {
-  static async findById(id: string, userId: string): Promise<Schedule | null> {
+  static async findById(id: string, userId: string, t: IBaseProtocol<unknown> = db): Promise<ScheduleRow | null> {
     try {
-      const schedule = await db.oneOrNone(
+      const schedule = await t.oneOrNone<Omit<ScheduleRow, 'chunks' | 'breaks'>>(
         'SELECT * FROM schedules WHERE id = $1 AND user_id = $2',
         [id, userId]
       );
@@ -12,12 +20,12 @@ export class ScheduleModel {
       if (!schedule) return null;
 
       // Load chunks and breaks
-      const chunks = await db.any<ScheduleChunk>(
+      const chunks = await t.any<ScheduleChunkRow>(
         'SELECT * FROM schedule_chunks WHERE schedule_id = $1 ORDER BY start_time',
         [id]
       );
 
-      const breaks = await db.any<ScheduleBreak>(
+      const breaks = await t.any<ScheduleBreakRow>(
         'SELECT * FROM schedule_breaks WHERE schedule_id = $1 ORDER BY time',
         [id]
       );
@@ -35,8 +43,10 @@ export class ScheduleModel {
 
   static async findAll(userId: string, options?: {
     date?: string;
+    from?: string; // On or after this date
     status?: 'active' | 'completed';
-  }): Promise<Schedule[]> {
+    planId?: string;
+  }): Promise<ScheduleRow[]> {
     try {
       let query = 'SELECT * FROM schedules WHERE user_id = $1';
       const params: any[] = [userId];
@@ -47,24 +57,34 @@ export class ScheduleModel {
         params.push(options.date);
       }
 
+      if (options?.from) {
+        query += ` AND date >= $${paramIndex++}`;
+        params.push(options.from);
+      }
+
       if (options?.status) {
         query += ` AND status = $${paramIndex++}`;
         params.push(options.status);
       }
 
+      if (options?.planId) {
+        query += ` AND plan_id = $${paramIndex++}`;
+        params.push(options.planId);
+      }
+
       query += ' ORDER BY date DESC, created_at DESC';
 
-      const schedules = await db.any(query, params);
+      const schedules = await db.any<Omit<ScheduleRow, 'chunks' | 'breaks'>>(query, params);
 
       // Load chunks and breaks for each schedule
       const schedulesWithData = await Promise.all(
         schedules.map(async (schedule) => {
-          const chunks = await db.any<ScheduleChunk>(
+          const chunks = await db.any<ScheduleChunkRow>(
             'SELECT * FROM schedule_chunks WHERE schedule_id = $1 ORDER BY start_time',
             [schedule.id]
           );
 
-          const breaks = await db.any<ScheduleBreak>(
+          const breaks = await db.any<ScheduleBreakRow>(
             'SELECT * FROM schedule_breaks WHERE schedule_id = $1 ORDER BY time',
             [schedule.id]
           );
@@ -84,24 +104,24 @@ export class ScheduleModel {
     }
   }
 
-  static async findActive(userId: string): Promise<Schedule | null> {
+  static async findActive(userId: string): Promise<ScheduleRow | null> {
     try {
-      const result = await db.oneOrNone(
+      const result = await db.oneOrNone<Omit<ScheduleRow, 'chunks' | 'breaks'>>(
         `SELECT s.* FROM schedules s
          INNER JOIN active_schedules a ON s.id = a.schedule_id
-         WHERE a.user_id = $1`,
+         WHERE a.user_id = $1 AND s.user_id = $1`,
         [userId]
       );
 
       if (!result) return null;
 
       // Load chunks and breaks
-      const chunks = await db.any<ScheduleChunk>(
+      const chunks = await db.any<ScheduleChunkRow>(
         'SELECT * FROM schedule_chunks WHERE schedule_id = $1 ORDER BY start_time',
         [result.id]
       );
 
-      const breaks = await db.any<ScheduleBreak>(
+      const breaks = await db.any<ScheduleBreakRow>(
         'SELECT * FROM schedule_breaks WHERE schedule_id = $1 ORDER BY time',
         [result.id]
       );
@@ -118,24 +138,29 @@ export class ScheduleModel {
   }
 
   static async create(userId: string, scheduleData: {
+    id?: string;
     name?: string;
+    planId?: string;
     date: string;
     startTime: string;
     endTime: string;
     defaultChunkSize: number;
     status: 'active' | 'completed';
-    chunks: ScheduleChunk[];
-    breaks: ScheduleBreak[];
-  }): Promise<Schedule> {
+    chunks: ChunkInput[];
+    breaks: BreakInput[];
+  }, t: IBaseProtocol<unknown> = db): Promise<ScheduleRow> {
     try {
-      // Create schedule
-      const schedule = await db.one(
-        `INSERT INTO schedules (user_id, name, date, start_time, end_time, default_chunk_size, status, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+      // Offline clients pick their own IDs; taking one that exists is a conflict
+      const schedule = await t.oneOrNone<Omit<ScheduleRow, 'chunks' | 'breaks'>>(
+        `INSERT INTO schedules (id, user_id, name, plan_id, date, start_time, end_time, default_chunk_size, status, created_at, updated_at)
+         VALUES (COALESCE($1::uuid, gen_random_uuid()), $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+         ON CONFLICT (id) DO NOTHING
          RETURNING *`,
         [
+          scheduleData.id || null,
           userId,
           scheduleData.name || null,
+          scheduleData.planId || null,
           scheduleData.date,
           scheduleData.startTime,
           scheduleData.endTime,
@@ -144,45 +169,12 @@ export class ScheduleModel {
         ]
       );
 
-      // Create chunks
-      const chunks = await Promise.all(
-        scheduleData.chunks.map(chunk =>
-          db.one(
-            `INSERT INTO schedule_chunks (
-              schedule_id, task_id, task_title, task_priority,
-              start_time, end_time, duration_minutes, nag_interval_minutes,
-              type, completed, completed_at, created_at
-            )
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
-            RETURNING *`,
-            [
-              schedule.id,
-              chunk.taskId || null,
-              chunk.taskTitle,
-              chunk.taskPriority,
-              chunk.startTime,
-              chunk.endTime,
-              chunk.durationMinutes,
-              chunk.nagIntervalMinutes,
-              chunk.type,
-              chunk.completed || false,
-              chunk.completedAt || null
-            ]
-          )
-        )
-      );
+      if (!schedule) {
+        throw new ConflictError('Schedule already exists', await ScheduleModel.findById(scheduleData.id!, userId, t));
+      }
 
-      // Create breaks
-      const breaks = await Promise.all(
-        scheduleData.breaks.map(breakItem =>
-          db.one(
-            `INSERT INTO schedule_breaks (schedule_id, time, duration_minutes, created_at)
-             VALUES ($1, $2, $3, NOW())
-             RETURNING *`,
-            [schedule.id, breakItem.time, breakItem.durationMinutes]
-          )
-        )
-      );
+      const chunks = await ScheduleModel.insertChunks(t, userId, schedule.id, scheduleData.chunks);
+      const breaks = await ScheduleModel.insertBreaks(t, schedule.id, scheduleData.breaks);
 
       return {
         ...schedule,
@@ -195,150 +187,515 @@ export class ScheduleModel {
     }
   }
 
-  static async update(id: string, userId: string, updates: Partial<Schedule>): Promise<Schedule> {
+  private static insertChunks(
+    t: IBaseProtocol<unknown>,
+    userId: string,
+    scheduleId: string,
+    chunks: ChunkInput[]
+  ): Promise<ScheduleChunkRow[]> {
+    return Promise.all(
+      chunks.map(chunk =>
+        t.one<ScheduleChunkRow>(
+          // A chunk whose task isn't on the server keeps its title but no task link,
+          // the same as after the task is deleted
+          `INSERT INTO schedule_chunks (
+            id, schedule_id, task_id, task_title, task_priority,
+            start_time, end_time, duration_minutes, nag_interval_minutes,
+            type, completed, completed_at, skipped, snoozed_until, last_interaction_at,
+            time_events, focus_minutes, created_at
+          )
+          VALUES (
+            COALESCE($1::uuid, gen_random_uuid()), $2,
+            (SELECT id FROM tasks WHERE id = $3::uuid AND user_id = $18),
+            $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW()
+          )
+          RETURNING *`,
+          [
+            chunk.id || null,
+            scheduleId,
+            chunk.taskId || null,
+            chunk.taskTitle,
+            chunk.taskPriority,
+            chunk.startTime,
+            chunk.endTime,
+            chunk.durationMinutes,
+            chunk.nagIntervalMinutes,
+            chunk.type,
+            chunk.completed || false,
+            chunk.completedAt || null,
+            chunk.skipped || false,
+            chunk.snoozedUntil || null,
+            chunk.lastInteractionAt || null,
+            JSON.stringify(chunk.timeEvents || []),
+            chunk.focusMinutes ?? null,
+            userId
+          ]
+        )
+      )
+    );
+  }
+
+  private static insertBreaks(
+    t: IBaseProtocol<unknown>,
+    scheduleId: string,
+    breaks: BreakInput[]
+  ): Promise<ScheduleBreakRow[]> {
+    return Promise.all(
+      breaks.map(breakItem =>
+        t.one<ScheduleBreakRow>(
+          `INSERT INTO schedule_breaks (id, schedule_id, time, duration_minutes, created_at)
+           VALUES (COALESCE($1::uuid, gen_random_uuid()), $2, $3, $4, NOW())
+           RETURNING *`,
+          [breakItem.id || null, scheduleId, breakItem.time, breakItem.durationMinutes]
+        )
+      )
+    );
+  }
+
+  static async createPlan(userId: string, planId: string, schedules: ScheduleInput[]): Promise<ScheduleRow[]> {
     try {
-      // Verify ownership
-      const existing = await db.oneOrNone(
-        'SELECT id FROM schedules WHERE id = $1 AND user_id = $2',
-        [id, userId]
+      // All days of a plan are saved together or not at all
+      return await db.tx(t =>
+        Promise.all(
+          schedules.map(scheduleData =>
+            ScheduleModel.create(userId, {
+              name: scheduleData.name,
+              planId,
+              date: scheduleData.date,
+              startTime: scheduleData.startTime,
+              endTime: scheduleData.endTime,
+              defaultChunkSize: scheduleData.defaultChunkSize,
+              status: scheduleData.status || 'active',
+              chunks: scheduleData.chunks || [],
+              breaks: scheduleData.breaks || []
+            }, t)
+          )
+        )
       );
+    } catch (error) {
+      console.error('Error creating schedule plan:', error);
+      throw error;
+    }
+  }
 
-      if (!existing) {
-        throw new Error('Schedule not found');
-      }
+  // chunks and breaks replace the stored ones when given. With baseUpdatedAt, throws a
+  // ConflictError if the schedule changed since the client last saw it.
+  // Returns null if there was no such schedule for the user
+  static async update(
+    id: string,
+    userId: string,
+    updates: UpdateScheduleRequest
+  ): Promise<ScheduleRow | null> {
+    try {
+      const found = await db.tx(async t => {
+        // Verify ownership
+        const existing = await t.oneOrNone(
+          'SELECT id, updated_at FROM schedules WHERE id = $1 AND user_id = $2 FOR UPDATE',
+          [id, userId]
+        );
 
-      const schedule = await db.one(
-        `UPDATE schedules
-         SET name = COALESCE($1, name),
-             date = COALESCE($2, date),
-             start_time = COALESCE($3, start_time),
-             end_time = COALESCE($4, end_time),
-             default_chunk_size = COALESCE($5, default_chunk_size),
-             status = COALESCE($6, status),
-             updated_at = NOW()
-         WHERE id = $7
-         RETURNING *`,
-        [updates.name, updates.date, updates.startTime, updates.endTime, updates.defaultChunkSize, updates.status, id]
-      );
+        if (!existing) return false;
 
-      // Load chunks and breaks
-      const chunks = await db.any<ScheduleChunk>(
-        'SELECT * FROM schedule_chunks WHERE schedule_id = $1 ORDER BY start_time',
-        [id]
-      );
+        if (isStale(existing.updated_at, updates.baseUpdatedAt)) {
+          throw new ConflictError('Schedule was changed on another device', await ScheduleModel.findById(id, userId, t));
+        }
 
-      const breaks = await db.any<ScheduleBreak>(
-        'SELECT * FROM schedule_breaks WHERE schedule_id = $1 ORDER BY time',
-        [id]
-      );
+        await t.none(
+          `UPDATE schedules
+           SET name = COALESCE($1, name),
+               date = COALESCE($2, date),
+               start_time = COALESCE($3, start_time),
+               end_time = COALESCE($4, end_time),
+               default_chunk_size = COALESCE($5, default_chunk_size),
+               status = COALESCE($6, status),
+               updated_at = NOW()
+           WHERE id = $7`,
+          [updates.name, updates.date, updates.startTime, updates.endTime, updates.defaultChunkSize, updates.status, id]
+        );
 
-      return {
-        ...schedule,
-        chunks,
-        breaks
-      };
+        if (updates.chunks) {
+          await t.none('DELETE FROM schedule_chunks WHERE schedule_id = $1', [id]);
+          await ScheduleModel.insertChunks(t, userId, id, updates.chunks);
+        }
+
+        if (updates.breaks) {
+          await t.none('DELETE FROM schedule_breaks WHERE schedule_id = $1', [id]);
+          await ScheduleModel.insertBreaks(t, id, updates.breaks);
+        }
+        return true;
+      });
+
+      return found ? ScheduleModel.findById(id, userId) : null;
     } catch (error) {
       console.error('Error updating schedule:', error);
       throw error;
     }
   }
 
-  static async delete(id: string, userId: string): Promise<void> {
+  // Returns false if there was no such schedule for the user
+  static async delete(id: string, userId: string): Promise<boolean> {
     try {
       const result = await db.result(
         'DELETE FROM schedules WHERE id = $1 AND user_id = $2',
         [id, userId]
       );
 
-      if (result.rowCount === 0) {
-        throw new Error('Schedule not found');
-      }
+      return result.rowCount > 0;
     } catch (error) {
       console.error('Error deleting schedule:', error);
       throw error;
     }
   }
 
+  // Switching away from another schedule ends that one's session. Throws a NOT_FOUND
+  // AppError if the schedule isn't the user's
   static async setActive(scheduleId: string, userId: string): Promise<void> {
     try {
-      // Verify schedule belongs to user
-      const schedule = await db.oneOrNone(
-        'SELECT id FROM schedules WHERE id = $1 AND user_id = $2',
-        [scheduleId, userId]
-      );
+      await db.tx(async t => {
+        // Verify schedule belongs to user
+        const schedule = await t.oneOrNone(
+          'SELECT id FROM schedules WHERE id = $1 AND user_id = $2',
+          [scheduleId, userId]
+        );
 
-      if (!schedule) {
-        throw new Error('Schedule not found');
-      }
+        if (!schedule) {
+          throw new AppError('NOT_FOUND', 'Schedule not found');
+        }
 
-      // Set as active
-      await db.none(
-        `INSERT INTO active_schedules (user_id, schedule_id, updated_at)
-         VALUES ($1, $2, NOW())
-         ON CONFLICT (user_id)
-         DO UPDATE SET schedule_id = $2, updated_at = NOW()`,
-        [userId, scheduleId]
-      );
+        const current = await t.oneOrNone(
+          'SELECT schedule_id, updated_at FROM active_schedules WHERE user_id = $1 FOR UPDATE',
+          [userId]
+        );
+
+        if (current?.schedule_id && current.schedule_id !== scheduleId) {
+          await ScheduleSessionModel.record(userId, current.schedule_id, current.updated_at, 'ended', t);
+        }
+
+        // Set as active - activating it again keeps the session's start
+        await t.none(
+          `INSERT INTO active_schedules (user_id, schedule_id, updated_at)
+           VALUES ($1, $2, NOW())
+           ON CONFLICT (user_id)
+           DO UPDATE SET schedule_id = $2,
+                         updated_at = CASE WHEN active_schedules.schedule_id IS DISTINCT FROM $2
+                                           THEN NOW() ELSE active_schedules.updated_at END`,
+          [userId, scheduleId]
+        );
+
+        // A finished schedule picked up again is running again
+        await t.none(
+          `UPDATE schedules SET status = 'active', completed_at = NULL, updated_at = NOW()
+           WHERE id = $1 AND status <> 'active'`,
+          [scheduleId]
+        );
+      });
     } catch (error) {
       console.error('Error setting active schedule:', error);
       throw error;
     }
   }
 
+  // End the schedule's session early. Returns null if it wasn't the active one.
+  static async deactivate(scheduleId: string, userId: string): Promise<ScheduleSessionRow | null> {
+    try {
+      return await db.tx(async t => {
+        const current = await t.oneOrNone(
+          'SELECT schedule_id, updated_at FROM active_schedules WHERE user_id = $1 FOR UPDATE',
+          [userId]
+        );
+
+        if (current?.schedule_id !== scheduleId) return null;
+
+        await t.none(
+          'UPDATE active_schedules SET schedule_id = NULL, updated_at = NOW() WHERE user_id = $1',
+          [userId]
+        );
+        return ScheduleSessionModel.record(userId, scheduleId, current.updated_at, 'ended', t);
+      });
+    } catch (error) {
+      console.error('Error deactivating schedule:', error);
+      throw error;
+    }
+  }
+
+  // Mark the schedule finished and record the session, once. Completing the active
+  // schedule also clears it; one that was never activated counts from its creation.
+  static async complete(scheduleId: string, userId: string): Promise<{
+    schedule: Omit<ScheduleRow, 'chunks' | 'breaks'>;
+    session: ScheduleSessionRow | null;
+    deactivated: boolean;
+  } | null> {
+    try {
+      return await db.tx(async t => {
+        const existing = await t.oneOrNone<Omit<ScheduleRow, 'chunks' | 'breaks'>>(
+          'SELECT * FROM schedules WHERE id = $1 AND user_id = $2 FOR UPDATE',
+          [scheduleId, userId]
+        );
+
+        if (!existing) return null;
+
+        const current = await t.oneOrNone(
+          'SELECT schedule_id, updated_at FROM active_schedules WHERE user_id = $1 FOR UPDATE',
+          [userId]
+        );
+        const deactivated = current?.schedule_id === scheduleId;
+
+        const schedule = await t.one<Omit<ScheduleRow, 'chunks' | 'breaks'>>(
+          `UPDATE schedules
+           SET status = 'completed', completed_at = COALESCE(completed_at, NOW()), updated_at = NOW()
+           WHERE id = $1
+           RETURNING *`,
+          [scheduleId]
+        );
+
+        if (deactivated) {
+          await t.none(
+            'UPDATE active_schedules SET schedule_id = NULL, updated_at = NOW() WHERE user_id = $1',
+            [userId]
+          );
+        }
+
+        let session: ScheduleSessionRow | null = null;
+        if (!(await ScheduleSessionModel.hasCompleted(scheduleId, t))) {
+          const startedAt = deactivated ? current.updated_at : existing.created_at;
+          session = await ScheduleSessionModel.record(userId, scheduleId, startedAt, 'completed', t);
+        }
+
+        return { schedule, session, deactivated };
+      });
+    } catch (error) {
+      console.error('Error completing schedule:', error);
+      throw error;
+    }
+  }
+
+  // A chunk nobody started counts from its start time on the schedule's day in timeZone.
+  // Throws a NOT_FOUND AppError if the schedule isn't the user's or has no such chunk
   static async markChunkComplete(
     scheduleId: string,
     chunkId: string,
-    userId: string
+    userId: string,
+    timeZone: string
   ): Promise<{ success: boolean; updatedTask?: any }> {
     try {
-      // Verify schedule belongs to user
-      const schedule = await db.oneOrNone(
-        'SELECT id FROM schedules WHERE id = $1 AND user_id = $2',
-        [scheduleId, userId]
-      );
+      return await db.tx(async t => {
+        // Verify schedule belongs to user
+        const schedule = await t.oneOrNone(
+          'SELECT id FROM schedules WHERE id = $1 AND user_id = $2',
+          [scheduleId, userId]
+        );
 
-      if (!schedule) {
-        throw new Error('Schedule not found');
-      }
+        if (!schedule) {
+          throw new AppError('NOT_FOUND', 'Schedule not found');
+        }
+
+        // scheduled_start is the instant the chunk starts on the schedule's day in timeZone
+        const chunk = await t.oneOrNone<ScheduleChunkRow & { scheduled_start: Date }>(
+          `SELECT c.*, (s.date + c.start_time) AT TIME ZONE $3 AS scheduled_start
+           FROM schedule_chunks c
+           INNER JOIN schedules s ON s.id = c.schedule_id
+           WHERE c.id = $1 AND c.schedule_id = $2
+           FOR UPDATE OF c`,
+          [chunkId, scheduleId, timeZone]
+        );
 
-      // Get chunk
-      const chunk = await db.oneOrNone<ScheduleChunk>(
-        'SELECT * FROM schedule_chunks WHERE id = $1 AND schedule_id = $2',
-        [chunkId, scheduleId]
-      );
+        if (!chunk) {
+          throw new AppError('NOT_FOUND', 'Chunk not found');
+        }
+
+        if (chunk.completed) {
+          return { success: true }; // Already completed
+        }
+
+        // Credit the measured focus time - pauses don't count, overtime does
+        const completedAt = new Date();
+        let timeEvents: ChunkTimeEvent[] = chunk.time_events || [];
+        let focusMinutes: number | null = null;
+        if (chunk.type === 'task') {
+          timeEvents = withImplicitStart(timeEvents, chunk.scheduled_start, completedAt);
+          focusMinutes = getFocusMinutes(timeEvents, completedAt);
+        }
+
+        await t.none(
+          `UPDATE schedule_chunks
+           SET completed = true, completed_at = $2, time_events = $3::jsonb, focus_minutes = $4
+           WHERE id = $1`,
+          [chunkId, completedAt, JSON.stringify(timeEvents), focusMinutes]
+        );
 
-      if (!chunk) {
-        throw new Error('Chunk not found');
-      }
+        // Update task if this is a task chunk
+        let updatedTask;
+        if (focusMinutes !== null && chunk.task_id) {
+          updatedTask = await t.oneOrNone(
+            `UPDATE tasks
+             SET hours_completed = hours_completed + $1,
+                 updated_at = NOW()
+             WHERE id = $2 AND user_id = $3
+             RETURNING *`,
+            [focusMinutes / 60, chunk.task_id, userId]
+          );
+        }
 
-      if (chunk.completed) {
-        return { success: true }; // Already completed
-      }
+        return { success: true, updatedTask };
+      });
+    } catch (error) {
+      console.error('Error marking chunk complete:', error);
+      throw error;
+    }
+  }
+
+  // Start, pause or resume a chunk's focus clock. Returns null if the chunk isn't open
+  // or isn't the user's; throws a RangeError if the event doesn't follow from the last one.
+  static async recordTimeEvent(
+    scheduleId: string,
+    chunkId: string,
+    userId: string,
+    type: ChunkTimeEventType
+  ): Promise<ScheduleChunkRow | null> {
+    try {
+      return await db.tx(async t => {
+        const chunk = await t.oneOrNone(
+          `SELECT c.time_events FROM schedule_chunks c
+           INNER JOIN schedules s ON s.id = c.schedule_id
+           WHERE c.id = $2 AND c.schedule_id = $1 AND s.user_id = $3 AND c.type = 'task'
+             AND NOT c.completed AND NOT COALESCE(c.skipped, false)
+           FOR UPDATE OF c`,
+          [scheduleId, chunkId, userId]
+        );
+
+        if (!chunk) return null;
+
+        if (!canRecordTimeEvent(chunk.time_events, type)) {
+          throw new RangeError(`Can't ${type} this chunk now`);
+        }
+
+        const event: ChunkTimeEvent = { type, at: new Date().toISOString() };
+        return await t.one<ScheduleChunkRow>(
+          `UPDATE schedule_chunks
+           SET time_events = time_events || $2::jsonb, last_interaction_at = NOW()
+           WHERE id = $1
+           RETURNING *`,
+          [chunkId, JSON.stringify([event])]
+        );
+      });
+    } catch (error) {
+      console.error('Error recording chunk time event:', error);
+      throw error;
+    }
+  }
+
+  // Quiet a chunk's nags for a while; returns null if the chunk isn't open or isn't the user's
+  static async snoozeChunk(
+    scheduleId: string,
+    chunkId: string,
+    userId: string,
+    minutes: number
+  ): Promise<ScheduleChunkRow | null> {
+    try {
+      return await db.oneOrNone<ScheduleChunkRow>(
+        `UPDATE schedule_chunks c
+         SET snoozed_until = NOW() + make_interval(mins => $4), last_interaction_at = NOW()
+         FROM schedules s
+         WHERE c.id = $2 AND c.schedule_id = $1 AND s.id = c.schedule_id AND s.user_id = $3
+           AND NOT c.completed AND NOT COALESCE(c.skipped, false)
+         RETURNING c.*`,
+        [scheduleId, chunkId, userId, minutes]
+      );
+    } catch (error) {
+      console.error('Error snoozing chunk:', error);
+      throw error;
+    }
+  }
 
-      // Mark chunk complete
-      await db.none(
-        `UPDATE schedule_chunks
-         SET completed = true, completed_at = NOW()
-         WHERE id = $1`,
-        [chunkId]
+  // Give up a chunk - no progress is credited, so its minutes stay with the task
+  static async skipChunk(
+    scheduleId: string,
+    chunkId: string,
+    userId: string
+  ): Promise<ScheduleChunkRow | null> {
+    try {
+      return await db.oneOrNone<ScheduleChunkRow>(
+        `UPDATE schedule_chunks c
+         SET skipped = true, skipped_at = NOW(), snoozed_until = NULL
+         FROM schedules s
+         WHERE c.id = $2 AND c.schedule_id = $1 AND s.id = c.schedule_id AND s.user_id = $3
+           AND NOT c.completed AND NOT COALESCE(c.skipped, false)
+         RETURNING c.*`,
+        [scheduleId, chunkId, userId]
       );
+    } catch (error) {
+      console.error('Error skipping chunk:', error);
+      throw error;
+    }
+  }
 
-      // Update task if this is a task chunk
-      let updatedTask;
-      if (chunk.type === 'task' && chunk.taskId) {
-        updatedTask = await db.oneOrNone(
-          `UPDATE tasks
-           SET hours_completed = LEAST(hours_completed + $1, estimated_hours),
+  // Lengthen a chunk and push every later chunk and break back by the same amount.
+  // Throws a RangeError if the schedule would run past midnight.
+  static async extendChunk(
+    scheduleId: string,
+    chunkId: string,
+    userId: string,
+    minutes: number
+  ): Promise<ScheduleRow | null> {
+    try {
+      const found = await db.tx(async t => {
+        const chunk = await t.oneOrNone(
+          `SELECT c.end_time FROM schedule_chunks c
+           INNER JOIN schedules s ON s.id = c.schedule_id
+           WHERE c.id = $2 AND c.schedule_id = $1 AND s.user_id = $3
+             AND NOT c.completed AND NOT COALESCE(c.skipped, false)`,
+          [scheduleId, chunkId, userId]
+        );
+
+        if (!chunk) return false;
+
+        const { last_end } = await t.one(
+          `SELECT EXTRACT(EPOCH FROM MAX(end_time)) / 60 AS last_end FROM schedule_chunks
+           WHERE schedule_id = $1 AND (id = $2 OR start_time >= $3)`,
+          [scheduleId, chunkId, chunk.end_time]
+        );
+
+        if (Number(last_end) + minutes >= 24 * 60) {
+          throw new RangeError('Extending this chunk would run the schedule past midnight');
+        }
+
+        await t.none(
+          `UPDATE schedule_chunks
+           SET start_time = start_time + make_interval(mins => $3),
+               end_time = end_time + make_interval(mins => $3)
+           WHERE schedule_id = $1 AND id <> $2 AND start_time >= $4`,
+          [scheduleId, chunkId, minutes, chunk.end_time]
+        );
+
+        await t.none(
+          `UPDATE schedule_chunks
+           SET end_time = end_time + make_interval(mins => $2),
+               duration_minutes = duration_minutes + $2,
+               last_interaction_at = NOW()
+           WHERE id = $1`,
+          [chunkId, minutes]
+        );
+
+        await t.none(
+          `UPDATE schedule_breaks SET time = time + make_interval(mins => $2)
+           WHERE schedule_id = $1 AND time >= $3`,
+          [scheduleId, minutes, chunk.end_time]
+        );
+
+        await t.none(
+          `UPDATE schedules
+           SET end_time = GREATEST(end_time, (SELECT MAX(end_time) FROM schedule_chunks WHERE schedule_id = $1)),
                updated_at = NOW()
-           WHERE id = $2 AND user_id = $3
-           RETURNING *`,
-          [chunk.durationMinutes / 60, chunk.taskId, userId]
+           WHERE id = $1`,
+          [scheduleId]
         );
-      }
 
-      return { success: true, updatedTask };
+        return true;
+      });
+
+      return found ? await this.findById(scheduleId, userId) : null;
     } catch (error) {
-      console.error('Error marking chunk complete:', error);
+      console.error('Error extending chunk:', error);
       throw error;
     }
   }
@@ -0,0 +1,67 @@
+import { IBaseProtocol } from 'pg-promise';
+import { db } from '../config/database';
+import { ScheduleChunkRow, ScheduleSessionRow, ScheduleSessionOutcome } from '../types';
+import { summarizeChunks } from '../types/shared';
+
+const COLUMNS = 'id, user_id, schedule_id, schedule_name, schedule_date, started_at, ended_at, outcome, summary';
+
+export class ScheduleSessionModel {
+  static async findByUser(userId: string, limit: number): Promise<ScheduleSessionRow[]> {
+    try {
+      return await db.any<ScheduleSessionRow>(
+        `SELECT ${COLUMNS} FROM schedule_sessions WHERE user_id = $1 ORDER BY ended_at DESC LIMIT $2`,
+        [userId, limit]
+      );
+    } catch (error) {
+      console.error('Error finding schedule sessions:', error);
+      throw error;
+    }
+  }
+
+  static async hasCompleted(scheduleId: string, t: IBaseProtocol<unknown> = db): Promise<boolean> {
+    try {
+      const row = await t.oneOrNone(
+        `SELECT 1 FROM schedule_sessions WHERE schedule_id = $1 AND outcome = 'completed' LIMIT 1`,
+        [scheduleId]
+      );
+      return !!row;
+    } catch (error) {
+      console.error('Error checking schedule sessions:', error);
+      throw error;
+    }
+  }
+
+  // Close a session of the schedule, summarizing its chunks as they are now
+  static async record(
+    userId: string,
+    scheduleId: string,
+    startedAt: Date,
+    outcome: ScheduleSessionOutcome,
+    t: IBaseProtocol<unknown> = db
+  ): Promise<ScheduleSessionRow> {
+    try {
+      const schedule = await t.one('SELECT name, date FROM schedules WHERE id = $1', [scheduleId]);
+      const chunks = await t.any<Pick<ScheduleChunkRow, 'type' | 'completed' | 'skipped' | 'duration_minutes' | 'focus_minutes'>>(
+        'SELECT type, completed, skipped, duration_minutes, focus_minutes FROM schedule_chunks WHERE schedule_id = $1',
+        [scheduleId]
+      );
+      const summary = summarizeChunks(chunks.map(c => ({
+        type: c.type,
+        completed: c.completed,
+        skipped: c.skipped,
+        durationMinutes: c.duration_minutes,
+        focusMinutes: c.focus_minutes
+      })));
+
+      return await t.one<ScheduleSessionRow>(
+        `INSERT INTO schedule_sessions (user_id, schedule_id, schedule_name, schedule_date, started_at, ended_at, outcome, summary)
+         VALUES ($1, $2, $3, $4, $5, NOW(), $6, $7::jsonb)
+         RETURNING ${COLUMNS}`,
+        [userId, scheduleId, schedule.name, schedule.date, startedAt, outcome, JSON.stringify(summary)]
+      );
+    } catch (error) {
+      console.error('Error recording schedule session:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { db } from '../config/database';
+import { ScheduleTemplate, ScheduleTemplateRow } from '../types';
+
+export class ScheduleTemplateModel {
+  static async findAll(userId: string): Promise<ScheduleTemplateRow[]> {
+    try {
+      return await db.any<ScheduleTemplateRow>(
+        'SELECT * FROM schedule_templates WHERE user_id = $1 ORDER BY created_at',
+        [userId]
+      );
+    } catch (error) {
+      console.error('Error finding schedule templates:', error);
+      throw error;
+    }
+  }
+
+  static async create(userId: string, data: Omit<ScheduleTemplate, 'id' | 'createdAt'>): Promise<ScheduleTemplateRow> {
+    try {
+      return await db.one<ScheduleTemplateRow>(
+        `INSERT INTO schedule_templates (
+          user_id, name, start_time, end_time, default_chunk_size,
+          breaks, task_ids, recurrence, last_created_on, created_at, updated_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7::uuid[], $8, $9, NOW(), NOW())
+        RETURNING *`,
+        [
+          userId,
+          data.name,
+          data.startTime,
+          data.endTime,
+          data.defaultChunkSize,
+          JSON.stringify(data.breaks || []),
+          data.taskIds || [],
+          JSON.stringify(data.recurrence),
+          data.lastCreatedOn || null
+        ]
+      );
+    } catch (error) {
+      console.error('Error creating schedule template:', error);
+      throw error;
+    }
+  }
+
+  static async update(id: string, userId: string, updates: Partial<ScheduleTemplate>): Promise<ScheduleTemplateRow | null> {
+    try {
+      return await db.oneOrNone<ScheduleTemplateRow>(
+        `UPDATE schedule_templates
+         SET name = COALESCE($1, name),
+             start_time = COALESCE($2, start_time),
+             end_time = COALESCE($3, end_time),
+             default_chunk_size = COALESCE($4, default_chunk_size),
+             breaks = COALESCE($5, breaks),
+             task_ids = COALESCE($6::uuid[], task_ids),
+             recurrence = COALESCE($7, recurrence),
+             last_created_on = COALESCE($8, last_created_on),
+             updated_at = NOW()
+         WHERE id = $9 AND user_id = $10
+         RETURNING *`,
+        [
+          updates.name,
+          updates.startTime,
+          updates.endTime,
+          updates.defaultChunkSize,
+          updates.breaks ? JSON.stringify(updates.breaks) : null,
+          updates.taskIds || null,
+          updates.recurrence ? JSON.stringify(updates.recurrence) : null,
+          updates.lastCreatedOn,
+          id,
+          userId
+        ]
+      );
+    } catch (error) {
+      console.error('Error updating schedule template:', error);
+      throw error;
+    }
+  }
+
+  static async delete(id: string, userId: string): Promise<boolean> {
+    try {
+      const result = await db.result(
+        'DELETE FROM schedule_templates WHERE id = $1 AND user_id = $2',
+        [id, userId]
+      );
+      return result.rowCount > 0;
+    } catch (error) {
+      console.error('Error deleting schedule template:', error);
+      throw error;
+    }
+  }
+}
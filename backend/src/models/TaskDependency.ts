@@ -0,0 +1,83 @@
+import { IBaseProtocol } from 'pg-promise';
+import { db } from '../config/database';
+
+export class TaskDependencyModel {
+  // Prerequisite IDs for every task of a user, keyed by task ID
+  static async findGraph(userId: string): Promise<Map<string, string[]>> {
+    try {
+      const rows = await db.any<{ task_id: string; depends_on_task_id: string }>(
+        `SELECT d.task_id, d.depends_on_task_id
+         FROM task_dependencies d
+         INNER JOIN tasks t ON t.id = d.task_id
+         WHERE t.user_id = $1`,
+        [userId]
+      );
+
+      const graph = new Map<string, string[]>();
+      for (const row of rows) {
+        graph.set(row.task_id, [...(graph.get(row.task_id) || []), row.depends_on_task_id]);
+      }
+      return graph;
+    } catch (error) {
+      console.error('Error finding task dependencies:', error);
+      throw error;
+    }
+  }
+
+  // IDs from the list that are not tasks owned by the user
+  static async findMissing(userId: string, taskIds: string[]): Promise<string[]> {
+    if (taskIds.length === 0) return [];
+
+    try {
+      const rows = await db.any<{ id: string }>(
+        'SELECT id FROM tasks WHERE user_id = $1 AND id IN ($2:csv)',
+        [userId, taskIds]
+      );
+      const found = new Set(rows.map(r => r.id));
+      return taskIds.filter(id => !found.has(id));
+    } catch (error) {
+      console.error('Error checking dependency tasks:', error);
+      throw error;
+    }
+  }
+
+  // Would setting taskId's prerequisites to dependsOn close a loop?
+  static async wouldCreateCycle(userId: string, taskId: string, dependsOn: string[]): Promise<boolean> {
+    const graph = await TaskDependencyModel.findGraph(userId);
+    graph.set(taskId, dependsOn);
+
+    const stack = [...dependsOn];
+    const visited = new Set<string>();
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === taskId) return true;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      stack.push(...(graph.get(current) || []));
+    }
+
+    return false;
+  }
+
+  static async replace(
+    taskId: string,
+    dependsOn: string[],
+    t: IBaseProtocol<unknown> = db
+  ): Promise<void> {
+    try {
+      await t.none('DELETE FROM task_dependencies WHERE task_id = $1', [taskId]);
+
+      for (const depId of dependsOn) {
+        await t.none(
+          `INSERT INTO task_dependencies (task_id, depends_on_task_id, created_at)
+           VALUES ($1, $2, NOW())
+           ON CONFLICT DO NOTHING`,
+          [taskId, depId]
+        );
+      }
+    } catch (error) {
+      console.error('Error replacing task dependencies:', error);
+      throw error;
+    }
+  }
+}
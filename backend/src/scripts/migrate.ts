@@ -0,0 +1,76 @@
+// Applies and rolls back the SQL migrations in migrations/.
+//
+//   npm run migrate                       apply every pending migration
+//   npm run migrate -- down [steps]       roll back the last migration (or the last few)
+//   npm run migrate -- status             list applied and pending migrations
+//   npm run migrate -- baseline <version> record migrations up to <version> as applied
+//                                         without running them (schema set up by hand)
+//
+// From a build: node dist/scripts/migrate.js [command]
+
+import { db } from '../config/database';
+import {
+  baselineMigrations,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp
+} from '../services/schema.service';
+
+function parseCount(value: string | undefined, fallback?: number): number {
+  if (value === undefined && fallback !== undefined) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Expected a positive whole number, got "${value ?? ''}"`);
+  }
+  return count;
+}
+
+async function printStatus(): Promise<void> {
+  const { applied, pending, unknown } = await getMigrationStatus();
+
+  for (const migration of applied) {
+    console.log(`  applied  ${String(migration.version).padStart(3, '0')}_${migration.name}  (${migration.appliedAt.toISOString()})`);
+  }
+  for (const migration of pending) {
+    console.log(`  pending  ${migration.upFile}`);
+  }
+  if (unknown.length > 0) {
+    console.log(`\n⚠️ Applied but not in migrations/: ${unknown.map(m => m.version).join(', ')}`);
+  }
+  console.log(`\n${applied.length} applied, ${pending.length} pending`);
+}
+
+async function main(): Promise<void> {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp();
+      console.log(applied.length > 0 ? `✓ ${applied.length} migrations applied` : '✓ Already up to date');
+      break;
+    }
+    case 'down': {
+      const rolledBack = await migrateDown(parseCount(arg, 1));
+      console.log(rolledBack.length > 0 ? `✓ ${rolledBack.length} migrations rolled back` : 'Nothing to roll back');
+      break;
+    }
+    case 'status':
+      await printStatus();
+      break;
+    case 'baseline': {
+      const recorded = await baselineMigrations(parseCount(arg));
+      console.log(`✓ ${recorded.length} migrations recorded as applied`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" - use up, down, status or baseline`);
+  }
+}
+
+main()
+  .then(() => db.$pool.end())
+  .catch(async error => {
+    console.error(`✗ ${error instanceof Error ? error.message : error}`);
+    await db.$pool.end();
+    process.exit(1);
+  });
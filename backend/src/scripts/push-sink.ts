@@ -0,0 +1,75 @@
+// Local stand-in for a browser push service, for trying the push worker without a browser.
+//
+//   npm run push:sink
+//
+// Prints a push subscription; register it with POST /api/push/subscriptions and every
+// nag the worker sends is decrypted (RFC 8291, aes128gcm) and logged here.
+
+import crypto from 'crypto';
+import http from 'http';
+
+const PORT = parseInt(process.env.PUSH_SINK_PORT || '4001', 10);
+
+const ecdh = crypto.createECDH('prime256v1');
+const publicKey = ecdh.generateKeys();
+const authSecret = crypto.randomBytes(16);
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+function decrypt(body: Buffer): string {
+  // Header: salt (16) | record size (4) | key id length (1) | key id (sender public key)
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const senderPublicKey = body.subarray(21, 21 + keyIdLength);
+  const record = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = ecdh.computeSecret(senderPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), publicKey, senderPublicKey]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(record.subarray(record.length - 16));
+  const padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+  // Strip padding: trailing zeros after the 0x02 last-record delimiter
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  return padded.subarray(0, end).toString('utf8');
+}
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    try {
+      const payload = decrypt(Buffer.concat(chunks));
+      console.log(`[${new Date().toISOString()}] TTL=${req.headers.ttl} Urgency=${req.headers.urgency}`);
+      console.log(JSON.stringify(JSON.parse(payload), null, 2));
+      res.writeHead(201).end();
+    } catch (error) {
+      console.error('Could not decrypt push message:', error);
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  const subscription = {
+    endpoint: `http://localhost:${PORT}/push/${crypto.randomBytes(8).toString('hex')}`,
+    keys: {
+      p256dh: publicKey.toString('base64url'),
+      auth: authSecret.toString('base64url')
+    }
+  };
+
+  console.log(`✓ Push sink listening on port ${PORT}`);
+  console.log('Register this subscription with POST /api/push/subscriptions:');
+  console.log(JSON.stringify({
+    subscription,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+  }, null, 2));
+});
@@ -5,26 +5,76 @@ import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 import { env } from './config/env';
 import { db, testConnection } from './config/database';
-import { errorHandler } from './middleware/errorHandler';
-import { authenticateJWT } from './middleware/auth';
-import { generateJWT, verifyJWT } from './services/jwt.service';
+import { AppError, errorHandler, notFoundHandler, sendError } from './middleware/errorHandler';
+import { assignRequestId } from './middleware/requestId';
+import { validate, ValidationError } from './middleware/validate';
+import { authenticateJWT, authenticateEventStream } from './middleware/auth';
+import { generateJWT, generateStreamTicket, verifyJWT } from './services/jwt.service';
 import { UserModel } from './models/User';
 import { ScheduleModel } from './models/Schedule';
+import { TaskDependencyModel } from './models/TaskDependency';
+import { ScheduleTemplateModel } from './models/ScheduleTemplate';
+import { ScheduleSessionModel } from './models/ScheduleSession';
+import { InsightsModel } from './models/Insights';
 import { MigrationService } from './services/migration.service';
 import { encryptApiKey, decryptApiKey } from './services/encryption.service';
+import { isPushConfigured, getVapidPublicKey, startPushWorker } from './services/push.service';
+import { ConflictError, isStale, getChangesSince, startTombstonePruner } from './services/sync.service';
+import { openEventStream, publishChange } from './services/events.service';
+import { buildCalendarFeed } from './services/calendar.service';
+import { addDays, getLocalClock, TIME_EVENT_TYPES } from './types/shared';
+import { validateBackup, exportUserData, importUserData } from './services/backup.service';
+import { getMigrationStatus } from './services/schema.service';
+import { PushSubscriptionModel } from './models/PushSubscription';
+import { CalendarFeedModel } from './models/CalendarFeed';
+import { ChangeEvent, DataExport } from './types';
+import { ErrorCode } from './types/errors';
+import {
+  aiGenerateSchema,
+  apiKeySchema,
+  calendarFeedSchema,
+  chunkMinutesSchema,
+  chunkCompleteSchema,
+  chunkParams,
+  createPlanSchema,
+  createScheduleSchema,
+  createTaskSchema,
+  createTemplateSchema,
+  focusInsightsQuery,
+  historyQuery,
+  idParams,
+  importSchema,
+  insightsQuery,
+  migrationSchema,
+  pushSubscribeSchema,
+  pushUnsubscribeSchema,
+  scheduleListQuery,
+  syncQuery,
+  updateScheduleSchema,
+  updateSettingsSchema,
+  updateTaskSchema,
+  updateTemplateSchema
+} from './types/schemas';
 
 const app = express();
 
 // Middleware
+app.use(assignRequestId);
 app.use(helmet());
 app.use(cors({
   origin: [env.FRONTEND_URL, 'http://localhost:5173'],
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['X-Request-Id']
 }));
-app.use(express.json());
+// Backups and first-login migrations carry a user's whole history
+app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 app.use(passport.initialize());
 
+// Sessions send X-Client-Id so the change events they cause aren't echoed back to them
+const notify = (req: express.Request, event: ChangeEvent) =>
+  publishChange(req.userId!, event, req.get('X-Client-Id'));
+
 // Configure Google OAuth Strategy
 passport.use(new GoogleStrategy({
     clientID: env.GOOGLE_CLIENT_ID,
@@ -96,11 +146,11 @@ app.get('/auth/me', authenticateJWT, async (req, res) => {
   try {
     const user = await UserModel.findById(req.userId!);
     if (!user) {
-      return res.status(404).json({ error: 'User not found' });
+      return sendError(res, 'NOT_FOUND', 'User not found');
     }
     res.json(user);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch user' });
+    sendError(res, 'INTERNAL', 'Failed to fetch user', { cause: error });
   }
 });
 
@@ -113,73 +163,211 @@ app.post('/auth/logout', authenticateJWT, (req, res) => {
 app.get('/api/tasks', authenticateJWT, async (req, res) => {
   try {
     const tasks = await db.any(
-      'SELECT * FROM tasks WHERE user_id = $1 ORDER BY created_at DESC',
+      `SELECT t.*,
+              ARRAY(SELECT d.depends_on_task_id FROM task_dependencies d WHERE d.task_id = t.id) AS depends_on
+       FROM tasks t
+       WHERE t.user_id = $1
+       ORDER BY t.created_at DESC`,
       [req.userId]
     );
     res.json(tasks);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch tasks' });
+    sendError(res, 'INTERNAL', 'Failed to fetch tasks', { cause: error });
   }
 });
 
-app.post('/api/tasks', authenticateJWT, async (req, res) => {
+app.post('/api/tasks', authenticateJWT, validate({ body: createTaskSchema }), async (req, res) => {
   try {
-    const { title, priority, estimatedHours, hoursCompleted, defaultNagInterval } = req.body;
+    const {
+      id,
+      title,
+      priority,
+      estimatedHours,
+      originalEstimatedHours,
+      hoursCompleted,
+      defaultNagInterval,
+      defaultChunkSize,
+      dueDate,
+      dueTime,
+      dependsOn,
+      recurrence,
+      lastRecurredOn,
+      escalation
+    } = req.body;
 
-    if (!title || !priority || estimatedHours === undefined) {
-      return res.status(400).json({ error: 'Missing required fields' });
+    const prerequisites = dependsOn || [];
+    const missing = await TaskDependencyModel.findMissing(req.userId!, prerequisites);
+    if (missing.length > 0) {
+      return sendError(res, 'VALIDATION', `Unknown prerequisite tasks: ${missing.join(', ')}`);
     }
 
-    const task = await db.one(
-      `INSERT INTO tasks (user_id, title, priority, estimated_hours, hours_completed, default_nag_interval, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
-       RETURNING *`,
-      [req.userId, title, priority, estimatedHours, hoursCompleted || 0, defaultNagInterval || null]
-    );
+    const task = await db.tx(async t => {
+      // Offline clients pick their own IDs; taking one that exists is a conflict
+      const created = await t.oneOrNone(
+        `INSERT INTO tasks (
+          id, user_id, title, priority, estimated_hours, hours_completed, default_nag_interval,
+          due_date, due_time, recurrence, last_recurred_on, escalation, default_chunk_size,
+          original_estimated_hours, created_at, updated_at
+        )
+        VALUES (
+          COALESCE($12::uuid, gen_random_uuid()), $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $13,
+          COALESCE($14, $4), NOW(), NOW()
+        )
+        ON CONFLICT (id) DO NOTHING
+        RETURNING *`,
+        [
+          req.userId,
+          title,
+          priority,
+          estimatedHours,
+          hoursCompleted || 0,
+          defaultNagInterval || null,
+          dueDate || null,
+          dueTime || null,
+          recurrence ? JSON.stringify(recurrence) : null,
+          recurrence ? lastRecurredOn || null : null,
+          escalation ? JSON.stringify(escalation) : null,
+          id || null,
+          defaultChunkSize || null,
+          originalEstimatedHours ?? null
+        ]
+      );
+
+      if (!created) return null;
 
+      await TaskDependencyModel.replace(created.id, prerequisites, t);
+      return { ...created, depends_on: prerequisites };
+    });
+
+    if (!task) {
+      const current = await db.oneOrNone(
+        `SELECT t.*,
+                ARRAY(SELECT d.depends_on_task_id FROM task_dependencies d WHERE d.task_id = t.id) AS depends_on
+         FROM tasks t
+         WHERE t.id = $1 AND t.user_id = $2`,
+        [id, req.userId]
+      );
+      return sendError(res, 'CONFLICT', 'Task already exists', { current });
+    }
+
+    notify(req, { type: 'task', taskId: task.id });
     res.status(201).json(task);
   } catch (error) {
-    console.error('Create task error:', error);
-    res.status(500).json({ error: 'Failed to create task' });
+    sendError(res, 'INTERNAL', 'Failed to create task', { cause: error });
   }
 });
 
-app.put('/api/tasks/:id', authenticateJWT, async (req, res) => {
+app.put('/api/tasks/:id', authenticateJWT, validate({ params: idParams, body: updateTaskSchema }), async (req, res) => {
   try {
     const { id } = req.params;
-    const { title, priority, estimatedHours, hoursCompleted, defaultNagInterval } = req.body;
+    const {
+      title,
+      priority,
+      estimatedHours,
+      originalEstimatedHours,
+      hoursCompleted,
+      defaultNagInterval,
+      defaultChunkSize,
+      dueDate,
+      dueTime,
+      dependsOn,
+      recurrence,
+      lastRecurredOn,
+      escalation,
+      baseUpdatedAt
+    } = req.body;
 
     // Verify task belongs to user
     const existing = await db.oneOrNone(
-      'SELECT id FROM tasks WHERE id = $1 AND user_id = $2',
+      `SELECT t.*,
+              ARRAY(SELECT d.depends_on_task_id FROM task_dependencies d WHERE d.task_id = t.id) AS depends_on
+       FROM tasks t
+       WHERE t.id = $1 AND t.user_id = $2`,
       [id, req.userId]
     );
 
     if (!existing) {
-      return res.status(404).json({ error: 'Task not found' });
-    }
-
-    const task = await db.one(
-      `UPDATE tasks
-       SET title = COALESCE($1, title),
-           priority = COALESCE($2, priority),
-           estimated_hours = COALESCE($3, estimated_hours),
-           hours_completed = COALESCE($4, hours_completed),
-           default_nag_interval = COALESCE($5, default_nag_interval),
-           updated_at = NOW()
-       WHERE id = $6
-       RETURNING *`,
-      [title, priority, estimatedHours, hoursCompleted, defaultNagInterval, id]
-    );
+      return sendError(res, 'NOT_FOUND', 'Task not found');
+    }
+
+    // Sync clients send the updated_at they last saw
+    if (isStale(existing.updated_at, baseUpdatedAt)) {
+      return sendError(res, 'CONFLICT', 'Task was changed on another device', { current: existing });
+    }
+
+    // dependsOn replaces all prerequisites when given, omitting it leaves them unchanged
+    if (dependsOn !== undefined) {
+      const missing = await TaskDependencyModel.findMissing(req.userId!, dependsOn);
+      if (missing.length > 0) {
+        return sendError(res, 'VALIDATION', `Unknown prerequisite tasks: ${missing.join(', ')}`);
+      }
+
+      if (await TaskDependencyModel.wouldCreateCycle(req.userId!, id, dependsOn)) {
+        return sendError(res, 'VALIDATION', 'Task dependencies cannot form a cycle');
+      }
+    }
+
+    const task = await db.tx(async t => {
+      const updated = await t.one(
+        `UPDATE tasks
+         SET title = COALESCE($1, title),
+             priority = COALESCE($2, priority),
+             estimated_hours = COALESCE($3, estimated_hours),
+             hours_completed = COALESCE($4, hours_completed),
+             default_nag_interval = COALESCE($5, default_nag_interval),
+             due_date = CASE WHEN $6::boolean THEN $7::date ELSE due_date END,
+             due_time = CASE WHEN $6::boolean THEN $8::time ELSE due_time END,
+             recurrence = CASE WHEN $9::boolean THEN $10::jsonb ELSE recurrence END,
+             last_recurred_on = COALESCE($11, last_recurred_on),
+             escalation = CASE WHEN $12::boolean THEN $13::jsonb ELSE escalation END,
+             default_chunk_size = COALESCE($14, default_chunk_size),
+             original_estimated_hours = COALESCE($16, original_estimated_hours),
+             updated_at = NOW()
+         WHERE id = $15
+         RETURNING *`,
+        [
+          title,
+          priority,
+          estimatedHours,
+          hoursCompleted,
+          defaultNagInterval,
+          // dueDate: null clears the deadline, omitting it leaves it unchanged
+          dueDate !== undefined,
+          dueDate || null,
+          dueDate ? dueTime || null : null,
+          // Same for recurrence: null stops the task repeating
+          recurrence !== undefined,
+          recurrence ? JSON.stringify(recurrence) : null,
+          lastRecurredOn,
+          // escalation: null falls back to the default policy from settings
+          escalation !== undefined,
+          escalation ? JSON.stringify(escalation) : null,
+          defaultChunkSize,
+          id,
+          originalEstimatedHours
+        ]
+      );
+
+      if (dependsOn !== undefined) {
+        await TaskDependencyModel.replace(id, dependsOn, t);
+      }
+
+      const prerequisites = await t.map(
+        'SELECT depends_on_task_id FROM task_dependencies WHERE task_id = $1',
+        [id],
+        row => row.depends_on_task_id
+      );
+      return { ...updated, depends_on: prerequisites };
+    });
 
+    notify(req, { type: 'task', taskId: id });
     res.json(task);
   } catch (error) {
-    console.error('Update task error:', error);
-    res.status(500).json({ error: 'Failed to update task' });
+    sendError(res, 'INTERNAL', 'Failed to update task', { cause: error });
   }
 });
 
-app.delete('/api/tasks/:id', authenticateJWT, async (req, res) => {
+app.delete('/api/tasks/:id', authenticateJWT, validate({ params: idParams }), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -189,13 +377,13 @@ app.delete('/api/tasks/:id', authenticateJWT, async (req, res) => {
     );
 
     if (result.rowCount === 0) {
-      return res.status(404).json({ error: 'Task not found' });
+      return sendError(res, 'NOT_FOUND', 'Task not found');
     }
 
+    notify(req, { type: 'task', taskId: id });
     res.json({ success: true });
   } catch (error) {
-    console.error('Delete task error:', error);
-    res.status(500).json({ error: 'Failed to delete task' });
+    sendError(res, 'INTERNAL', 'Failed to delete task', { cause: error });
   }
 });
 
@@ -219,24 +407,24 @@ app.get('/api/settings', authenticateJWT, async (req, res) => {
 
     res.json(settings);
   } catch (error) {
-    console.error('Get settings error:', error);
-    res.status(500).json({ error: 'Failed to fetch settings' });
+    sendError(res, 'INTERNAL', 'Failed to fetch settings', { cause: error });
   }
 });
 
-app.put('/api/settings', authenticateJWT, async (req, res) => {
+app.put('/api/settings', authenticateJWT, validate({ body: updateSettingsSchema }), async (req, res) => {
   try {
     const {
       notificationsEnabled,
       defaultBreakDuration,
       defaultChunkSize,
       defaultNagInterval,
-      timeUnit
+      timeUnit,
+      escalation
     } = req.body;
 
     const settings = await db.one(
-      `INSERT INTO settings (user_id, notifications_enabled, default_break_duration, default_chunk_size, default_nag_interval, time_unit, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+      `INSERT INTO settings (user_id, notifications_enabled, default_break_duration, default_chunk_size, default_nag_interval, time_unit, escalation, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
        ON CONFLICT (user_id)
        DO UPDATE SET
          notifications_enabled = COALESCE($2, settings.notifications_enabled),
@@ -244,30 +432,34 @@ app.put('/api/settings', authenticateJWT, async (req, res) => {
          default_chunk_size = COALESCE($4, settings.default_chunk_size),
          default_nag_interval = COALESCE($5, settings.default_nag_interval),
          time_unit = COALESCE($6, settings.time_unit),
+         escalation = COALESCE($7, settings.escalation),
          updated_at = NOW()
        RETURNING *`,
-      [req.userId, notificationsEnabled, defaultBreakDuration, defaultChunkSize, defaultNagInterval, timeUnit]
+      [
+        req.userId,
+        notificationsEnabled,
+        defaultBreakDuration,
+        defaultChunkSize,
+        defaultNagInterval,
+        timeUnit,
+        escalation ? JSON.stringify(escalation) : null
+      ]
     );
 
     res.json(settings);
   } catch (error) {
-    console.error('Update settings error:', error);
-    res.status(500).json({ error: 'Failed to update settings' });
+    sendError(res, 'INTERNAL', 'Failed to update settings', { cause: error });
   }
 });
 
 // API Routes - Schedules
-app.get('/api/schedules', authenticateJWT, async (req, res) => {
+app.get('/api/schedules', authenticateJWT, validate({ query: scheduleListQuery }), async (req, res) => {
   try {
-    const { date, status } = req.query;
-    const schedules = await ScheduleModel.findAll(req.userId!, {
-      date: date as string,
-      status: status as 'active' | 'completed'
-    });
+    const { date, status, planId } = req.query;
+    const schedules = await ScheduleModel.findAll(req.userId!, { date, status, planId });
     res.json(schedules);
   } catch (error) {
-    console.error('Get schedules error:', error);
-    res.status(500).json({ error: 'Failed to fetch schedules' });
+    sendError(res, 'INTERNAL', 'Failed to fetch schedules', { cause: error });
   }
 });
 
@@ -276,37 +468,45 @@ app.get('/api/schedules/active', authenticateJWT, async (req, res) => {
     const schedule = await ScheduleModel.findActive(req.userId!);
     res.json(schedule);
   } catch (error) {
-    console.error('Get active schedule error:', error);
-    res.status(500).json({ error: 'Failed to fetch active schedule' });
+    sendError(res, 'INTERNAL', 'Failed to fetch active schedule', { cause: error });
+  }
+});
+
+// Past sessions, newest first
+app.get('/api/schedules/history', authenticateJWT, validate({ query: historyQuery }), async (req, res) => {
+  try {
+    const { limit } = req.query;
+    res.json(await ScheduleSessionModel.findByUser(req.userId!, limit));
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to fetch schedule history', { cause: error });
   }
 });
 
-app.get('/api/schedules/:id', authenticateJWT, async (req, res) => {
+app.get('/api/schedules/:id', authenticateJWT, validate({ params: idParams }), async (req, res) => {
   try {
     const { id } = req.params;
-    const schedule = await ScheduleModel.findById(id as string, req.userId!);
+    const schedule = await ScheduleModel.findById(id, req.userId!);
 
     if (!schedule) {
-      return res.status(404).json({ error: 'Schedule not found' });
+      return sendError(res, 'NOT_FOUND', 'Schedule not found');
     }
 
     res.json(schedule);
   } catch (error) {
-    console.error('Get schedule error:', error);
-    res.status(500).json({ error: 'Failed to fetch schedule' });
+    sendError(res, 'INTERNAL', 'Failed to fetch schedule', { cause: error });
   }
 });
 
-app.post('/api/schedules', authenticateJWT, async (req, res) => {
+app.post('/api/schedules', authenticateJWT, validate({ body: createScheduleSchema }), async (req, res) => {
   try {
-    const { name, date, startTime, endTime, defaultChunkSize, status, chunks, breaks } = req.body;
-
-    if (!date || !startTime || !endTime || !defaultChunkSize || !chunks) {
-      return res.status(400).json({ error: 'Missing required fields' });
-    }
+    const { id, name, planId, date, startTime, endTime, defaultChunkSize, status, chunks, breaks, activate } = req.body;
 
-    const schedule = await ScheduleModel.create(req.userId!, {
+    // Together, so the chunk triggers stamp the schedule with the same updated_at it's
+    // answered with - sync clients send that back as baseUpdatedAt
+    const schedule = await db.tx(t => ScheduleModel.create(req.userId!, {
+      id,
       name,
+      planId,
       date,
       startTime,
       endTime,
@@ -314,100 +514,555 @@ app.post('/api/schedules', authenticateJWT, async (req, res) => {
       status: status || 'active',
       chunks,
       breaks: breaks || []
-    });
+    }, t));
 
-    // If status is active, set as active schedule
-    if (schedule.status === 'active') {
+    // If status is active, set as active schedule - sync clients opt out with activate: false
+    if (schedule.status === 'active' && activate !== false) {
       await ScheduleModel.setActive(schedule.id, req.userId!);
+      notify(req, { type: 'active-schedule', scheduleId: schedule.id });
     }
 
+    notify(req, { type: 'schedule', scheduleId: schedule.id });
     res.status(201).json(schedule);
   } catch (error) {
-    console.error('Create schedule error:', error);
-    res.status(500).json({ error: 'Failed to create schedule' });
+    if (error instanceof ConflictError) {
+      return sendError(res, 'CONFLICT', error.message, { current: error.current });
+    }
+    if (error instanceof AppError) {
+      return sendError(res, error.code, error.message);
+    }
+    sendError(res, 'INTERNAL', 'Failed to create schedule', { cause: error });
   }
 });
 
-app.put('/api/schedules/:id', authenticateJWT, async (req, res) => {
+app.post('/api/schedules/plan', authenticateJWT, validate({ body: createPlanSchema }), async (req, res) => {
+  try {
+    const { planId, schedules } = req.body;
+
+    const created = await ScheduleModel.createPlan(req.userId!, planId, schedules);
+
+    // Activate the first day of the plan
+    const first = [...created].sort((a, b) => String(a.date).localeCompare(String(b.date)))[0];
+    await ScheduleModel.setActive(first.id, req.userId!);
+
+    created.forEach(schedule => notify(req, { type: 'schedule', scheduleId: schedule.id }));
+    notify(req, { type: 'active-schedule', scheduleId: first.id });
+    res.status(201).json({ planId, schedules: created });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return sendError(res, error.code, error.message);
+    }
+    sendError(res, 'INTERNAL', 'Failed to create schedule plan', { cause: error });
+  }
+});
+
+app.put('/api/schedules/:id', authenticateJWT, validate({ params: idParams, body: updateScheduleSchema }), async (req, res) => {
   try {
     const { id } = req.params;
     const updates = req.body;
 
-    const schedule = await ScheduleModel.update(id as string, req.userId!, updates);
+    const schedule = await ScheduleModel.update(id, req.userId!, updates);
 
-    // If status changed to active, set as active schedule
-    if (updates.status === 'active') {
-      await ScheduleModel.setActive(id as string, req.userId!);
+    if (!schedule) {
+      return sendError(res, 'NOT_FOUND', 'Schedule not found');
     }
 
+    // If status changed to active, set as active schedule (unless activate: false)
+    if (updates.status === 'active' && updates.activate !== false) {
+      await ScheduleModel.setActive(id, req.userId!);
+      notify(req, { type: 'active-schedule', scheduleId: id });
+    }
+
+    notify(req, { type: 'schedule', scheduleId: id });
     res.json(schedule);
   } catch (error) {
-    console.error('Update schedule error:', error);
-    res.status(500).json({ error: 'Failed to update schedule' });
+    if (error instanceof ConflictError) {
+      return sendError(res, 'CONFLICT', error.message, { current: error.current });
+    }
+    if (error instanceof AppError) {
+      return sendError(res, error.code, error.message);
+    }
+    sendError(res, 'INTERNAL', 'Failed to update schedule', { cause: error });
   }
 });
 
-app.delete('/api/schedules/:id', authenticateJWT, async (req, res) => {
+app.delete('/api/schedules/:id', authenticateJWT, validate({ params: idParams }), async (req, res) => {
   try {
     const { id } = req.params;
-    await ScheduleModel.delete(id as string, req.userId!);
+
+    if (!(await ScheduleModel.delete(id, req.userId!))) {
+      return sendError(res, 'NOT_FOUND', 'Schedule not found');
+    }
+
+    notify(req, { type: 'schedule', scheduleId: id });
     res.json({ success: true });
   } catch (error) {
-    console.error('Delete schedule error:', error);
-    res.status(500).json({ error: 'Failed to delete schedule' });
+    sendError(res, 'INTERNAL', 'Failed to delete schedule', { cause: error });
   }
 });
 
-app.put('/api/schedules/:scheduleId/chunks/:chunkId/complete', authenticateJWT, async (req, res) => {
+app.put('/api/schedules/:id/activate', authenticateJWT, validate({ params: idParams }), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await ScheduleModel.findById(id, req.userId!))) {
+      return sendError(res, 'NOT_FOUND', 'Schedule not found');
+    }
+
+    await ScheduleModel.setActive(id, req.userId!);
+
+    notify(req, { type: 'active-schedule', scheduleId: id });
+    res.json(await ScheduleModel.findActive(req.userId!));
+  } catch (error) {
+    if (error instanceof AppError) {
+      return sendError(res, error.code, error.message);
+    }
+    sendError(res, 'INTERNAL', 'Failed to activate schedule', { cause: error });
+  }
+});
+
+// End the session early - session is null if the schedule wasn't the active one
+app.put('/api/schedules/:id/deactivate', authenticateJWT, validate({ params: idParams }), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await ScheduleModel.findById(id, req.userId!))) {
+      return sendError(res, 'NOT_FOUND', 'Schedule not found');
+    }
+
+    const session = await ScheduleModel.deactivate(id, req.userId!);
+
+    if (session) {
+      notify(req, { type: 'active-schedule', scheduleId: null });
+    }
+
+    res.json({ session });
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to deactivate schedule', { cause: error });
+  }
+});
+
+// Finish the schedule - session carries the summary, null if it was completed before
+app.put('/api/schedules/:id/complete', authenticateJWT, validate({ params: idParams }), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await ScheduleModel.complete(id, req.userId!);
+
+    if (!result) {
+      return sendError(res, 'NOT_FOUND', 'Schedule not found');
+    }
+
+    notify(req, { type: 'schedule', scheduleId: id });
+    if (result.deactivated) {
+      notify(req, { type: 'active-schedule', scheduleId: null });
+    }
+
+    res.json({ schedule: result.schedule, session: result.session });
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to complete schedule', { cause: error });
+  }
+});
+
+app.put('/api/schedules/:scheduleId/chunks/:chunkId/complete', authenticateJWT, validate({ params: chunkParams, body: chunkCompleteSchema }), async (req, res) => {
   try {
     const { scheduleId, chunkId } = req.params;
-    const result = await ScheduleModel.markChunkComplete(scheduleId as string, chunkId as string, req.userId!);
+    const { timeZone } = req.body;
+    const result = await ScheduleModel.markChunkComplete(scheduleId, chunkId, req.userId!, timeZone || 'UTC');
+    notify(req, { type: 'chunk', scheduleId, chunkId });
     res.json(result);
   } catch (error) {
-    console.error('Mark chunk complete error:', error);
-    res.status(500).json({ error: 'Failed to mark chunk complete' });
+    if (error instanceof AppError) {
+      return sendError(res, error.code, error.message);
+    }
+    sendError(res, 'INTERNAL', 'Failed to mark chunk complete', { cause: error });
+  }
+});
+
+// Focus clock: PUT .../start, .../pause and .../resume
+for (const type of TIME_EVENT_TYPES) {
+  app.put(`/api/schedules/:scheduleId/chunks/:chunkId/${type}`, authenticateJWT, validate({ params: chunkParams }), async (req, res) => {
+    try {
+      const { scheduleId, chunkId } = req.params;
+      const chunk = await ScheduleModel.recordTimeEvent(scheduleId, chunkId, req.userId!, type);
+
+      if (!chunk) {
+        return sendError(res, 'NOT_FOUND', 'Open chunk not found');
+      }
+
+      notify(req, { type: 'chunk', scheduleId, chunkId });
+      res.json(chunk);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return sendError(res, 'INVALID_STATE', error.message);
+      }
+      sendError(res, 'INTERNAL', `Failed to ${type} chunk`, { cause: error });
+    }
+  });
+}
+
+app.put('/api/schedules/:scheduleId/chunks/:chunkId/snooze', authenticateJWT, validate({ params: chunkParams, body: chunkMinutesSchema }), async (req, res) => {
+  try {
+    const { scheduleId, chunkId } = req.params;
+    const { minutes } = req.body;
+
+    const chunk = await ScheduleModel.snoozeChunk(scheduleId, chunkId, req.userId!, minutes);
+
+    if (!chunk) {
+      return sendError(res, 'NOT_FOUND', 'Open chunk not found');
+    }
+
+    notify(req, { type: 'chunk', scheduleId, chunkId });
+    res.json(chunk);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to snooze chunk', { cause: error });
+  }
+});
+
+app.put('/api/schedules/:scheduleId/chunks/:chunkId/skip', authenticateJWT, validate({ params: chunkParams }), async (req, res) => {
+  try {
+    const { scheduleId, chunkId } = req.params;
+    const chunk = await ScheduleModel.skipChunk(scheduleId, chunkId, req.userId!);
+
+    if (!chunk) {
+      return sendError(res, 'NOT_FOUND', 'Open chunk not found');
+    }
+
+    notify(req, { type: 'chunk', scheduleId, chunkId });
+    res.json(chunk);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to skip chunk', { cause: error });
+  }
+});
+
+app.put('/api/schedules/:scheduleId/chunks/:chunkId/extend', authenticateJWT, validate({ params: chunkParams, body: chunkMinutesSchema }), async (req, res) => {
+  try {
+    const { scheduleId, chunkId } = req.params;
+    const { minutes } = req.body;
+
+    const schedule = await ScheduleModel.extendChunk(scheduleId, chunkId, req.userId!, minutes);
+
+    if (!schedule) {
+      return sendError(res, 'NOT_FOUND', 'Open chunk not found');
+    }
+
+    notify(req, { type: 'chunk', scheduleId, chunkId });
+    res.json(schedule);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return sendError(res, 'INVALID_STATE', error.message);
+    }
+    sendError(res, 'INTERNAL', 'Failed to extend chunk', { cause: error });
+  }
+});
+
+// API Routes - Sync
+app.get('/api/sync', authenticateJWT, validate({ query: syncQuery }), async (req, res) => {
+  try {
+    const { since } = req.query;
+    res.json(await getChangesSince(req.userId!, since));
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to fetch changes', { cause: error });
+  }
+});
+
+// API Routes - Live updates
+app.post('/api/events/ticket', authenticateJWT, (req, res) => {
+  res.json({ ticket: generateStreamTicket(req.userId!) });
+});
+
+app.get('/api/events', authenticateEventStream, (req, res) => {
+  const clientId = typeof req.query.clientId === 'string' ? req.query.clientId : null;
+  openEventStream(req.userId!, clientId, res);
+});
+
+// API Routes - Insights
+// Clients pass their own ?today=YYYY-MM-DD - the server doesn't know their time zone
+app.get('/api/insights/focus', authenticateJWT, validate({ query: focusInsightsQuery }), async (req, res) => {
+  try {
+    const { today, days, weeks } = req.query;
+    res.json(await InsightsModel.getFocus(req.userId!, today, days, weeks));
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to fetch focus insights', { cause: error });
+  }
+});
+
+app.get('/api/insights/completion', authenticateJWT, validate({ query: insightsQuery }), async (req, res) => {
+  try {
+    const { today } = req.query;
+    res.json(await InsightsModel.getCompletion(req.userId!, today));
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to fetch completion insights', { cause: error });
+  }
+});
+
+app.get('/api/insights/time', authenticateJWT, async (req, res) => {
+  try {
+    res.json(await InsightsModel.getTime(req.userId!));
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to fetch time insights', { cause: error });
+  }
+});
+
+app.get('/api/insights/streak', authenticateJWT, validate({ query: insightsQuery }), async (req, res) => {
+  try {
+    const { today } = req.query;
+    res.json(await InsightsModel.getStreak(req.userId!, today));
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to fetch streak', { cause: error });
+  }
+});
+
+app.get('/api/insights/estimates', authenticateJWT, async (req, res) => {
+  try {
+    res.json(await InsightsModel.getEstimates(req.userId!));
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to fetch estimate accuracy', { cause: error });
+  }
+});
+
+// API Routes - Schedule Templates
+app.get('/api/templates', authenticateJWT, async (req, res) => {
+  try {
+    const templates = await ScheduleTemplateModel.findAll(req.userId!);
+    res.json(templates);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to fetch templates', { cause: error });
+  }
+});
+
+app.post('/api/templates', authenticateJWT, validate({ body: createTemplateSchema }), async (req, res) => {
+  try {
+    const { name, startTime, endTime, defaultChunkSize, breaks, taskIds, recurrence, lastCreatedOn } = req.body;
+
+    const missing = await TaskDependencyModel.findMissing(req.userId!, taskIds || []);
+    if (missing.length > 0) {
+      return sendError(res, 'VALIDATION', `Unknown tasks: ${missing.join(', ')}`);
+    }
+
+    const template = await ScheduleTemplateModel.create(req.userId!, {
+      name,
+      startTime,
+      endTime,
+      defaultChunkSize,
+      breaks: breaks || [],
+      taskIds: taskIds || [],
+      recurrence,
+      lastCreatedOn
+    });
+
+    res.status(201).json(template);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to create template', { cause: error });
+  }
+});
+
+app.put('/api/templates/:id', authenticateJWT, validate({ params: idParams, body: updateTemplateSchema }), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const updates = req.body;
+
+    const missing = await TaskDependencyModel.findMissing(req.userId!, updates.taskIds || []);
+    if (missing.length > 0) {
+      return sendError(res, 'VALIDATION', `Unknown tasks: ${missing.join(', ')}`);
+    }
+
+    const template = await ScheduleTemplateModel.update(id, req.userId!, updates);
+
+    if (!template) {
+      return sendError(res, 'NOT_FOUND', 'Template not found');
+    }
+
+    res.json(template);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to update template', { cause: error });
+  }
+});
+
+app.delete('/api/templates/:id', authenticateJWT, validate({ params: idParams }), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const deleted = await ScheduleTemplateModel.delete(id, req.userId!);
+
+    if (!deleted) {
+      return sendError(res, 'NOT_FOUND', 'Template not found');
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to delete template', { cause: error });
+  }
+});
+
+// API Routes - Web Push
+app.get('/api/push/vapid-public-key', (req, res) => {
+  const publicKey = getVapidPublicKey();
+  if (!publicKey) {
+    return sendError(res, 'NOT_FOUND', 'Web Push is not configured');
+  }
+  res.json({ publicKey });
+});
+
+app.post('/api/push/subscriptions', authenticateJWT, validate({ body: pushSubscribeSchema }), async (req, res) => {
+  try {
+    const { subscription, timeZone } = req.body;
+
+    const saved = await PushSubscriptionModel.upsert(req.userId!, {
+      endpoint: subscription.endpoint,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      timeZone: timeZone || 'UTC',
+      userAgent: req.get('user-agent')
+    });
+
+    res.status(201).json(saved);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to register push subscription', { cause: error });
+  }
+});
+
+app.delete('/api/push/subscriptions', authenticateJWT, validate({ body: pushUnsubscribeSchema }), async (req, res) => {
+  try {
+    const { endpoint } = req.body;
+
+    const deleted = await PushSubscriptionModel.delete(req.userId!, endpoint);
+
+    if (!deleted) {
+      return sendError(res, 'NOT_FOUND', 'Push subscription not found');
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to unregister push subscription', { cause: error });
+  }
+});
+
+// API Routes - Calendar feed
+app.get('/api/calendar/feed', authenticateJWT, async (req, res) => {
+  try {
+    const feed = await CalendarFeedModel.findByUser(req.userId!);
+
+    if (!feed) {
+      return sendError(res, 'NOT_FOUND', 'Calendar feed not found');
+    }
+
+    res.json(feed);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to get calendar feed', { cause: error });
+  }
+});
+
+// Creates the feed, or replaces its token so old subscriptions stop working
+app.post('/api/calendar/feed', authenticateJWT, validate({ body: calendarFeedSchema }), async (req, res) => {
+  try {
+    const { timeZone } = req.body;
+
+    const feed = await CalendarFeedModel.create(req.userId!, timeZone || 'UTC');
+    res.status(201).json(feed);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to create calendar feed', { cause: error });
+  }
+});
+
+app.delete('/api/calendar/feed', authenticateJWT, async (req, res) => {
+  try {
+    const deleted = await CalendarFeedModel.delete(req.userId!);
+
+    if (!deleted) {
+      return sendError(res, 'NOT_FOUND', 'Calendar feed not found');
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to delete calendar feed', { cause: error });
+  }
+});
+
+// Calendar apps can't log in - the token in the URL is the credential. Upcoming
+// schedules plus the past week, so today's finished chunks don't vanish.
+app.get('/api/calendar/:token.ics', async (req, res) => {
+  try {
+    const feed = await CalendarFeedModel.findByToken(req.params.token);
+
+    if (!feed) {
+      return sendError(res, 'NOT_FOUND', 'Calendar feed not found');
+    }
+
+    const today = getLocalClock(new Date(), feed.timeZone).date;
+    const schedules = await ScheduleModel.findAll(feed.userId, { from: addDays(today, -7) });
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(buildCalendarFeed(schedules, { name: 'Naggle', timeZone: feed.timeZone, refreshMinutes: 60 }));
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to build calendar feed', { cause: error });
   }
 });
 
 // Migration endpoint
-app.post('/api/migrate', authenticateJWT, async (req, res) => {
+app.post('/api/migrate', authenticateJWT, validate({ body: migrationSchema }), async (req, res) => {
   try {
     const result = await MigrationService.migrateUserData(req.userId!, req.body);
     res.json(result);
   } catch (error) {
-    console.error('Migration error:', error);
-    res.status(500).json({ error: 'Failed to migrate data' });
+    sendError(res, 'INTERNAL', 'Failed to migrate data', { cause: error });
   }
 });
 
-// API Routes - AI Assistant
-app.put('/api/settings/api-key', authenticateJWT, async (req, res) => {
+// Export / import - a versioned backup of tasks, schedules, templates and settings
+app.get('/api/export', authenticateJWT, async (req, res) => {
   try {
-    const { apiKey } = req.body;
+    const backup = await exportUserData(req.userId!);
+    const date = backup.exportedAt.slice(0, 10);
+    res.setHeader('Content-Disposition', `attachment; filename="naggle-backup-${date}.json"`);
+    res.json(backup);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to export data', { cause: error });
+  }
+});
 
-    if (!apiKey || typeof apiKey !== 'string') {
-      return res.status(400).json({ error: 'API key is required' });
+app.post('/api/import', authenticateJWT, validate({ body: importSchema }), async (req, res, next) => {
+  try {
+    const { mode, data } = req.body;
+
+    const errors = validateBackup(data);
+    if (errors.length > 0) {
+      return next(new ValidationError(errors, 'Invalid backup'));
     }
 
+    const result = await importUserData(req.userId!, data as DataExport, mode);
+    res.json(result);
+  } catch (error) {
+    sendError(res, 'INTERNAL', 'Failed to import data', { cause: error });
+  }
+});
+
+// API Routes - AI Assistant
+app.put('/api/settings/api-key', authenticateJWT, validate({ body: apiKeySchema }), async (req, res) => {
+  try {
+    const { apiKey } = req.body;
+
     // Encrypt and store
     const encrypted = encryptApiKey(apiKey);
     await UserModel.setApiKey(req.userId!, encrypted);
 
     res.json({ success: true, message: 'API key saved securely' });
   } catch (error) {
-    console.error('Save API key error:', error);
-    res.status(500).json({ error: 'Failed to save API key' });
+    sendError(res, 'INTERNAL', 'Failed to save API key', { cause: error });
   }
 });
 
-app.post('/api/ai/generate', async (req, res) => {
+// Anthropic's own status decides what the client is told: a key it refuses has to be
+// replaced, a rate limit waited out, anything else is its problem
+function anthropicErrorCode(status: number): ErrorCode {
+  if (status === 401 || status === 403) return 'AI_KEY_INVALID';
+  if (status === 429) return 'RATE_LIMITED';
+  return 'AI_UPSTREAM';
+}
+
+app.post('/api/ai/generate', validate({ body: aiGenerateSchema }), async (req, res) => {
   try {
     const { input, tasks, apiKey: providedApiKey } = req.body;
 
-    if (!input) {
-      return res.status(400).json({ error: 'Input is required' });
-    }
-
     let apiKey: string;
 
     // Try to get API key from authenticated user first
@@ -426,21 +1081,21 @@ app.post('/api/ai/generate', async (req, res) => {
           // Authenticated but no stored key, use provided key
           apiKey = providedApiKey;
         } else {
-          return res.status(400).json({ error: 'No API key configured. Please add your Anthropic API key first.' });
+          return sendError(res, 'AI_KEY_MISSING', 'No API key configured. Please add your Anthropic API key first.');
         }
       } catch (err) {
         // Invalid token, fall back to provided API key
         if (providedApiKey) {
           apiKey = providedApiKey;
         } else {
-          return res.status(401).json({ error: 'Invalid authentication token and no API key provided' });
+          return sendError(res, 'UNAUTHENTICATED', 'Invalid authentication token and no API key provided');
         }
       }
     } else if (providedApiKey) {
       // Not authenticated, use provided API key
       apiKey = providedApiKey;
     } else {
-      return res.status(400).json({ error: 'API key required. Please provide an API key or log in.' });
+      return sendError(res, 'AI_KEY_MISSING', 'API key required. Please provide an API key or log in.');
     }
 
     // Build system prompt
@@ -464,7 +1119,7 @@ app.post('/api/ai/generate', async (req, res) => {
   }
 }
 
-Available existing tasks: ${tasks.map((t: any) => `- "${t.title}" (id: ${t.id}, ${t.estimatedHours * 60}min remaining, ${t.priority} priority)`).join('\n')}
+Available existing tasks: ${tasks.map(t => `- "${t.title}" (id: ${t.id}, ${t.estimatedHours * 60}min remaining, ${t.priority} priority)`).join('\n')}
 
 Guidelines:
 - If the user mentions existing tasks by name, match them and use their ID in "useExisting"
@@ -503,21 +1158,22 @@ Examples:
     });
 
     if (!response.ok) {
-      const errorData: any = await response.json();
-      console.error('Anthropic API error:', errorData);
-      throw new Error(errorData.error?.message || JSON.stringify(errorData) || 'Anthropic API request failed');
+      const errorData: any = await response.json().catch(() => ({}));
+      console.error(`[${req.requestId}] Anthropic API error:`, response.status, errorData);
+      const message = errorData.error?.message || `Anthropic API request failed (${response.status})`;
+      return sendError(res, anthropicErrorCode(response.status), message);
     }
 
     const data = await response.json();
     res.json(data);
   } catch (error) {
-    console.error('AI generation error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Failed to generate schedule';
-    res.status(500).json({ error: errorMessage });
+    // fetch itself failed - Anthropic couldn't be reached
+    sendError(res, 'AI_UPSTREAM', 'Failed to generate schedule', { cause: error });
   }
 });
 
 // Error handling
+app.use(notFoundHandler);
 app.use(errorHandler);
 
 // Start server
@@ -530,10 +1186,27 @@ async function startServer() {
       process.exit(1);
     }
 
+    // Code expecting columns the database doesn't have yet fails in odd places - refuse instead
+    const migrations = await getMigrationStatus();
+    if (migrations.pending.length > 0) {
+      console.error(`✗ ${migrations.pending.length} pending database migrations: ${migrations.pending.map(m => m.upFile).join(', ')}`);
+      console.error('Apply them with `npm run migrate` (or `node dist/scripts/migrate.js`) and start again');
+      process.exit(1);
+    }
+    if (migrations.unknown.length > 0) {
+      console.warn(`⚠️ The database has migrations this build doesn't know about: ${migrations.unknown.map(m => m.version).join(', ')}`);
+    }
+
+    if (isPushConfigured()) {
+      startPushWorker();
+    }
+    startTombstonePruner();
+
     app.listen(env.PORT, () => {
       console.log(`✓ Server running on port ${env.PORT}`);
       console.log(`✓ Environment: ${env.NODE_ENV}`);
       console.log(`✓ Frontend URL: ${env.FRONTEND_URL}`);
+      console.log(`✓ Web Push: ${isPushConfigured() ? 'enabled' : 'disabled (VAPID keys not set)'}`);
       console.log(`\n🚀 Ready to accept requests!`);
     });
   } catch (error) {
@@ -542,4 +1215,9 @@ async function startServer() {
   }
 }
 
-startServer();
+// Tests import the app without starting it
+if (require.main === module) {
+  startServer();
+}
+
+export { app };
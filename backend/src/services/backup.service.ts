@@ -0,0 +1,143 @@
+import { IBaseProtocol } from 'pg-promise';
+import { db } from '../config/database';
+import { ScheduleModel } from '../models/Schedule';
+import { ScheduleTemplateModel } from '../models/ScheduleTemplate';
+import { MigrationService } from './migration.service';
+import { backupSchema, describeIssues, FieldError } from '../types/schemas';
+import { scheduleFromRow, taskFromRow, toHoursMinutes } from '../types/shared';
+import {
+  AppSettings, DataExport, ImportMode, MigrationResponse, ScheduleTemplate, ScheduleTemplateRow, SettingsRow, Task, TaskRow
+} from '../types';
+
+// Same format as the browser's backup file (see src/lib/backup.ts). Bump the version
+// when the shape changes, and upgrade older files in upgradeBackup.
+export const BACKUP_FORMAT = 'naggle-backup';
+export const BACKUP_VERSION = 1;
+
+const MAX_ERRORS = 20;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Everything wrong with an uploaded backup (empty when it's fine) - stops after a few
+export function validateBackup(data: unknown): FieldError[] {
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    return [{ path: 'format', message: 'Not a Naggle backup' }];
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    return [{ path: 'version', message: 'Backup version is missing' }];
+  }
+  if (data.version > BACKUP_VERSION) {
+    return [{
+      path: 'version',
+      message: `Backup version ${data.version} is newer than this server understands (${BACKUP_VERSION})`
+    }];
+  }
+
+  const result = backupSchema.safeParse(data);
+  return result.success ? [] : describeIssues(result.error).slice(0, MAX_ERRORS);
+}
+
+// Older backup versions are brought up to date here, one version at a time
+export function upgradeBackup(data: DataExport): DataExport {
+  return data;
+}
+
+// Rows come straight from pg-promise. Tasks and schedules are mapped by src/types/shared.ts,
+// the same as in the browser
+function templateFromRow(row: ScheduleTemplateRow): ScheduleTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    startTime: toHoursMinutes(row.start_time),
+    endTime: toHoursMinutes(row.end_time),
+    breaks: row.breaks || [],
+    defaultChunkSize: row.default_chunk_size,
+    taskIds: row.task_ids || [],
+    recurrence: row.recurrence,
+    lastCreatedOn: row.last_created_on ?? undefined,
+    createdAt: row.created_at.toISOString()
+  };
+}
+
+function settingsFromRow(row: SettingsRow | null): AppSettings {
+  return {
+    notificationsEnabled: row?.notifications_enabled ?? false,
+    defaultBreakDuration: row?.default_break_duration ?? 15,
+    defaultChunkSize: row?.default_chunk_size ?? 30,
+    defaultNagInterval: row?.default_nag_interval ?? 15,
+    timeUnit: row?.time_unit ?? 'minutes',
+    escalation: row?.escalation ?? undefined
+  };
+}
+
+export async function exportUserData(userId: string): Promise<DataExport> {
+  const tasks = await db.any<TaskRow>(
+    `SELECT t.*,
+            ARRAY(SELECT d.depends_on_task_id FROM task_dependencies d WHERE d.task_id = t.id) AS depends_on
+     FROM tasks t
+     WHERE t.user_id = $1
+     ORDER BY t.created_at`,
+    [userId]
+  );
+  const schedules = await ScheduleModel.findAll(userId);
+  const templates = await ScheduleTemplateModel.findAll(userId);
+  const settings = await db.oneOrNone<SettingsRow>('SELECT * FROM settings WHERE user_id = $1', [userId]);
+  const active = await db.oneOrNone('SELECT schedule_id FROM active_schedules WHERE user_id = $1', [userId]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    tasks: tasks.map(taskFromRow),
+    schedules: schedules.map(scheduleFromRow),
+    templates: templates.map(templateFromRow),
+    settings: settingsFromRow(settings),
+    activeScheduleId: active?.schedule_id ?? undefined
+  };
+}
+
+// Sessions and the calendar feed aren't part of a backup, so they're left alone
+async function deleteUserData(userId: string, t: IBaseProtocol<unknown>): Promise<void> {
+  await t.none('DELETE FROM schedule_templates WHERE user_id = $1', [userId]);
+  await t.none('DELETE FROM schedules WHERE user_id = $1', [userId]);
+  await t.none('DELETE FROM tasks WHERE user_id = $1', [userId]);
+}
+
+// Task estimates are stored in the user's time unit, so merged tasks are converted to it
+function convertTasks(tasks: Task[], from: AppSettings['timeUnit'], to: AppSettings['timeUnit']): Task[] {
+  if (from === to) return tasks;
+  const factor = to === 'minutes' ? 60 : 1 / 60;
+  return tasks.map(task => ({
+    ...task,
+    estimatedHours: task.estimatedHours * factor,
+    originalEstimatedHours: task.originalEstimatedHours != null ? task.originalEstimatedHours * factor : undefined,
+    hoursCompleted: task.hoursCompleted * factor
+  }));
+}
+
+// Call validateBackup first. Records whose ID is already taken are skipped when merging.
+export async function importUserData(userId: string, data: DataExport, mode: ImportMode): Promise<MigrationResponse> {
+  const backup = upgradeBackup(data);
+
+  return db.tx(async t => {
+    if (mode === 'replace') {
+      await deleteUserData(userId, t);
+      return MigrationService.migrateUserData(userId, {
+        tasks: backup.tasks,
+        schedules: backup.schedules,
+        templates: backup.templates,
+        settings: backup.settings,
+        activeScheduleId: backup.activeScheduleId
+      }, t);
+    }
+
+    // Merging keeps the user's settings and whatever session is running
+    const current = await t.oneOrNone('SELECT time_unit FROM settings WHERE user_id = $1', [userId]);
+    return MigrationService.migrateUserData(userId, {
+      tasks: convertTasks(backup.tasks, backup.settings.timeUnit, current?.time_unit ?? backup.settings.timeUnit),
+      schedules: backup.schedules,
+      templates: backup.templates
+    }, t);
+  });
+}
@@ -0,0 +1,31 @@
+import { ScheduleRow } from '../types';
+import { buildCalendar, zonedTimeToUtc } from '../types/shared';
+
+// The calendar feed - the same events as the browser export (see buildCalendar in
+// src/types/shared.ts), with chunk times taken in the feed's time zone
+
+export function buildCalendarFeed(
+  schedules: ScheduleRow[],
+  options: { name: string; timeZone: string; refreshMinutes?: number }
+): string {
+  const calendarSchedules = schedules.map(schedule => ({
+    name: schedule.name,
+    date: schedule.date,
+    chunks: schedule.chunks.map(chunk => ({
+      id: chunk.id,
+      type: chunk.type,
+      taskTitle: chunk.task_title,
+      taskPriority: chunk.task_priority,
+      startTime: chunk.start_time,
+      endTime: chunk.end_time,
+      completed: chunk.completed,
+      skipped: chunk.skipped
+    }))
+  }));
+
+  return buildCalendar(calendarSchedules, {
+    name: options.name,
+    refreshMinutes: options.refreshMinutes,
+    toInstant: (date, time) => zonedTimeToUtc(date, time, options.timeZone)
+  });
+}
@@ -0,0 +1,49 @@
+import { Response } from 'express';
+import { ChangeEvent } from '../types';
+
+// Open event streams, by user. Streams live in this process only, so with several
+// server instances a session only hears about changes made through its own instance.
+interface EventStream {
+  res: Response;
+  clientId: string | null;
+}
+
+const streams = new Map<string, Set<EventStream>>();
+
+const HEARTBEAT_MS = 25 * 1000; // Keeps proxies from closing an idle stream
+
+// Turn the response into a server-sent event stream that stays open until the client leaves
+export function openEventStream(userId: string, clientId: string | null, res: Response): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 5000\n\n');
+
+  const stream: EventStream = { res, clientId };
+  if (!streams.has(userId)) streams.set(userId, new Set());
+  streams.get(userId)!.add(stream);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    const userStreams = streams.get(userId);
+    userStreams?.delete(stream);
+    if (userStreams?.size === 0) streams.delete(userId);
+  });
+}
+
+// Tell every open session of the user - except the one that made the change
+export function publishChange(userId: string, event: ChangeEvent, sourceClientId?: string): void {
+  const userStreams = streams.get(userId);
+  if (!userStreams) return;
+
+  const message = `event: change\ndata: ${JSON.stringify(event)}\n\n`;
+  for (const stream of userStreams) {
+    if (sourceClientId && stream.clientId === sourceClientId) continue;
+    stream.res.write(message);
+  }
+}
@@ -13,10 +13,38 @@ export function generateJWT(user: User): string {
   } as any);
 }
 
+// Stream tickets have an audience; sign-in tokens don't, and neither passes for the other
 export function verifyJWT(token: string): JWTPayload {
+  let payload: JWTPayload & { aud?: unknown };
   try {
-    return jwt.verify(token, env.JWT_SECRET) as JWTPayload;
+    payload = jwt.verify(token, env.JWT_SECRET) as JWTPayload & { aud?: unknown };
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
+  if (payload.aud !== undefined) {
+    throw new Error('Invalid or expired token');
+  }
+  return payload;
+}
+
+const STREAM_TICKET_AUDIENCE = 'event-stream';
+const STREAM_TICKET_EXPIRES_IN = 60; // Seconds - it only has to last until the stream opens
+
+// EventSource can't send headers, so the stream is opened with a ticket in the URL, where
+// proxies may log it. It only opens the stream, and not for long.
+export function generateStreamTicket(userId: string): string {
+  return jwt.sign({ userId }, env.JWT_SECRET, {
+    audience: STREAM_TICKET_AUDIENCE,
+    expiresIn: STREAM_TICKET_EXPIRES_IN
+  });
+}
+
+// Returns the user the ticket was issued to
+export function verifyStreamTicket(ticket: string): string {
+  try {
+    const payload = jwt.verify(ticket, env.JWT_SECRET, { audience: STREAM_TICKET_AUDIENCE }) as { userId: string };
+    return payload.userId;
+  } catch (error) {
+    throw new Error('Invalid or expired ticket');
+  }
 }
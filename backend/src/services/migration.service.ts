@@ -1,19 +1,101 @@
+import { IBaseProtocol } from 'pg-promise';
+import { randomUUID } from 'crypto';
 import { db } from '../config/database';
-import { Task, Schedule, AppSettings, MigrationRequest, MigrationResponse } from '../types';
+import { MigrationResponse } from '../types';
+import { MigrationRequest } from '../types/schemas';
+
+// IDs of records that belong to another user - by their own user_id, or their schedule's
+const FOREIGN_IDS = {
+  tasks: 'SELECT id FROM tasks WHERE id = ANY($1::uuid[]) AND user_id <> $2',
+  schedules: 'SELECT id FROM schedules WHERE id = ANY($1::uuid[]) AND user_id <> $2',
+  templates: 'SELECT id FROM schedule_templates WHERE id = ANY($1::uuid[]) AND user_id <> $2',
+  chunks: `SELECT c.id FROM schedule_chunks c
+           INNER JOIN schedules s ON s.id = c.schedule_id
+           WHERE c.id = ANY($1::uuid[]) AND s.user_id <> $2`,
+  breaks: `SELECT b.id FROM schedule_breaks b
+           INNER JOIN schedules s ON s.id = b.schedule_id
+           WHERE b.id = ANY($1::uuid[]) AND s.user_id <> $2`
+};
+
+// Clients pick their own IDs, so imported data can carry IDs another account already
+// uses (two accounts signed in on one browser, or someone else's backup). Those records
+// get new IDs and whatever points at them follows; a reference to another user's record
+// that isn't being imported is dropped.
+async function claimIds(userId: string, data: MigrationRequest, t: IBaseProtocol<unknown>): Promise<MigrationRequest> {
+  const foreign = async (query: string, ids: string[]): Promise<Set<string>> =>
+    new Set(ids.length > 0 ? await t.map(query, [ids, userId], row => row.id as string) : []);
+
+  const templates = data.templates || [];
+  const chunks = data.schedules.flatMap(schedule => schedule.chunks);
+  const taskRefs = [
+    ...data.tasks.flatMap(task => [task.id, ...(task.dependsOn || [])]),
+    ...chunks.flatMap(chunk => chunk.taskId ? [chunk.taskId] : []),
+    ...templates.flatMap(template => template.taskIds)
+  ];
+
+  const taken = new Set([
+    ...await foreign(FOREIGN_IDS.tasks, taskRefs),
+    ...await foreign(FOREIGN_IDS.schedules, data.schedules.map(schedule => schedule.id)),
+    ...await foreign(FOREIGN_IDS.templates, templates.map(template => template.id)),
+    ...await foreign(FOREIGN_IDS.chunks, chunks.map(chunk => chunk.id)),
+    ...await foreign(FOREIGN_IDS.breaks, data.schedules.flatMap(schedule => schedule.breaks.map(b => b.id)))
+  ]);
+  if (taken.size === 0) return data;
+
+  const replacements = new Map<string, string>();
+  const own = (id: string) => {
+    if (!taken.has(id)) return id;
+    if (!replacements.has(id)) replacements.set(id, randomUUID());
+    return replacements.get(id)!;
+  };
+
+  // Only tasks in this import can be pointed at under a new ID
+  const importedTasks = new Set(data.tasks.map(task => task.id));
+  const ownTask = (id: string) => !taken.has(id) || importedTasks.has(id) ? own(id) : null;
+  const ownTasks = (ids: string[]) => ids.map(ownTask).filter((id): id is string => id !== null);
+
+  return {
+    ...data,
+    tasks: data.tasks.map(task => ({
+      ...task,
+      id: own(task.id),
+      dependsOn: task.dependsOn && ownTasks(task.dependsOn)
+    })),
+    schedules: data.schedules.map(schedule => ({
+      ...schedule,
+      id: own(schedule.id),
+      chunks: schedule.chunks.map(chunk => ({
+        ...chunk,
+        id: own(chunk.id),
+        taskId: chunk.taskId && (ownTask(chunk.taskId) ?? '')
+      })),
+      breaks: schedule.breaks.map(b => ({ ...b, id: own(b.id) }))
+    })),
+    templates: data.templates && templates.map(template => ({ ...template, id: own(template.id), taskIds: ownTasks(template.taskIds) })),
+    activeScheduleId: data.activeScheduleId && own(data.activeScheduleId)
+  };
+}
 
 export class MigrationService {
   static async migrateUserData(
     userId: string,
-    data: MigrationRequest
+    input: MigrationRequest,
+    tx: IBaseProtocol<unknown> = db
   ): Promise<MigrationResponse> {
     try {
-      // Start transaction
-      await db.tx(async t => {
+      // Start transaction (a savepoint when already inside one)
+      await tx.tx(async t => {
+        const data = await claimIds(userId, input, t);
+
         // Migrate tasks
         for (const task of data.tasks) {
           await t.none(
-            `INSERT INTO tasks (id, user_id, title, priority, estimated_hours, hours_completed, default_nag_interval, created_at, updated_at)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+            `INSERT INTO tasks (
+              id, user_id, title, priority, estimated_hours, hours_completed, default_nag_interval,
+              due_date, due_time, recurrence, last_recurred_on, escalation, default_chunk_size,
+              original_estimated_hours, created_at, updated_at
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, COALESCE($15, $5), $14, NOW())
              ON CONFLICT (id) DO NOTHING`,
             [
               task.id,
@@ -23,22 +105,43 @@ export class MigrationService {
               task.estimatedHours,
               task.hoursCompleted,
               task.defaultNagInterval || null,
-              task.createdAt
+              task.dueDate || null,
+              task.dueTime || null,
+              task.recurrence ? JSON.stringify(task.recurrence) : null,
+              task.lastRecurredOn || null,
+              task.escalation ? JSON.stringify(task.escalation) : null,
+              task.defaultChunkSize || null,
+              task.createdAt,
+              task.originalEstimatedHours ?? null
             ]
           );
         }
 
+        // Migrate task dependencies once every task exists
+        for (const task of data.tasks) {
+          for (const depId of task.dependsOn || []) {
+            await t.none(
+              `INSERT INTO task_dependencies (task_id, depends_on_task_id, created_at)
+               SELECT $1, $2, NOW()
+               WHERE (SELECT COUNT(*) FROM tasks WHERE id IN ($1, $2) AND user_id = $3) = 2
+               ON CONFLICT DO NOTHING`,
+              [task.id, depId, userId]
+            );
+          }
+        }
+
         // Migrate schedules (with chunks and breaks)
         for (const schedule of data.schedules) {
           // Insert schedule
           await t.none(
-            `INSERT INTO schedules (id, user_id, name, date, start_time, end_time, default_chunk_size, status, created_at, updated_at)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+            `INSERT INTO schedules (id, user_id, name, plan_id, date, start_time, end_time, default_chunk_size, status, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
              ON CONFLICT (id) DO NOTHING`,
             [
               schedule.id,
               userId,
               schedule.name || null,
+              schedule.planId || null,
               schedule.date,
               schedule.startTime,
               schedule.endTime,
@@ -54,9 +157,10 @@ export class MigrationService {
               `INSERT INTO schedule_chunks (
                 id, schedule_id, task_id, task_title, task_priority,
                 start_time, end_time, duration_minutes, nag_interval_minutes,
-                type, completed, completed_at, created_at
+                type, completed, completed_at, skipped, snoozed_until, last_interaction_at,
+                time_events, focus_minutes, created_at
               )
-              VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
+              VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, NOW())
               ON CONFLICT (id) DO NOTHING`,
               [
                 chunk.id,
@@ -70,7 +174,12 @@ export class MigrationService {
                 chunk.nagIntervalMinutes,
                 chunk.type,
                 chunk.completed || false,
-                chunk.completedAt || null
+                chunk.completedAt || null,
+                chunk.skipped || false,
+                chunk.snoozedUntil || null,
+                chunk.lastInteractionAt || null,
+                JSON.stringify(chunk.timeEvents || []),
+                chunk.focusMinutes ?? null
               ]
             );
           }
@@ -86,15 +195,40 @@ export class MigrationService {
           }
         }
 
+        // Migrate schedule templates
+        for (const template of data.templates || []) {
+          await t.none(
+            `INSERT INTO schedule_templates (
+              id, user_id, name, start_time, end_time, default_chunk_size,
+              breaks, task_ids, recurrence, last_created_on, created_at, updated_at
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8::uuid[], $9, $10, $11, NOW())
+            ON CONFLICT (id) DO NOTHING`,
+            [
+              template.id,
+              userId,
+              template.name,
+              template.startTime,
+              template.endTime,
+              template.defaultChunkSize,
+              JSON.stringify(template.breaks || []),
+              template.taskIds || [],
+              JSON.stringify(template.recurrence),
+              template.lastCreatedOn || null,
+              template.createdAt
+            ]
+          );
+        }
+
         // Migrate settings
         if (data.settings) {
           await t.none(
             `INSERT INTO settings (
               user_id, notifications_enabled, default_break_duration,
               default_chunk_size, default_nag_interval, time_unit,
-              created_at, updated_at
+              escalation, created_at, updated_at
             )
-            VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
+            VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
             ON CONFLICT (user_id)
             DO UPDATE SET
               notifications_enabled = EXCLUDED.notifications_enabled,
@@ -102,6 +236,7 @@ export class MigrationService {
               default_chunk_size = EXCLUDED.default_chunk_size,
               default_nag_interval = EXCLUDED.default_nag_interval,
               time_unit = EXCLUDED.time_unit,
+              escalation = EXCLUDED.escalation,
               updated_at = NOW()`,
             [
               userId,
@@ -109,16 +244,18 @@ export class MigrationService {
               data.settings.defaultBreakDuration,
               data.settings.defaultChunkSize,
               data.settings.defaultNagInterval,
-              data.settings.timeUnit
+              data.settings.timeUnit,
+              data.settings.escalation ? JSON.stringify(data.settings.escalation) : null
             ]
           );
         }
 
-        // Set active schedule if provided
+        // Set active schedule if provided, and only to one of the user's own
         if (data.activeScheduleId) {
           await t.none(
             `INSERT INTO active_schedules (user_id, schedule_id, updated_at)
-             VALUES ($1, $2, NOW())
+             SELECT $1, $2, NOW()
+             WHERE EXISTS (SELECT 1 FROM schedules WHERE id = $2 AND user_id = $1)
              ON CONFLICT (user_id)
              DO UPDATE SET schedule_id = $2, updated_at = NOW()`,
             [userId, data.activeScheduleId]
@@ -129,9 +266,10 @@ export class MigrationService {
       return {
         success: true,
         migrated: {
-          tasks: data.tasks.length,
-          schedules: data.schedules.length,
-          settings: !!data.settings
+          tasks: input.tasks.length,
+          schedules: input.schedules.length,
+          templates: (input.templates || []).length,
+          settings: !!input.settings
         }
       };
     } catch (error) {
@@ -0,0 +1,243 @@
+import webpush from 'web-push';
+import { env } from '../config/env';
+import { db } from '../config/database';
+import { ScheduleModel } from '../models/Schedule';
+import { PushSubscriptionModel } from '../models/PushSubscription';
+import { EscalationPolicy, PushSubscriptionRecord, ScheduleRow } from '../types';
+import {
+  DEFAULT_ESCALATION_POLICY,
+  getEndMessage,
+  getEscalatedNags,
+  getLocalClock,
+  getNagMessage,
+  getStartMessage,
+  LocalClock
+} from '../types/shared';
+
+// Same shape the service worker uses for its local timeline (see public/nag-sw.js)
+export interface NagPayload {
+  kind: 'start' | 'nag' | 'end';
+  scheduleId: string;
+  chunkId: string;
+  title: string;
+  body: string;
+  tag: string;
+  requireInteraction: boolean;
+}
+
+type PolicyLookup = (taskId: string | null) => EscalationPolicy;
+
+export function isPushConfigured(): boolean {
+  return !!(env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY && env.VAPID_SUBJECT);
+}
+
+export function getVapidPublicKey(): string | null {
+  return env.VAPID_PUBLIC_KEY || null;
+}
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Nags that fall in the window (from, to] - both local clocks in the subscriber's zone.
+// Mirrors the browser timeline: start, escalating nags while running (held back while
+// snoozed, with one nag when the snooze runs out), end.
+export function getDueNags(
+  schedule: ScheduleRow,
+  from: LocalClock,
+  to: LocalClock,
+  timeZone: string,
+  getPolicy: PolicyLookup = () => DEFAULT_ESCALATION_POLICY
+): NagPayload[] {
+  if (schedule.date !== to.date) return [];
+
+  // Crossing midnight starts the window at the top of the new day
+  const fromMinutes = from.date === to.date ? from.minutes : -1;
+  const isDue = (minutes: number) => minutes > fromMinutes && minutes <= to.minutes;
+
+  const nags: NagPayload[] = [];
+
+  for (const chunk of schedule.chunks) {
+    if (chunk.type !== 'task' || chunk.completed || chunk.skipped) continue;
+
+    const start = timeToMinutes(chunk.start_time);
+    const end = timeToMinutes(chunk.end_time);
+    const base = { scheduleId: schedule.id, chunkId: chunk.id };
+
+    // Snooze and last interaction only count when they fall on the schedule's day
+    const sameDayMinutes = (instant: Date | null) => {
+      if (!instant) return -1;
+      const clock = getLocalClock(new Date(instant), timeZone);
+      return clock.date === to.date ? clock.minutes : -1;
+    };
+    const snoozeEnd = sameDayMinutes(chunk.snoozed_until);
+
+    if (isDue(start)) {
+      nags.push({
+        ...base,
+        kind: 'start',
+        ...getStartMessage(chunk.task_title),
+        tag: 'chunk-start',
+        requireInteraction: false
+      });
+    }
+
+    const escalated = getEscalatedNags(
+      start,
+      end,
+      chunk.nag_interval_minutes,
+      snoozeEnd,
+      sameDayMinutes(chunk.last_interaction_at),
+      getPolicy(chunk.task_id)
+    );
+
+    for (const nag of escalated) {
+      if (!isDue(nag.at)) continue;
+
+      const message = nag.at === snoozeEnd
+        ? { title: '💤 Snooze is over!', body: `Back to ${chunk.task_title} - ${end - snoozeEnd} minutes left in this chunk` }
+        : getNagMessage(chunk.task_title, (nag.at - start) / (end - start), nag.level);
+
+      nags.push({
+        ...base,
+        kind: 'nag',
+        ...message,
+        tag: 'nag',
+        requireInteraction: nag.requireInteraction
+      });
+    }
+
+    if (isDue(end)) {
+      nags.push({
+        ...base,
+        kind: 'end',
+        ...getEndMessage(chunk.task_title),
+        tag: 'chunk-end',
+        requireInteraction: true
+      });
+    }
+  }
+
+  return nags;
+}
+
+export class PushDeliveryError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+// web-push encrypts and signs; delivery goes through fetch so plain-http stand-in
+// endpoints (see scripts/push-sink.ts) work as well as real push services
+export async function sendPush(subscription: PushSubscriptionRecord, payload: NagPayload): Promise<void> {
+  const request = webpush.generateRequestDetails(
+    {
+      endpoint: subscription.endpoint,
+      keys: { p256dh: subscription.p256dh, auth: subscription.auth }
+    },
+    JSON.stringify(payload),
+    {
+      TTL: 5 * 60, // A nag that arrives late is worse than none
+      urgency: payload.kind === 'nag' ? 'normal' : 'high',
+      vapidDetails: {
+        subject: env.VAPID_SUBJECT!,
+        publicKey: env.VAPID_PUBLIC_KEY!,
+        privateKey: env.VAPID_PRIVATE_KEY!
+      }
+    }
+  );
+
+  const response = await fetch(request.endpoint, {
+    method: request.method,
+    headers: request.headers as Record<string, string>,
+    body: request.body
+  });
+
+  if (!response.ok) {
+    throw new PushDeliveryError(response.status, await response.text());
+  }
+}
+
+// A task's own escalation policy wins over the user's default
+async function loadEscalationPolicies(userId: string): Promise<PolicyLookup> {
+  const settings = await db.oneOrNone('SELECT escalation FROM settings WHERE user_id = $1', [userId]);
+  const overrides = await db.any(
+    'SELECT id, escalation FROM tasks WHERE user_id = $1 AND escalation IS NOT NULL',
+    [userId]
+  );
+
+  const byTask = new Map<string, EscalationPolicy>(overrides.map(row => [row.id, row.escalation]));
+  const fallback: EscalationPolicy = settings?.escalation || DEFAULT_ESCALATION_POLICY;
+  return taskId => (taskId && byTask.get(taskId)) || fallback;
+}
+
+// One pass of the worker: send every nag due between the previous tick and now
+export async function runPushTick(previous: Date, now: Date): Promise<number> {
+  const subscriptions = await PushSubscriptionModel.findAll();
+  const activeSchedules = new Map<string, { schedule: ScheduleRow; getPolicy: PolicyLookup } | null>();
+  let sent = 0;
+
+  for (const subscription of subscriptions) {
+    if (!activeSchedules.has(subscription.userId)) {
+      const schedule = await ScheduleModel.findActive(subscription.userId);
+      activeSchedules.set(
+        subscription.userId,
+        schedule ? { schedule, getPolicy: await loadEscalationPolicies(subscription.userId) } : null
+      );
+    }
+    const active = activeSchedules.get(subscription.userId);
+    if (!active) continue;
+
+    const nags = getDueNags(
+      active.schedule,
+      getLocalClock(previous, subscription.timeZone),
+      getLocalClock(now, subscription.timeZone),
+      subscription.timeZone,
+      active.getPolicy
+    );
+
+    for (const nag of nags) {
+      try {
+        await sendPush(subscription, nag);
+        sent++;
+      } catch (error) {
+        // 404/410 mean the browser unsubscribed - stop pushing to it
+        if (error instanceof PushDeliveryError && (error.statusCode === 404 || error.statusCode === 410)) {
+          await PushSubscriptionModel.deleteById(subscription.id);
+          break;
+        }
+        console.error('Push delivery error:', error);
+      }
+    }
+
+    if (nags.length > 0) {
+      await PushSubscriptionModel.markSent(subscription.id);
+    }
+  }
+
+  return sent;
+}
+
+// Background worker - returns a function that stops it
+export function startPushWorker(intervalMs: number = env.PUSH_WORKER_INTERVAL_MS): () => void {
+  let previous = new Date();
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return; // Let a slow tick finish; the next one covers the gap
+    running = true;
+
+    const now = new Date();
+    try {
+      await runPushTick(previous, now);
+      previous = now;
+    } catch (error) {
+      console.error('Push worker error:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
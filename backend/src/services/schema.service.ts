@@ -0,0 +1,233 @@
+import fs from 'fs';
+import path from 'path';
+import { IDatabase } from 'pg-promise';
+import { db } from '../config/database';
+
+// Schema migrations are the SQL files in migrations/: NNN_name.sql applies a change and
+// NNN_name.down.sql undoes it. Applied versions are recorded in schema_migrations, and
+// each file runs in its own transaction together with that record.
+
+// Same folder from src/services and dist/services
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../migrations');
+
+// Arbitrary, but fixed: two runners at once would apply the same file twice
+const LOCK_ID = 8154042201;
+
+const FILE_PATTERN = /^(\d+)_(.+?)(\.down)?\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  upFile: string;
+  downFile: string | null;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  // Recorded as applied, but there's no file for them - the database is ahead of this code
+  unknown: AppliedMigration[];
+}
+
+export class MigrationError extends Error {}
+
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const migrations = new Map<number, Migration>();
+  const downFiles = new Map<number, string>();
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    const version = parseInt(match[1], 10);
+    if (match[3]) {
+      downFiles.set(version, file);
+      continue;
+    }
+    if (migrations.has(version)) {
+      throw new MigrationError(`Two migrations numbered ${version}: ${migrations.get(version)!.upFile} and ${file}`);
+    }
+    migrations.set(version, { version, name: match[2], upFile: file, downFile: null });
+  }
+
+  for (const [version, file] of downFiles) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new MigrationError(`${file} has no matching migration`);
+    }
+    migration.downFile = file;
+  }
+
+  return [...migrations.values()].sort((a, b) => a.version - b.version);
+}
+
+function readSql(file: string, dir: string): string {
+  return fs.readFileSync(path.join(dir, file), 'utf8');
+}
+
+async function ensureTrackingTable(database: IDatabase<unknown>): Promise<void> {
+  await database.none(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )`
+  );
+}
+
+async function getAppliedMigrations(database: IDatabase<unknown>): Promise<AppliedMigration[]> {
+  await ensureTrackingTable(database);
+  return database.map(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version',
+    [],
+    row => ({ version: row.version, name: row.name, appliedAt: row.applied_at })
+  );
+}
+
+export async function getMigrationStatus(
+  database: IDatabase<unknown> = db,
+  dir: string = MIGRATIONS_DIR
+): Promise<MigrationStatus> {
+  const migrations = loadMigrations(dir);
+  const applied = await getAppliedMigrations(database);
+  const appliedVersions = new Set(applied.map(m => m.version));
+  const knownVersions = new Set(migrations.map(m => m.version));
+
+  return {
+    applied,
+    pending: migrations.filter(m => !appliedVersions.has(m.version)),
+    unknown: applied.filter(m => !knownVersions.has(m.version))
+  };
+}
+
+// Holds the lock for the whole run so a second runner waits instead of racing
+async function withLock<T>(database: IDatabase<unknown>, work: () => Promise<T>): Promise<T> {
+  return database.task(async t => {
+    await t.one('SELECT pg_advisory_lock($1)', [LOCK_ID]);
+    try {
+      return await work();
+    } finally {
+      await t.one('SELECT pg_advisory_unlock($1)', [LOCK_ID]);
+    }
+  });
+}
+
+// Applies every pending migration in order; stops at the first one that fails
+export async function migrateUp(
+  database: IDatabase<unknown> = db,
+  dir: string = MIGRATIONS_DIR
+): Promise<Migration[]> {
+  return withLock(database, async () => {
+    const { applied, pending } = await getMigrationStatus(database, dir);
+
+    // A schema applied by hand before this runner existed would be applied again
+    if (applied.length === 0 && pending.length > 0) {
+      const existing = await database.one("SELECT to_regclass('public.users') IS NOT NULL AS exists");
+      if (existing.exists) {
+        throw new MigrationError(
+          'The database already has tables but no migration history. ' +
+          'Record what it has with `migrate baseline <version>` first.'
+        );
+      }
+    }
+
+    for (const migration of pending) {
+      const sql = readSql(migration.upFile, dir);
+      try {
+        await database.tx(async t => {
+          await t.none(sql);
+          await t.none(
+            'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+            [migration.version, migration.name]
+          );
+        });
+      } catch (error) {
+        throw new MigrationError(
+          `${migration.upFile} failed: ${error instanceof Error ? error.message : error}`
+        );
+      }
+      console.log(`✓ Applied ${migration.upFile}`);
+    }
+
+    return pending;
+  });
+}
+
+// Rolls back the most recently applied migrations, newest first
+export async function migrateDown(
+  steps: number = 1,
+  database: IDatabase<unknown> = db,
+  dir: string = MIGRATIONS_DIR
+): Promise<Migration[]> {
+  if (steps < 1) return [];
+
+  return withLock(database, async () => {
+    const migrations = loadMigrations(dir);
+    const applied = await getAppliedMigrations(database);
+    const targets = applied.slice(-steps).reverse();
+
+    // Check them all before undoing any, so a missing script doesn't stop halfway
+    const rollbacks = targets.map(target => {
+      const migration = migrations.find(m => m.version === target.version);
+      if (!migration) {
+        throw new MigrationError(`Migration ${target.version} (${target.name}) is applied but has no file`);
+      }
+      if (!migration.downFile) {
+        throw new MigrationError(`${migration.upFile} has no down script`);
+      }
+      return migration;
+    });
+
+    for (const migration of rollbacks) {
+      const sql = readSql(migration.downFile!, dir);
+      try {
+        await database.tx(async t => {
+          await t.none(sql);
+          await t.none('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        });
+      } catch (error) {
+        throw new MigrationError(
+          `${migration.downFile} failed: ${error instanceof Error ? error.message : error}`
+        );
+      }
+      console.log(`✓ Rolled back ${migration.upFile}`);
+    }
+
+    return rollbacks;
+  });
+}
+
+// Records migrations up to a version as applied without running them - for databases
+// whose schema was set up by hand
+export async function baselineMigrations(
+  version: number,
+  database: IDatabase<unknown> = db,
+  dir: string = MIGRATIONS_DIR
+): Promise<Migration[]> {
+  const migrations = loadMigrations(dir);
+  if (!migrations.some(m => m.version === version)) {
+    throw new MigrationError(`There is no migration ${version}`);
+  }
+
+  return withLock(database, async () => {
+    const { pending } = await getMigrationStatus(database, dir);
+    const recorded = pending.filter(m => m.version <= version);
+
+    await database.tx(async t => {
+      for (const migration of recorded) {
+        await t.none(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+      }
+    });
+
+    return recorded;
+  });
+}
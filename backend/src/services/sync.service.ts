@@ -0,0 +1,162 @@
+import { db } from '../config/database';
+import { SyncDeltaResponse, SyncEntityChanges } from '../types';
+
+// Offline clients send the updated_at they last saw as baseUpdatedAt; a write based on
+// an older copy than the stored one is refused so the client can resolve it.
+
+export class ConflictError extends Error {
+  constructor(message: string, public current: unknown) {
+    super(message);
+  }
+}
+
+// Compared at millisecond precision - all that survives the round trip through JSON
+export function isStale(updatedAt: Date | string, baseUpdatedAt: string | undefined): boolean {
+  if (!baseUpdatedAt) return false;
+  return new Date(updatedAt).getTime() !== new Date(baseUpdatedAt).getTime();
+}
+
+// Deletions older than this are forgotten; a client that hasn't synced for longer
+// gets everything again instead
+export const TOMBSTONE_RETENTION_DAYS = 30;
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Everything of a user created, updated or deleted since the cursor. Rows are versioned
+// by the transaction that wrote them and the new cursor is the oldest transaction still
+// in progress, so a change can come twice but never goes missing - applying is idempotent.
+// A cursor from before the user's pruned tombstones may have missed deletions, so it's
+// answered with everything and full: true - the client drops what isn't in it.
+export async function getChangesSince(userId: string, requestedSince: string): Promise<SyncDeltaResponse> {
+  try {
+    return await db.tx(async t => {
+      // One snapshot for every query, so the cursor matches what was read
+      await t.none('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ READ ONLY');
+
+      const { cursor } = await t.one<{ cursor: string }>(
+        'SELECT txid_snapshot_xmin(txid_current_snapshot()) AS cursor'
+      );
+
+      const horizon = await t.oneOrNone<{ version: string }>(
+        'SELECT version FROM sync_horizons WHERE user_id = $1',
+        [userId]
+      );
+      const full = !!horizon && requestedSince !== '0' && BigInt(requestedSince) <= BigInt(horizon.version);
+      const since = full ? '0' : requestedSince;
+
+      const tasks = await t.any(
+        `SELECT t.*,
+                ARRAY(SELECT d.depends_on_task_id FROM task_dependencies d WHERE d.task_id = t.id) AS depends_on
+         FROM tasks t
+         WHERE t.user_id = $1 AND t.updated_version >= $2
+         ORDER BY t.updated_version`,
+        [userId, since]
+      );
+
+      const schedules = await t.any(
+        'SELECT * FROM schedules WHERE user_id = $1 AND updated_version >= $2 ORDER BY updated_version',
+        [userId, since]
+      );
+
+      const breaks = schedules.length > 0
+        ? await t.any(
+            'SELECT * FROM schedule_breaks WHERE schedule_id IN ($1:csv) ORDER BY time',
+            [schedules.map(s => s.id)]
+          )
+        : [];
+
+      const chunks = await t.any(
+        `SELECT c.* FROM schedule_chunks c
+         INNER JOIN schedules s ON s.id = c.schedule_id
+         WHERE s.user_id = $1 AND c.updated_version >= $2
+         ORDER BY c.start_time`,
+        [userId, since]
+      );
+
+      const settings = await t.oneOrNone(
+        'SELECT * FROM settings WHERE user_id = $1 AND updated_version >= $2',
+        [userId, since]
+      );
+
+      // Not versioned - small enough to send every time
+      const active = await t.oneOrNone(
+        'SELECT schedule_id, updated_at FROM active_schedules WHERE user_id = $1',
+        [userId]
+      );
+
+      const tombstones = await t.any<{ entity: string; entity_id: string }>(
+        'SELECT entity, entity_id FROM sync_tombstones WHERE user_id = $1 AND version >= $2 ORDER BY version',
+        [userId, since]
+      );
+
+      // Split rows into created and updated; a record that was deleted and then
+      // created again (same ID) is only reported as it is now. bigints arrive as strings.
+      const split = <T extends { id: string; created_version: string }>(rows: T[], entity: string): SyncEntityChanges<T> => {
+        const present = new Set(rows.map(row => row.id));
+        return {
+          created: rows.filter(row => BigInt(row.created_version) >= BigInt(since)),
+          updated: rows.filter(row => BigInt(row.created_version) < BigInt(since)),
+          deleted: [...new Set(
+            tombstones
+              .filter(row => row.entity === entity && !present.has(row.entity_id))
+              .map(row => row.entity_id)
+          )]
+        };
+      };
+
+      return {
+        cursor: String(cursor),
+        full,
+        tasks: split(tasks, 'task'),
+        schedules: split(
+          schedules.map(schedule => ({ ...schedule, breaks: breaks.filter(b => b.schedule_id === schedule.id) })),
+          'schedule'
+        ),
+        chunks: split(chunks, 'chunk'),
+        settings,
+        active: { scheduleId: active?.schedule_id || null, since: active?.updated_at || null }
+      };
+    });
+  } catch (error) {
+    console.error('Error loading changes:', error);
+    throw error;
+  }
+}
+
+// Delete tombstones past the retention period, remembering for each user the newest
+// version deleted. Tombstones of deleted users go without a trace.
+export async function pruneTombstones(retentionDays: number = TOMBSTONE_RETENTION_DAYS): Promise<number> {
+  try {
+    const { count } = await db.one<{ count: number }>(
+      `WITH pruned AS (
+         DELETE FROM sync_tombstones
+         WHERE deleted_at < NOW() - make_interval(days => $1)
+         RETURNING user_id, version
+       ), horizons AS (
+         INSERT INTO sync_horizons (user_id, version)
+         SELECT p.user_id, MAX(p.version)
+         FROM pruned p
+         INNER JOIN users u ON u.id = p.user_id
+         GROUP BY p.user_id
+         ON CONFLICT (user_id) DO UPDATE
+         SET version = GREATEST(sync_horizons.version, EXCLUDED.version)
+       )
+       SELECT COUNT(*)::int AS count FROM pruned`,
+      [retentionDays]
+    );
+    return count;
+  } catch (error) {
+    console.error('Error pruning tombstones:', error);
+    throw error;
+  }
+}
+
+// Prune now and then - returns a function that stops it
+export function startTombstonePruner(intervalMs: number = PRUNE_INTERVAL_MS): () => void {
+  const prune = () => {
+    pruneTombstones().catch(() => {}); // Logged above; the next round tries again
+  };
+
+  prune();
+  const timer = setInterval(prune, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,31 @@
+import type { FieldError } from './schemas';
+
+// Error codes the API answers with, and the HTTP status each one is sent with. The
+// frontend imports this file too (src/lib/api.ts), so it may not import anything that
+// runs - only types.
+
+export const ERROR_STATUS = {
+  VALIDATION: 400, // The input is wrong - see details for which fields
+  INVALID_STATE: 400, // Fine input, but not now - e.g. resuming a chunk that's running
+  UNAUTHENTICATED: 401, // No token, or none that works where one is optional
+  INVALID_TOKEN: 403, // Expired or tampered with - sign in again
+  NOT_FOUND: 404,
+  CONFLICT: 409, // Taken ID or stale baseUpdatedAt; the stored copy comes as current
+  PAYLOAD_TOO_LARGE: 413,
+  RATE_LIMITED: 429,
+  AI_KEY_MISSING: 400, // Neither a stored nor a provided Anthropic key
+  AI_KEY_INVALID: 400, // Anthropic turned the key down
+  AI_UPSTREAM: 502, // Anthropic failed or couldn't be reached
+  INTERNAL: 500
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+// Body of every error response
+export interface ErrorResponse {
+  error: string; // Readable message
+  code: ErrorCode;
+  requestId: string; // Also in the X-Request-Id header; server logs carry it too
+  details?: FieldError[]; // VALIDATION only
+  current?: unknown; // CONFLICT only
+}
@@ -16,16 +16,62 @@ export interface Task {
   title: string;
   priority: 'high' | 'medium' | 'low';
   estimatedHours: number;
+  originalEstimatedHours?: number; // The estimate the task was created with
   hoursCompleted: number;
   defaultNagInterval?: number;
+  defaultChunkSize?: number;
+  dueDate?: string;
+  dueTime?: string;
+  dependsOn?: string[];
+  recurrence?: RecurrenceRule;
+  lastRecurredOn?: string;
+  escalation?: EscalationPolicy;
   createdAt: string;
   updatedAt?: string;  // Added for backend
 }
 
+// Tasks as the database returns them. DECIMAL columns arrive as strings; depends_on is
+// only there when the query gathers it from task_dependencies.
+export interface TaskRow {
+  id: string;
+  user_id: string;
+  title: string;
+  priority: 'high' | 'medium' | 'low';
+  estimated_hours: string;
+  original_estimated_hours: string | null;
+  hours_completed: string;
+  default_nag_interval: number | null;
+  default_chunk_size: number | null;
+  due_date: string | null;
+  due_time: string | null;
+  depends_on?: string[];
+  recurrence: RecurrenceRule | null;
+  last_recurred_on: string | null;
+  escalation: EscalationPolicy | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EscalationPolicy {
+  enabled: boolean;
+  ignoredNagsPerLevel: number;
+  intervalFactor: number;
+  minIntervalMinutes: number;
+  requireInteractionFromLevel: number;
+}
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekdays' | 'weekly' | 'interval';
+  daysOfWeek?: number[];
+  intervalDays?: number;
+  startDate: string;
+}
+
 export interface Schedule {
   id: string;
   userId?: string;  // Added for backend
   name?: string;
+  planId?: string;
   date: string;
   startTime: string;
   endTime: string;
@@ -35,6 +81,31 @@ export interface Schedule {
   chunks: ScheduleChunk[];
   createdAt: string;
   updatedAt?: string;  // Added for backend
+  completedAt?: string;
+}
+
+// How a session went - task chunks only
+export interface ScheduleSummary {
+  chunksTotal: number;
+  chunksCompleted: number;
+  chunksSkipped: number;
+  plannedMinutes: number;
+  focusMinutes: number;
+}
+
+export type ScheduleSessionOutcome = 'completed' | 'ended';
+
+// A finished stint with an active schedule, as the database returns it
+export interface ScheduleSessionRow {
+  id: string;
+  user_id: string;
+  schedule_id: string | null; // null once the schedule is deleted
+  schedule_name: string | null;
+  schedule_date: string;
+  started_at: Date;
+  ended_at: Date;
+  outcome: ScheduleSessionOutcome;
+  summary: ScheduleSummary;
 }
 
 export interface ScheduleChunk {
@@ -47,9 +118,22 @@ export interface ScheduleChunk {
   endTime: string;
   durationMinutes: number;
   nagIntervalMinutes: number;
-  type: 'task' | 'break';
+  type: 'task' | 'break' | 'busy';
   completed: boolean;
   completedAt?: string;
+  skipped?: boolean;
+  skippedAt?: string;
+  snoozedUntil?: string;
+  lastInteractionAt?: string;
+  timeEvents?: ChunkTimeEvent[];
+  focusMinutes?: number;
+}
+
+export type ChunkTimeEventType = 'start' | 'pause' | 'resume';
+
+export interface ChunkTimeEvent {
+  type: ChunkTimeEventType;
+  at: string;
 }
 
 export interface ScheduleBreak {
@@ -59,6 +143,85 @@ export interface ScheduleBreak {
   durationMinutes: number;
 }
 
+// Schedules as the database returns them (pg-promise): snake_case columns, TIME as
+// HH:mm:ss and DATE as YYYY-MM-DD. Routes send these to the client as they are.
+export interface ScheduleChunkRow {
+  id: string;
+  schedule_id: string;
+  task_id: string | null;
+  task_title: string;
+  task_priority: 'high' | 'medium' | 'low';
+  start_time: string;
+  end_time: string;
+  duration_minutes: number;
+  nag_interval_minutes: number;
+  type: 'task' | 'break' | 'busy';
+  completed: boolean;
+  completed_at: Date | null;
+  skipped: boolean | null;
+  skipped_at: Date | null;
+  snoozed_until: Date | null;
+  last_interaction_at: Date | null;
+  time_events: ChunkTimeEvent[];
+  focus_minutes: number | null;
+  created_at: Date;
+}
+
+export interface ScheduleBreakRow {
+  id: string;
+  schedule_id: string;
+  time: string;
+  duration_minutes: number;
+}
+
+export interface ScheduleRow {
+  id: string;
+  user_id: string;
+  name: string | null;
+  plan_id: string | null;
+  date: string;
+  start_time: string;
+  end_time: string;
+  default_chunk_size: number;
+  status: 'active' | 'completed';
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+  chunks: ScheduleChunkRow[];
+  breaks: ScheduleBreakRow[];
+}
+
+export interface ScheduleTemplate {
+  id: string;
+  userId?: string;  // Added for backend
+  name: string;
+  startTime: string;
+  endTime: string;
+  breaks: { time: string; durationMinutes: number }[];
+  defaultChunkSize: number;
+  taskIds: string[];
+  recurrence: RecurrenceRule;
+  lastCreatedOn?: string;
+  createdAt: string;
+  updatedAt?: string;  // Added for backend
+}
+
+// Templates as the database returns them - breaks are stored as the client sent them
+export interface ScheduleTemplateRow {
+  id: string;
+  user_id: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+  default_chunk_size: number;
+  breaks: { time: string; durationMinutes: number }[];
+  task_ids: string[];
+  recurrence: RecurrenceRule;
+  last_created_on: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface AppSettings {
   id?: string;  // Added for backend
   userId?: string;  // Added for backend
@@ -67,10 +230,43 @@ export interface AppSettings {
   defaultChunkSize: number;
   defaultNagInterval: number;
   timeUnit: 'hours' | 'minutes';
+  escalation?: EscalationPolicy;
   createdAt?: string;  // Added for backend
   updatedAt?: string;  // Added for backend
 }
 
+export interface SettingsRow {
+  id: string;
+  user_id: string;
+  notifications_enabled: boolean;
+  default_break_duration: number;
+  default_chunk_size: number;
+  default_nag_interval: number;
+  time_unit: 'hours' | 'minutes';
+  escalation: EscalationPolicy | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PushSubscriptionRecord {
+  id: string;
+  userId: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  timeZone: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSentAt?: string;
+}
+
+export interface CalendarFeed {
+  userId: string;
+  token: string;
+  timeZone: string;
+  createdAt: string;
+}
+
 // API Request/Response types
 
 export interface LoginResponse {
@@ -78,22 +274,98 @@ export interface LoginResponse {
   user: User;
 }
 
-export interface MigrationRequest {
+// Versioned backup of everything a user has - GET /api/export, POST /api/import
+export interface DataExport {
+  format: 'naggle-backup';
+  version: number;
+  exportedAt: string;
   tasks: Task[];
-  schedules: Schedule[];
+  schedules: Schedule[]; // With chunks and breaks
+  templates: ScheduleTemplate[];
   settings: AppSettings;
   activeScheduleId?: string;
 }
 
+// merge adds what isn't there yet and keeps the user's settings; replace deletes everything first
+export type ImportMode = 'merge' | 'replace';
+
 export interface MigrationResponse {
   success: boolean;
   migrated: {
     tasks: number;
     schedules: number;
+    templates: number;
     settings: boolean;
   };
 }
 
+// Rows are returned as stored (snake_case), like the rest of the API
+export interface SyncEntityChanges<T> {
+  created: T[];
+  updated: T[];
+  deleted: string[];
+}
+
+export interface SyncDeltaResponse {
+  cursor: string;
+  full: boolean; // The cursor was too old: this is everything, and what isn't in it is gone
+  tasks: SyncEntityChanges<Task>;
+  schedules: SyncEntityChanges<Schedule>; // With breaks; chunks come separately
+  chunks: SyncEntityChanges<ScheduleChunk>;
+  settings: AppSettings | null; // Only when changed
+  active: { scheduleId: string | null; since: Date | null }; // Always sent
+}
+
+// Insights - days are the schedule's date, focus is measured focus time (planned
+// length for chunks completed before tracking). Same shapes as src/lib/insights.ts.
+export interface DailyFocus {
+  date: string; // YYYY-MM-DD
+  minutes: number;
+}
+
+export interface WeeklyFocus {
+  weekStart: string; // Monday, YYYY-MM-DD
+  minutes: number;
+}
+
+export interface FocusInsights {
+  daily: DailyFocus[]; // Oldest first, days without focus included
+  weekly: WeeklyFocus[];
+}
+
+export interface CompletionInsights {
+  planned: number; // Task chunks from past days, plus today's that are settled
+  completed: number;
+  skipped: number;
+  rate: number | null; // completed / planned
+}
+
+export interface TimeInsights {
+  byTask: { taskId: string | null; title: string; minutes: number }[];
+  byPriority: { priority: 'high' | 'medium' | 'low'; minutes: number }[];
+}
+
+export interface StreakInsights {
+  current: number; // Days in a row with a completed chunk, up to today (or yesterday)
+  longest: number;
+}
+
+export interface EstimateInsight {
+  taskId: string;
+  title: string;
+  estimatedMinutes: number; // As first estimated
+  actualMinutes: number;
+  finished: boolean;
+}
+
+// Pushed to a user's other sessions over GET /api/events when something changes.
+// Only IDs travel - sessions fetch the changes themselves through GET /api/sync.
+export type ChangeEvent =
+  | { type: 'task'; taskId: string }
+  | { type: 'schedule'; scheduleId: string }
+  | { type: 'chunk'; scheduleId: string; chunkId: string }
+  | { type: 'active-schedule'; scheduleId: string | null };
+
 // JWT Payload
 export interface JWTPayload {
   userId: string;
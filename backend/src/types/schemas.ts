@@ -0,0 +1,373 @@
+import { z } from 'zod';
+
+// Request schemas for every API route that takes input. The frontend imports this file
+// too (src/lib/backup.ts, and its record types in src/types/index.ts come from here), so
+// it may only import zod - nothing from the backend. Records (tasks, schedules, ...) are
+// camelCase, like the frontend.
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const CURSOR = /^\d{1,18}$/;
+
+const TYPE_NAMES: Record<string, string> = {
+  array: 'a list', object: 'an object', string: 'text', number: 'a number', boolean: 'true or false'
+};
+
+// Zod's own message for a missing or mistyped field, in the same words as the ones below
+z.config({
+  customError: issue => {
+    if (issue.code !== 'invalid_type') return undefined;
+    if (issue.input === undefined) return 'is required';
+    return `must be ${TYPE_NAMES[issue.expected] ?? issue.expected}`;
+  }
+});
+
+export interface FieldError {
+  path: string; // e.g. chunks[2].startTime, empty for the request as a whole
+  message: string;
+}
+
+// ['chunks', 2, 'startTime'] -> 'chunks[2].startTime'
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, key) =>
+    typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${String(key)}` : String(key), '');
+}
+
+export function describeIssues(error: z.ZodError): FieldError[] {
+  return error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+}
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Building blocks
+
+export const uuid = z.string().regex(UUID, 'must be a UUID');
+export const date = z.string()
+  .regex(DATE, 'must be a YYYY-MM-DD date')
+  // Date rolls 2025-02-30 over into March, so it must come back unchanged
+  .refine(value => {
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+  }, 'is not a real date');
+export const time = z.string().regex(TIME, 'must be an HH:mm time');
+const timestamp = z.string().refine(value => !isNaN(Date.parse(value)), 'must be an ISO timestamp');
+const timeZone = z.string().refine(isTimeZone, 'is not a known time zone');
+const required = z.string().refine(value => value.trim() !== '', 'is required');
+const positiveInteger = z.number().int('must be a whole number').min(1, 'must be at least 1');
+const minutes = z.number().min(0, "can't be negative");
+const priority = z.enum(['high', 'medium', 'low'], 'must be high, medium or low');
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekdays', 'weekly', 'interval'], 'must be daily, weekdays, weekly or interval'),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullish(), // 0 = Sunday ... 6 = Saturday
+  intervalDays: positiveInteger.nullish(), // For interval: every N days
+  startDate: date // First possible occurrence
+}).superRefine((rule, ctx) => {
+  if (rule.frequency === 'weekly' && !rule.daysOfWeek?.length) {
+    ctx.addIssue({ code: 'custom', path: ['daysOfWeek'], message: 'needs at least one day for a weekly rule' });
+  }
+  if (rule.frequency === 'interval' && !rule.intervalDays) {
+    ctx.addIssue({ code: 'custom', path: ['intervalDays'], message: 'is required for an interval rule' });
+  }
+});
+
+export const escalationSchema = z.object({
+  enabled: z.boolean(),
+  ignoredNagsPerLevel: z.number().int().min(1), // Unanswered nags before stepping up a level
+  intervalFactor: z.number().gt(0).max(1), // Nag interval is multiplied by this at each level
+  minIntervalMinutes: z.number().int().min(1), // Never nag more often than this
+  requireInteractionFromLevel: z.number().int().min(1) // Notifications stay on screen from this level
+});
+
+// Tasks
+
+const taskFields = {
+  title: required,
+  priority,
+  estimatedHours: z.number().min(0, "can't be negative"), // In the user's time unit
+  originalEstimatedHours: z.number().min(0, "can't be negative").nullish(), // The estimate the task was created with
+  hoursCompleted: z.number().min(0, "can't be negative"),
+  defaultNagInterval: minutes.nullish(),
+  defaultChunkSize: minutes.nullish(),
+  dueDate: date.nullish(),
+  dueTime: time.nullish(), // End of day if omitted
+  dependsOn: z.array(uuid).nullish(), // Tasks that must be finished first
+  recurrence: recurrenceSchema.nullish(), // Progress resets on every matching date
+  lastRecurredOn: date.nullish(), // The last reset
+  escalation: escalationSchema.nullish() // Overrides the nag escalation from settings
+};
+
+export const taskSchema = z.object({
+  id: uuid,
+  ...taskFields,
+  createdAt: timestamp,
+  updatedAt: timestamp.nullish() // Last change, here or on the server - newest wins a sync conflict
+});
+
+export const createTaskSchema = z.object({
+  ...taskFields,
+  id: uuid.optional(), // Offline clients pick their own
+  hoursCompleted: taskFields.hoursCompleted.optional()
+});
+
+// Omitted fields stay as they are; null clears dueDate, recurrence and escalation
+export const updateTaskSchema = z.object({
+  ...taskFields,
+  dependsOn: z.array(uuid).optional() // Replaces all prerequisites
+}).partial().extend({
+  baseUpdatedAt: timestamp.optional() // updated_at the client last saw
+});
+
+// Schedules
+
+const chunkFields = {
+  taskId: z.union([uuid, z.literal('')]).nullish(), // Empty for breaks and busy blocks
+  taskTitle: z.string(),
+  taskPriority: priority,
+  startTime: time,
+  endTime: time,
+  durationMinutes: minutes,
+  nagIntervalMinutes: minutes,
+  type: z.enum(['task', 'break', 'busy'], 'must be task, break or busy'), // Busy chunks are locked in place
+  completed: z.boolean(),
+  completedAt: timestamp.nullish(),
+  skipped: z.boolean().nullish(), // Given up without working on it
+  snoozedUntil: timestamp.nullish(), // No nags before this
+  lastInteractionAt: timestamp.nullish(), // Nags escalate from here
+  // When work actually started, paused and resumed
+  timeEvents: z.array(z.object({ type: z.enum(['start', 'pause', 'resume']), at: timestamp })).nullish(),
+  focusMinutes: z.number().int().min(0).nullish() // Measured time credited to the task on completion
+};
+
+const breakFields = {
+  time,
+  durationMinutes: minutes
+};
+
+const scheduleFields = {
+  name: z.string().nullish(),
+  planId: uuid.nullish(), // Links the daily schedules of a multi-day plan
+  date,
+  startTime: time,
+  endTime: time,
+  defaultChunkSize: positiveInteger,
+  status: z.enum(['active', 'completed'], 'must be active or completed')
+};
+
+export const scheduleSchema = z.object({
+  id: uuid,
+  ...scheduleFields,
+  breaks: z.array(z.object({ id: uuid, ...breakFields })),
+  chunks: z.array(z.object({ id: uuid, ...chunkFields })),
+  createdAt: timestamp,
+  updatedAt: timestamp.nullish(),
+  completedAt: timestamp.nullish()
+});
+
+const scheduleInput = z.object({
+  ...scheduleFields,
+  id: uuid.optional(),
+  status: scheduleFields.status.optional(),
+  breaks: z.array(z.object({ id: uuid.optional(), ...breakFields })).optional(),
+  chunks: z.array(z.object({ id: uuid.optional(), ...chunkFields }))
+});
+
+export const createScheduleSchema = scheduleInput.extend({
+  activate: z.boolean().optional() // false keeps the active schedule as it is
+});
+
+export const createPlanSchema = z.object({
+  planId: uuid,
+  schedules: z.array(scheduleInput).min(1, 'needs at least one day')
+});
+
+// chunks and breaks replace the stored ones when given
+export const updateScheduleSchema = createScheduleSchema.omit({ id: true }).partial().extend({
+  baseUpdatedAt: timestamp.optional()
+});
+
+export const chunkMinutesSchema = z.object({
+  minutes: positiveInteger
+});
+
+export const chunkCompleteSchema = z.object({
+  timeZone: timeZone.optional() // Where the schedule's day is, for a chunk nobody started
+});
+
+// Templates
+
+const templateFields = {
+  name: required,
+  startTime: time,
+  endTime: time,
+  defaultChunkSize: positiveInteger,
+  breaks: z.array(z.object(breakFields)),
+  taskIds: z.array(uuid),
+  recurrence: recurrenceSchema,
+  lastCreatedOn: date.nullish() // The last schedule created from it
+};
+
+export const templateSchema = z.object({
+  id: uuid,
+  ...templateFields,
+  createdAt: timestamp
+});
+
+export const createTemplateSchema = z.object({
+  ...templateFields,
+  breaks: templateFields.breaks.optional(),
+  taskIds: templateFields.taskIds.optional()
+});
+
+export const updateTemplateSchema = z.object(templateFields).partial();
+
+// Settings
+
+export const settingsSchema = z.object({
+  notificationsEnabled: z.boolean(),
+  defaultBreakDuration: minutes,
+  defaultChunkSize: minutes,
+  defaultNagInterval: minutes,
+  timeUnit: z.enum(['hours', 'minutes'], 'must be hours or minutes'),
+  escalation: escalationSchema.nullish()
+});
+
+export const updateSettingsSchema = settingsSchema.partial();
+
+export const apiKeySchema = z.object({
+  apiKey: required
+});
+
+// Web Push and calendar feed
+
+export const pushSubscribeSchema = z.object({
+  subscription: z.object({
+    endpoint: z.url(),
+    keys: z.object({ p256dh: required, auth: required })
+  }),
+  timeZone: timeZone.optional() // Quiet hours and the day's schedule follow it
+});
+
+export const pushUnsubscribeSchema = z.object({
+  endpoint: required
+});
+
+export const calendarFeedSchema = z.object({
+  timeZone: timeZone.optional()
+});
+
+// Moving data in: first login, and backups
+
+export const migrationSchema = z.object({
+  tasks: z.array(taskSchema),
+  schedules: z.array(scheduleSchema),
+  templates: z.array(templateSchema).optional(),
+  settings: settingsSchema.optional(),
+  activeScheduleId: uuid.nullish()
+});
+
+// Everything after the format and version, which callers check first so an unrelated
+// or newer file gets one clear message instead of a list of problems
+export const backupSchema = z.object({
+  tasks: z.array(taskSchema),
+  schedules: z.array(scheduleSchema),
+  templates: z.array(templateSchema),
+  settings: settingsSchema,
+  activeScheduleId: uuid.nullish()
+}).superRefine((backup, ctx) => {
+  if (backup.activeScheduleId && !backup.schedules.some(schedule => schedule.id === backup.activeScheduleId)) {
+    ctx.addIssue({ code: 'custom', path: ['activeScheduleId'], message: 'must be one of the schedules' });
+  }
+  const ids = [...backup.tasks, ...backup.schedules, ...backup.templates].map(item => item.id);
+  if (new Set(ids).size !== ids.length) {
+    ctx.addIssue({ code: 'custom', path: [], message: 'Backup contains the same ID twice' });
+  }
+});
+
+export const importSchema = z.object({
+  mode: z.enum(['merge', 'replace'], 'must be merge or replace'),
+  data: z.unknown() // Checked with validateBackup
+});
+
+export const aiGenerateSchema = z.object({
+  input: required,
+  tasks: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    estimatedHours: z.number(),
+    priority
+  })).default([]), // Existing tasks the assistant may schedule
+  apiKey: z.string().optional() // Without a stored key
+});
+
+// Query strings and route parameters
+
+export const idParams = z.object({
+  id: uuid
+});
+
+export const chunkParams = z.object({
+  scheduleId: uuid,
+  chunkId: uuid
+});
+
+export const scheduleListQuery = z.object({
+  date: date.optional(),
+  status: scheduleFields.status.optional(),
+  planId: uuid.optional()
+});
+
+export const historyQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(500, 'must be at most 500').default(50)
+});
+
+export const syncQuery = z.object({
+  // Empty or missing for everything
+  since: z.union([z.string().regex(CURSOR, 'must be a cursor from an earlier sync'), z.literal('')])
+    .default('')
+    .transform(since => since || '0')
+});
+
+// Clients pass their own today - the server doesn't know their time zone
+const insightsToday = date.default(() => new Date().toISOString().slice(0, 10));
+
+export const insightsQuery = z.object({
+  today: insightsToday
+});
+
+export const focusInsightsQuery = z.object({
+  today: insightsToday,
+  days: z.coerce.number().int().min(1).max(366).default(14),
+  weeks: z.coerce.number().int().min(1).max(104).default(8)
+});
+
+// What the routes get once their input passed - z.input is what clients may send
+
+export type CreateTaskRequest = z.infer<typeof createTaskSchema>;
+export type UpdateTaskRequest = z.infer<typeof updateTaskSchema>;
+export type CreateScheduleRequest = z.infer<typeof createScheduleSchema>;
+export type CreatePlanRequest = z.infer<typeof createPlanSchema>;
+export type ScheduleInput = z.infer<typeof scheduleInput>; // One day, chunk and break IDs optional
+export type ChunkInput = ScheduleInput['chunks'][number];
+export type BreakInput = NonNullable<ScheduleInput['breaks']>[number];
+export type UpdateScheduleRequest = z.infer<typeof updateScheduleSchema>;
+export type CreateTemplateRequest = z.infer<typeof createTemplateSchema>;
+export type UpdateTemplateRequest = z.infer<typeof updateTemplateSchema>;
+export type UpdateSettingsRequest = z.infer<typeof updateSettingsSchema>;
+export type PushSubscribeRequest = z.infer<typeof pushSubscribeSchema>;
+export type MigrationRequest = z.infer<typeof migrationSchema>;
+export type ImportRequest = z.infer<typeof importSchema>;
+export type AiGenerateRequest = z.infer<typeof aiGenerateSchema>;
+export type ScheduleListQuery = z.infer<typeof scheduleListQuery>;
+export type HistoryQuery = z.infer<typeof historyQuery>;
+export type SyncQuery = z.infer<typeof syncQuery>;
+export type InsightsQuery = z.infer<typeof insightsQuery>;
+export type FocusInsightsQuery = z.infer<typeof focusInsightsQuery>;
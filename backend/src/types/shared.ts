@@ -0,0 +1,605 @@
+import type {
+  ChunkTimeEvent,
+  ChunkTimeEventType,
+  DailyFocus,
+  EscalationPolicy,
+  EstimateInsight,
+  Schedule,
+  ScheduleChunk,
+  ScheduleChunkRow,
+  ScheduleRow,
+  ScheduleSummary,
+  StreakInsights,
+  Task,
+  TaskRow,
+  WeeklyFocus
+} from './index';
+
+// Helpers the server and the browser both run, so both get the same answers. The
+// frontend imports this file too (e.g. src/lib/insights.ts), so it may not import
+// anything that runs - only types. Records come in the frontend's camelCase shape;
+// the server maps its rows first.
+
+// Dates - YYYY-MM-DD strings, in UTC so no time zone shifts a day
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function getWeekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+  return addDays(date, -((day + 6) % 7));
+}
+
+// Time zones
+
+export interface LocalClock {
+  date: string; // YYYY-MM-DD
+  minutes: number; // Minutes since midnight
+}
+
+// Wall-clock date and time of an instant in a time zone
+export function getLocalClock(instant: Date, timeZone: string): LocalClock {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10)
+  };
+}
+
+// The instant a wall-clock date and time happen in a time zone. The offset is taken
+// twice so times next to a DST change land on the right side of it.
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const offsetAt = (instant: number) => {
+    const clock = getLocalClock(new Date(instant), timeZone);
+    const [y, m, d] = clock.date.split('-').map(Number);
+    return Date.UTC(y, m - 1, d) + clock.minutes * 60 * 1000 - instant;
+  };
+
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+// Insights
+
+// The last `days` days up to today, with 0 for days without focus
+export function fillDays(minutesByDate: Map<string, number>, today: string, days: number): DailyFocus[] {
+  return Array.from({ length: days }, (_, i) => {
+    const date = addDays(today, i - days + 1);
+    return { date, minutes: minutesByDate.get(date) || 0 };
+  });
+}
+
+export function fillWeeks(minutesByDate: Map<string, number>, today: string, weeks: number): WeeklyFocus[] {
+  const totals = new Map<string, number>();
+  minutesByDate.forEach((minutes, date) => {
+    const weekStart = getWeekStart(date);
+    totals.set(weekStart, (totals.get(weekStart) || 0) + minutes);
+  });
+
+  const thisWeek = getWeekStart(today);
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = addDays(thisWeek, (i - weeks + 1) * 7);
+    return { weekStart, minutes: totals.get(weekStart) || 0 };
+  });
+}
+
+// A streak still counts while today has nothing done yet
+export function getStreak(activeDates: string[], today: string): StreakInsights {
+  const dates = [...new Set(activeDates)].filter(d => d <= today).sort();
+  let longest = 0;
+  let run = 0;
+
+  dates.forEach((date, i) => {
+    run = i > 0 && addDays(dates[i - 1], 1) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const last = dates[dates.length - 1];
+  const current = last === today || last === addDays(today, -1) ? run : 0;
+  return { current, longest };
+}
+
+// Estimate calibration - how far off estimates tend to be, learned from finished tasks:
+// the focus time they actually took against what was first estimated. Tasks with words
+// in common ("writing", "report") are compared first, then tasks of the same priority,
+// then everything.
+
+export interface CalibrationSample {
+  taskId: string;
+  words: string[];
+  priority: Task['priority'];
+  estimatedMinutes: number;
+  actualMinutes: number;
+}
+
+export interface EstimateCorrection {
+  factor: number; // Multiply an estimate by this
+  sampleSize: number;
+  basis: 'similar' | 'priority' | 'overall';
+  keyword?: string; // For 'similar': the word the tasks share
+}
+
+const MIN_SAMPLES = 3;
+const MIN_FACTOR = 0.5;
+const MAX_FACTOR = 3;
+const STOP_WORDS = new Set(['with', 'from', 'into', 'about', 'that', 'this', 'them', 'then', 'more', 'some']);
+
+// Lowercase words of four letters or more, trimmed to a rough stem so
+// "write", "writes" and "writing" land together
+export function getTitleWords(title: string): string[] {
+  const words = title.toLowerCase().match(/[a-z]{4,}/g) || [];
+  return [...new Set(
+    words
+      .filter(word => !STOP_WORDS.has(word))
+      .map(word => word.replace(/(ing|ed|es|e|s)$/, ''))
+      .filter(word => word.length >= 3)
+  )];
+}
+
+// Estimates of tasks that aren't finished yet say nothing about how long they took
+export function getCalibrationSamples(
+  estimates: EstimateInsight[],
+  tasks: Pick<Task, 'id' | 'priority'>[]
+): CalibrationSample[] {
+  return estimates
+    .filter(estimate => estimate.finished && estimate.estimatedMinutes > 0)
+    .flatMap(estimate => {
+      const task = tasks.find(t => t.id === estimate.taskId);
+      if (!task) return [];
+      return [{
+        taskId: estimate.taskId,
+        words: getTitleWords(estimate.title),
+        priority: task.priority,
+        estimatedMinutes: estimate.estimatedMinutes,
+        actualMinutes: estimate.actualMinutes
+      }];
+    });
+}
+
+// Total time taken over total time estimated, so big tasks weigh more than small ones
+function getFactor(samples: CalibrationSample[]): number {
+  const estimated = samples.reduce((sum, s) => sum + s.estimatedMinutes, 0);
+  const actual = samples.reduce((sum, s) => sum + s.actualMinutes, 0);
+  return Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, actual / estimated));
+}
+
+// null until there's enough history to say anything
+export function getEstimateCorrection(
+  samples: CalibrationSample[],
+  task: Pick<Task, 'title' | 'priority'> & { id?: string }
+): EstimateCorrection | null {
+  // A task doesn't vouch for its own estimate
+  const others = samples.filter(s => s.taskId !== task.id);
+
+  let similar: { keyword: string; samples: CalibrationSample[] } | null = null;
+  for (const keyword of getTitleWords(task.title)) {
+    const matching = others.filter(s => s.words.includes(keyword));
+    if (matching.length >= MIN_SAMPLES && (!similar || matching.length > similar.samples.length)) {
+      similar = { keyword, samples: matching };
+    }
+  }
+  if (similar) {
+    return { factor: getFactor(similar.samples), sampleSize: similar.samples.length, basis: 'similar', keyword: similar.keyword };
+  }
+
+  const samePriority = others.filter(s => s.priority === task.priority);
+  if (samePriority.length >= MIN_SAMPLES) {
+    return { factor: getFactor(samePriority), sampleSize: samePriority.length, basis: 'priority' };
+  }
+
+  if (others.length >= MIN_SAMPLES) {
+    return { factor: getFactor(others), sampleSize: others.length, basis: 'overall' };
+  }
+
+  return null;
+}
+
+// Focus tracking
+
+export const TIME_EVENT_TYPES: ChunkTimeEventType[] = ['start', 'pause', 'resume'];
+
+export function isTrackingRunning(events: ChunkTimeEvent[] = []): boolean {
+  const last = events[events.length - 1];
+  return !!last && last.type !== 'pause';
+}
+
+export function isTrackingPaused(events: ChunkTimeEvent[] = []): boolean {
+  return events[events.length - 1]?.type === 'pause';
+}
+
+// start once, then pause and resume take turns
+export function canRecordTimeEvent(events: ChunkTimeEvent[] = [], type: ChunkTimeEventType): boolean {
+  if (type === 'start') return events.length === 0;
+  if (type === 'pause') return isTrackingRunning(events);
+  return isTrackingPaused(events);
+}
+
+// A chunk nobody started counts as started at its scheduled start, which is what
+// progress tracking assumed before there were start/pause/resume events
+export function withImplicitStart(events: ChunkTimeEvent[] = [], scheduledStart: Date, now: Date): ChunkTimeEvent[] {
+  if (events.length > 0) return events;
+  const at = Math.min(scheduledStart.getTime(), now.getTime());
+  return [{ type: 'start', at: new Date(at).toISOString() }];
+}
+
+// Milliseconds spent running up to `until`, leaving out every pause
+export function getFocusMilliseconds(events: ChunkTimeEvent[] = [], until: Date): number {
+  let total = 0;
+  let runningSince: number | null = null;
+
+  for (const event of events) {
+    const at = new Date(event.at).getTime();
+    if (event.type === 'pause') {
+      if (runningSince !== null) total += Math.max(0, at - runningSince);
+      runningSince = null;
+    } else if (runningSince === null) {
+      runningSince = at;
+    }
+  }
+
+  if (runningSince !== null) total += Math.max(0, until.getTime() - runningSince);
+  return total;
+}
+
+// Whole minutes credited to the task when the chunk is completed - at least one
+export function getFocusMinutes(events: ChunkTimeEvent[] = [], until: Date): number {
+  return Math.max(1, Math.round(getFocusMilliseconds(events, until) / (60 * 1000)));
+}
+
+// Sessions
+
+export interface SummaryChunk {
+  type: 'task' | 'break' | 'busy';
+  completed: boolean;
+  skipped?: boolean | null;
+  durationMinutes: number;
+  focusMinutes?: number | null;
+}
+
+// Chunks completed before focus tracking count their planned length
+export function summarizeChunks(chunks: SummaryChunk[]): ScheduleSummary {
+  const tasks = chunks.filter(c => c.type === 'task');
+  const completed = tasks.filter(c => c.completed);
+
+  return {
+    chunksTotal: tasks.length,
+    chunksCompleted: completed.length,
+    chunksSkipped: tasks.filter(c => !c.completed && c.skipped).length,
+    plannedMinutes: tasks.reduce((sum, c) => sum + c.durationMinutes, 0),
+    focusMinutes: completed.reduce((sum, c) => sum + (c.focusMinutes ?? c.durationMinutes), 0)
+  };
+}
+
+// Nags - when a running chunk nags and what it says. Browser notifications
+// (src/lib/notifications.ts) and Web Push (src/services/push.service.ts) both use these.
+
+export const MAX_ESCALATION_LEVEL = 2;
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  enabled: true,
+  ignoredNagsPerLevel: 2,
+  intervalFactor: 0.5,
+  minIntervalMinutes: 2,
+  requireInteractionFromLevel: 2
+};
+
+export interface EscalatedNag {
+  at: number; // On the clock the chunk's times were given in
+  level: number; // 0 = calm ... MAX_ESCALATION_LEVEL
+  requireInteraction: boolean;
+}
+
+export function getEscalationLevel(ignoredNags: number, policy: EscalationPolicy): number {
+  if (!policy.enabled) return 0;
+  return Math.min(MAX_ESCALATION_LEVEL, Math.floor(ignoredNags / Math.max(1, policy.ignoredNagsPerLevel)));
+}
+
+// Every nag of a chunk, assuming none of them gets an answer. Times are on one clock
+// with minute the length of a minute on it - the server counts minutes since midnight,
+// the browser epoch milliseconds. Counting starts over at the last interaction (anything
+// before start for none); a snooze ending inside the chunk nags once, then carries on.
+export function getEscalatedNags(
+  start: number,
+  end: number,
+  nagIntervalMinutes: number,
+  snoozeEnd: number,
+  lastInteraction: number,
+  policy: EscalationPolicy,
+  minute = 1
+): EscalatedNag[] {
+  if (nagIntervalMinutes <= 0) return [];
+
+  const nags: EscalatedNag[] = [];
+  const push = (at: number, ignored: number) => {
+    const level = getEscalationLevel(ignored, policy);
+    nags.push({ at, level, requireInteraction: policy.enabled && level >= policy.requireInteractionFromLevel });
+  };
+
+  let time = Math.max(start, lastInteraction);
+  let ignored = 0;
+
+  if (snoozeEnd > time && snoozeEnd < end) {
+    push(snoozeEnd, 0);
+    time = snoozeEnd;
+    ignored = 1;
+  }
+
+  for (;;) {
+    const level = getEscalationLevel(ignored, policy);
+    const intervalMinutes = level === 0
+      ? nagIntervalMinutes
+      : Math.max(1, policy.minIntervalMinutes, Math.round(nagIntervalMinutes * Math.pow(policy.intervalFactor, level)));
+
+    time += intervalMinutes * minute;
+    if (time >= end) break;
+
+    push(time, ignored);
+    ignored++;
+  }
+
+  return nags;
+}
+
+export interface NagMessage {
+  title: string;
+  body: string;
+}
+
+const pickOne = (messages: NagMessage[]) => messages[Math.floor(Math.random() * messages.length)];
+
+export function getStartMessage(taskTitle: string): NagMessage {
+  return { title: '🎬 Action time!', body: `Time to work on: ${taskTitle}` };
+}
+
+// Cheeky messages based on progress through the chunk (0-1), getting less cheeky the
+// more nags in a row go unanswered
+export function getNagMessage(taskTitle: string, progress: number, level = 0): NagMessage {
+  if (level >= 2) {
+    // Insistent - several nags ignored
+    return pickOne([
+      { title: "🚨 HELLO?!", body: `${taskTitle} - That's a lot of ignored reminders. Tap to let me know you're alive.` },
+      { title: "🚨 Not going away", body: `${taskTitle} - I'll keep asking until you answer. Done, snooze or skip?` },
+      { title: "🚨 Seriously now", body: `${taskTitle} - The clock is running and nobody's working. Check in!` }
+    ]);
+  } else if (level === 1) {
+    // Firm - a couple of nags ignored
+    return pickOne([
+      { title: "⚠️ Still waiting...", body: `${taskTitle} - You've missed a couple of reminders. Everything OK?` },
+      { title: "⚠️ Ignoring me?", body: `${taskTitle} - I'll start nagging more often until I hear from you.` },
+      { title: "⚠️ Tap me", body: `${taskTitle} - A quick tap tells me you're on it and I'll calm down.` }
+    ]);
+  }
+
+  if (progress < 0.25) {
+    // Early stage (0-25%)
+    return pickOne([
+      { title: "Just getting started?", body: `${taskTitle} - You've barely scratched the surface! Let's gooo!` },
+      { title: "Wakey wakey!", body: `${taskTitle} is calling... and it sounds impatient! 😤` },
+      { title: "Ahem... 👀", body: `${taskTitle} won't finish itself. No pressure though... 🙃` },
+      { title: "Still there?", body: `${taskTitle} is looking at you like 👁️👄👁️` },
+      { title: "Yoo-hoo! 👋", body: `${taskTitle} is feeling neglected. Show it some love!` }
+    ]);
+  } else if (progress < 0.5) {
+    // Quarter-way through (25-50%)
+    return pickOne([
+      { title: "Quarter of the way there!", body: `${taskTitle} - Looking good so far! Keep the momentum! 💪` },
+      { title: "Making progress!", body: `${taskTitle} - You're on a roll... don't stop now! 🔥` },
+      { title: "You're doing it!", body: `${taskTitle} - Past the awkward start phase. It's smooth sailing now!` },
+      { title: "Momentum check!", body: `${taskTitle} - You started strong! Let's finish stronger! 🚀` },
+      { title: "Nice pace!", body: `${taskTitle} - Keep this up and you'll be done before you know it!` }
+    ]);
+  } else if (progress < 0.75) {
+    // Halfway through (50-75%)
+    return pickOne([
+      { title: "Halfway there! 🎉", body: `${taskTitle} - You're crushing it! Don't give up now!` },
+      { title: "The home stretch!", body: `${taskTitle} - So close you can taste it! Keep going! 🏃` },
+      { title: "Past the halfway mark!", body: `${taskTitle} - It's all downhill from here! (in a good way) 📉✨` },
+      { title: "You're unstoppable!", body: `${taskTitle} - Giving up now would be silly. You're SO close! 💫` },
+      { title: "Look at you go!", body: `${taskTitle} - More than halfway done! Finish strong! 💪` }
+    ]);
+  }
+
+  // Final stretch (75-100%)
+  return pickOne([
+    { title: "Almost there!", body: `${taskTitle} - You can see the finish line! Sprint! 🏁` },
+    { title: "SO CLOSE!", body: `${taskTitle} - Just a little more... you've got this! 🎯` },
+    { title: "Final push!", body: `${taskTitle} - Don't stop now! Victory is near! 🏆` },
+    { title: "Nearly done!", body: `${taskTitle} - The end is in sight! Finish like a champion! ⭐` },
+    { title: "Last lap!", body: `${taskTitle} - You didn't come this far to only come this far! 🚀` }
+  ]);
+}
+
+export function getEndMessage(taskTitle: string): NagMessage {
+  return { title: "⏰ Time's up!", body: `Finished with ${taskTitle}? Mark it complete!` };
+}
+
+// iCalendar (RFC 5545) output - one event per chunk, breaks included, times in UTC
+
+export interface CalendarSchedule {
+  name?: string | null;
+  date: string;
+  chunks: {
+    id: string;
+    type: 'task' | 'break' | 'busy';
+    taskTitle: string;
+    taskPriority: string;
+    startTime: string;
+    endTime: string;
+    completed: boolean;
+    skipped?: boolean | null;
+  }[];
+}
+
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n');
+}
+
+export function formatUtc(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Chunk times are wall-clock times; toInstant says when they happen
+export function buildCalendar(
+  schedules: CalendarSchedule[],
+  options: { name: string; toInstant: (date: string, time: string) => Date; refreshMinutes?: number }
+): string {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Naggle//Schedules//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`
+  ];
+
+  if (options.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`
+    );
+  }
+
+  for (const schedule of schedules) {
+    // Busy blocks came from a calendar in the first place
+    for (const chunk of schedule.chunks.filter(c => c.type !== 'busy')) {
+      const description = [
+        schedule.name,
+        chunk.type === 'task' ? `Priority: ${chunk.taskPriority}` : null
+      ].filter(Boolean).join('\n');
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${chunk.id}@naggle`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatUtc(options.toInstant(schedule.date, chunk.startTime))}`,
+        `DTEND:${formatUtc(options.toInstant(schedule.date, chunk.endTime))}`,
+        `SUMMARY:${escapeText(`${chunk.completed ? '✅ ' : ''}${chunk.taskTitle}`)}`,
+        // Breaks don't block the calendar
+        `TRANSP:${chunk.type === 'break' ? 'TRANSPARENT' : 'OPAQUE'}`,
+        `STATUS:${chunk.skipped ? 'CANCELLED' : 'CONFIRMED'}`
+      );
+      if (description) {
+        lines.push(`DESCRIPTION:${escapeText(description)}`);
+      }
+      lines.push('END:VEVENT');
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Rows - tasks and schedules as the database returns them (snake_case, TIME as HH:mm:ss),
+// mapped to records. The browser gets the same rows as JSON, with timestamps as strings.
+
+export const toHoursMinutes = (time: string) => time.slice(0, 5);
+const toTimestamp = (value: Date | string) => new Date(value).toISOString();
+
+export function taskFromRow(row: TaskRow): Task {
+  return {
+    id: row.id,
+    title: row.title,
+    priority: row.priority,
+    estimatedHours: Number(row.estimated_hours),
+    originalEstimatedHours: row.original_estimated_hours != null ? Number(row.original_estimated_hours) : undefined,
+    hoursCompleted: Number(row.hours_completed),
+    defaultNagInterval: row.default_nag_interval ?? undefined,
+    defaultChunkSize: row.default_chunk_size ?? undefined,
+    dueDate: row.due_date ?? undefined,
+    dueTime: row.due_time ? toHoursMinutes(row.due_time) : undefined,
+    dependsOn: row.depends_on || [],
+    recurrence: row.recurrence ?? undefined,
+    lastRecurredOn: row.last_recurred_on ?? undefined,
+    escalation: row.escalation ?? undefined,
+    createdAt: toTimestamp(row.created_at),
+    updatedAt: toTimestamp(row.updated_at)
+  };
+}
+
+export function chunkFromRow(row: ScheduleChunkRow): ScheduleChunk {
+  return {
+    id: row.id,
+    taskId: row.task_id || '',
+    taskTitle: row.task_title,
+    taskPriority: row.task_priority,
+    startTime: toHoursMinutes(row.start_time),
+    endTime: toHoursMinutes(row.end_time),
+    durationMinutes: row.duration_minutes,
+    nagIntervalMinutes: row.nag_interval_minutes,
+    type: row.type,
+    completed: row.completed,
+    completedAt: row.completed_at ? toTimestamp(row.completed_at) : undefined,
+    skipped: row.skipped || undefined,
+    snoozedUntil: row.snoozed_until ? toTimestamp(row.snoozed_until) : undefined,
+    lastInteractionAt: row.last_interaction_at ? toTimestamp(row.last_interaction_at) : undefined,
+    timeEvents: row.time_events?.length ? row.time_events : undefined,
+    focusMinutes: row.focus_minutes ?? undefined
+  };
+}
+
+// Sync deltas send schedules without their chunks - those come on their own
+export function scheduleFromRow(row: Omit<ScheduleRow, 'chunks'> & { chunks?: ScheduleChunkRow[] }): Schedule {
+  return {
+    id: row.id,
+    name: row.name ?? undefined,
+    planId: row.plan_id ?? undefined,
+    date: row.date,
+    startTime: toHoursMinutes(row.start_time),
+    endTime: toHoursMinutes(row.end_time),
+    defaultChunkSize: row.default_chunk_size,
+    status: row.status,
+    breaks: row.breaks.map(b => ({
+      id: b.id,
+      time: toHoursMinutes(b.time),
+      durationMinutes: b.duration_minutes
+    })),
+    chunks: (row.chunks || []).map(chunkFromRow),
+    createdAt: toTimestamp(row.created_at),
+    updatedAt: toTimestamp(row.updated_at),
+    completedAt: row.completed_at ? toTimestamp(row.completed_at) : undefined
+  };
+}
@@ -0,0 +1,127 @@
+import { createUser, startDatabase, stopDatabase } from './helpers';
+import { after, afterEach, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { app } from '../src/server';
+
+before(startDatabase);
+after(stopDatabase);
+afterEach(() => mock.restoreAll());
+
+const completion = { content: [{ type: 'text', text: '{"tasks":[]}' }] };
+
+// Stands in for the Anthropic API; the supertest requests themselves don't go through fetch
+function mockAnthropic(status = 200, body: unknown = completion) {
+  return mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  }));
+}
+
+const sentApiKey = (fetchMock: ReturnType<typeof mockAnthropic>) => {
+  const [url, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit];
+  assert.equal(url, 'https://api.anthropic.com/v1/messages');
+  return (init.headers as Record<string, string>)['x-api-key'];
+};
+
+describe('PUT /api/settings/api-key', () => {
+  test('needs a key', async () => {
+    const { auth } = await createUser();
+    const res = await request(app).put('/api/settings/api-key').set('Authorization', auth).send({});
+
+    assert.equal(res.status, 400);
+  });
+});
+
+describe('POST /api/ai/generate', () => {
+  test("uses the signed-in user's stored key", async () => {
+    const fetchMock = mockAnthropic();
+    const { auth } = await createUser();
+    await request(app).put('/api/settings/api-key').set('Authorization', auth).send({ apiKey: 'sk-ant-stored' });
+
+    const res = await request(app)
+      .post('/api/ai/generate')
+      .set('Authorization', auth)
+      .send({ input: 'Plan my afternoon', tasks: [], apiKey: 'sk-ant-provided' });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, completion);
+    assert.equal(sentApiKey(fetchMock), 'sk-ant-stored');
+  });
+
+  test('uses the provided key when none is stored', async () => {
+    const fetchMock = mockAnthropic();
+    const { auth } = await createUser();
+
+    const res = await request(app)
+      .post('/api/ai/generate')
+      .set('Authorization', auth)
+      .send({ input: 'Plan my afternoon', tasks: [], apiKey: 'sk-ant-provided' });
+
+    assert.equal(res.status, 200);
+    assert.equal(sentApiKey(fetchMock), 'sk-ant-provided');
+  });
+
+  test('works without signing in, given a key', async () => {
+    const fetchMock = mockAnthropic();
+
+    const res = await request(app)
+      .post('/api/ai/generate')
+      .send({ input: 'Plan my afternoon', tasks: [], apiKey: 'sk-ant-guest' });
+
+    assert.equal(res.status, 200);
+    assert.equal(sentApiKey(fetchMock), 'sk-ant-guest');
+  });
+
+  test('needs input and some key', async () => {
+    const fetchMock = mockAnthropic();
+    const { auth } = await createUser();
+
+    const noInput = await request(app).post('/api/ai/generate').send({ tasks: [], apiKey: 'sk-ant-guest' });
+    const noKey = await request(app).post('/api/ai/generate').send({ input: 'Plan my afternoon', tasks: [] });
+    const noStoredKey = await request(app)
+      .post('/api/ai/generate')
+      .set('Authorization', auth)
+      .send({ input: 'Plan my afternoon', tasks: [] });
+    const badToken = await request(app)
+      .post('/api/ai/generate')
+      .set('Authorization', 'Bearer not-a-jwt')
+      .send({ input: 'Plan my afternoon', tasks: [] });
+
+    assert.equal(noInput.status, 400);
+    assert.equal(noInput.body.code, 'VALIDATION');
+    assert.equal(noKey.body.code, 'AI_KEY_MISSING');
+    assert.equal(noStoredKey.body.code, 'AI_KEY_MISSING');
+    assert.equal(badToken.status, 401);
+    assert.equal(fetchMock.mock.callCount(), 0);
+  });
+
+  test('passes on what went wrong at Anthropic', async () => {
+    mockAnthropic(401, { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } });
+
+    const res = await request(app)
+      .post('/api/ai/generate')
+      .send({ input: 'Plan my afternoon', tasks: [], apiKey: 'sk-ant-wrong' });
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.code, 'AI_KEY_INVALID');
+    assert.equal(res.body.error, 'invalid x-api-key');
+  });
+
+  test("tells a rate limit apart from Anthropic's other failures", async () => {
+    const send = () => request(app).post('/api/ai/generate').send({ input: 'Plan my afternoon', tasks: [], apiKey: 'sk-ant-guest' });
+
+    mockAnthropic(429, { type: 'error', error: { type: 'rate_limit_error', message: 'Slow down' } });
+    const limited = await send();
+    mock.restoreAll();
+    mockAnthropic(529, { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } });
+    const overloaded = await send();
+    mock.restoreAll();
+    mock.method(globalThis, 'fetch', async () => { throw new TypeError('fetch failed'); });
+    const unreachable = await send();
+
+    assert.deepEqual([limited.status, limited.body.code], [429, 'RATE_LIMITED']);
+    assert.deepEqual([overloaded.status, overloaded.body.code], [502, 'AI_UPSTREAM']);
+    assert.deepEqual([unreachable.status, unreachable.body.code], [502, 'AI_UPSTREAM']);
+  });
+});
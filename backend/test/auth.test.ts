@@ -0,0 +1,87 @@
+import { createUser, startDatabase, stopDatabase } from './helpers';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { app } from '../src/server';
+import { db } from '../src/config/database';
+
+before(startDatabase);
+after(stopDatabase);
+
+test('GET /health reports ok without a token', async () => {
+  const res = await request(app).get('/health');
+
+  assert.equal(res.status, 200);
+  assert.equal(res.body.status, 'ok');
+});
+
+describe('authentication', () => {
+  test('a request without an Authorization header is refused', async () => {
+    const res = await request(app).get('/api/tasks');
+
+    assert.equal(res.status, 401);
+    assert.equal(res.body.error, 'No authorization header provided');
+    assert.equal(res.body.code, 'UNAUTHENTICATED');
+  });
+
+  test('a header without a token is refused', async () => {
+    const res = await request(app).get('/api/tasks').set('Authorization', 'Bearer');
+
+    assert.equal(res.status, 401);
+  });
+
+  test('a token signed with another secret is refused', async () => {
+    const token = jwt.sign({ userId: 'someone', email: 'someone@example.com' }, 'not-the-secret');
+    const res = await request(app).get('/api/tasks').set('Authorization', `Bearer ${token}`);
+
+    assert.equal(res.status, 403);
+    assert.equal(res.body.error, 'Invalid or expired token');
+    assert.equal(res.body.code, 'INVALID_TOKEN');
+  });
+
+  test('an expired token is refused', async () => {
+    const { user } = await createUser();
+    const token = jwt.sign({ userId: user.id, email: user.email }, process.env.JWT_SECRET!, { expiresIn: -10 });
+    const res = await request(app).get('/api/tasks').set('Authorization', `Bearer ${token}`);
+
+    assert.equal(res.status, 403);
+  });
+});
+
+describe('GET /auth/me', () => {
+  test('returns the signed-in user', async () => {
+    const { user, auth } = await createUser();
+    const res = await request(app).get('/auth/me').set('Authorization', auth);
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.id, user.id);
+    assert.equal(res.body.email, user.email);
+  });
+
+  test('is 404 once the user is gone', async () => {
+    const { user, auth } = await createUser();
+    await db.none('DELETE FROM users WHERE id = $1', [user.id]);
+
+    const res = await request(app).get('/auth/me').set('Authorization', auth);
+
+    assert.equal(res.status, 404);
+  });
+});
+
+test('POST /auth/logout succeeds for a signed-in user', async () => {
+  const { auth } = await createUser();
+  const res = await request(app).post('/auth/logout').set('Authorization', auth);
+
+  assert.equal(res.status, 200);
+  assert.deepEqual(res.body, { success: true });
+});
+
+test('GET /auth/google redirects to Google sign-in', async () => {
+  const res = await request(app).get('/auth/google');
+
+  assert.equal(res.status, 302);
+  const location = new URL(res.headers.location);
+  assert.equal(location.hostname, 'accounts.google.com');
+  assert.equal(location.searchParams.get('client_id'), 'test-client-id');
+});
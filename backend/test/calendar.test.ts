@@ -0,0 +1,78 @@
+import { createUser, scheduleInput, startDatabase, stopDatabase, taskInput } from './helpers';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { app } from '../src/server';
+
+before(startDatabase);
+after(stopDatabase);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+describe('calendar feed', () => {
+  test('GET /api/calendar/feed is 404 until a feed is created', async () => {
+    const { auth } = await createUser();
+    const res = await request(app).get('/api/calendar/feed').set('Authorization', auth);
+
+    assert.equal(res.status, 404);
+  });
+
+  test('POST /api/calendar/feed creates the feed, and a new token each time', async () => {
+    const { auth } = await createUser();
+    const first = await request(app).post('/api/calendar/feed').set('Authorization', auth).send({ timeZone: 'UTC' });
+    const second = await request(app).post('/api/calendar/feed').set('Authorization', auth).send({});
+    const current = await request(app).get('/api/calendar/feed').set('Authorization', auth);
+
+    assert.equal(first.status, 201);
+    assert.ok(first.body.token.length >= 32);
+    assert.notEqual(second.body.token, first.body.token);
+    assert.equal(current.body.token, second.body.token);
+  });
+
+  test('POST /api/calendar/feed refuses an unknown time zone', async () => {
+    const { auth } = await createUser();
+    const res = await request(app).post('/api/calendar/feed').set('Authorization', auth).send({ timeZone: 'Nowhere/Else' });
+
+    assert.equal(res.status, 400);
+  });
+
+  test('GET /api/calendar/:token.ics serves upcoming schedules without a login', async () => {
+    const { auth } = await createUser();
+    const task = await request(app).post('/api/tasks').set('Authorization', auth).send(taskInput({ title: 'Deep work' }));
+    await request(app)
+      .post('/api/schedules')
+      .set('Authorization', auth)
+      .send(scheduleInput(task.body.id, { date: today(), name: 'Focus day' }));
+    const feed = await request(app).post('/api/calendar/feed').set('Authorization', auth).send({ timeZone: 'UTC' });
+
+    const res = await request(app).get(`/api/calendar/${feed.body.token}.ics`);
+
+    assert.equal(res.status, 200);
+    assert.match(res.headers['content-type'], /^text\/calendar/);
+    assert.match(res.text, /BEGIN:VCALENDAR/);
+    assert.match(res.text, /BEGIN:VEVENT/);
+  });
+
+  test('an old or unknown token stops working', async () => {
+    const { auth } = await createUser();
+    const old = await request(app).post('/api/calendar/feed').set('Authorization', auth).send({});
+    await request(app).post('/api/calendar/feed').set('Authorization', auth).send({});
+
+    const res = await request(app).get(`/api/calendar/${old.body.token}.ics`);
+
+    assert.equal(res.status, 404);
+  });
+
+  test('DELETE /api/calendar/feed removes the feed', async () => {
+    const { auth } = await createUser();
+    const feed = await request(app).post('/api/calendar/feed').set('Authorization', auth).send({});
+
+    const res = await request(app).delete('/api/calendar/feed').set('Authorization', auth);
+    const again = await request(app).delete('/api/calendar/feed').set('Authorization', auth);
+    const ics = await request(app).get(`/api/calendar/${feed.body.token}.ics`);
+
+    assert.equal(res.status, 200);
+    assert.equal(again.status, 404);
+    assert.equal(ics.status, 404);
+  });
+});
@@ -0,0 +1,176 @@
+import { chunkInput, createUser, scheduleInput, startDatabase, stopDatabase, taskInput, TestUser } from './helpers';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { app } from '../src/server';
+
+before(startDatabase);
+after(stopDatabase);
+
+let alice: TestUser;
+let taskId: string;
+let scheduleId: string;
+let chunkIds: string[];
+
+// A task estimated at 2 hours with two half-hour chunks on a long-gone day, so a chunk
+// nobody started counts as running since then
+beforeEach(async () => {
+  alice = await createUser();
+  const task = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput());
+  taskId = task.body.id;
+
+  const schedule = await request(app)
+    .post('/api/schedules')
+    .set('Authorization', alice.auth)
+    .send(scheduleInput(taskId, { breaks: [{ time: '10:00', durationMinutes: 15 }] }));
+  scheduleId = schedule.body.id;
+  chunkIds = schedule.body.chunks.map((c: any) => c.id);
+});
+
+const chunkUrl = (chunkId: string, action: string) => `/api/schedules/${scheduleId}/chunks/${chunkId}/${action}`;
+
+async function getTask() {
+  const tasks = await request(app).get('/api/tasks').set('Authorization', alice.auth);
+  return tasks.body.find((t: any) => t.id === taskId);
+}
+
+describe('PUT .../chunks/:chunkId/complete', () => {
+  test('credits the measured focus time to the task', async () => {
+    await request(app).put(chunkUrl(chunkIds[0], 'start')).set('Authorization', alice.auth);
+    const res = await request(app).put(chunkUrl(chunkIds[0], 'complete')).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.success, true);
+    // Started just now - the minimum of one minute
+    assert.equal(Number(res.body.updatedTask.hours_completed), 0.02);
+
+    const schedule = await request(app).get(`/api/schedules/${scheduleId}`).set('Authorization', alice.auth);
+    const chunk = schedule.body.chunks.find((c: any) => c.id === chunkIds[0]);
+    assert.equal(chunk.completed, true);
+    assert.equal(chunk.focus_minutes, 1);
+  });
+
+  test("credits overtime past the task's estimate", async () => {
+    const res = await request(app).put(chunkUrl(chunkIds[0], 'complete')).set('Authorization', alice.auth);
+
+    // Running since the scheduled start, long ago
+    assert.ok(Number(res.body.updatedTask.hours_completed) > 2);
+  });
+
+  test('credits a chunk once', async () => {
+    await request(app).put(chunkUrl(chunkIds[0], 'start')).set('Authorization', alice.auth);
+    await request(app).put(chunkUrl(chunkIds[0], 'complete')).set('Authorization', alice.auth);
+    const again = await request(app).put(chunkUrl(chunkIds[0], 'complete')).set('Authorization', alice.auth);
+
+    assert.deepEqual(again.body, { success: true });
+    assert.equal(Number((await getTask()).hours_completed), 0.02);
+  });
+
+  test("counts a chunk nobody started from its start in the user's time zone", async () => {
+    await request(app).put(chunkUrl(chunkIds[0], 'complete')).set('Authorization', alice.auth).send({ timeZone: 'America/New_York' });
+
+    const schedule = await request(app).get(`/api/schedules/${scheduleId}`).set('Authorization', alice.auth);
+    const chunk = schedule.body.chunks.find((c: any) => c.id === chunkIds[0]);
+    // 09:00 on 2025-03-10 in New York, a day after the clocks went forward
+    assert.deepEqual(chunk.time_events, [{ type: 'start', at: '2025-03-10T13:00:00.000Z' }]);
+  });
+
+  test("doesn't complete another user's chunk", async () => {
+    const bob = await createUser();
+    const res = await request(app).put(chunkUrl(chunkIds[0], 'complete')).set('Authorization', bob.auth);
+
+    assert.equal(res.status, 404);
+    assert.deepEqual([res.body.code, res.body.error], ['NOT_FOUND', 'Schedule not found']);
+    assert.equal(Number((await getTask()).hours_completed), 0);
+  });
+
+  test('is 404 for an unknown chunk', async () => {
+    const res = await request(app).put(chunkUrl(taskId, 'complete')).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 404);
+    assert.deepEqual([res.body.code, res.body.error], ['NOT_FOUND', 'Chunk not found']);
+  });
+});
+
+describe('focus clock', () => {
+  test('start, pause and resume follow each other', async () => {
+    const start = await request(app).put(chunkUrl(chunkIds[0], 'start')).set('Authorization', alice.auth);
+    const resumeWhileRunning = await request(app).put(chunkUrl(chunkIds[0], 'resume')).set('Authorization', alice.auth);
+    const pause = await request(app).put(chunkUrl(chunkIds[0], 'pause')).set('Authorization', alice.auth);
+    const resume = await request(app).put(chunkUrl(chunkIds[0], 'resume')).set('Authorization', alice.auth);
+
+    assert.equal(start.status, 200);
+    assert.equal(resumeWhileRunning.status, 400);
+    assert.equal(pause.status, 200);
+    assert.deepEqual(resume.body.time_events.map((e: any) => e.type), ['start', 'pause', 'resume']);
+  });
+
+  test('is 404 for a finished chunk', async () => {
+    await request(app).put(chunkUrl(chunkIds[0], 'skip')).set('Authorization', alice.auth);
+    const res = await request(app).put(chunkUrl(chunkIds[0], 'start')).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 404);
+  });
+});
+
+describe('PUT .../chunks/:chunkId/snooze', () => {
+  test('quiets the chunk for the given minutes', async () => {
+    const before = Date.now();
+    const res = await request(app).put(chunkUrl(chunkIds[0], 'snooze')).set('Authorization', alice.auth).send({ minutes: 10 });
+
+    assert.equal(res.status, 200);
+    const snoozedFor = new Date(res.body.snoozed_until).getTime() - before;
+    assert.ok(snoozedFor > 9 * 60 * 1000 && snoozedFor < 11 * 60 * 1000);
+  });
+
+  test('needs a positive whole number of minutes', async () => {
+    const res = await request(app).put(chunkUrl(chunkIds[0], 'snooze')).set('Authorization', alice.auth).send({ minutes: 1.5 });
+
+    assert.equal(res.status, 400);
+  });
+});
+
+describe('PUT .../chunks/:chunkId/skip', () => {
+  test('gives up the chunk without credit', async () => {
+    const res = await request(app).put(chunkUrl(chunkIds[0], 'skip')).set('Authorization', alice.auth);
+    const again = await request(app).put(chunkUrl(chunkIds[0], 'skip')).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.skipped, true);
+    assert.equal(again.status, 404);
+    assert.equal(Number((await getTask()).hours_completed), 0);
+  });
+});
+
+describe('PUT .../chunks/:chunkId/extend', () => {
+  test('lengthens the chunk and pushes back what comes after', async () => {
+    const res = await request(app).put(chunkUrl(chunkIds[0], 'extend')).set('Authorization', alice.auth).send({ minutes: 15 });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(
+      res.body.chunks.map((c: any) => [c.start_time, c.end_time]),
+      [['09:00:00', '09:45:00'], ['09:45:00', '10:15:00']]
+    );
+    assert.equal(res.body.breaks[0].time, '10:15:00');
+    assert.equal(res.body.end_time, '10:15:00');
+  });
+
+  test("won't run the schedule past midnight", async () => {
+    const late = await request(app)
+      .post('/api/schedules')
+      .set('Authorization', alice.auth)
+      .send(scheduleInput(taskId, { startTime: '23:00', endTime: '23:30', chunks: [chunkInput(taskId, '23:00', '23:30')] }));
+    const res = await request(app)
+      .put(`/api/schedules/${late.body.id}/chunks/${late.body.chunks[0].id}/extend`)
+      .set('Authorization', alice.auth)
+      .send({ minutes: 45 });
+
+    assert.equal(res.status, 400);
+  });
+
+  test('is 404 for an unknown chunk', async () => {
+    const res = await request(app).put(chunkUrl(taskId, 'extend')).set('Authorization', alice.auth).send({ minutes: 5 });
+
+    assert.equal(res.status, 404);
+  });
+});
@@ -0,0 +1,165 @@
+import { createUser, scheduleInput, startDatabase, stopDatabase, taskInput, TestUser } from './helpers';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import request from 'supertest';
+import { app } from '../src/server';
+
+before(startDatabase);
+after(stopDatabase);
+
+let alice: TestUser;
+
+beforeEach(async () => {
+  alice = await createUser();
+});
+
+const taskTitles = async (auth: string) => {
+  const tasks = await request(app).get('/api/tasks').set('Authorization', auth);
+  return tasks.body.map((t: any) => t.title).sort();
+};
+
+describe('POST /api/migrate', () => {
+  test("moves a browser's local data to the account", async () => {
+    const task = {
+      id: randomUUID(),
+      title: 'From the browser',
+      priority: 'high',
+      estimatedHours: 3,
+      hoursCompleted: 1,
+      createdAt: '2025-03-01T08:00:00.000Z'
+    };
+
+    const res = await request(app)
+      .post('/api/migrate')
+      .set('Authorization', alice.auth)
+      .send({ tasks: [task], schedules: [] });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.migrated, { tasks: 1, schedules: 0, templates: 0, settings: false });
+    assert.deepEqual(await taskTitles(alice.auth), ['From the browser']);
+  });
+
+  test('refuses malformed records and stores nothing', async () => {
+    const res = await request(app)
+      .post('/api/migrate')
+      .set('Authorization', alice.auth)
+      .send({ tasks: [taskInput({ id: randomUUID(), createdAt: 'yesterday' })], schedules: [{ id: randomUUID() }] });
+
+    assert.equal(res.status, 400);
+    assert.ok(res.body.details.some((d: any) => d.path === 'tasks[0].createdAt'));
+    assert.ok(res.body.details.some((d: any) => d.path === 'schedules[0].date'));
+    assert.deepEqual(await taskTitles(alice.auth), []);
+  });
+});
+
+describe('GET /api/export', () => {
+  test('downloads a versioned backup of everything', async () => {
+    const task = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput());
+    const schedule = await request(app).post('/api/schedules').set('Authorization', alice.auth).send(scheduleInput(task.body.id));
+
+    const res = await request(app).get('/api/export').set('Authorization', alice.auth);
+
+    assert.equal(res.status, 200);
+    assert.match(res.headers['content-disposition'], /^attachment; filename="naggle-backup-\d{4}-\d{2}-\d{2}\.json"$/);
+    assert.equal(res.body.format, 'naggle-backup');
+    assert.equal(res.body.version, 1);
+    assert.deepEqual(res.body.tasks.map((t: any) => t.id), [task.body.id]);
+    assert.deepEqual(res.body.schedules.map((s: any) => s.id), [schedule.body.id]);
+    assert.equal(res.body.activeScheduleId, schedule.body.id);
+  });
+});
+
+describe('POST /api/import', () => {
+  test('merging brings back what is missing and keeps the rest', async () => {
+    const kept = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput({ title: 'Kept' }));
+    const restored = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput({ title: 'Restored' }));
+    const backup = await request(app).get('/api/export').set('Authorization', alice.auth);
+
+    await request(app).put(`/api/tasks/${kept.body.id}`).set('Authorization', alice.auth).send({ title: 'Kept and renamed' });
+    await request(app).delete(`/api/tasks/${restored.body.id}`).set('Authorization', alice.auth);
+
+    const res = await request(app).post('/api/import').set('Authorization', alice.auth).send({ mode: 'merge', data: backup.body });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(await taskTitles(alice.auth), ['Kept and renamed', 'Restored']);
+  });
+
+  test('replacing leaves only what the backup has', async () => {
+    await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput({ title: 'In the backup' }));
+    const backup = await request(app).get('/api/export').set('Authorization', alice.auth);
+    await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput({ title: 'Added later' }));
+
+    const res = await request(app).post('/api/import').set('Authorization', alice.auth).send({ mode: 'replace', data: backup.body });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(await taskTitles(alice.auth), ['In the backup']);
+  });
+
+  test("gives records new IDs when another account already uses them, and leaves that account's alone", async () => {
+    const bob = await createUser();
+    const task = await request(app).post('/api/tasks').set('Authorization', bob.auth).send(taskInput());
+    const schedule = await request(app).post('/api/schedules').set('Authorization', bob.auth).send(scheduleInput(task.body.id));
+    const backup = await request(app).get('/api/export').set('Authorization', bob.auth);
+
+    const res = await request(app).post('/api/import').set('Authorization', alice.auth).send({ mode: 'replace', data: backup.body });
+
+    assert.equal(res.status, 200);
+    const tasks = await request(app).get('/api/tasks').set('Authorization', alice.auth);
+    const active = await request(app).get('/api/schedules/active').set('Authorization', alice.auth);
+    assert.deepEqual(tasks.body.map((t: any) => t.title), ['Write report']);
+    assert.notEqual(tasks.body[0].id, task.body.id);
+    assert.notEqual(active.body.id, schedule.body.id);
+    assert.equal(active.body.chunks.length, 2);
+    assert.ok(active.body.chunks.every((c: any) => c.task_id === tasks.body[0].id && !schedule.body.chunks.some((o: any) => o.id === c.id)));
+
+    const bobsSchedule = await request(app).get(`/api/schedules/${schedule.body.id}`).set('Authorization', bob.auth);
+    assert.equal(bobsSchedule.body.chunks.length, 2);
+    assert.equal((await request(app).get('/api/schedules/active').set('Authorization', bob.auth)).body.id, schedule.body.id);
+  });
+
+  test('gives chunks and breaks new IDs when another account uses them', async () => {
+    const bob = await createUser();
+    const schedule = await request(app)
+      .post('/api/schedules')
+      .set('Authorization', bob.auth)
+      .send(scheduleInput(null, { breaks: [{ time: '10:00', durationMinutes: 15 }] }));
+    const backup = await request(app).get('/api/export').set('Authorization', bob.auth);
+    // Bob's chunks and breaks under a schedule ID nobody uses yet
+    const copy = { ...backup.body.schedules[0], id: randomUUID() };
+
+    const res = await request(app)
+      .post('/api/import')
+      .set('Authorization', alice.auth)
+      .send({ mode: 'merge', data: { ...backup.body, schedules: [copy], activeScheduleId: copy.id } });
+
+    assert.equal(res.status, 200);
+    const ids = (s: any) => [...s.chunks, ...s.breaks].map((item: any) => item.id).sort();
+    const imported = await request(app).get(`/api/schedules/${copy.id}`).set('Authorization', alice.auth);
+    const bobsSchedule = await request(app).get(`/api/schedules/${schedule.body.id}`).set('Authorization', bob.auth);
+    assert.equal(imported.body.chunks.length, 2);
+    assert.equal(imported.body.breaks.length, 1);
+    assert.ok(ids(imported.body).every((id: string) => !ids(schedule.body).includes(id)));
+    assert.deepEqual(ids(bobsSchedule.body), ids(schedule.body));
+  });
+
+  test('refuses an unknown mode', async () => {
+    const backup = await request(app).get('/api/export').set('Authorization', alice.auth);
+    const res = await request(app).post('/api/import').set('Authorization', alice.auth).send({ mode: 'overwrite', data: backup.body });
+
+    assert.equal(res.status, 400);
+  });
+
+  test('refuses an invalid backup and says why', async () => {
+    const backup = await request(app).get('/api/export').set('Authorization', alice.auth);
+    const res = await request(app)
+      .post('/api/import')
+      .set('Authorization', alice.auth)
+      .send({ mode: 'merge', data: { ...backup.body, tasks: 'none' } });
+    const other = await request(app).post('/api/import').set('Authorization', alice.auth).send({ mode: 'merge', data: { hello: 'world' } });
+
+    assert.equal(res.status, 400);
+    assert.deepEqual(res.body.details, [{ path: 'tasks', message: 'must be a list' }]);
+    assert.deepEqual(other.body.details, [{ path: 'format', message: 'Not a Naggle backup' }]);
+  });
+});
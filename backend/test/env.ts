@@ -0,0 +1,24 @@
+// Environment for the tests. config/env reads it once, when first imported, so this
+// module has to be imported before anything from src/ - test/helpers.ts does that.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The test database listens on a Unix socket in here (see startDatabase in helpers.ts)
+export const socketDir = fs.mkdtempSync(path.join(os.tmpdir(), 'naggle-test-'));
+
+Object.assign(process.env, {
+  NODE_ENV: 'test',
+  DATABASE_URL: `postgresql://postgres@localhost/postgres?host=${socketDir}`,
+  GOOGLE_CLIENT_ID: 'test-client-id',
+  GOOGLE_CLIENT_SECRET: 'test-client-secret',
+  GOOGLE_REDIRECT_URI: 'http://localhost:3001/auth/google/callback',
+  JWT_SECRET: 'test-jwt-secret',
+  ENCRYPTION_KEY: '0'.repeat(64),
+  FRONTEND_URL: 'http://localhost:5173',
+  // Web Push stays off, whatever a local .env says
+  VAPID_PUBLIC_KEY: '',
+  VAPID_PRIVATE_KEY: '',
+  VAPID_SUBJECT: ''
+});
@@ -0,0 +1,71 @@
+import { createUser, startDatabase, stopDatabase } from './helpers';
+import { after, afterEach, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { app } from '../src/server';
+import { ScheduleTemplateModel } from '../src/models/ScheduleTemplate';
+
+before(startDatabase);
+after(stopDatabase);
+afterEach(() => mock.restoreAll());
+
+describe('request IDs', () => {
+  test('every response carries one, and error bodies repeat it', async () => {
+    const ok = await request(app).get('/health');
+    const refused = await request(app).get('/api/tasks');
+
+    assert.match(ok.headers['x-request-id'], /^[0-9a-f-]{36}$/);
+    assert.notEqual(refused.headers['x-request-id'], ok.headers['x-request-id']);
+    assert.equal(refused.body.requestId, refused.headers['x-request-id']);
+  });
+
+  test("keeps a proxy's ID unless it looks odd", async () => {
+    const kept = await request(app).get('/health').set('X-Request-Id', 'lb-1234.5');
+    const replaced = await request(app).get('/health').set('X-Request-Id', 'two words');
+
+    assert.equal(kept.headers['x-request-id'], 'lb-1234.5');
+    assert.notEqual(replaced.headers['x-request-id'], 'two words');
+  });
+});
+
+describe('error responses', () => {
+  test('an unknown route is NOT_FOUND as JSON', async () => {
+    const res = await request(app).get('/api/nothing-here');
+
+    assert.equal(res.status, 404);
+    assert.equal(res.body.code, 'NOT_FOUND');
+    assert.equal(res.body.error, 'No route for GET /api/nothing-here');
+  });
+
+  test('a body that is not JSON is a VALIDATION error', async () => {
+    const { auth } = await createUser();
+    const res = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', auth)
+      .set('Content-Type', 'application/json')
+      .send('{"title": ');
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.code, 'VALIDATION');
+  });
+
+  test('validation problems come with their field paths', async () => {
+    const { auth } = await createUser();
+    const res = await request(app).put('/api/tasks/not-an-id').set('Authorization', auth).send({ priority: 'urgent' });
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.code, 'VALIDATION');
+    assert.deepEqual(res.body.details.map((d: any) => d.path), ['id', 'priority']);
+  });
+
+  test("a failure on the server is INTERNAL, and doesn't say what broke", async () => {
+    const { auth } = await createUser();
+    mock.method(ScheduleTemplateModel, 'findAll', async () => { throw new Error('connection reset by peer'); });
+    mock.method(console, 'error', () => {});
+
+    const res = await request(app).get('/api/templates').set('Authorization', auth);
+
+    assert.equal(res.status, 500);
+    assert.deepEqual(res.body, { error: 'Failed to fetch templates', code: 'INTERNAL', requestId: res.headers['x-request-id'] });
+  });
+});
@@ -0,0 +1,96 @@
+import './env';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { socketDir } from './env';
+import { db } from '../src/config/database';
+import { migrateUp } from '../src/services/schema.service';
+import { generateJWT } from '../src/services/jwt.service';
+import { UserModel } from '../src/models/User';
+import { User } from '../src/types';
+
+// Each test file gets its own Postgres: PGlite (Postgres compiled to WebAssembly) runs
+// in-process and is served on a Unix socket, so the app's pg-promise connection and the
+// real migrations run unchanged - no server or container needed.
+
+let pglite: PGlite | null = null;
+let server: PGLiteSocketServer | null = null;
+let userCount = 0;
+
+export async function startDatabase(): Promise<void> {
+  pglite = await PGlite.create();
+  server = new PGLiteSocketServer({
+    db: pglite,
+    path: path.join(socketDir, '.s.PGSQL.5432'),
+    // Migrations hold a lock on one connection while running on another
+    maxConnections: 10
+  });
+  await server.start();
+
+  const log = console.log;
+  console.log = () => {};
+  try {
+    await migrateUp();
+  } finally {
+    console.log = log;
+  }
+}
+
+export async function stopDatabase(): Promise<void> {
+  await db.$pool.end();
+  await server?.stop();
+  await pglite?.close();
+}
+
+export interface TestUser {
+  user: User;
+  // Authorization header value
+  auth: string;
+}
+
+// A new user per test keeps tests apart without clearing tables in between
+export async function createUser(): Promise<TestUser> {
+  userCount++;
+  const user = await UserModel.create({
+    googleId: `google-${userCount}`,
+    email: `user${userCount}@example.com`,
+    name: `User ${userCount}`
+  });
+  return { user, auth: `Bearer ${generateJWT(user)}` };
+}
+
+// Request bodies with sensible defaults
+
+export function taskInput(overrides: Record<string, unknown> = {}) {
+  return { title: 'Write report', priority: 'medium', estimatedHours: 2, ...overrides };
+}
+
+export function chunkInput(taskId: string | null, startTime: string, endTime: string, overrides: Record<string, unknown> = {}) {
+  const [startHours, startMinutes] = startTime.split(':').map(Number);
+  const [endHours, endMinutes] = endTime.split(':').map(Number);
+  return {
+    taskId,
+    taskTitle: 'Write report',
+    taskPriority: 'medium',
+    startTime,
+    endTime,
+    durationMinutes: (endHours - startHours) * 60 + endMinutes - startMinutes,
+    nagIntervalMinutes: 10,
+    type: 'task',
+    completed: false,
+    ...overrides
+  };
+}
+
+// Two half-hour chunks of the task, 09:00 to 10:00
+export function scheduleInput(taskId: string | null, overrides: Record<string, unknown> = {}) {
+  return {
+    date: '2025-03-10',
+    startTime: '09:00',
+    endTime: '10:00',
+    defaultChunkSize: 30,
+    chunks: [chunkInput(taskId, '09:00', '09:30'), chunkInput(taskId, '09:30', '10:00')],
+    breaks: [] as { time: string; durationMinutes: number }[],
+    ...overrides
+  };
+}
@@ -0,0 +1,115 @@
+import { chunkInput, createUser, scheduleInput, startDatabase, stopDatabase, taskInput, TestUser } from './helpers';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { app } from '../src/server';
+
+after(stopDatabase);
+
+let alice: TestUser;
+let taskId: string;
+
+// Monday: one chunk completed and one skipped; Tuesday: both completed. Today is Wednesday.
+const today = '2025-03-12';
+
+before(async () => {
+  await startDatabase();
+
+  alice = await createUser();
+  const task = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput());
+  taskId = task.body.id;
+
+  await request(app)
+    .post('/api/schedules')
+    .set('Authorization', alice.auth)
+    .send(scheduleInput(taskId, {
+      date: '2025-03-10',
+      chunks: [
+        chunkInput(taskId, '09:00', '09:30', { completed: true }),
+        chunkInput(taskId, '09:30', '10:00', { skipped: true })
+      ]
+    }));
+  await request(app)
+    .post('/api/schedules')
+    .set('Authorization', alice.auth)
+    .send(scheduleInput(taskId, {
+      date: '2025-03-11',
+      chunks: [
+        chunkInput(taskId, '09:00', '09:30', { completed: true }),
+        chunkInput(taskId, '09:30', '10:00', { completed: true })
+      ]
+    }));
+});
+
+const insights = (kind: string, query: Record<string, unknown> = {}) =>
+  request(app).get(`/api/insights/${kind}`).query(query).set('Authorization', alice.auth);
+
+describe('GET /api/insights/focus', () => {
+  test('sums focus time by day and by week', async () => {
+    const res = await insights('focus', { today, days: 3, weeks: 1 });
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body, {
+      daily: [
+        { date: '2025-03-10', minutes: 30 },
+        { date: '2025-03-11', minutes: 60 },
+        { date: '2025-03-12', minutes: 0 }
+      ],
+      weekly: [{ weekStart: '2025-03-10', minutes: 90 }]
+    });
+  });
+
+  test('checks the range and the date', async () => {
+    assert.equal((await insights('focus', { today, days: 0 })).status, 400);
+    assert.equal((await insights('focus', { today, weeks: 200 })).status, 400);
+    assert.equal((await insights('focus', { today: '12/03/2025' })).status, 400);
+  });
+});
+
+describe('GET /api/insights/completion', () => {
+  test('counts completed and skipped chunks', async () => {
+    const res = await insights('completion', { today });
+
+    assert.deepEqual(res.body, { planned: 4, completed: 3, skipped: 1, rate: 0.75 });
+  });
+
+  test('checks the date', async () => {
+    assert.equal((await insights('completion', { today: 'tomorrow' })).status, 400);
+  });
+});
+
+test('GET /api/insights/time splits focus time by task and priority', async () => {
+  const res = await insights('time');
+
+  assert.deepEqual(res.body, {
+    byTask: [{ taskId, title: 'Write report', minutes: 90 }],
+    byPriority: [{ priority: 'medium', minutes: 90 }]
+  });
+});
+
+describe('GET /api/insights/streak', () => {
+  test('counts days in a row up to yesterday', async () => {
+    const res = await insights('streak', { today });
+
+    assert.deepEqual(res.body, { current: 2, longest: 2 });
+  });
+
+  test('checks the date', async () => {
+    assert.equal((await insights('streak', { today: '2025-13-01' })).status, 400);
+  });
+});
+
+test('GET /api/insights/estimates compares estimates with focus time', async () => {
+  const res = await insights('estimates');
+
+  assert.deepEqual(res.body, [
+    { taskId, title: 'Write report', estimatedMinutes: 120, actualMinutes: 90, finished: false }
+  ]);
+});
+
+test("insights don't include another user's work", async () => {
+  const bob = await createUser();
+  const res = await request(app).get('/api/insights/time').set('Authorization', bob.auth);
+
+  assert.deepEqual(res.body, { byTask: [], byPriority: [] });
+});
@@ -0,0 +1,84 @@
+import { createUser, startDatabase, stopDatabase } from './helpers';
+import { after, afterEach, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { db } from '../src/config/database';
+import {
+  baselineMigrations,
+  getMigrationStatus,
+  loadMigrations,
+  MigrationError,
+  migrateDown,
+  migrateUp
+} from '../src/services/schema.service';
+
+before(startDatabase);
+after(stopDatabase);
+beforeEach(() => mock.method(console, 'log', () => {}));
+afterEach(() => mock.restoreAll());
+
+const migrations = loadMigrations();
+const latest = migrations[migrations.length - 1].version;
+
+const tableExists = async (name: string) =>
+  (await db.one('SELECT to_regclass($1) IS NOT NULL AS exists', [`public.${name}`])).exists;
+
+describe('loadMigrations', () => {
+  test('pairs every migration in migrations/ with its down script', () => {
+    assert.deepEqual(migrations.map(m => m.version), migrations.map((_, i) => i + 1));
+    for (const migration of migrations) {
+      assert.equal(migration.downFile, migration.upFile.replace(/\.sql$/, '.down.sql'));
+    }
+  });
+
+  test('refuses a down script without its migration', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'naggle-migrations-'));
+    fs.writeFileSync(path.join(dir, '001_first.sql'), '');
+    fs.writeFileSync(path.join(dir, '002_second.down.sql'), '');
+
+    assert.throws(() => loadMigrations(dir), MigrationError);
+  });
+});
+
+test('a migrated database has nothing pending', async () => {
+  const status = await getMigrationStatus();
+
+  assert.equal(status.applied.length, migrations.length);
+  assert.deepEqual(status.pending, []);
+  assert.deepEqual(status.unknown, []);
+  assert.deepEqual(await migrateUp(), []);
+});
+
+describe('a schema set up by hand', () => {
+  test('is refused until it is baselined', async () => {
+    await db.none('DELETE FROM schema_migrations');
+
+    await assert.rejects(migrateUp(), MigrationError);
+
+    const recorded = await baselineMigrations(latest);
+    assert.equal(recorded.length, migrations.length);
+    assert.deepEqual((await getMigrationStatus()).pending, []);
+  });
+
+  test("can't be baselined to a migration that doesn't exist", async () => {
+    await assert.rejects(baselineMigrations(latest + 1), MigrationError);
+  });
+});
+
+test('every migration rolls back and applies again', async () => {
+  await createUser();
+
+  const rolledBack = await migrateDown(migrations.length);
+  assert.deepEqual(rolledBack.map(m => m.version), migrations.map(m => m.version).reverse());
+  assert.equal(await tableExists('users'), false);
+  assert.equal(await tableExists('tasks'), false);
+
+  const applied = await migrateUp();
+  assert.equal(applied.length, migrations.length);
+  assert.equal(await tableExists('users'), true);
+
+  // The schema works again from scratch
+  await createUser();
+});
@@ -0,0 +1,79 @@
+import { createUser, startDatabase, stopDatabase } from './helpers';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { app } from '../src/server';
+import { PushSubscriptionModel } from '../src/models/PushSubscription';
+
+before(startDatabase);
+after(stopDatabase);
+
+const subscription = (endpoint: string) => ({
+  endpoint,
+  keys: { p256dh: 'BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM', auth: 'tBHItJI5svbpez7KI4CCXg' }
+});
+
+test('GET /api/push/vapid-public-key is 404 while Web Push is off', async () => {
+  const res = await request(app).get('/api/push/vapid-public-key');
+
+  assert.equal(res.status, 404);
+});
+
+describe('POST /api/push/subscriptions', () => {
+  test('registers the browser with its time zone', async () => {
+    const { user, auth } = await createUser();
+    const res = await request(app)
+      .post('/api/push/subscriptions')
+      .set('Authorization', auth)
+      .send({ subscription: subscription('https://push.example.com/a'), timeZone: 'Europe/Amsterdam' });
+
+    assert.equal(res.status, 201);
+    const saved = await PushSubscriptionModel.findByUser(user.id);
+    assert.equal(saved.length, 1);
+    assert.equal(saved[0].timeZone, 'Europe/Amsterdam');
+  });
+
+  test('moves an endpoint to whoever registers it last', async () => {
+    const first = await createUser();
+    const second = await createUser();
+    const body = { subscription: subscription('https://push.example.com/shared') };
+
+    await request(app).post('/api/push/subscriptions').set('Authorization', first.auth).send(body);
+    await request(app).post('/api/push/subscriptions').set('Authorization', second.auth).send(body);
+
+    assert.equal((await PushSubscriptionModel.findByUser(first.user.id)).length, 0);
+    assert.equal((await PushSubscriptionModel.findByUser(second.user.id)).length, 1);
+  });
+
+  test('refuses a subscription without keys or with an unknown time zone', async () => {
+    const { auth } = await createUser();
+    const noKeys = await request(app)
+      .post('/api/push/subscriptions')
+      .set('Authorization', auth)
+      .send({ subscription: { endpoint: 'https://push.example.com/b' } });
+    const badZone = await request(app)
+      .post('/api/push/subscriptions')
+      .set('Authorization', auth)
+      .send({ subscription: subscription('https://push.example.com/b'), timeZone: 'Mars/Olympus' });
+
+    assert.equal(noKeys.status, 400);
+    assert.equal(badZone.status, 400);
+  });
+});
+
+describe('DELETE /api/push/subscriptions', () => {
+  test("removes the user's own subscription only", async () => {
+    const owner = await createUser();
+    const other = await createUser();
+    const endpoint = 'https://push.example.com/c';
+    await request(app).post('/api/push/subscriptions').set('Authorization', owner.auth).send({ subscription: subscription(endpoint) });
+
+    const notTheirs = await request(app).delete('/api/push/subscriptions').set('Authorization', other.auth).send({ endpoint });
+    const removed = await request(app).delete('/api/push/subscriptions').set('Authorization', owner.auth).send({ endpoint });
+    const missing = await request(app).delete('/api/push/subscriptions').set('Authorization', owner.auth).send({});
+
+    assert.equal(notTheirs.status, 404);
+    assert.equal(removed.status, 200);
+    assert.equal(missing.status, 400);
+  });
+});
@@ -0,0 +1,308 @@
+import { createUser, scheduleInput, startDatabase, stopDatabase, taskInput, TestUser } from './helpers';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import request from 'supertest';
+import { app } from '../src/server';
+
+before(startDatabase);
+after(stopDatabase);
+
+let alice: TestUser;
+let bob: TestUser;
+let taskId: string;
+
+beforeEach(async () => {
+  alice = await createUser();
+  bob = await createUser();
+  const task = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput());
+  taskId = task.body.id;
+});
+
+async function createSchedule(user: TestUser, overrides: Record<string, unknown> = {}) {
+  const res = await request(app)
+    .post('/api/schedules')
+    .set('Authorization', user.auth)
+    .send(scheduleInput(user === alice ? taskId : null, overrides));
+  assert.equal(res.status, 201);
+  return res.body;
+}
+
+async function getActive(user: TestUser) {
+  return (await request(app).get('/api/schedules/active').set('Authorization', user.auth)).body;
+}
+
+describe('POST /api/schedules', () => {
+  test('creates the schedule with its chunks and breaks, and makes it active', async () => {
+    const res = await request(app)
+      .post('/api/schedules')
+      .set('Authorization', alice.auth)
+      .send(scheduleInput(taskId, { name: 'Monday', breaks: [{ time: '09:30', durationMinutes: 5 }] }));
+
+    assert.equal(res.status, 201);
+    assert.equal(res.body.name, 'Monday');
+    assert.equal(res.body.date, '2025-03-10');
+    assert.equal(res.body.chunks.length, 2);
+    assert.equal(res.body.chunks[0].task_id, taskId);
+    assert.equal(res.body.breaks.length, 1);
+    assert.equal((await getActive(alice)).id, res.body.id);
+  });
+
+  test('leaves the active schedule alone with activate: false', async () => {
+    const first = await createSchedule(alice);
+    await createSchedule(alice, { activate: false });
+
+    assert.equal((await getActive(alice)).id, first.id);
+  });
+
+  test("drops the task link of chunks for tasks that aren't the user's", async () => {
+    const res = await request(app).post('/api/schedules').set('Authorization', bob.auth).send(scheduleInput(taskId));
+
+    assert.equal(res.status, 201);
+    assert.equal(res.body.chunks[0].task_id, null);
+    assert.equal(res.body.chunks[0].task_title, 'Write report');
+  });
+
+  test('refuses an ID that is already taken', async () => {
+    const id = randomUUID();
+    await createSchedule(alice, { id });
+    const res = await request(app).post('/api/schedules').set('Authorization', alice.auth).send(scheduleInput(taskId, { id }));
+
+    assert.equal(res.status, 409);
+    assert.equal(res.body.current.id, id);
+  });
+
+  test('needs a date, times, chunk size and chunks', async () => {
+    const res = await request(app)
+      .post('/api/schedules')
+      .set('Authorization', alice.auth)
+      .send({ date: '2025-03-10', startTime: '09:00' });
+
+    assert.equal(res.status, 400);
+  });
+
+  test('points at every bad field instead of failing in the database', async () => {
+    const input = scheduleInput(taskId);
+    input.chunks[1] = { ...input.chunks[1], startTime: '25:00' };
+    const res = await request(app)
+      .post('/api/schedules')
+      .set('Authorization', alice.auth)
+      .send({ ...input, date: '2025-02-30', defaultChunkSize: 0 });
+
+    assert.equal(res.status, 400);
+    assert.deepEqual(res.body.details.map((d: any) => d.path).sort(), ['chunks[1].startTime', 'date', 'defaultChunkSize']);
+  });
+});
+
+describe('GET /api/schedules', () => {
+  test("lists the user's schedules, filtered by date and status", async () => {
+    const monday = await createSchedule(alice);
+    const tuesday = await createSchedule(alice, { date: '2025-03-11', status: 'completed' });
+    await createSchedule(bob);
+
+    const all = await request(app).get('/api/schedules').set('Authorization', alice.auth);
+    const byDate = await request(app).get('/api/schedules?date=2025-03-10').set('Authorization', alice.auth);
+    const completed = await request(app).get('/api/schedules?status=completed').set('Authorization', alice.auth);
+
+    assert.deepEqual(all.body.map((s: any) => s.id), [tuesday.id, monday.id]);
+    assert.deepEqual(byDate.body.map((s: any) => s.id), [monday.id]);
+    assert.deepEqual(completed.body.map((s: any) => s.id), [tuesday.id]);
+  });
+});
+
+describe('GET /api/schedules/:id', () => {
+  test('returns the schedule with chunks in order', async () => {
+    const schedule = await createSchedule(alice);
+    const res = await request(app).get(`/api/schedules/${schedule.id}`).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.chunks.map((c: any) => c.start_time), ['09:00:00', '09:30:00']);
+  });
+
+  test("is 404 for another user's schedule", async () => {
+    const schedule = await createSchedule(bob);
+    const res = await request(app).get(`/api/schedules/${schedule.id}`).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 404);
+  });
+
+  test('is 400 for an ID that is not a UUID', async () => {
+    const res = await request(app).get('/api/schedules/not-an-id').set('Authorization', alice.auth);
+
+    assert.equal(res.status, 400);
+    assert.deepEqual(res.body.details, [{ path: 'id', message: 'must be a UUID' }]);
+  });
+});
+
+describe('POST /api/schedules/plan', () => {
+  test('creates every day of the plan and activates the first', async () => {
+    const planId = randomUUID();
+    const res = await request(app)
+      .post('/api/schedules/plan')
+      .set('Authorization', alice.auth)
+      .send({
+        planId,
+        schedules: [scheduleInput(taskId, { date: '2025-03-12' }), scheduleInput(taskId, { date: '2025-03-11' })]
+      });
+
+    assert.equal(res.status, 201);
+    assert.equal(res.body.schedules.length, 2);
+
+    const plan = await request(app).get(`/api/schedules?planId=${planId}`).set('Authorization', alice.auth);
+    assert.equal(plan.body.length, 2);
+    assert.equal((await getActive(alice)).date, '2025-03-11');
+  });
+
+  test('needs every day to be complete', async () => {
+    const res = await request(app)
+      .post('/api/schedules/plan')
+      .set('Authorization', alice.auth)
+      .send({ planId: randomUUID(), schedules: [{ date: '2025-03-11' }] });
+
+    assert.equal(res.status, 400);
+  });
+});
+
+describe('PUT /api/schedules/:id', () => {
+  test('updates the schedule and replaces its chunks', async () => {
+    const schedule = await createSchedule(alice);
+    const res = await request(app)
+      .put(`/api/schedules/${schedule.id}`)
+      .set('Authorization', alice.auth)
+      .send({ name: 'Renamed', chunks: scheduleInput(taskId).chunks.slice(0, 1) });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.name, 'Renamed');
+    assert.equal(res.body.chunks.length, 1);
+  });
+
+  test('is a conflict when based on an older copy', async () => {
+    const schedule = await createSchedule(alice);
+    const res = await request(app)
+      .put(`/api/schedules/${schedule.id}`)
+      .set('Authorization', alice.auth)
+      .send({ name: 'Stale', baseUpdatedAt: '2000-01-01T00:00:00.000Z' });
+
+    assert.equal(res.status, 409);
+  });
+
+  test('takes the updated_at it answered with as baseUpdatedAt', async () => {
+    const schedule = await createSchedule(alice);
+    const edit = (name: string, baseUpdatedAt: string) => request(app)
+      .put(`/api/schedules/${schedule.id}`)
+      .set('Authorization', alice.auth)
+      .send({ name, chunks: scheduleInput(taskId).chunks, baseUpdatedAt });
+
+    const first = await edit('First edit', schedule.updated_at);
+    const second = await edit('Second edit', first.body.updated_at);
+
+    assert.equal(first.status, 200);
+    assert.equal(second.status, 200);
+    assert.equal(second.body.name, 'Second edit');
+  });
+
+  test("doesn't touch another user's schedule", async () => {
+    const schedule = await createSchedule(bob);
+    const res = await request(app).put(`/api/schedules/${schedule.id}`).set('Authorization', alice.auth).send({ name: 'Mine now' });
+    const unchanged = await request(app).get(`/api/schedules/${schedule.id}`).set('Authorization', bob.auth);
+
+    assert.equal(res.status, 404);
+    assert.equal(res.body.code, 'NOT_FOUND');
+    assert.equal(unchanged.body.name, null);
+  });
+
+  test('is 404 for a schedule deleted meanwhile, so an offline edit can bring it back', async () => {
+    const schedule = await createSchedule(alice);
+    await request(app).delete(`/api/schedules/${schedule.id}`).set('Authorization', alice.auth);
+
+    const res = await request(app)
+      .put(`/api/schedules/${schedule.id}`)
+      .set('Authorization', alice.auth)
+      .send({ name: 'Edited offline', baseUpdatedAt: schedule.updated_at });
+
+    assert.equal(res.status, 404);
+    assert.equal(res.body.code, 'NOT_FOUND');
+  });
+});
+
+describe('DELETE /api/schedules/:id', () => {
+  test('deletes the schedule', async () => {
+    const schedule = await createSchedule(alice);
+    const res = await request(app).delete(`/api/schedules/${schedule.id}`).set('Authorization', alice.auth);
+    const gone = await request(app).get(`/api/schedules/${schedule.id}`).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 200);
+    assert.equal(gone.status, 404);
+  });
+
+  test("is 404 for another user's schedule", async () => {
+    const schedule = await createSchedule(bob);
+    const res = await request(app).delete(`/api/schedules/${schedule.id}`).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 404);
+  });
+});
+
+describe('sessions', () => {
+  test('activating another schedule ends the running session', async () => {
+    const first = await createSchedule(alice);
+    const second = await createSchedule(alice, { activate: false });
+
+    const res = await request(app).put(`/api/schedules/${second.id}/activate`).set('Authorization', alice.auth);
+    const history = await request(app).get('/api/schedules/history').set('Authorization', alice.auth);
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.id, second.id);
+    assert.equal(history.body.length, 1);
+    assert.equal(history.body[0].schedule_id, first.id);
+    assert.equal(history.body[0].outcome, 'ended');
+  });
+
+  test('activate is 404 for an unknown schedule', async () => {
+    const res = await request(app).put(`/api/schedules/${randomUUID()}/activate`).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 404);
+  });
+
+  test('deactivate ends the session only for the active schedule', async () => {
+    const active = await createSchedule(alice);
+    const other = await createSchedule(alice, { activate: false });
+
+    const notActive = await request(app).put(`/api/schedules/${other.id}/deactivate`).set('Authorization', alice.auth);
+    const ended = await request(app).put(`/api/schedules/${active.id}/deactivate`).set('Authorization', alice.auth);
+
+    assert.equal(notActive.body.session, null);
+    assert.equal(ended.status, 200);
+    assert.equal(ended.body.session.outcome, 'ended');
+    assert.equal(ended.body.session.summary.chunksTotal, 2);
+    assert.equal(await getActive(alice), null);
+  });
+
+  test('complete finishes the schedule and records the session once', async () => {
+    const schedule = await createSchedule(alice);
+
+    const first = await request(app).put(`/api/schedules/${schedule.id}/complete`).set('Authorization', alice.auth);
+    const again = await request(app).put(`/api/schedules/${schedule.id}/complete`).set('Authorization', alice.auth);
+    const history = await request(app).get('/api/schedules/history').set('Authorization', alice.auth);
+
+    assert.equal(first.status, 200);
+    assert.equal(first.body.schedule.status, 'completed');
+    assert.equal(first.body.session.outcome, 'completed');
+    assert.equal(again.body.session, null);
+    assert.equal(history.body.length, 1);
+    assert.equal(await getActive(alice), null);
+  });
+
+  test("complete is 404 for another user's schedule", async () => {
+    const schedule = await createSchedule(bob);
+    const res = await request(app).put(`/api/schedules/${schedule.id}/complete`).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 404);
+  });
+
+  test('history checks its limit', async () => {
+    const res = await request(app).get('/api/schedules/history?limit=0').set('Authorization', alice.auth);
+
+    assert.equal(res.status, 400);
+  });
+});
@@ -0,0 +1,78 @@
+import { createUser, startDatabase, stopDatabase } from './helpers';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import request from 'supertest';
+import { app } from '../src/server';
+import { UserModel } from '../src/models/User';
+import { decryptApiKey } from '../src/services/encryption.service';
+
+before(startDatabase);
+after(stopDatabase);
+
+const escalation = {
+  enabled: true,
+  ignoredNagsPerLevel: 3,
+  intervalFactor: 0.5,
+  minIntervalMinutes: 2,
+  requireInteractionFromLevel: 2
+};
+
+describe('GET /api/settings', () => {
+  test('creates the defaults on first read', async () => {
+    const { auth } = await createUser();
+    const res = await request(app).get('/api/settings').set('Authorization', auth);
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.default_chunk_size, 30);
+    assert.equal(res.body.default_break_duration, 15);
+    assert.equal(res.body.time_unit, 'minutes');
+    assert.equal(res.body.notifications_enabled, false);
+  });
+});
+
+describe('PUT /api/settings', () => {
+  test('saves the fields sent and keeps the rest', async () => {
+    const { auth } = await createUser();
+    await request(app).put('/api/settings').set('Authorization', auth).send({ defaultChunkSize: 45, timeUnit: 'hours' });
+    const res = await request(app).put('/api/settings').set('Authorization', auth).send({ notificationsEnabled: true, escalation });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.default_chunk_size, 45);
+    assert.equal(res.body.time_unit, 'hours');
+    assert.equal(res.body.notifications_enabled, true);
+    assert.deepEqual(res.body.escalation, escalation);
+
+    const read = await request(app).get('/api/settings').set('Authorization', auth);
+    assert.equal(read.body.default_chunk_size, 45);
+  });
+
+  test('refuses an invalid escalation policy', async () => {
+    const { auth } = await createUser();
+    const res = await request(app)
+      .put('/api/settings')
+      .set('Authorization', auth)
+      .send({ escalation: { ...escalation, intervalFactor: 2 } });
+
+    assert.equal(res.status, 400);
+  });
+});
+
+describe('PUT /api/settings/api-key', () => {
+  test('stores the key encrypted', async () => {
+    const { user, auth } = await createUser();
+    const res = await request(app).put('/api/settings/api-key').set('Authorization', auth).send({ apiKey: 'sk-ant-test' });
+
+    assert.equal(res.status, 200);
+    const stored = await UserModel.getApiKey(user.id);
+    assert.ok(stored);
+    assert.notEqual(stored, 'sk-ant-test');
+    assert.equal(decryptApiKey(stored!), 'sk-ant-test');
+  });
+
+  test('needs a key', async () => {
+    const { auth } = await createUser();
+    const res = await request(app).put('/api/settings/api-key').set('Authorization', auth).send({ apiKey: 42 });
+
+    assert.equal(res.status, 400);
+  });
+});
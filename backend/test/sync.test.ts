@@ -0,0 +1,175 @@
+import { createUser, scheduleInput, startDatabase, stopDatabase, taskInput } from './helpers';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { app } from '../src/server';
+import { db } from '../src/config/database';
+import { pruneTombstones } from '../src/services/sync.service';
+
+before(startDatabase);
+after(stopDatabase);
+
+describe('GET /api/sync', () => {
+  test('sends everything without a cursor', async () => {
+    const { auth } = await createUser();
+    const task = await request(app).post('/api/tasks').set('Authorization', auth).send(taskInput());
+    const schedule = await request(app).post('/api/schedules').set('Authorization', auth).send(scheduleInput(task.body.id));
+
+    const res = await request(app).get('/api/sync').set('Authorization', auth);
+
+    assert.equal(res.status, 200);
+    assert.match(res.body.cursor, /^\d+$/);
+    assert.deepEqual(res.body.tasks.created.map((t: any) => t.id), [task.body.id]);
+    assert.deepEqual(res.body.schedules.created.map((s: any) => s.id), [schedule.body.id]);
+    assert.equal(res.body.chunks.created.length, 2);
+    assert.equal(res.body.active.scheduleId, schedule.body.id);
+  });
+
+  test('sends only what changed since the cursor, deletions included', async () => {
+    const { auth } = await createUser();
+    const kept = await request(app).post('/api/tasks').set('Authorization', auth).send(taskInput({ title: 'Kept' }));
+    const deleted = await request(app).post('/api/tasks').set('Authorization', auth).send(taskInput({ title: 'Deleted' }));
+    const { body: { cursor } } = await request(app).get('/api/sync').set('Authorization', auth);
+
+    await request(app).put(`/api/tasks/${kept.body.id}`).set('Authorization', auth).send({ title: 'Renamed' });
+    await request(app).delete(`/api/tasks/${deleted.body.id}`).set('Authorization', auth);
+    const added = await request(app).post('/api/tasks').set('Authorization', auth).send(taskInput({ title: 'Added' }));
+
+    const res = await request(app).get('/api/sync').query({ since: cursor }).set('Authorization', auth);
+
+    assert.deepEqual(res.body.tasks.created.map((t: any) => t.id), [added.body.id]);
+    assert.deepEqual(res.body.tasks.updated.map((t: any) => t.title), ['Renamed']);
+    assert.deepEqual(res.body.tasks.deleted, [deleted.body.id]);
+    assert.equal(res.body.settings, null);
+  });
+
+  test("doesn't send another user's changes", async () => {
+    const alice = await createUser();
+    const bob = await createUser();
+    await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput());
+
+    const res = await request(app).get('/api/sync').set('Authorization', bob.auth);
+
+    assert.deepEqual(res.body.tasks.created, []);
+  });
+
+  test('refuses a cursor that is not a number', async () => {
+    const { auth } = await createUser();
+    const res = await request(app).get('/api/sync').query({ since: 'yesterday' }).set('Authorization', auth);
+
+    assert.equal(res.status, 400);
+  });
+});
+
+describe('pruneTombstones', () => {
+  test('forgets old deletions and sends clients from before them everything again', async () => {
+    const { auth } = await createUser();
+    const kept = await request(app).post('/api/tasks').set('Authorization', auth).send(taskInput({ title: 'Kept' }));
+    const deleted = await request(app).post('/api/tasks').set('Authorization', auth).send(taskInput({ title: 'Deleted' }));
+    const { body: { cursor: stale } } = await request(app).get('/api/sync').set('Authorization', auth);
+
+    await request(app).delete(`/api/tasks/${deleted.body.id}`).set('Authorization', auth);
+    await db.none("UPDATE sync_tombstones SET deleted_at = NOW() - INTERVAL '31 days' WHERE entity_id = $1", [deleted.body.id]);
+    assert.ok((await pruneTombstones()) >= 1);
+    const { body: { cursor: fresh } } = await request(app).get('/api/sync').set('Authorization', auth);
+
+    const res = await request(app).get('/api/sync').query({ since: stale }).set('Authorization', auth);
+    const current = await request(app).get('/api/sync').query({ since: fresh }).set('Authorization', auth);
+
+    assert.equal(res.body.full, true);
+    assert.deepEqual(res.body.tasks.created.map((t: any) => t.id), [kept.body.id]);
+    assert.deepEqual(res.body.tasks.deleted, []);
+    assert.equal(current.body.full, false);
+  });
+
+  test('keeps recent deletions', async () => {
+    const { auth } = await createUser();
+    const task = await request(app).post('/api/tasks').set('Authorization', auth).send(taskInput());
+    const { body: { cursor } } = await request(app).get('/api/sync').set('Authorization', auth);
+    await request(app).delete(`/api/tasks/${task.body.id}`).set('Authorization', auth);
+
+    await pruneTombstones();
+    const res = await request(app).get('/api/sync').query({ since: cursor }).set('Authorization', auth);
+
+    assert.equal(res.body.full, false);
+    assert.deepEqual(res.body.tasks.deleted, [task.body.id]);
+  });
+});
+
+describe('POST /api/events/ticket', () => {
+  test('needs the user to be signed in', async () => {
+    const res = await request(app).post('/api/events/ticket');
+
+    assert.equal(res.status, 401);
+  });
+
+  test('is a ticket to the stream and nothing else', async () => {
+    const { auth } = await createUser();
+    const { body: { ticket } } = await request(app).post('/api/events/ticket').set('Authorization', auth);
+
+    const res = await request(app).get('/api/tasks').set('Authorization', `Bearer ${ticket}`);
+
+    assert.equal(res.status, 403);
+  });
+});
+
+describe('GET /api/events', () => {
+  test('needs a ticket in the query', async () => {
+    const res = await request(app).get('/api/events');
+
+    assert.equal(res.status, 401);
+  });
+
+  test('refuses an invalid ticket', async () => {
+    const res = await request(app).get('/api/events').query({ ticket: 'not-a-jwt' });
+
+    assert.equal(res.status, 403);
+  });
+
+  test('refuses the sign-in token in place of a ticket', async () => {
+    const { auth } = await createUser();
+    const res = await request(app).get('/api/events').query({ ticket: auth.slice('Bearer '.length) });
+
+    assert.equal(res.status, 403);
+  });
+
+  test("streams the user's changes, except to the session that made them", async () => {
+    const { auth } = await createUser();
+    const { body: { ticket } } = await request(app).post('/api/events/ticket').set('Authorization', auth);
+    const server = app.listen(0);
+    let posted: Promise<string> | undefined;
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const events = await new Promise<string[]>((resolve, reject) => {
+        const req = http.get(`http://127.0.0.1:${port}/api/events?ticket=${ticket}&clientId=tab-1`, res => {
+          assert.equal(res.headers['content-type'], 'text/event-stream');
+          const received: string[] = [];
+          res.setEncoding('utf8');
+          res.on('data', (chunk: string) => {
+            received.push(...chunk.split('\n\n').filter(message => message.startsWith('event: change')));
+            if (received.length > 0) {
+              req.destroy();
+              resolve(received);
+            }
+          });
+
+          // The first change comes from this session and isn't echoed; the second is
+          posted = request(app).post('/api/tasks').set('Authorization', auth).set('X-Client-Id', 'tab-1').send(taskInput())
+            .then(() => request(app).post('/api/tasks').set('Authorization', auth).set('X-Client-Id', 'tab-2').send(taskInput()))
+            .then(task => task.body.id);
+          posted.catch(reject);
+        });
+        req.on('error', reject);
+      });
+
+      const event = JSON.parse(events[0].split('data: ')[1]);
+      assert.deepEqual(event, { type: 'task', taskId: await posted });
+    } finally {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
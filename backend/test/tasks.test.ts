@@ -0,0 +1,180 @@
+import { createUser, startDatabase, stopDatabase, taskInput, TestUser } from './helpers';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import request from 'supertest';
+import { app } from '../src/server';
+
+before(startDatabase);
+after(stopDatabase);
+
+let alice: TestUser;
+let bob: TestUser;
+
+beforeEach(async () => {
+  alice = await createUser();
+  bob = await createUser();
+});
+
+async function createTask(user: TestUser, overrides: Record<string, unknown> = {}) {
+  const res = await request(app).post('/api/tasks').set('Authorization', user.auth).send(taskInput(overrides));
+  assert.equal(res.status, 201);
+  return res.body;
+}
+
+describe('POST /api/tasks', () => {
+  test('creates a task', async () => {
+    const res = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', alice.auth)
+      .send(taskInput({ dueDate: '2025-04-01', dueTime: '17:00' }));
+
+    assert.equal(res.status, 201);
+    assert.equal(res.body.title, 'Write report');
+    assert.equal(res.body.user_id, alice.user.id);
+    assert.equal(Number(res.body.estimated_hours), 2);
+    assert.equal(Number(res.body.hours_completed), 0);
+    assert.equal(res.body.due_date, '2025-04-01');
+    assert.deepEqual(res.body.depends_on, []);
+  });
+
+  test('keeps an ID chosen by the client, and refuses it a second time', async () => {
+    const id = randomUUID();
+    const first = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput({ id }));
+    const second = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput({ id, title: 'Again' }));
+
+    assert.equal(first.body.id, id);
+    assert.equal(second.status, 409);
+    assert.equal(second.body.current.title, 'Write report');
+  });
+
+  test('needs a title, priority and estimate', async () => {
+    const res = await request(app).post('/api/tasks').set('Authorization', alice.auth).send({ title: 'No estimate', priority: 'low' });
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, 'Invalid request');
+    assert.deepEqual(res.body.details, [{ path: 'estimatedHours', message: 'is required' }]);
+  });
+
+  test('ignores fields it does not know', async () => {
+    const res = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput({ userId: bob.user.id }));
+    const bobsTasks = await request(app).get('/api/tasks').set('Authorization', bob.auth);
+
+    assert.equal(res.status, 201);
+    assert.deepEqual(bobsTasks.body, []);
+  });
+
+  test('refuses an invalid recurrence rule or escalation policy', async () => {
+    const recurrence = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', alice.auth)
+      .send(taskInput({ recurrence: { frequency: 'weekly', startDate: '2025-03-10', daysOfWeek: [] } }));
+    const escalation = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', alice.auth)
+      .send(taskInput({ escalation: { enabled: true, ignoredNagsPerLevel: 0 } }));
+
+    assert.equal(recurrence.status, 400);
+    assert.equal(escalation.status, 400);
+  });
+
+  test("refuses prerequisites that aren't the user's tasks", async () => {
+    const bobsTask = await createTask(bob);
+    const res = await request(app)
+      .post('/api/tasks')
+      .set('Authorization', alice.auth)
+      .send(taskInput({ dependsOn: [bobsTask.id] }));
+
+    assert.equal(res.status, 400);
+    assert.match(res.body.error, /Unknown prerequisite tasks/);
+  });
+});
+
+describe('GET /api/tasks', () => {
+  test("lists only the user's own tasks, newest first, with prerequisites", async () => {
+    const first = await createTask(alice, { title: 'First' });
+    await createTask(alice, { title: 'Second', dependsOn: [first.id] });
+    await createTask(bob, { title: "Bob's" });
+
+    const res = await request(app).get('/api/tasks').set('Authorization', alice.auth);
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.map((t: any) => t.title), ['Second', 'First']);
+    assert.deepEqual(res.body[0].depends_on, [first.id]);
+  });
+});
+
+describe('PUT /api/tasks/:id', () => {
+  test('updates only the fields that are sent', async () => {
+    const task = await createTask(alice, { dueDate: '2025-04-01' });
+    const res = await request(app)
+      .put(`/api/tasks/${task.id}`)
+      .set('Authorization', alice.auth)
+      .send({ title: 'Renamed', hoursCompleted: 0.5 });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.title, 'Renamed');
+    assert.equal(Number(res.body.hours_completed), 0.5);
+    assert.equal(res.body.priority, 'medium');
+    assert.equal(res.body.due_date, '2025-04-01');
+  });
+
+  test('clears the deadline when dueDate is null', async () => {
+    const task = await createTask(alice, { dueDate: '2025-04-01', dueTime: '17:00' });
+    const res = await request(app).put(`/api/tasks/${task.id}`).set('Authorization', alice.auth).send({ dueDate: null });
+
+    assert.equal(res.body.due_date, null);
+    assert.equal(res.body.due_time, null);
+  });
+
+  test("is 404 for another user's task", async () => {
+    const task = await createTask(bob);
+    const res = await request(app).put(`/api/tasks/${task.id}`).set('Authorization', alice.auth).send({ title: 'Mine now' });
+
+    assert.equal(res.status, 404);
+  });
+
+  test('is a conflict when based on an older copy', async () => {
+    const task = await createTask(alice);
+    const res = await request(app)
+      .put(`/api/tasks/${task.id}`)
+      .set('Authorization', alice.auth)
+      .send({ title: 'Stale', baseUpdatedAt: '2000-01-01T00:00:00.000Z' });
+
+    assert.equal(res.status, 409);
+    assert.equal(res.body.current.title, 'Write report');
+  });
+
+  test('replaces prerequisites, but not into a cycle', async () => {
+    const a = await createTask(alice, { title: 'A' });
+    const b = await createTask(alice, { title: 'B', dependsOn: [a.id] });
+
+    const cycle = await request(app).put(`/api/tasks/${a.id}`).set('Authorization', alice.auth).send({ dependsOn: [b.id] });
+    const cleared = await request(app).put(`/api/tasks/${b.id}`).set('Authorization', alice.auth).send({ dependsOn: [] });
+    const notArray = await request(app).put(`/api/tasks/${b.id}`).set('Authorization', alice.auth).send({ dependsOn: a.id });
+
+    assert.equal(cycle.status, 400);
+    assert.equal(cycle.body.error, 'Task dependencies cannot form a cycle');
+    assert.equal(cleared.status, 200);
+    assert.deepEqual(cleared.body.depends_on, []);
+    assert.equal(notArray.status, 400);
+  });
+});
+
+describe('DELETE /api/tasks/:id', () => {
+  test('deletes the task', async () => {
+    const task = await createTask(alice);
+    const res = await request(app).delete(`/api/tasks/${task.id}`).set('Authorization', alice.auth);
+    const list = await request(app).get('/api/tasks').set('Authorization', alice.auth);
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(list.body, []);
+  });
+
+  test("is 404 for another user's task", async () => {
+    const task = await createTask(bob);
+    const res = await request(app).delete(`/api/tasks/${task.id}`).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 404);
+  });
+});
@@ -0,0 +1,137 @@
+import { createUser, startDatabase, stopDatabase, taskInput, TestUser } from './helpers';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import request from 'supertest';
+import { app } from '../src/server';
+
+before(startDatabase);
+after(stopDatabase);
+
+let alice: TestUser;
+let taskId: string;
+
+beforeEach(async () => {
+  alice = await createUser();
+  const task = await request(app).post('/api/tasks').set('Authorization', alice.auth).send(taskInput());
+  taskId = task.body.id;
+});
+
+function templateInput(overrides: Record<string, unknown> = {}) {
+  return {
+    name: 'Weekday mornings',
+    startTime: '09:00',
+    endTime: '12:00',
+    defaultChunkSize: 30,
+    breaks: [{ time: '10:30', durationMinutes: 15 }],
+    taskIds: [taskId],
+    recurrence: { frequency: 'weekdays', startDate: '2025-03-10' },
+    ...overrides
+  };
+}
+
+async function createTemplate(overrides: Record<string, unknown> = {}) {
+  const res = await request(app).post('/api/templates').set('Authorization', alice.auth).send(templateInput(overrides));
+  assert.equal(res.status, 201);
+  return res.body;
+}
+
+describe('POST /api/templates', () => {
+  test('creates a template', async () => {
+    const template = await createTemplate();
+
+    assert.equal(template.name, 'Weekday mornings');
+    assert.deepEqual(template.task_ids, [taskId]);
+    assert.deepEqual(template.recurrence, { frequency: 'weekdays', startDate: '2025-03-10' });
+  });
+
+  test('refuses an invalid recurrence rule', async () => {
+    const res = await request(app)
+      .post('/api/templates')
+      .set('Authorization', alice.auth)
+      .send(templateInput({ recurrence: { frequency: 'interval', startDate: '2025-03-10', intervalDays: 0 } }));
+
+    assert.equal(res.status, 400);
+  });
+
+  test("refuses tasks that aren't the user's", async () => {
+    const res = await request(app).post('/api/templates').set('Authorization', alice.auth).send(templateInput({ taskIds: [randomUUID()] }));
+
+    assert.equal(res.status, 400);
+    assert.match(res.body.error, /Unknown tasks/);
+  });
+
+  test('needs a name, times, chunk size and recurrence', async () => {
+    const res = await request(app).post('/api/templates').set('Authorization', alice.auth).send({ name: 'Incomplete' });
+
+    assert.equal(res.status, 400);
+  });
+});
+
+test("GET /api/templates lists the user's templates", async () => {
+  const template = await createTemplate();
+  const bob = await createUser();
+
+  const mine = await request(app).get('/api/templates').set('Authorization', alice.auth);
+  const bobs = await request(app).get('/api/templates').set('Authorization', bob.auth);
+
+  assert.deepEqual(mine.body.map((t: any) => t.id), [template.id]);
+  assert.deepEqual(bobs.body, []);
+});
+
+describe('PUT /api/templates/:id', () => {
+  test('updates the template', async () => {
+    const template = await createTemplate();
+    const res = await request(app)
+      .put(`/api/templates/${template.id}`)
+      .set('Authorization', alice.auth)
+      .send({ name: 'Mornings', lastCreatedOn: '2025-03-11' });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.name, 'Mornings');
+    assert.equal(res.body.last_created_on, '2025-03-11');
+  });
+
+  test('refuses an invalid recurrence rule', async () => {
+    const template = await createTemplate();
+    const res = await request(app)
+      .put(`/api/templates/${template.id}`)
+      .set('Authorization', alice.auth)
+      .send({ recurrence: { frequency: 'monthly', startDate: '2025-03-10' } });
+
+    assert.equal(res.status, 400);
+  });
+
+  test("refuses tasks that aren't the user's", async () => {
+    const template = await createTemplate();
+    const bob = await createUser();
+    const bobsTask = await request(app).post('/api/tasks').set('Authorization', bob.auth).send(taskInput());
+    const res = await request(app)
+      .put(`/api/templates/${template.id}`)
+      .set('Authorization', alice.auth)
+      .send({ taskIds: [taskId, bobsTask.body.id] });
+
+    assert.equal(res.status, 400);
+    assert.equal(res.body.code, 'VALIDATION');
+    assert.match(res.body.error, /Unknown tasks/);
+  });
+
+  test("is 404 for another user's template", async () => {
+    const template = await createTemplate();
+    const bob = await createUser();
+    const res = await request(app).put(`/api/templates/${template.id}`).set('Authorization', bob.auth).send({ name: 'Mine now' });
+
+    assert.equal(res.status, 404);
+  });
+});
+
+describe('DELETE /api/templates/:id', () => {
+  test('deletes the template, once', async () => {
+    const template = await createTemplate();
+    const res = await request(app).delete(`/api/templates/${template.id}`).set('Authorization', alice.auth);
+    const again = await request(app).delete(`/api/templates/${template.id}`).set('Authorization', alice.auth);
+
+    assert.equal(res.status, 200);
+    assert.equal(again.status, 404);
+  });
+});
@@ -0,0 +1,245 @@
+// Nagging service worker - owns the notification timeline of the active schedule
+// so nags keep coming while the app tab is closed or the page is frozen.
+//
+// The page posts the timeline (see buildScheduleTimeline in src/lib/notifications.ts).
+// Signed-in users with a push subscription get their nags from the backend push worker
+// instead, so only one of the two ever nags. Notification actions are reported back to
+// the page, or queued until one opens.
+
+const DB_NAME = 'nagging_app_sw';
+const STORE = 'state';
+const SNOOZE_MINUTES = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let timers = [];
+
+// Minimal IndexedDB key/value store - service workers can't use localStorage
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function idbGet(key) {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE).objectStore(STORE).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function idbSet(key, value) {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(value, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// Timeline scheduling
+
+const supportsTriggers = 'showTrigger' in Notification.prototype;
+
+function notificationOptions(event, extra) {
+  const options = {
+    body: event.body,
+    tag: `${event.tag}-${event.chunkId}`,
+    renotify: true,
+    requireInteraction: event.requireInteraction,
+    data: { scheduleId: event.scheduleId, chunkId: event.chunkId, kind: event.kind },
+    actions: [
+      { action: 'done', title: '✓ Done' },
+      { action: 'snooze', title: `💤 Snooze ${SNOOZE_MINUTES}m` },
+      { action: 'skip', title: '⏭ Skip' }
+    ]
+  };
+  return Object.assign(options, extra);
+}
+
+async function clearScheduled() {
+  timers.forEach(clearTimeout);
+  timers = [];
+
+  if (supportsTriggers) {
+    const pending = await self.registration.getNotifications({ includeTriggered: false });
+    pending.forEach(n => n.close());
+  }
+}
+
+async function fire(event) {
+  await self.registration.showNotification(event.title, notificationOptions(event));
+  if (event.kind === 'end') {
+    await postToClients({ type: 'CHUNK_END', chunkId: event.chunkId });
+  }
+}
+
+// Schedule every future event; timers only live as long as the worker does,
+// so the timeline is re-armed from IndexedDB whenever the worker starts. While the
+// server pushes, the timeline is kept but not armed.
+async function arm(events) {
+  await clearScheduled();
+  if (await idbGet('pushActive')) return;
+  const now = Date.now();
+
+  for (const event of events) {
+    if (event.at <= now) continue;
+
+    if (supportsTriggers && event.kind !== 'end') {
+      await self.registration.showNotification(event.title, notificationOptions(event, {
+        showTrigger: new TimestampTrigger(event.at)
+      }));
+    } else {
+      timers.push(setTimeout(() => fire(event), event.at - now));
+    }
+  }
+}
+
+async function setTimeline(events) {
+  await idbSet('timeline', events);
+  await arm(events);
+}
+
+async function setPushActive(active) {
+  await idbSet('pushActive', active);
+  await arm((await idbGet('timeline')) || []);
+}
+
+// Answers given here reach the server only once a tab opens and syncs. Until then a
+// pushed nag for a snoozed chunk, or anything for a chunk that's done or skipped, is dropped.
+async function holdChunk(chunkId, until, allKinds) {
+  const now = Date.now();
+  const holds = (await idbGet('holds')) || {};
+  for (const id of Object.keys(holds)) {
+    if (holds[id].until <= now) delete holds[id];
+  }
+  holds[chunkId] = { until, allKinds };
+  await idbSet('holds', holds);
+}
+
+async function isHeld(event) {
+  const hold = ((await idbGet('holds')) || {})[event.chunkId];
+  return !!hold && hold.until > Date.now() && (hold.allKinds || event.kind === 'nag');
+}
+
+// Hold a chunk's nags until the snooze runs out, leaving the rest of the timeline alone
+async function snoozeChunk(chunkId) {
+  const events = (await idbGet('timeline')) || [];
+  const resumeAt = Date.now() + SNOOZE_MINUTES * 60 * 1000;
+
+  const kept = events.filter(e => e.chunkId !== chunkId || e.kind !== 'nag' || e.at > resumeAt);
+  const end = events.find(e => e.chunkId === chunkId && e.kind === 'end');
+  if (end && end.at > resumeAt && !kept.some(e => e.chunkId === chunkId && e.at === resumeAt)) {
+    kept.push(Object.assign({}, end, {
+      kind: 'nag', at: resumeAt, title: '💤 Snooze is over!', tag: 'nag', requireInteraction: false
+    }));
+  }
+
+  await setTimeline(kept.sort((a, b) => a.at - b.at));
+}
+
+async function dropChunk(chunkId) {
+  const events = (await idbGet('timeline')) || [];
+  await setTimeline(events.filter(e => e.chunkId !== chunkId));
+}
+
+// Talking to the page
+
+async function postToClients(message) {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clients.forEach(client => client.postMessage(message));
+  return clients.length > 0;
+}
+
+async function reportAction(payload) {
+  const delivered = await postToClients({ type: 'NAG_ACTION', payload });
+  if (!delivered) {
+    const queued = (await idbGet('pendingActions')) || [];
+    await idbSet('pendingActions', queued.concat(payload));
+  }
+}
+
+async function flushActions(client) {
+  const queued = (await idbGet('pendingActions')) || [];
+  queued.forEach(payload => client.postMessage({ type: 'NAG_ACTION', payload }));
+  await idbSet('pendingActions', []);
+}
+
+// Lifecycle
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    await self.clients.claim();
+    await arm((await idbGet('timeline')) || []);
+  })());
+});
+
+self.addEventListener('message', event => {
+  const message = event.data || {};
+
+  if (message.type === 'SET_TIMELINE') {
+    event.waitUntil(setTimeline(message.events || []));
+  } else if (message.type === 'SET_PUSH_ACTIVE') {
+    event.waitUntil(setPushActive(!!message.active));
+  } else if (message.type === 'CLEAR_TIMELINE') {
+    event.waitUntil(setTimeline([]));
+  } else if (message.type === 'FLUSH_ACTIONS' && event.source) {
+    event.waitUntil(flushActions(event.source));
+  }
+});
+
+// Nags sent by the backend push worker - same shape as timeline events
+self.addEventListener('push', event => {
+  if (!event.data) return;
+  const nag = event.data.json();
+  event.waitUntil((async () => {
+    if (await isHeld(nag)) return;
+    await fire(nag);
+  })());
+});
+
+self.addEventListener('notificationclick', event => {
+  const notification = event.notification;
+  const { scheduleId, chunkId } = notification.data || {};
+  notification.close();
+
+  event.waitUntil((async () => {
+    if (event.action === 'snooze') {
+      await snoozeChunk(chunkId);
+      await holdChunk(chunkId, Date.now() + SNOOZE_MINUTES * 60 * 1000, false);
+      await reportAction({ action: 'snooze', scheduleId, chunkId, minutes: SNOOZE_MINUTES });
+      return;
+    }
+
+    if (event.action === 'done' || event.action === 'skip') {
+      await dropChunk(chunkId);
+      await holdChunk(chunkId, Date.now() + DAY_MS, true);
+      await reportAction({ action: event.action, scheduleId, chunkId });
+      return;
+    }
+
+    // Plain click - answering the nag calms escalation down, and brings the app forward
+    await reportAction({ action: 'ack', scheduleId, chunkId });
+    const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (clients.length > 0) {
+      await clients[0].focus();
+    } else {
+      await self.clients.openWindow('/');
+    }
+  })());
+});
+
+// Dismissing a nag counts as answering it
+self.addEventListener('notificationclose', event => {
+  const { scheduleId, chunkId, kind } = event.notification.data || {};
+  if (kind !== 'nag') return;
+  event.waitUntil(reportAction({ action: 'ack', scheduleId, chunkId }));
+});
@@ -2,39 +2,123 @@ import { useState, useEffect } from 'react';
 import TaskList from './components/TaskList';
 import ScheduleForm from './components/ScheduleForm';
 import ActiveSchedule from './components/ActiveSchedule';
+import MultiDayPlanner from './components/MultiDayPlanner';
 import NaturalLanguageScheduler from './components/NaturalLanguageScheduler';
 import LoginButton from './components/LoginButton';
 import MigrationPrompt from './components/MigrationPrompt';
-import { getTasks, addTask, updateTask, deleteTask, getActiveSchedule, addSchedule, setActiveScheduleId, markChunkComplete, getSettings, saveSettings } from './lib/storage';
-import { requestNotificationPermission, startChunkNagging, clearAllNotifications } from './lib/notifications';
+import EscalationPolicyFields from './components/EscalationPolicyFields';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
+import SessionHistory from './components/SessionHistory';
+import InsightsDashboard from './components/InsightsDashboard';
+import CalendarFeedSettings from './components/CalendarFeedSettings';
+import BackupSettings from './components/BackupSettings';
+import RecoveredDataNotice from './components/RecoveredDataNotice';
+import { getTasks, saveTasks, addTask, updateTask, deleteTask, getActiveSchedule, getActiveScheduleId, getSchedules, addSchedule, addSchedules, updateSchedule, markChunkComplete, skipChunk, snoozeChunk, extendChunk, acknowledgeChunk, recordChunkTimeEvent, getSettings, saveSettings, getTemplates, saveTemplates, addTemplate, deleteTemplate } from './lib/storage';
+import { requestNotificationPermission, startChunkNagging, clearAllNotifications, registerNagServiceWorker, isServiceWorkerNaggingAvailable, syncServiceWorkerNagging, onServiceWorkerNagEvent, subscribeToServerPush, setServiceWorkerPushActive, NagAction } from './lib/notifications';
+import { useAuth } from './lib/auth';
+import { startSync } from './lib/sync';
+import { startLiveUpdates } from './lib/liveUpdates';
+import { activateSchedule, endActiveSession } from './lib/sessions';
 import { generateSchedule } from './lib/scheduler';
-import { generateId } from './lib/utils';
-import { Task, Schedule, AppSettings, ScheduleBreak } from './types';
+import { buildCalibration } from './lib/calibration';
+import { CalibrationSample } from '../backend/src/types/shared';
+import { resolveEscalationPolicy } from './lib/escalation';
+import { applyTaskRecurrence, instantiateTemplates, describeRecurrence } from './lib/recurrence';
+import { generateId, getTodayDate, formatTime, formatDuration } from './lib/utils';
+import { Task, Schedule, ScheduleChunk, ScheduleSession, AppSettings, ScheduleBreak, ScheduleTemplate, EscalationPolicy, ChunkTimeEventType } from './types';
 
-type Tab = 'tasks' | 'schedule' | 'active' | 'settings';
+type Tab = 'tasks' | 'schedule' | 'active' | 'insights' | 'settings';
 
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('tasks');
+  const [scheduleMode, setScheduleMode] = useState<'single' | 'multi'>('single');
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+  const [calibration, setCalibration] = useState<CalibrationSample[]>([]);
   const [activeSchedule, setActiveSchedule] = useState<Schedule | null>(null);
   const [settings, setSettings] = useState<AppSettings>(getSettings());
   const [refreshKey, setRefreshKey] = useState(0);
-  const [showCompletionMessage, setShowCompletionMessage] = useState(false);
+  const [completedSession, setCompletedSession] = useState<ScheduleSession | null>(null);
+  const [nagWorkerReady, setNagWorkerReady] = useState(false);
+  const { isAuthenticated } = useAuth();
 
   useEffect(() => {
-    loadData();
+    processRecurrence().then(loadData);
     setupNotifications();
+
+    let unsubscribe = () => {};
+    registerNagServiceWorker().then(async registered => {
+      if (!registered) return;
+      setNagWorkerReady(true);
+      unsubscribe = onServiceWorkerNagEvent({
+        onAction: handleNagAction,
+        onChunkEnd: () => setRefreshKey(prev => prev + 1)
+      });
+
+      // Hand the worker the timeline now that it can take it
+      const schedule = await getActiveSchedule();
+      if (schedule) {
+        setupScheduleNotifications(schedule);
+      }
+    });
+
+    return () => unsubscribe();
   }, []);
 
+  // Signed-in users get nags pushed by the server instead of the worker's own timeline
+  useEffect(() => {
+    if (!nagWorkerReady) return;
+    if (isAuthenticated) {
+      subscribeToServerPush();
+    } else {
+      setServiceWorkerPushActive(false);
+    }
+  }, [nagWorkerReady, isAuthenticated]);
+
+  // Signed-in users keep tasks and schedules in sync with the server, offline or not,
+  // and see changes from their other devices as they happen
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const stopSync = startSync(loadData);
+    const stopLiveUpdates = startLiveUpdates(handleRemoteChange);
+    return () => {
+      stopSync();
+      stopLiveUpdates();
+    };
+  }, [isAuthenticated]);
+
   useEffect(() => {
     if (activeSchedule) {
       setupScheduleNotifications(activeSchedule);
     }
   }, [activeSchedule]);
 
-  const loadData = () => {
-    setTasks(getTasks());
-    setActiveSchedule(getActiveSchedule());
+  const loadData = async () => {
+    const [tasks, templates, schedules] = await Promise.all([getTasks(), getTemplates(), getSchedules()]);
+    setTasks(tasks);
+    setTemplates(templates);
+    setActiveSchedule(schedules.find(s => s.id === getActiveScheduleId()) || null);
+    setCalibration(buildCalibration(tasks, schedules));
+  };
+
+  // Reset recurring tasks and create today's schedules from templates
+  const processRecurrence = async () => {
+    const today = getTodayDate();
+
+    const taskResult = applyTaskRecurrence(await getTasks(), today);
+    if (taskResult.changed) {
+      await saveTasks(taskResult.tasks);
+    }
+
+    const templateResult = instantiateTemplates(await getTemplates(), taskResult.tasks, getSettings(), today);
+    await saveTemplates(templateResult.templates);
+
+    if (templateResult.schedules.length > 0) {
+      await addSchedules(templateResult.schedules);
+      if (!(await getActiveSchedule())) {
+        await activateSchedule(templateResult.schedules[0].id);
+      }
+    }
   };
 
   const setupNotifications = async () => {
@@ -48,7 +132,26 @@ function App() {
     }
   };
 
-  const setupScheduleNotifications = (schedule: Schedule) => {
+  // Read fresh from storage - this also runs from long-lived service worker callbacks
+  const loadEscalationPolicies = async (): Promise<(chunk: ScheduleChunk) => EscalationPolicy> => {
+    const tasks = await getTasks();
+    const settings = getSettings();
+    return chunk => resolveEscalationPolicy(tasks.find(t => t.id === chunk.taskId), settings);
+  };
+
+  // For rendering - the loaded tasks and settings are current there
+  const getEscalationPolicy = (chunk: ScheduleChunk): EscalationPolicy =>
+    resolveEscalationPolicy(tasks.find(t => t.id === chunk.taskId), settings);
+
+  const setupScheduleNotifications = async (schedule: Schedule) => {
+    const getPolicy = await loadEscalationPolicies();
+
+    // The service worker nags for the whole schedule, even with the tab closed
+    if (isServiceWorkerNaggingAvailable()) {
+      syncServiceWorkerNagging(schedule, getPolicy);
+      return;
+    }
+
     // Clear any existing notifications first
     clearAllNotifications();
 
@@ -63,16 +166,19 @@ function App() {
 
     // Find the current or next incomplete chunk
     const activeChunk = schedule.chunks
-      .filter(chunk => !chunk.completed)
+      .filter(chunk => !chunk.completed && !chunk.skipped)
       .find(chunk => {
         const endMinutes = timeToMinutes(chunk.endTime);
         return endMinutes > currentTime; // Not yet finished
       });
 
     if (activeChunk) {
-      const result = startChunkNagging(activeChunk, () => {
-        setRefreshKey(prev => prev + 1);
-      });
+      const result = startChunkNagging(
+        activeChunk,
+        getPolicy(activeChunk),
+        () => setRefreshKey(prev => prev + 1),
+        () => handleChunkAcknowledge(schedule.id, activeChunk.id)
+      );
 
       // Store notification info for UI feedback (optional)
       if (result.info.nextNotificationAt) {
@@ -85,67 +191,170 @@ function App() {
     loadData();
   };
 
-  const handleScheduleCreated = (schedule: Schedule) => {
-    addSchedule(schedule);
-    setActiveScheduleId(schedule.id);
+  const handleScheduleCreated = async (schedule: Schedule) => {
+    await addSchedule(schedule);
+    await activateSchedule(schedule.id);
     setActiveSchedule(schedule);
     setActiveTab('active');
     setupScheduleNotifications(schedule);
   };
 
-  const handleChunkComplete = (chunkId: string) => {
+  const handlePlanCreated = async (schedules: Schedule[]) => {
+    await addSchedules(schedules);
+
+    // Start with today's schedule if the plan covers today, otherwise the first day
+    const first = schedules.find(s => s.date === getTodayDate()) || schedules[0];
+    await activateSchedule(first.id);
+    setActiveSchedule(first);
+    setActiveTab('active');
+    setupScheduleNotifications(first);
+  };
+
+  const handleTemplateSaved = async (template: ScheduleTemplate) => {
+    await addTemplate(template);
+    setTemplates(await getTemplates());
+  };
+
+  const handleTemplateDelete = async (templateId: string) => {
+    if (confirm('Stop creating schedules from this template?')) {
+      await deleteTemplate(templateId);
+      setTemplates(await getTemplates());
+    }
+  };
+
+  const handleChunkComplete = async (chunkId: string) => {
     if (activeSchedule) {
-      markChunkComplete(activeSchedule.id, chunkId);
-      loadData();
+      await markChunkComplete(activeSchedule.id, chunkId);
+      await loadData();
+      await checkScheduleComplete();
+    }
+  };
+
+  const handleChunkSnooze = async (chunkId: string, minutes: number) => {
+    if (activeSchedule) {
+      await snoozeChunk(activeSchedule.id, chunkId, minutes);
+      await loadData();
+    }
+  };
+
+  const handleChunkTimeEvent = async (chunkId: string, type: ChunkTimeEventType) => {
+    if (activeSchedule && await recordChunkTimeEvent(activeSchedule.id, chunkId, type)) {
+      await loadData();
+    }
+  };
+
+  const handleChunkSkip = async (chunkId: string) => {
+    if (activeSchedule && confirm('Skip this chunk? Its time goes back to the task.')) {
+      await skipChunk(activeSchedule.id, chunkId);
+      await loadData();
+      await checkScheduleComplete();
+    }
+  };
 
-      // Check if schedule is now complete
-      const updatedSchedule = getActiveSchedule();
-      if (updatedSchedule && updatedSchedule.chunks.every(c => c.completed)) {
-        handleScheduleComplete();
+  const handleChunkExtend = async (chunkId: string, minutes: number) => {
+    if (activeSchedule) {
+      if (!await extendChunk(activeSchedule.id, chunkId, minutes)) {
+        alert("Can't extend - the schedule would run past midnight.");
+        return;
       }
+      await loadData();
     }
   };
 
-  const handleScheduleComplete = () => {
+  // Any answer to a nag resets its escalation
+  const handleChunkAcknowledge = async (scheduleId: string, chunkId: string) => {
+    await acknowledgeChunk(scheduleId, chunkId);
+    await loadData();
+  };
+
+  const handleReflow = async (schedule: Schedule) => {
+    await updateSchedule(schedule);
+    await loadData();
+  };
+
+  // Done / Snooze / Skip pressed on a notification
+  const handleNagAction = async (nag: NagAction) => {
+    if (nag.action === 'done') {
+      await markChunkComplete(nag.scheduleId, nag.chunkId);
+    } else if (nag.action === 'skip') {
+      await skipChunk(nag.scheduleId, nag.chunkId);
+    } else if (nag.action === 'ack') {
+      await acknowledgeChunk(nag.scheduleId, nag.chunkId);
+    } else {
+      await snoozeChunk(nag.scheduleId, nag.chunkId, nag.minutes || 5);
+    }
+
+    await loadData();
+    setRefreshKey(prev => prev + 1);
+    await checkScheduleComplete();
+  };
+
+  const checkScheduleComplete = async () => {
+    const updatedSchedule = await getActiveSchedule();
+    // Busy blocks are someone else's time - they never need ticking off
+    if (updatedSchedule && updatedSchedule.chunks.every(c => c.type === 'busy' || c.completed || c.skipped)) {
+      await handleScheduleComplete();
+    }
+  };
+
+  const handleScheduleComplete = async () => {
     // Clear all notifications when schedule completes
     clearAllNotifications();
 
-    setShowCompletionMessage(true);
-    setActiveScheduleId('');
+    setCompletedSession(await endActiveSession('completed'));
     setActiveSchedule(null);
 
     setTimeout(() => {
-      setShowCompletionMessage(false);
+      setCompletedSession(null);
     }, 5000);
   };
 
-  const handleRefresh = () => {
-    loadData();
+  // Another device changed something. Loading the active schedule again re-arms nagging
+  // for whatever is still open; with no active schedule left, nagging stops.
+  const handleRemoteChange = async () => {
+    if (!(await getActiveSchedule())) {
+      clearAllNotifications();
+    }
+    await loadData();
     setRefreshKey(prev => prev + 1);
   };
 
-  const handleEndSession = () => {
+  const handleImported = async () => {
+    setSettings(getSettings());
+    await loadData();
+    setRefreshKey(prev => prev + 1);
+  };
+
+  const handleRefresh = async () => {
+    await loadData();
+    setRefreshKey(prev => prev + 1);
+  };
+
+  const handleEndSession = async () => {
     // Clear all notifications when session is manually ended
     clearAllNotifications();
-    setActiveScheduleId('');
+    await endActiveSession('ended');
     setActiveSchedule(null);
-    loadData();
+    await loadData();
   };
 
-  const handleSettingsChange = (newSettings: AppSettings) => {
+  const handleSettingsChange = async (newSettings: AppSettings) => {
     // If timeUnit changed, convert all task values
     if (settings.timeUnit !== newSettings.timeUnit) {
-      const tasks = getTasks();
+      const tasks = await getTasks();
       const conversionFactor = newSettings.timeUnit === 'minutes' ? 60 : 1/60;
 
       const convertedTasks = tasks.map(task => ({
         ...task,
         estimatedHours: task.estimatedHours * conversionFactor,
+        originalEstimatedHours: task.originalEstimatedHours !== undefined
+          ? task.originalEstimatedHours * conversionFactor
+          : undefined,
         hoursCompleted: task.hoursCompleted * conversionFactor
       }));
 
       // Save converted tasks
-      convertedTasks.forEach(task => updateTask(task));
+      await saveTasks(convertedTasks);
 
       // Reload tasks to reflect changes
       setTasks(convertedTasks);
@@ -153,11 +362,18 @@ function App() {
 
     setSettings(newSettings);
     saveSettings(newSettings);
+
+    // Escalation changes apply to the nags already lined up
+    if (activeSchedule && settings.escalation !== newSettings.escalation) {
+      setupScheduleNotifications(activeSchedule);
+    }
   };
 
-  const handleAITasksCreated = (newTasks: Task[]) => {
-    newTasks.forEach(task => addTask(task));
-    loadData();
+  const handleAITasksCreated = async (newTasks: Task[]) => {
+    for (const task of newTasks) {
+      await addTask(task);
+    }
+    await loadData();
   };
 
   const handleAIScheduleRequested = (config: {
@@ -195,14 +411,18 @@ function App() {
       <MigrationPrompt />
 
       {/* Completion Message */}
-      {showCompletionMessage && (
+      {completedSession && (
         <div className="fixed inset-0 flex items-center justify-center z-50 bg-black bg-opacity-50">
           <div className="bg-white rounded-lg p-8 shadow-xl max-w-md text-center">
             <div className="text-6xl mb-4">🎉</div>
             <h2 className="text-2xl font-bold text-gray-900 mb-2">Schedule Complete!</h2>
-            <p className="text-gray-600 mb-4">Great job! All tasks in your schedule are done.</p>
+            <p className="text-gray-600 mb-2">Great job! All tasks in your schedule are done.</p>
+            <p className="text-sm text-gray-500 mb-4">
+              {completedSession.summary.chunksCompleted} of {completedSession.summary.chunksTotal} chunks finished,{' '}
+              {formatDuration(completedSession.summary.focusMinutes)} of focused work
+            </p>
             <button
-              onClick={() => setShowCompletionMessage(false)}
+              onClick={() => setCompletedSession(null)}
               className="bg-blue-500 text-white px-6 py-2 rounded hover:bg-blue-600 font-medium"
             >
               Awesome!
@@ -218,10 +438,15 @@ function App() {
             <h1 className="text-3xl font-bold text-gray-900">Naggle</h1>
             <p className="text-sm text-gray-600 mt-1">Stay on track with scheduled task chunks and persistent reminders</p>
           </div>
-          <LoginButton />
+          <div className="flex items-center gap-4">
+            {isAuthenticated && <SyncStatusIndicator onSynced={loadData} />}
+            <LoginButton />
+          </div>
         </div>
       </header>
 
+      <RecoveredDataNotice />
+
       {/* Tab Navigation */}
       <nav className="bg-white border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4">
@@ -259,6 +484,16 @@ function App() {
                 <span className="absolute top-2 right-2 w-2 h-2 bg-green-500 rounded-full"></span>
               )}
             </button>
+            <button
+              onClick={() => setActiveTab('insights')}
+              className={`px-6 py-3 font-medium border-b-2 transition-colors ${
+                activeTab === 'insights'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              📊 Insights
+            </button>
             <button
               onClick={() => setActiveTab('settings')}
               className={`px-6 py-3 font-medium border-b-2 transition-colors ${
@@ -287,6 +522,7 @@ function App() {
             <TaskList
               tasks={tasks}
               timeUnit={settings.timeUnit}
+              calibration={calibration}
               onTasksChange={handleTasksChange}
               onAddTask={addTask}
               onUpdateTask={updateTask}
@@ -296,23 +532,75 @@ function App() {
         )}
 
         {activeTab === 'schedule' && (
-          <ScheduleForm
-            tasks={tasks}
-            defaultNagInterval={settings.defaultNagInterval}
-            onScheduleCreated={handleScheduleCreated}
-          />
+          <>
+            <div className="px-6 pt-6 flex gap-2">
+              <button
+                onClick={() => setScheduleMode('single')}
+                className={`px-3 py-1 text-sm rounded ${
+                  scheduleMode === 'single'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Single Day
+              </button>
+              <button
+                onClick={() => setScheduleMode('multi')}
+                className={`px-3 py-1 text-sm rounded ${
+                  scheduleMode === 'multi'
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                Multi-Day Plan
+              </button>
+            </div>
+
+            {scheduleMode === 'single' ? (
+              <ScheduleForm
+                tasks={tasks}
+                calibration={calibration}
+                defaultNagInterval={settings.defaultNagInterval}
+                onScheduleCreated={handleScheduleCreated}
+                onTemplateSaved={handleTemplateSaved}
+              />
+            ) : (
+              <div className="p-6">
+                <h2 className="text-2xl font-bold mb-6">Plan Multiple Days</h2>
+                <MultiDayPlanner
+                  tasks={tasks}
+                  defaultChunkSize={settings.defaultChunkSize}
+                  defaultNagInterval={settings.defaultNagInterval}
+                  defaultBreakDuration={settings.defaultBreakDuration}
+                  onPlanCreated={handlePlanCreated}
+                />
+              </div>
+            )}
+          </>
         )}
 
         {activeTab === 'active' && (
           <ActiveSchedule
             key={refreshKey}
             schedule={activeSchedule}
+            tasks={tasks}
+            getEscalationPolicy={getEscalationPolicy}
             onChunkComplete={handleChunkComplete}
+            onChunkAcknowledge={(chunkId) => activeSchedule && handleChunkAcknowledge(activeSchedule.id, chunkId)}
+            onChunkTimeEvent={handleChunkTimeEvent}
+            onChunkSnooze={handleChunkSnooze}
+            onChunkSkip={handleChunkSkip}
+            onChunkExtend={handleChunkExtend}
+            onReflow={handleReflow}
             onRefresh={handleRefresh}
             onEndSession={handleEndSession}
           />
         )}
 
+        {activeTab === 'active' && !activeSchedule && <SessionHistory key={refreshKey} />}
+
+        {activeTab === 'insights' && <InsightsDashboard key={refreshKey} />}
+
         {activeTab === 'settings' && (
           <div className="p-6">
             <h2 className="text-2xl font-bold mb-6">Settings</h2>
@@ -381,6 +669,19 @@ function App() {
                   </p>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Nag Escalation
+                  </label>
+                  <EscalationPolicyFields
+                    value={settings.escalation}
+                    onChange={(escalation) => handleSettingsChange({ ...settings, escalation })}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Unanswered nags come faster and get more insistent. Tapping, dismissing or snoozing one calms them down. Can be overridden per-task.
+                  </p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium mb-2">
                     Default Break Duration (minutes)
@@ -398,6 +699,58 @@ function App() {
                   </p>
                 </div>
 
+                <div className="pt-4 border-t">
+                  <label className="block text-sm font-medium mb-2">
+                    Recurring Schedule Templates
+                  </label>
+                  {templates.length === 0 ? (
+                    <p className="text-xs text-gray-500">
+                      No templates yet. Use "Save as Template" when creating a schedule.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {templates.map(template => (
+                        <div key={template.id} className="flex items-center justify-between border border-gray-200 rounded px-3 py-2">
+                          <div>
+                            <p className="text-sm font-medium">{template.name}</p>
+                            <p className="text-xs text-gray-500">
+                              {describeRecurrence(template.recurrence)} • {formatTime(template.startTime)} - {formatTime(template.endTime)} • {template.taskIds.length} tasks
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => handleTemplateDelete(template.id)}
+                            className="text-red-500 hover:text-red-700 text-sm"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {isAuthenticated && (
+                  <div className="pt-4 border-t">
+                    <label className="block text-sm font-medium mb-2">
+                      Calendar Feed
+                    </label>
+                    <CalendarFeedSettings />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Subscribe to this link in Google Calendar, Outlook or Apple Calendar to see your upcoming schedules there. Anyone with the link can see them.
+                    </p>
+                  </div>
+                )}
+
+                <div className="pt-4 border-t">
+                  <label className="block text-sm font-medium mb-2">
+                    Export / Import
+                  </label>
+                  <BackupSettings onImported={handleImported} />
+                  <p className="text-xs text-gray-500 mt-1">
+                    A backup holds your tasks, schedules, templates and settings. Merging only adds what you don't have yet.
+                  </p>
+                </div>
+
                 <div className="pt-4 border-t">
                   <p className="text-sm text-gray-600">
                     <strong>Notifications:</strong> {settings.notificationsEnabled ? '✓ Enabled' : '✗ Disabled'}
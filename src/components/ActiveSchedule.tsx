@@ -1,17 +1,29 @@
 import { useEffect, useState } from 'react';
-import { Schedule, ScheduleChunk } from '../types';
+import { Schedule, ScheduleChunk, Task, EscalationPolicy, ChunkTimeEventType } from '../types';
 import { formatTime, formatDuration, getCurrentTime, timeToMinutes } from '../lib/utils';
+import { reflowSchedule, ReflowResult } from '../lib/scheduler';
+import { downloadScheduleCalendar } from '../lib/calendar';
 import ChunkTimer from './ChunkTimer';
+import ReflowPreview from './ReflowPreview';
 
 interface ActiveScheduleProps {
   schedule: Schedule | null;
+  tasks: Task[];
+  getEscalationPolicy: (chunk: ScheduleChunk) => EscalationPolicy;
   onChunkComplete: (chunkId: string) => void;
+  onChunkAcknowledge: (chunkId: string) => void;
+  onChunkTimeEvent: (chunkId: string, type: ChunkTimeEventType) => void;
+  onChunkSnooze: (chunkId: string, minutes: number) => void;
+  onChunkSkip: (chunkId: string) => void;
+  onChunkExtend: (chunkId: string, minutes: number) => void;
+  onReflow: (schedule: Schedule) => void;
   onRefresh: () => void;
   onEndSession: () => void;
 }
 
-export default function ActiveSchedule({ schedule, onChunkComplete, onRefresh, onEndSession }: ActiveScheduleProps) {
+export default function ActiveSchedule({ schedule, tasks, getEscalationPolicy, onChunkComplete, onChunkAcknowledge, onChunkTimeEvent, onChunkSnooze, onChunkSkip, onChunkExtend, onReflow, onRefresh, onEndSession }: ActiveScheduleProps) {
   const [currentTime, setCurrentTime] = useState(getCurrentTime());
+  const [reflow, setReflow] = useState<ReflowResult | null>(null);
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -38,7 +50,7 @@ export default function ActiveSchedule({ schedule, onChunkComplete, onRefresh, o
     return schedule.chunks.find(chunk => {
       const startMinutes = timeToMinutes(chunk.startTime);
       const endMinutes = timeToMinutes(chunk.endTime);
-      return currentMinutes >= startMinutes && currentMinutes < endMinutes && !chunk.completed;
+      return currentMinutes >= startMinutes && currentMinutes < endMinutes && !chunk.completed && !chunk.skipped;
     }) || null;
   };
 
@@ -65,6 +77,11 @@ export default function ActiveSchedule({ schedule, onChunkComplete, onRefresh, o
     return chunk.id === currentChunk?.id;
   };
 
+  // Behind schedule when unfinished work is already past its end time
+  const isRunningLate = schedule.chunks.some(chunk =>
+    chunk.type === 'task' && !chunk.completed && !chunk.skipped && isChunkInPast(chunk)
+  );
+
   return (
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
@@ -78,6 +95,22 @@ export default function ActiveSchedule({ schedule, onChunkComplete, onRefresh, o
           <div className="text-sm text-gray-600">
             Current time: <span className="font-mono font-bold">{formatTime(currentTime)}</span>
           </div>
+          <button
+            onClick={() => setReflow(reflowSchedule(schedule, tasks, getCurrentTime()))}
+            className={`px-4 py-2 rounded font-medium text-sm ${
+              isRunningLate ? 'bg-yellow-500 text-white hover:bg-yellow-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+            title="Move unfinished chunks to fit the time that's left"
+          >
+            🔄 {isRunningLate ? 'Running late? Reflow' : 'Reflow'}
+          </button>
+          <button
+            onClick={() => downloadScheduleCalendar(schedule)}
+            className="bg-gray-200 text-gray-700 px-4 py-2 rounded hover:bg-gray-300 font-medium text-sm"
+            title="Download as an .ics file for Google Calendar, Outlook or Apple Calendar"
+          >
+            📅 Export
+          </button>
           <button
             onClick={() => {
               if (confirm('Are you sure you want to end this session? All incomplete chunks will remain incomplete.')) {
@@ -91,15 +124,32 @@ export default function ActiveSchedule({ schedule, onChunkComplete, onRefresh, o
         </div>
       </div>
 
+      {reflow && (
+        <ReflowPreview
+          reflow={reflow}
+          onApply={(updated) => {
+            onReflow(updated);
+            setReflow(null);
+          }}
+          onCancel={() => setReflow(null)}
+        />
+      )}
+
       {/* Current chunk timer */}
       {currentChunk && (
         <div className="mb-6">
           <ChunkTimer
             chunk={currentChunk}
+            policy={getEscalationPolicy(currentChunk)}
             onComplete={() => {
               onChunkComplete(currentChunk.id);
               onRefresh();
             }}
+            onAcknowledge={() => onChunkAcknowledge(currentChunk.id)}
+            onTimeEvent={(type) => onChunkTimeEvent(currentChunk.id, type)}
+            onSnooze={(minutes) => onChunkSnooze(currentChunk.id, minutes)}
+            onSkip={() => onChunkSkip(currentChunk.id)}
+            onExtend={(minutes) => onChunkExtend(currentChunk.id, minutes)}
           />
         </div>
       )}
@@ -202,6 +252,7 @@ export default function ActiveSchedule({ schedule, onChunkComplete, onRefresh, o
                             chunk.completed ? 'bg-green-500 border-green-600 opacity-60' :
                             isCurrent ? 'bg-blue-500 border-blue-600 ring-2 ring-blue-300' :
                             isBreak ? 'bg-gray-300 border-gray-500' :
+                            chunk.type === 'busy' ? 'bg-slate-400 border-slate-600' :
                             chunk.taskPriority === 'high' ? 'bg-red-400 border-red-600' :
                             chunk.taskPriority === 'medium' ? 'bg-yellow-400 border-yellow-600' :
                             'bg-green-400 border-green-600'
@@ -284,8 +335,10 @@ export default function ActiveSchedule({ schedule, onChunkComplete, onRefresh, o
                 className={`
                   border-l-4 rounded-r p-3 transition-all
                   ${chunk.completed ? 'border-green-500 bg-green-50 opacity-60' :
+                    chunk.skipped ? 'border-gray-400 bg-gray-50 opacity-60' :
                     isCurrent ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-200' :
                     chunk.type === 'break' ? 'border-gray-400 bg-gray-100' :
+                    chunk.type === 'busy' ? 'border-slate-600 bg-slate-200' :
                     getPriorityColor(chunk.taskPriority)
                   }
                 `}
@@ -309,27 +362,53 @@ export default function ActiveSchedule({ schedule, onChunkComplete, onRefresh, o
                           ✓ Complete
                         </span>
                       )}
+                      {chunk.completed && chunk.focusMinutes !== undefined && (
+                        <span className="text-xs text-gray-600">
+                          ⏱ {formatDuration(chunk.focusMinutes)} focused
+                        </span>
+                      )}
+                      {chunk.skipped && (
+                        <span className="text-xs bg-gray-500 text-white px-2 py-1 rounded">
+                          ⏭ Skipped
+                        </span>
+                      )}
                     </div>
-                    <p className={`font-medium ${chunk.completed ? 'line-through' : ''}`}>
-                      {chunk.type === 'break' ? '☕ ' : ''}{chunk.taskTitle}
+                    <p className={`font-medium ${chunk.completed || chunk.skipped ? 'line-through' : ''}`}>
+                      {chunk.type === 'break' ? '☕ ' : chunk.type === 'busy' ? '🔒 ' : ''}{chunk.taskTitle}
                     </p>
                     {chunk.type === 'task' && chunk.nagIntervalMinutes > 0 && (
                       <p className="text-xs text-gray-500 mt-1">
                         🔔 Nag every {chunk.nagIntervalMinutes} minutes
                       </p>
                     )}
+                    {chunk.snoozedUntil && new Date(chunk.snoozedUntil) > new Date() && !chunk.completed && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        💤 Snoozed until {new Date(chunk.snoozedUntil).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                      </p>
+                    )}
                   </div>
 
-                  {!chunk.completed && (inPast || isCurrent) && (
-                    <button
-                      onClick={() => {
-                        onChunkComplete(chunk.id);
-                        onRefresh();
-                      }}
-                      className="bg-green-500 text-white px-3 py-1 rounded text-sm hover:bg-green-600"
-                    >
-                      Complete
-                    </button>
+                  {chunk.type !== 'busy' && !chunk.completed && !chunk.skipped && (inPast || isCurrent) && (
+                    <div className="flex gap-2">
+                      {chunk.type === 'task' && (
+                        <button
+                          onClick={() => onChunkSkip(chunk.id)}
+                          className="bg-gray-200 text-gray-700 px-3 py-1 rounded text-sm hover:bg-gray-300"
+                          title="Give up this chunk - the time goes back to the task"
+                        >
+                          Skip
+                        </button>
+                      )}
+                      <button
+                        onClick={() => {
+                          onChunkComplete(chunk.id);
+                          onRefresh();
+                        }}
+                        className="bg-green-500 text-white px-3 py-1 rounded text-sm hover:bg-green-600"
+                      >
+                        Complete
+                      </button>
+                    </div>
                   )}
                 </div>
               </div>
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Backup, ImportMode } from '../types';
+import { validateBackup, importBackup, downloadBackup, downloadTasksCsv, downloadCompletedChunksCsv } from '../lib/backup';
+
+interface BackupSettingsProps {
+  onImported: () => void;
+}
+
+export default function BackupSettings({ onImported }: BackupSettingsProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setErrors([]);
+    setMessage(null);
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setErrors(['This file is not valid JSON']);
+      return;
+    }
+
+    const problems = validateBackup(data);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+
+    if (mode === 'replace' && !confirm('Replace all your tasks, schedules, templates and settings with this backup? This cannot be undone.')) {
+      return;
+    }
+
+    const result = await importBackup(data as Backup, mode);
+    setMessage(`Imported ${result.tasks} tasks, ${result.schedules} schedules and ${result.templates} templates`);
+    onImported();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={downloadBackup}
+          className="bg-blue-500 text-white px-3 py-1 rounded text-sm hover:bg-blue-600"
+        >
+          Export backup (JSON)
+        </button>
+        <button
+          onClick={downloadTasksCsv}
+          className="bg-gray-200 text-gray-700 px-3 py-1 rounded text-sm hover:bg-gray-300"
+        >
+          Tasks (CSV)
+        </button>
+        <button
+          onClick={downloadCompletedChunksCsv}
+          className="bg-gray-200 text-gray-700 px-3 py-1 rounded text-sm hover:bg-gray-300"
+        >
+          Completed chunks (CSV)
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as ImportMode)}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+        >
+          <option value="merge">Merge - add what's missing</option>
+          <option value="replace">Replace everything</option>
+        </select>
+        <label className="bg-gray-200 text-gray-700 px-3 py-1 rounded text-sm hover:bg-gray-300 cursor-pointer">
+          Import backup
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+
+      {message && <p className="text-sm text-green-700">✓ {message}</p>}
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-300 rounded p-3">
+          <p className="text-sm font-medium text-red-800 mb-1">This backup can't be imported:</p>
+          <ul className="text-xs text-red-700 list-disc list-inside">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
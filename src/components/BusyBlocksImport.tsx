@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { BusyBlock } from '../types';
+import { CalendarEvent, parseCalendar } from '../lib/calendar';
+import { formatTime } from '../lib/utils';
+
+interface BusyBlocksImportProps {
+  events: CalendarEvent[];
+  blocks: BusyBlock[]; // The events on the schedule's date
+  onChange: (events: CalendarEvent[]) => void;
+}
+
+export default function BusyBlocksImport({ events, blocks, onChange }: BusyBlocksImportProps) {
+  const [showPaste, setShowPaste] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const importCalendar = (text: string) => {
+    try {
+      const imported = parseCalendar(text);
+      if (imported.length === 0) {
+        setError('No timed events found in that calendar');
+        return;
+      }
+      // Importing the same calendar again replaces its events
+      const uids = new Set(imported.map(e => e.uid));
+      onChange([...events.filter(e => !uids.has(e.uid)), ...imported]);
+      setError(null);
+      setPasted('');
+      setShowPaste(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read that calendar');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importCalendar(await file.text());
+  };
+
+  // Block IDs are `${uid}/${date}` - leave out just that day of the event
+  const removeBlock = (block: BusyBlock) => {
+    const separator = block.id.lastIndexOf('/');
+    const uid = block.id.slice(0, separator);
+    const day = block.id.slice(separator + 1);
+    onChange(events.map(e => e.uid === uid ? { ...e, excludedDates: [...e.excludedDates, day] } : e));
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded p-3 mb-2">
+      <div className="flex gap-2 mb-2">
+        <label className="bg-blue-500 text-white px-3 py-1 rounded text-sm hover:bg-blue-600 cursor-pointer">
+          Import .ics
+          <input type="file" accept=".ics,text/calendar" onChange={handleFile} className="hidden" />
+        </label>
+        <button
+          type="button"
+          onClick={() => setShowPaste(!showPaste)}
+          className="bg-gray-200 text-gray-700 px-3 py-1 rounded text-sm hover:bg-gray-300"
+        >
+          Paste
+        </button>
+        {events.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="text-red-500 hover:text-red-700 text-sm ml-auto"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {showPaste && (
+        <div className="mb-2">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="BEGIN:VCALENDAR..."
+            rows={4}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-xs font-mono"
+          />
+          <button
+            type="button"
+            onClick={() => importCalendar(pasted)}
+            disabled={!pasted.trim()}
+            className="bg-blue-500 text-white px-3 py-1 rounded text-sm hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            Import
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {blocks.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          {events.length === 0
+            ? 'Import meetings from a calendar and chunks will be scheduled around them.'
+            : 'No imported events on this date.'}
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {blocks.map(block => (
+            <div key={block.id} className="flex items-center justify-between bg-white border border-gray-300 rounded px-2 py-1 text-sm">
+              <span>🔒 {formatTime(block.startTime)} - {formatTime(block.endTime)} {block.title}</span>
+              <button
+                type="button"
+                onClick={() => removeBlock(block)}
+                className="text-red-500 hover:text-red-700 text-xs"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
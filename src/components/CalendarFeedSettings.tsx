@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { api } from '../lib/api';
+import { CalendarFeed, fetchCalendarFeed, createCalendarFeed, deleteCalendarFeed } from '../lib/calendar';
+
+export default function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCalendarFeed()
+      .then(result => {
+        if (!cancelled) setFeed(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load the calendar feed');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = async (action: () => Promise<CalendarFeed | null>) => {
+    setError(null);
+    try {
+      setFeed(await action());
+    } catch {
+      setError('Something went wrong - please try again');
+    }
+  };
+
+  const handleCreate = () => {
+    if (feed && !confirm('Calendars subscribed to the current link will stop updating. Continue?')) return;
+    run(createCalendarFeed);
+  };
+
+  const handleDelete = () => {
+    if (!confirm('Turn off the calendar feed? Subscribed calendars will stop updating.')) return;
+    run(async () => {
+      await deleteCalendarFeed();
+      return null;
+    });
+  };
+
+  if (loading) return null;
+
+  return (
+    <div>
+      {feed ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            readOnly
+            value={api.getCalendarFeedUrl(feed.token)}
+            onFocus={(e) => e.target.select()}
+            className="w-full border border-gray-300 rounded px-3 py-2 font-mono text-xs"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => navigator.clipboard.writeText(api.getCalendarFeedUrl(feed.token))}
+              className="bg-blue-500 text-white px-3 py-1 rounded text-sm hover:bg-blue-600"
+            >
+              Copy link
+            </button>
+            <button
+              onClick={handleCreate}
+              className="bg-gray-200 text-gray-700 px-3 py-1 rounded text-sm hover:bg-gray-300"
+            >
+              New link
+            </button>
+            <button
+              onClick={handleDelete}
+              className="text-red-500 hover:text-red-700 text-sm px-3 py-1"
+            >
+              Turn off
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleCreate}
+          className="bg-blue-500 text-white px-3 py-1 rounded text-sm hover:bg-blue-600"
+        >
+          Create calendar link
+        </button>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -1,15 +1,27 @@
 import { useState, useEffect } from 'react';
-import { ScheduleChunk } from '../types';
-import { timeToMinutes } from '../lib/utils';
+import { ScheduleChunk, EscalationPolicy, ChunkTimeEventType } from '../types';
+import { timeToMinutes, formatTime } from '../lib/utils';
+import { getChunkNags, ESCALATION_LEVEL_NAMES } from '../lib/escalation';
+import { getFocusMilliseconds, isTrackingPaused, isTrackingRunning } from '../../backend/src/types/shared';
 
 interface ChunkTimerProps {
   chunk: ScheduleChunk;
+  policy: EscalationPolicy;
   onComplete: () => void;
+  onAcknowledge: () => void;
+  onTimeEvent: (type: ChunkTimeEventType) => void;
+  onSnooze: (minutes: number) => void;
+  onSkip: () => void;
+  onExtend: (minutes: number) => void;
 }
 
-export default function ChunkTimer({ chunk, onComplete }: ChunkTimerProps) {
+export default function ChunkTimer({ chunk, policy, onComplete, onAcknowledge, onTimeEvent, onSnooze, onSkip, onExtend }: ChunkTimerProps) {
   const [remainingSeconds, setRemainingSeconds] = useState(0);
   const [secondsUntilNextNag, setSecondsUntilNextNag] = useState<number | null>(null);
+  const [snoozeSecondsLeft, setSnoozeSecondsLeft] = useState(0);
+  const [actionMinutes, setActionMinutes] = useState(5);
+  const [escalationLevel, setEscalationLevel] = useState(0);
+  const [focusSeconds, setFocusSeconds] = useState(0);
 
   useEffect(() => {
     const calculateRemaining = () => {
@@ -20,29 +32,26 @@ export default function ChunkTimer({ chunk, onComplete }: ChunkTimerProps) {
       const endTime = new Date(now);
       endTime.setHours(endHours, endMinutes, 0, 0);
 
+      const [startHours, startMinutes] = chunk.startTime.split(':').map(Number);
+      const startTime = new Date(now);
+      startTime.setHours(startHours, startMinutes, 0, 0);
+
       const diff = Math.max(0, Math.floor((endTime.getTime() - now.getTime()) / 1000));
       setRemainingSeconds(diff);
+      setFocusSeconds(Math.floor(getFocusMilliseconds(chunk.timeEvents, now) / 1000));
+
+      // Nags are held back while snoozed
+      const snoozedUntil = chunk.snoozedUntil ? new Date(chunk.snoozedUntil).getTime() : 0;
+      setSnoozeSecondsLeft(Math.max(0, Math.floor((snoozedUntil - now.getTime()) / 1000)));
+
+      // Calculate time until next nag, following the escalation schedule
+      const nags = getChunkNags(chunk, startTime.getTime(), endTime.getTime(), policy);
+      const nextNag = nags.find(nag => nag.at > now.getTime());
+      const lastNag = [...nags].reverse().find(nag => nag.at <= now.getTime());
+      setEscalationLevel(lastNag?.level || 0);
 
-      // Calculate time until next nag
-      if (chunk.nagIntervalMinutes > 0) {
-        const [startHours, startMinutes] = chunk.startTime.split(':').map(Number);
-        const chunkStart = new Date(now);
-        chunkStart.setHours(startHours, startMinutes, 0, 0);
-
-        const elapsedSeconds = Math.max(0, Math.floor((now.getTime() - chunkStart.getTime()) / 1000));
-        const nagIntervalSeconds = chunk.nagIntervalMinutes * 60;
-
-        // Calculate how many nag intervals have passed
-        const nagsElapsed = Math.floor(elapsedSeconds / nagIntervalSeconds);
-        const nextNagAt = (nagsElapsed + 1) * nagIntervalSeconds;
-        const secondsToNextNag = Math.max(0, nextNagAt - elapsedSeconds);
-
-        // Only show if there's time until next nag and we're within the chunk
-        if (secondsToNextNag > 0 && diff > 0) {
-          setSecondsUntilNextNag(Math.min(secondsToNextNag, diff));
-        } else {
-          setSecondsUntilNextNag(null);
-        }
+      if (nextNag && diff > 0) {
+        setSecondsUntilNextNag(Math.min(Math.ceil((nextNag.at - now.getTime()) / 1000), diff));
       } else {
         setSecondsUntilNextNag(null);
       }
@@ -57,7 +66,7 @@ export default function ChunkTimer({ chunk, onComplete }: ChunkTimerProps) {
     const interval = setInterval(calculateRemaining, 1000);
 
     return () => clearInterval(interval);
-  }, [chunk, onComplete]);
+  }, [chunk, policy, onComplete]);
 
   const formatTimeRemaining = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
@@ -96,8 +105,69 @@ export default function ChunkTimer({ chunk, onComplete }: ChunkTimerProps) {
         />
       </div>
 
+      {/* Focus clock - only running time is credited to the task */}
+      {chunk.type === 'task' && (
+        <div className="flex items-center justify-between mb-4 p-2 bg-blue-400 bg-opacity-30 rounded">
+          {chunk.timeEvents?.length ? (
+            <p className="text-sm">
+              ⏱ Focused <span className="font-mono font-bold">{formatTimeRemaining(focusSeconds)}</span>
+              {isTrackingPaused(chunk.timeEvents) && <span className="ml-2 opacity-90">(paused)</span>}
+            </p>
+          ) : (
+            <p className="text-sm opacity-90">Not started - finishing counts from {formatTime(chunk.startTime)}</p>
+          )}
+          {!chunk.timeEvents?.length && (
+            <button
+              onClick={() => onTimeEvent('start')}
+              className="bg-white text-blue-600 px-3 py-1 rounded text-sm font-bold hover:bg-blue-50"
+            >
+              ▶ Start
+            </button>
+          )}
+          {isTrackingRunning(chunk.timeEvents) && (
+            <button
+              onClick={() => onTimeEvent('pause')}
+              className="bg-white text-blue-600 px-3 py-1 rounded text-sm font-bold hover:bg-blue-50"
+            >
+              ⏸ Pause
+            </button>
+          )}
+          {isTrackingPaused(chunk.timeEvents) && (
+            <button
+              onClick={() => onTimeEvent('resume')}
+              className="bg-white text-blue-600 px-3 py-1 rounded text-sm font-bold hover:bg-blue-50"
+            >
+              ▶ Resume
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Ignored nags - answering calms things down */}
+      {escalationLevel > 0 && (
+        <div className="flex items-center justify-between mb-4 p-2 bg-yellow-400 bg-opacity-40 rounded">
+          <p className="text-sm font-medium">
+            {escalationLevel >= 2 ? '🚨' : '⚠️'} Nagging level: {ESCALATION_LEVEL_NAMES[escalationLevel]}
+          </p>
+          <button
+            onClick={onAcknowledge}
+            className="bg-white text-blue-600 px-3 py-1 rounded text-sm font-bold hover:bg-blue-50"
+          >
+            👋 I'm on it
+          </button>
+        </div>
+      )}
+
       {/* Time until next nag */}
-      {secondsUntilNextNag !== null && chunk.nagIntervalMinutes > 0 && (
+      {snoozeSecondsLeft > 0 && remainingSeconds > 0 && (
+        <div className="text-center mb-4 p-2 bg-blue-400 bg-opacity-30 rounded">
+          <p className="text-sm opacity-90">💤 Snoozed - reminders resume in</p>
+          <p className="font-mono font-bold text-lg">
+            {formatTimeRemaining(snoozeSecondsLeft)}
+          </p>
+        </div>
+      )}
+      {snoozeSecondsLeft === 0 && secondsUntilNextNag !== null && chunk.nagIntervalMinutes > 0 && (
         <div className="text-center mb-4 p-2 bg-blue-400 bg-opacity-30 rounded">
           <p className="text-sm opacity-90">Next reminder in</p>
           <p className="font-mono font-bold text-lg">
@@ -112,6 +182,42 @@ export default function ChunkTimer({ chunk, onComplete }: ChunkTimerProps) {
       >
         ✓ I'm done!
       </button>
+
+      {chunk.type === 'task' && (
+        <div className="flex items-center gap-2 mt-3">
+          <select
+            value={actionMinutes}
+            onChange={(e) => setActionMinutes(parseInt(e.target.value))}
+            className="bg-blue-400 bg-opacity-30 text-white rounded px-2 py-2 text-sm"
+            title="Minutes to snooze or extend by"
+          >
+            {[5, 10, 15, 30].map(m => (
+              <option key={m} value={m} className="text-gray-900">{m} min</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onSnooze(actionMinutes)}
+            className="flex-1 bg-blue-400 bg-opacity-30 px-3 py-2 rounded text-sm font-medium hover:bg-opacity-50"
+            title="Quiet the reminders for a while"
+          >
+            💤 Snooze
+          </button>
+          <button
+            onClick={() => onExtend(actionMinutes)}
+            className="flex-1 bg-blue-400 bg-opacity-30 px-3 py-2 rounded text-sm font-medium hover:bg-opacity-50"
+            title="Add time to this chunk and push the rest of the day back"
+          >
+            ➕ Extend
+          </button>
+          <button
+            onClick={onSkip}
+            className="flex-1 bg-blue-400 bg-opacity-30 px-3 py-2 rounded text-sm font-medium hover:bg-opacity-50"
+            title="Give up this chunk - the time goes back to the task"
+          >
+            ⏭ Skip
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,74 @@
+import { EscalationPolicy } from '../types';
+
+interface EscalationPolicyFieldsProps {
+  value: EscalationPolicy;
+  onChange: (policy: EscalationPolicy) => void;
+}
+
+export default function EscalationPolicyFields({ value, onChange }: EscalationPolicyFieldsProps) {
+  const update = (changes: Partial<EscalationPolicy>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center text-sm">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="mr-2"
+        />
+        Nag harder when reminders are ignored
+      </label>
+
+      {value.enabled && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium mb-1">Step up after (ignored nags)</label>
+            <input
+              type="number"
+              value={value.ignoredNagsPerLevel}
+              onChange={(e) => update({ ignoredNagsPerLevel: Math.max(1, parseInt(e.target.value) || 1) })}
+              min="1"
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium mb-1">Interval at each step</label>
+            <select
+              value={value.intervalFactor}
+              onChange={(e) => update({ intervalFactor: parseFloat(e.target.value) })}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+            >
+              <option value={1}>Unchanged</option>
+              <option value={0.75}>¾ as long</option>
+              <option value={0.5}>Half as long</option>
+              <option value={0.25}>¼ as long</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium mb-1">Shortest interval (minutes)</label>
+            <input
+              type="number"
+              value={value.minIntervalMinutes}
+              onChange={(e) => update({ minIntervalMinutes: Math.max(1, parseInt(e.target.value) || 1) })}
+              min="1"
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium mb-1">Stay on screen from</label>
+            <select
+              value={value.requireInteractionFromLevel}
+              onChange={(e) => update({ requireInteractionFromLevel: parseInt(e.target.value) })}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+            >
+              <option value={1}>Firm nags</option>
+              <option value={2}>Insistent nags</option>
+              <option value={3}>Never</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
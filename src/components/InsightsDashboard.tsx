@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { Insights } from '../types';
+import { fetchInsights } from '../lib/insights';
+import { formatDuration } from '../lib/utils';
+
+const PRIORITY_BAR_COLORS = {
+  high: 'bg-red-400',
+  medium: 'bg-yellow-400',
+  low: 'bg-green-400'
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export default function InsightsDashboard() {
+  const [insights, setInsights] = useState<Insights | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchInsights().then(result => {
+      if (!cancelled) setInsights(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!insights) {
+    return (
+      <div className="p-6">
+        <h2 className="text-2xl font-bold mb-6">Insights</h2>
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  const { focus, completion, time, streak, estimates } = insights;
+  const thisWeek = focus.weekly[focus.weekly.length - 1]?.minutes || 0;
+  const maxDaily = Math.max(1, ...focus.daily.map(d => d.minutes));
+  const maxWeekly = Math.max(1, ...focus.weekly.map(w => w.minutes));
+  const maxTask = Math.max(1, ...time.byTask.map(t => t.minutes));
+  const totalPriority = time.byPriority.reduce((sum, p) => sum + p.minutes, 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <h2 className="text-2xl font-bold">Insights</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Streak</div>
+          <div className="text-3xl font-bold">🔥 {streak.current} {streak.current === 1 ? 'day' : 'days'}</div>
+          <div className="text-xs text-gray-500">Longest: {streak.longest} {streak.longest === 1 ? 'day' : 'days'}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Chunks completed</div>
+          <div className="text-3xl font-bold">
+            {completion.rate === null ? '—' : `${Math.round(completion.rate * 100)}%`}
+          </div>
+          <div className="text-xs text-gray-500">
+            {completion.completed} of {completion.planned} planned, {completion.skipped} skipped
+          </div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Focused this week</div>
+          <div className="text-3xl font-bold">{formatDuration(thisWeek)}</div>
+          <div className="text-xs text-gray-500">Today: {formatDuration(focus.daily[focus.daily.length - 1]?.minutes || 0)}</div>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <h3 className="font-semibold mb-3">Focus per day</h3>
+        <div className="flex items-end gap-1 h-32">
+          {focus.daily.map(day => (
+            <div key={day.date} className="flex-1 flex flex-col items-center justify-end h-full" title={`${formatDay(day.date)}: ${formatDuration(day.minutes)}`}>
+              <div className="w-full bg-blue-400 rounded-t" style={{ height: `${(day.minutes / maxDaily) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{formatDay(focus.daily[0].date)}</span>
+          <span>Today</span>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <h3 className="font-semibold mb-3">Focus per week</h3>
+        <ul className="space-y-1">
+          {focus.weekly.map(week => (
+            <li key={week.weekStart} className="flex items-center gap-2 text-sm">
+              <span className="w-20 text-gray-600">{formatDay(week.weekStart)}</span>
+              <div className="flex-1 bg-gray-100 rounded h-3">
+                <div className="bg-blue-400 rounded h-3" style={{ width: `${(week.minutes / maxWeekly) * 100}%` }} />
+              </div>
+              <span className="w-16 text-right">{formatDuration(week.minutes)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h3 className="font-semibold mb-3">Time per task</h3>
+          {time.byTask.length === 0 ? (
+            <p className="text-sm text-gray-500">Complete a chunk to see where your time goes.</p>
+          ) : (
+            <ul className="space-y-1">
+              {time.byTask.map(task => (
+                <li key={task.taskId || task.title} className="text-sm">
+                  <div className="flex justify-between">
+                    <span className="truncate">{task.title}</span>
+                    <span>{formatDuration(task.minutes)}</span>
+                  </div>
+                  <div className="bg-gray-100 rounded h-2">
+                    <div className="bg-blue-400 rounded h-2" style={{ width: `${(task.minutes / maxTask) * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h3 className="font-semibold mb-3">Time per priority</h3>
+          {totalPriority === 0 ? (
+            <p className="text-sm text-gray-500">Nothing tracked yet.</p>
+          ) : (
+            <>
+              <div className="flex h-4 rounded overflow-hidden mb-2">
+                {time.byPriority.map(p => (
+                  <div key={p.priority} className={PRIORITY_BAR_COLORS[p.priority]} style={{ width: `${(p.minutes / totalPriority) * 100}%` }} />
+                ))}
+              </div>
+              <ul className="text-sm space-y-1">
+                {time.byPriority.map(p => (
+                  <li key={p.priority} className="flex justify-between">
+                    <span className="capitalize">{p.priority}</span>
+                    <span>{formatDuration(p.minutes)} ({Math.round((p.minutes / totalPriority) * 100)}%)</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <h3 className="font-semibold mb-3">Estimates vs. actual</h3>
+        {estimates.length === 0 ? (
+          <p className="text-sm text-gray-500">Tracked time shows up here once chunks are completed.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="py-1">Task</th>
+                <th className="py-1 text-right">Estimate</th>
+                <th className="py-1 text-right">Actual</th>
+                <th className="py-1 text-right">Accuracy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {estimates.map(estimate => {
+                const ratio = estimate.estimatedMinutes > 0 ? estimate.actualMinutes / estimate.estimatedMinutes : null;
+                return (
+                  <tr key={estimate.taskId} className="border-t border-gray-100">
+                    <td className="py-1">
+                      {estimate.title}
+                      {!estimate.finished && <span className="text-xs text-gray-500"> (in progress)</span>}
+                    </td>
+                    <td className="py-1 text-right">{formatDuration(estimate.estimatedMinutes)}</td>
+                    <td className="py-1 text-right">{formatDuration(estimate.actualMinutes)}</td>
+                    <td className={`py-1 text-right ${ratio !== null && estimate.finished && Math.abs(ratio - 1) > 0.25 ? 'text-orange-600' : ''}`}>
+                      {ratio === null ? '—' : `${ratio.toFixed(1)}×`}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../lib/auth';
-import { api } from '../lib/api';
-import { getTasks, getSchedules, getSettings } from '../lib/storage';
+import { api, ApiError } from '../lib/api';
+import { getTasks, getSchedules, getSettings, getTemplates, getActiveScheduleId, clearLocalData } from '../lib/storage';
 
 const STORAGE_KEYS = {
-  tasks: 'nagging_app_tasks',
-  schedules: 'nagging_app_schedules',
-  activeScheduleId: 'nagging_app_active_schedule',
-  settings: 'nagging_app_settings',
   migrated: 'nagging_app_migrated'
 };
 
-function hasLocalStorageData(): boolean {
-  const tasks = localStorage.getItem(STORAGE_KEYS.tasks);
-  const schedules = localStorage.getItem(STORAGE_KEYS.schedules);
-  return !!(tasks && tasks !== '[]') || !!(schedules && schedules !== '[]');
-}
-
-function clearLocalStorage() {
-  localStorage.removeItem(STORAGE_KEYS.tasks);
-  localStorage.removeItem(STORAGE_KEYS.schedules);
-  localStorage.removeItem(STORAGE_KEYS.activeScheduleId);
-  localStorage.removeItem(STORAGE_KEYS.settings);
+async function hasLocalData(): Promise<boolean> {
+  return (await getTasks()).length > 0 || (await getSchedules()).length > 0;
 }
 
 export default function MigrationPrompt() {
@@ -31,13 +18,16 @@ export default function MigrationPrompt() {
   const { isAuthenticated } = useAuth();
 
   useEffect(() => {
-    // Check if user just logged in and has localStorage data
-    if (isAuthenticated && hasLocalStorageData()) {
-      const alreadyMigrated = localStorage.getItem(STORAGE_KEYS.migrated);
-      if (!alreadyMigrated) {
-        setShow(true);
-      }
-    }
+    // Check if user just logged in and has local data
+    if (!isAuthenticated || localStorage.getItem(STORAGE_KEYS.migrated)) return;
+
+    let cancelled = false;
+    hasLocalData().then(found => {
+      if (found && !cancelled) setShow(true);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [isAuthenticated]);
 
   const handleMigrate = async () => {
@@ -46,15 +36,16 @@ export default function MigrationPrompt() {
 
     try {
       const data = {
-        tasks: getTasks(),
-        schedules: getSchedules(),
+        tasks: await getTasks(),
+        schedules: await getSchedules(),
         settings: getSettings(),
-        activeScheduleId: localStorage.getItem(STORAGE_KEYS.activeScheduleId) || undefined
+        templates: await getTemplates(),
+        activeScheduleId: getActiveScheduleId() || undefined
       };
 
       const result = await api.post<{
         success: boolean;
-        migrated: { tasks: number; schedules: number; settings: boolean };
+        migrated: { tasks: number; schedules: number; templates: number; settings: boolean };
       }>('/api/migrate', data);
 
       if (result.success) {
@@ -66,7 +57,7 @@ export default function MigrationPrompt() {
           `Successfully imported ${result.migrated.tasks} tasks and ${result.migrated.schedules} schedules!\n\n` +
           'Would you like to clear your local data now that it\'s backed up to the cloud?'
         )) {
-          clearLocalStorage();
+          await clearLocalData();
         }
 
         setShow(false);
@@ -74,7 +65,11 @@ export default function MigrationPrompt() {
       }
     } catch (err: any) {
       console.error('Migration error:', err);
-      setError(err.message || 'Failed to migrate data. Your local data is safe.');
+      // The server names the first record it refused, e.g. tasks[3].dueDate
+      const problem = err instanceof ApiError && err.code === 'VALIDATION' ? err.details[0] : undefined;
+      setError(problem
+        ? `Some local data couldn't be migrated (${problem.path} ${problem.message}). Your local data is safe.`
+        : err.message || 'Failed to migrate data. Your local data is safe.');
     } finally {
       setMigrating(false);
     }
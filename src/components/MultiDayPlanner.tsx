@@ -0,0 +1,313 @@
+import { useState, useMemo } from 'react';
+import { Task, Schedule, WeeklyWorkingWindows } from '../types';
+import { generatePlan, getUnplannedMinutes, DEFAULT_WORKING_WINDOWS } from '../lib/planner';
+import { getTodayDate, formatTime, formatDuration } from '../lib/utils';
+
+interface MultiDayPlannerProps {
+  tasks: Task[];
+  defaultChunkSize: number;
+  defaultNagInterval: number;
+  defaultBreakDuration: number;
+  onPlanCreated: (schedules: Schedule[]) => void;
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Monday first, like most calendars
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+export default function MultiDayPlanner({
+  tasks,
+  defaultChunkSize,
+  defaultNagInterval,
+  defaultBreakDuration,
+  onPlanCreated
+}: MultiDayPlannerProps) {
+  const incompleteTasks = tasks.filter(t => t.hoursCompleted < t.estimatedHours);
+
+  const [planName, setPlanName] = useState('');
+  const [startDate, setStartDate] = useState(getTodayDate());
+  const [endDate, setEndDate] = useState(addDays(getTodayDate(), 6));
+  const [workingWindows, setWorkingWindows] = useState<WeeklyWorkingWindows>(DEFAULT_WORKING_WINDOWS);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>(incompleteTasks.map(t => t.id));
+  const [dailyBreakTime, setDailyBreakTime] = useState('12:00');
+  const [dailyBreakDuration, setDailyBreakDuration] = useState(defaultBreakDuration);
+  const [includeDailyBreak, setIncludeDailyBreak] = useState(true);
+
+  const selectedTasks = incompleteTasks.filter(t => selectedTaskIds.includes(t.id));
+
+  const plan = useMemo(() => {
+    if (!startDate || !endDate || startDate > endDate || selectedTasks.length === 0) {
+      return [];
+    }
+
+    return generatePlan({
+      tasks: selectedTasks,
+      startDate,
+      endDate,
+      workingWindows,
+      dailyBreaks: includeDailyBreak
+        ? [{ time: dailyBreakTime, durationMinutes: dailyBreakDuration }]
+        : [],
+      defaultChunkSize,
+      defaultNagInterval,
+      name: planName || undefined
+    });
+  }, [startDate, endDate, workingWindows, selectedTaskIds, includeDailyBreak, dailyBreakTime, dailyBreakDuration, defaultChunkSize, defaultNagInterval, planName, tasks]);
+
+  const unplannedMinutes = getUnplannedMinutes(selectedTasks, plan);
+
+  const toggleTaskSelection = (taskId: string) => {
+    if (selectedTaskIds.includes(taskId)) {
+      setSelectedTaskIds(selectedTaskIds.filter(id => id !== taskId));
+    } else {
+      setSelectedTaskIds([...selectedTaskIds, taskId]);
+    }
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setWorkingWindows(prev => ({
+      ...prev,
+      [weekday]: prev[weekday] ? null : { startTime: '09:00', endTime: '17:00' }
+    }));
+  };
+
+  const updateWindow = (weekday: number, field: 'startTime' | 'endTime', value: string) => {
+    setWorkingWindows(prev => {
+      const workingWindow = prev[weekday];
+      if (!workingWindow) return prev;
+      return { ...prev, [weekday]: { ...workingWindow, [field]: value } };
+    });
+  };
+
+  const handleSave = () => {
+    if (startDate > endDate) {
+      alert('End date must be on or after the start date');
+      return;
+    }
+
+    if (plan.length === 0) {
+      alert('Nothing to plan. Select tasks and at least one working day in the range.');
+      return;
+    }
+
+    onPlanCreated(plan);
+  };
+
+  if (incompleteTasks.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <p>No tasks available to plan.</p>
+        <p className="mt-2">All tasks are either completed or you haven't created any yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Task Selection */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+        <h3 className="text-lg font-semibold mb-4">Tasks to Plan</h3>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {incompleteTasks.map(task => {
+            const remainingMinutes = Math.round((task.estimatedHours - task.hoursCompleted) * 60);
+            const isSelected = selectedTaskIds.includes(task.id);
+
+            return (
+              <label
+                key={task.id}
+                className={`flex items-center p-3 border rounded cursor-pointer transition-colors ${
+                  isSelected
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => toggleTaskSelection(task.id)}
+                  className="mr-3"
+                />
+                <span className="font-medium flex-1">{task.title}</span>
+                <span className="text-sm text-gray-600">
+                  {formatDuration(remainingMinutes)} remaining
+                  {task.dueDate && ` • Due ${task.dueDate}`}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Plan Configuration */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-1">Plan Name (optional)</label>
+          <input
+            type="text"
+            value={planName}
+            onChange={(e) => setPlanName(e.target.value)}
+            className="w-full border border-gray-300 rounded px-3 py-2"
+            placeholder="e.g., Launch Week"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Start Date</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">End Date</label>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+            />
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2">Working Hours</label>
+          <div className="space-y-2">
+            {WEEKDAY_ORDER.map(weekday => {
+              const workingWindow = workingWindows[weekday];
+              return (
+                <div key={weekday} className="flex items-center gap-3">
+                  <label className="flex items-center w-32">
+                    <input
+                      type="checkbox"
+                      checked={!!workingWindow}
+                      onChange={() => toggleWeekday(weekday)}
+                      className="mr-2"
+                    />
+                    <span className="text-sm">{WEEKDAY_NAMES[weekday]}</span>
+                  </label>
+                  {workingWindow ? (
+                    <>
+                      <input
+                        type="time"
+                        value={workingWindow.startTime}
+                        onChange={(e) => updateWindow(weekday, 'startTime', e.target.value)}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                      />
+                      <span className="text-sm text-gray-500">to</span>
+                      <input
+                        type="time"
+                        value={workingWindow.endTime}
+                        onChange={(e) => updateWindow(weekday, 'endTime', e.target.value)}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                      />
+                    </>
+                  ) : (
+                    <span className="text-sm text-gray-400">Day off</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div>
+          <label className="flex items-center text-sm font-medium mb-2">
+            <input
+              type="checkbox"
+              checked={includeDailyBreak}
+              onChange={(e) => setIncludeDailyBreak(e.target.checked)}
+              className="mr-2"
+            />
+            Daily Break
+          </label>
+          {includeDailyBreak && (
+            <div className="flex gap-2">
+              <input
+                type="time"
+                value={dailyBreakTime}
+                onChange={(e) => setDailyBreakTime(e.target.value)}
+                step="300"
+                className="border border-gray-300 rounded px-2 py-1 text-sm"
+              />
+              <input
+                type="number"
+                value={dailyBreakDuration}
+                onChange={(e) => setDailyBreakDuration(parseInt(e.target.value) || 0)}
+                min="5"
+                step="5"
+                className="w-24 border border-gray-300 rounded px-2 py-1 text-sm"
+              />
+              <span className="text-sm text-gray-600 self-center">minutes</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Plan Preview */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">Plan Preview ({plan.length} {plan.length === 1 ? 'day' : 'days'})</h3>
+          <button
+            onClick={handleSave}
+            disabled={plan.length === 0}
+            className="bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Plan
+          </button>
+        </div>
+
+        {Object.keys(unplannedMinutes).length > 0 && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded">
+            <p className="text-sm font-medium text-amber-800 mb-1">⚠️ Not everything fits in this range</p>
+            <ul className="text-sm text-amber-700 space-y-1">
+              {selectedTasks
+                .filter(t => unplannedMinutes[t.id])
+                .map(task => (
+                  <li key={task.id}>
+                    <span className="font-medium">{task.title}</span> is short {formatDuration(unplannedMinutes[task.id])}
+                  </li>
+                ))}
+            </ul>
+          </div>
+        )}
+
+        {plan.length === 0 ? (
+          <p className="text-sm text-gray-500">No working days with time available in this range.</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {plan.map(schedule => {
+              const taskChunks = schedule.chunks.filter(c => c.type === 'task');
+              const focusMinutes = taskChunks.reduce((total, c) => total + c.durationMinutes, 0);
+              const titles = Array.from(new Set(taskChunks.map(c => c.taskTitle)));
+
+              return (
+                <div key={schedule.id} className="border border-gray-200 rounded p-3">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      {WEEKDAY_NAMES[new Date(`${schedule.date}T00:00:00Z`).getUTCDay()]} {schedule.date}
+                    </span>
+                    <span className="text-sm text-gray-600">
+                      {formatTime(schedule.startTime)} - {formatTime(schedule.endTime)} • {formatDuration(focusMinutes)} focus
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1 truncate">{titles.join(', ')}</p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
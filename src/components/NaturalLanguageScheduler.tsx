@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { Task, Schedule } from '../types';
 import { generateId } from '../lib/utils';
-import { api, isAuthenticated } from '../lib/api';
+import { api, ApiError, isAuthenticated } from '../lib/api';
 
 interface NaturalLanguageSchedulerProps {
   tasks: Task[];
@@ -164,17 +164,25 @@ export default function NaturalLanguageScheduler({
       const data = await api.post('/api/ai/generate', requestBody);
       processAIResponse(data);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Failed to process request';
-      setError(errorMsg);
-
-      // If error is about missing API key, show the input
-      if (errorMsg.includes('No API key') || errorMsg.includes('API key')) {
-        setShowApiKeyInput(true);
+      if (!(err instanceof ApiError)) {
+        setError(err instanceof Error ? err.message : 'Failed to process request');
+        return;
       }
 
-      // If backend is not running, show helpful error
-      if (errorMsg.includes('Failed to fetch') || errorMsg.includes('NetworkError')) {
-        setError('Cannot connect to backend server. Please make sure the backend is running on http://localhost:3001');
+      switch (err.code) {
+        case 'AI_KEY_MISSING':
+        case 'AI_KEY_INVALID':
+          setError(err.message);
+          setShowApiKeyInput(true);
+          break;
+        case 'RATE_LIMITED':
+          setError('Anthropic is rate limiting this API key. Please wait a minute and try again.');
+          break;
+        case 'NETWORK':
+          setError(`${err.message}. Please make sure the backend is running.`);
+          break;
+        default:
+          setError(err.requestId ? `${err.message} (request ${err.requestId})` : err.message);
       }
     } finally {
       setLoading(false);
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { RecoveredData, getRecoveredData, clearRecoveredData, onRecoveredDataChange } from '../lib/storageSchema';
+import { downloadFile, getTodayDate } from '../lib/utils';
+
+// Shown when saved data couldn't be read on load, so it isn't lost without a word
+export default function RecoveredDataNotice() {
+  const [recovered, setRecovered] = useState<RecoveredData[]>(getRecoveredData());
+
+  useEffect(() => onRecoveredDataChange(() => setRecovered(getRecoveredData())), []);
+
+  if (recovered.length === 0) return null;
+
+  const handleDownload = () => {
+    downloadFile(`naggle-recovered-${getTodayDate()}.json`, JSON.stringify(recovered, null, 2), 'application/json');
+  };
+
+  const handleDismiss = () => {
+    if (!confirm('Throw away the unreadable data? Download it first if you want to keep a copy.')) return;
+    clearRecoveredData();
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-300">
+      <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between gap-4">
+        <p className="text-sm text-yellow-800">
+          ⚠️ Some saved data couldn't be read and was set aside ({recovered.map(r => r.reason).join('; ')}). The rest of your data is fine.
+        </p>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={handleDownload}
+            className="bg-yellow-500 text-white px-3 py-1 rounded text-sm hover:bg-yellow-600"
+          >
+            Download
+          </button>
+          <button
+            onClick={handleDismiss}
+            className="text-yellow-800 hover:text-yellow-900 text-sm px-3 py-1"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
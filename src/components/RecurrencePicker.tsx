@@ -0,0 +1,109 @@
+import { RecurrenceRule } from '../types';
+import { getTodayDate } from '../lib/utils';
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | undefined;
+  allowNone?: boolean;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+const WEEKDAYS = [
+  { value: 1, label: 'M' },
+  { value: 2, label: 'T' },
+  { value: 3, label: 'W' },
+  { value: 4, label: 'T' },
+  { value: 5, label: 'F' },
+  { value: 6, label: 'S' },
+  { value: 0, label: 'S' }
+];
+
+export default function RecurrencePicker({ value, allowNone = true, onChange }: RecurrencePickerProps) {
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === 'none') {
+      onChange(undefined);
+      return;
+    }
+
+    const startDate = value?.startDate || getTodayDate();
+    const rule: RecurrenceRule = { frequency: frequency as RecurrenceRule['frequency'], startDate };
+    if (frequency === 'weekly') {
+      rule.daysOfWeek = value?.daysOfWeek || [new Date(`${startDate}T00:00:00Z`).getUTCDay()];
+    }
+    if (frequency === 'interval') {
+      rule.intervalDays = value?.intervalDays || 2;
+    }
+    onChange(rule);
+  };
+
+  const toggleDay = (day: number) => {
+    if (!value) return;
+    const days = value.daysOfWeek || [];
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day];
+
+    // Keep at least one day selected
+    if (next.length > 0) {
+      onChange({ ...value, daysOfWeek: next });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={value?.frequency || 'none'}
+        onChange={(e) => handleFrequencyChange(e.target.value)}
+        className="w-full border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {allowNone && <option value="none">Does not repeat</option>}
+        <option value="daily">Every day</option>
+        <option value="weekdays">Every weekday (Mon-Fri)</option>
+        <option value="weekly">Weekly on...</option>
+        <option value="interval">Every N days</option>
+      </select>
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAYS.map(day => (
+            <button
+              key={day.value}
+              type="button"
+              onClick={() => toggleDay(day.value)}
+              className={`w-8 h-8 rounded-full text-sm font-medium ${
+                value.daysOfWeek?.includes(day.value)
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {day.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === 'interval' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Every</span>
+          <input
+            type="number"
+            value={value.intervalDays || 2}
+            onChange={(e) => onChange({ ...value, intervalDays: Math.max(1, parseInt(e.target.value) || 1) })}
+            min="1"
+            className="w-20 border border-gray-300 rounded px-2 py-1"
+          />
+          <span>days</span>
+        </div>
+      )}
+
+      {value && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-gray-600">Starting</span>
+          <input
+            type="date"
+            value={value.startDate}
+            onChange={(e) => e.target.value && onChange({ ...value, startDate: e.target.value })}
+            className="border border-gray-300 rounded px-2 py-1"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { Schedule, ScheduleChunk } from '../types';
+import { ReflowResult } from '../lib/scheduler';
+import { formatTime, formatDuration } from '../lib/utils';
+
+interface ReflowPreviewProps {
+  reflow: ReflowResult;
+  onApply: (schedule: Schedule) => void;
+  onCancel: () => void;
+}
+
+export default function ReflowPreview({ reflow, onApply, onCancel }: ReflowPreviewProps) {
+  const { removed, added, unplacedMinutes } = reflow;
+  const titleOf = (taskId: string) => removed.find(c => c.taskId === taskId)?.taskTitle || 'Unknown task';
+
+  const renderChunk = (chunk: ScheduleChunk, moved: boolean) => (
+    <li key={chunk.id + chunk.startTime} className={`text-sm py-1 ${moved ? '' : 'text-gray-500 line-through'}`}>
+      <span className="font-mono">{formatTime(chunk.startTime)} - {formatTime(chunk.endTime)}</span>
+      {' '}{chunk.taskTitle}
+    </li>
+  );
+
+  const unplaced = Object.entries(unplacedMinutes);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold mb-2">Reflow the rest of the day</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Unfinished chunks are placed again from now until the end of the schedule. Breaks and busy blocks stay where they are.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <h3 className="font-semibold mb-2">Before</h3>
+            {removed.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing left to move.</p>
+            ) : (
+              <ul>{removed.map(c => renderChunk(c, false))}</ul>
+            )}
+          </div>
+          <div>
+            <h3 className="font-semibold mb-2">After</h3>
+            {added.length === 0 ? (
+              <p className="text-sm text-gray-500">No time left today.</p>
+            ) : (
+              <ul>{added.map(c => renderChunk(c, true))}</ul>
+            )}
+          </div>
+        </div>
+
+        {unplaced.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-300 rounded p-3 mb-4">
+            <p className="text-sm font-medium text-yellow-800 mb-1">⚠️ Doesn't fit before {formatTime(reflow.schedule.endTime)}:</p>
+            <ul className="text-sm text-yellow-800">
+              {unplaced.map(([taskId, minutes]) => (
+                <li key={taskId}>{titleOf(taskId)} - {formatDuration(minutes)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onApply(reflow.schedule)}
+            disabled={removed.length === 0}
+            className="flex-1 bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            Apply
+          </button>
+          <button
+            onClick={onCancel}
+            className="flex-1 bg-gray-200 text-gray-700 px-4 py-2 rounded hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,21 @@
-import { useState, useEffect } from 'react';
-import { Task, Schedule, ScheduleChunk, ScheduleBreak } from '../types';
-import { generateSchedule } from '../lib/scheduler';
+import { useState, useEffect, useMemo } from 'react';
+import { Task, Schedule, ScheduleChunk, ScheduleBreak, ScheduleTemplate, RecurrenceRule } from '../types';
+import { generateSchedule, findDeadlineWarnings, skipBusyChunks } from '../lib/scheduler';
 import { getTodayDate, formatTime, formatDuration, generateId, timeToMinutes, minutesToTime } from '../lib/utils';
+import { getIncompletePrerequisites } from '../lib/dependencies';
+import { CalibrationSample, getEstimateCorrection } from '../../backend/src/types/shared';
+import { CalendarEvent, downloadScheduleCalendar, getBusyBlocks } from '../lib/calendar';
 import VisualScheduleEditor from './VisualScheduleEditor';
 import ChunkEditModal from './ChunkEditModal';
+import RecurrencePicker from './RecurrencePicker';
+import BusyBlocksImport from './BusyBlocksImport';
 
 interface ScheduleFormProps {
   tasks: Task[];
+  calibration: CalibrationSample[];
   defaultNagInterval: number;
   onScheduleCreated: (schedule: Schedule) => void;
+  onTemplateSaved: (template: ScheduleTemplate) => void;
 }
 
 // Helper function to get smart default times
@@ -70,7 +77,7 @@ const getDefaultBreakTime = (startTime: string, endTime: string): string => {
   return roundedTime;
 };
 
-export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCreated }: ScheduleFormProps) {
+export default function ScheduleForm({ tasks, calibration, defaultNagInterval, onScheduleCreated, onTemplateSaved }: ScheduleFormProps) {
   // Load preview state from localStorage on mount
   const loadPreviewState = () => {
     const stored = localStorage.getItem('schedule_preview_state');
@@ -95,6 +102,9 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
   const [startTime, setStartTime] = useState(defaultTimes.startTime);
   const [endTime, setEndTime] = useState(defaultTimes.endTime);
   const [breaks, setBreaks] = useState<ScheduleBreak[]>(savedState?.breaks || []);
+  // Imported calendar events - the ones on the chosen date are fixed busy blocks
+  const [busyEvents, setBusyEvents] = useState<CalendarEvent[]>(savedState?.busyEvents || []);
+  const busyBlocks = useMemo(() => getBusyBlocks(busyEvents, date), [busyEvents, date]);
   const [defaultChunkSize, setDefaultChunkSize] = useState(savedState?.defaultChunkSize || 30);
   const [previewChunks, setPreviewChunks] = useState<ScheduleChunk[]>(savedState?.previewChunks || []);
   const [previewSchedule, setPreviewSchedule] = useState<Schedule | null>(savedState?.previewSchedule || null);
@@ -112,6 +122,11 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
     savedState?.taskSettings || {}
   );
 
+  // Give tasks extra time when their estimates usually run over
+  const [padEstimates, setPadEstimates] = useState<boolean>(savedState?.padEstimates || false);
+  const getEstimateFactor = (task: Task) => getEstimateCorrection(calibration, task)?.factor ?? 1;
+  const paddedTasks = tasks.filter(t => selectedTaskIds.includes(t.id) && getEstimateFactor(t) > 1);
+
   // New break form - use smart default based on schedule times
   const [newBreakTime, setNewBreakTime] = useState(getDefaultBreakTime(startTime, endTime));
   const [newBreakDuration, setNewBreakDuration] = useState(30);
@@ -121,6 +136,13 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
     setNewBreakTime(getDefaultBreakTime(startTime, endTime));
   }, [startTime, endTime]);
 
+  // Save as template
+  const [showTemplateForm, setShowTemplateForm] = useState(false);
+  const [templateRecurrence, setTemplateRecurrence] = useState<RecurrenceRule | undefined>({
+    frequency: 'weekdays',
+    startDate: getTodayDate()
+  });
+
   // Chunk editing
   const [editingChunk, setEditingChunk] = useState<ScheduleChunk | null>(null);
 
@@ -140,10 +162,12 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
         startTime,
         endTime,
         breaks,
+        busyBlocks,
         defaultChunkSize,
         defaultNagInterval,
         date,
-        name: scheduleName || undefined
+        name: scheduleName || undefined,
+        getEstimateFactor: padEstimates ? getEstimateFactor : undefined
       });
 
       if (schedule.chunks.length > 0) {
@@ -162,16 +186,18 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
       startTime,
       endTime,
       breaks,
+      busyEvents,
       defaultChunkSize,
       previewChunks,
       previewSchedule,
       showPreview,
       viewMode,
       selectedTaskIds,
-      taskSettings
+      taskSettings,
+      padEstimates
     };
     localStorage.setItem('schedule_preview_state', JSON.stringify(previewState));
-  }, [scheduleName, date, startTime, endTime, breaks, defaultChunkSize, previewChunks, previewSchedule, showPreview, viewMode, selectedTaskIds, taskSettings]);
+  }, [scheduleName, date, startTime, endTime, breaks, busyEvents, defaultChunkSize, previewChunks, previewSchedule, showPreview, viewMode, selectedTaskIds, taskSettings, padEstimates]);
 
   const addBreak = () => {
     if (!newBreakTime) {
@@ -273,10 +299,12 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
       startTime,
       endTime,
       breaks,
+      busyBlocks,
       defaultChunkSize,
       defaultNagInterval,
       date,
-      name: scheduleName || undefined
+      name: scheduleName || undefined,
+      getEstimateFactor: padEstimates ? getEstimateFactor : undefined
     });
 
     if (schedule.chunks.length === 0) {
@@ -318,10 +346,12 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
       startTime,
       endTime,
       breaks,
+      busyBlocks,
       defaultChunkSize,
       defaultNagInterval,
       date,
-      name: scheduleName || undefined
+      name: scheduleName || undefined,
+      getEstimateFactor: padEstimates ? getEstimateFactor : undefined
     });
 
     if (schedule.chunks.length > 0) {
@@ -329,7 +359,7 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
       setPreviewSchedule(schedule);
       setShowPreview(true);
     }
-  }, [startTime, endTime, selectedTaskIds, breaks, defaultChunkSize, date, scheduleName, tasks, defaultNagInterval, taskSettings]);
+  }, [startTime, endTime, selectedTaskIds, breaks, busyBlocks, defaultChunkSize, date, scheduleName, tasks, defaultNagInterval, taskSettings, padEstimates]);
 
   const handleSave = () => {
     if (previewChunks.length === 0) {
@@ -364,6 +394,37 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
     localStorage.removeItem('schedule_preview_state');
   };
 
+  const handleSaveTemplate = () => {
+    if (!templateRecurrence) return;
+
+    if (!scheduleName.trim()) {
+      alert('Please give the schedule a name to save it as a template');
+      return;
+    }
+
+    if (selectedTaskIds.length === 0) {
+      alert('Please select at least one task for the template');
+      return;
+    }
+
+    onTemplateSaved({
+      id: generateId(),
+      name: scheduleName.trim(),
+      startTime,
+      endTime,
+      breaks: breaks.map(b => ({ time: b.time, durationMinutes: b.durationMinutes })),
+      defaultChunkSize,
+      taskIds: selectedTaskIds,
+      recurrence: templateRecurrence,
+      // A schedule for today is created by saving normally, so start with the next occurrence
+      lastCreatedOn: getTodayDate(),
+      createdAt: new Date().toISOString()
+    });
+
+    setShowTemplateForm(false);
+    alert(`Saved "${scheduleName.trim()}" as a recurring template`);
+  };
+
   const updateChunkNagInterval = (chunkId: string, newInterval: number) => {
     setPreviewChunks(chunks =>
       chunks.map(chunk =>
@@ -375,6 +436,7 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
   };
 
   const handleChunkClick = (chunk: ScheduleChunk) => {
+    if (chunk.type === 'busy') return; // Locked
     setEditingChunk(chunk);
   };
 
@@ -398,10 +460,12 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
 
     const chunks = previewChunks.filter(c => c.id !== editingChunk.id);
 
-    // Recalculate times to fill the gap
+    // Recalculate times to fill the gap - busy blocks stay put
     let currentMinutes = timeToMinutes(startTime);
     const updatedChunks = chunks.map((chunk) => {
+      if (chunk.type === 'busy') return chunk;
       const duration = chunk.durationMinutes;
+      currentMinutes = skipBusyChunks(currentMinutes, duration, chunks);
       const newChunk = {
         ...chunk,
         startTime: minutesToTime(currentMinutes),
@@ -409,7 +473,7 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
       };
       currentMinutes += duration;
       return newChunk;
-    });
+    }).sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
 
     setPreviewChunks(updatedChunks);
     if (previewSchedule) {
@@ -437,6 +501,13 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
 
   const availableTasks = tasks.filter(t => t.hoursCompleted < t.estimatedHours);
 
+  const deadlineWarnings = previewSchedule
+    ? findDeadlineWarnings(
+        { ...previewSchedule, chunks: previewChunks },
+        tasks.filter(t => selectedTaskIds.includes(t.id))
+      )
+    : [];
+
   return (
     <div className="p-6">
       <h2 className="text-2xl font-bold mb-6">Create Schedule</h2>
@@ -465,6 +536,8 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
                 const progress = (task.hoursCompleted / task.estimatedHours) * 100;
                 const remaining = task.estimatedHours - task.hoursCompleted;
                 const isSelected = selectedTaskIds.includes(task.id);
+                const waitingOn = getIncompletePrerequisites(task, tasks)
+                  .filter(t => !selectedTaskIds.includes(t.id));
 
                 return (
                   <label
@@ -500,7 +573,18 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
                         Remaining: {remaining.toFixed(1)} {remaining === 1 ? 'hr' : 'hrs'}
                         <span className="mx-2">•</span>
                         Progress: {Math.round(progress)}%
+                        {task.dueDate && (
+                          <>
+                            <span className="mx-2">•</span>
+                            Due: {task.dueDate}{task.dueTime ? ` ${formatTime(task.dueTime)}` : ''}
+                          </>
+                        )}
                       </div>
+                      {isSelected && waitingOn.length > 0 && (
+                        <p className="text-xs text-amber-700 mt-1">
+                          🔒 Waiting on {waitingOn.map(t => t.title).join(', ')}, which {waitingOn.length === 1 ? "isn't" : "aren't"} in this session
+                        </p>
+                      )}
 
                       {/* Per-task settings */}
                       {isSelected && (
@@ -546,6 +630,23 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
                 Please select at least one task to include in your schedule.
               </p>
             )}
+
+            {paddedTasks.length > 0 && (
+              <label className="flex items-start mt-3 text-sm">
+                <input
+                  type="checkbox"
+                  checked={padEstimates}
+                  onChange={(e) => setPadEstimates(e.target.checked)}
+                  className="mt-1 mr-2"
+                />
+                <span>
+                  Pad for my usual overruns
+                  <span className="block text-xs text-gray-500">
+                    {paddedTasks.map(t => `${t.title} ×${getEstimateFactor(t).toFixed(1)}`).join(', ')}
+                  </span>
+                </span>
+              </label>
+            )}
           </div>
 
           {/* Schedule Configuration */}
@@ -652,6 +753,11 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
               </div>
             </div>
 
+            <div className="mb-4">
+              <label className="block text-sm font-medium mb-2">Busy Times</label>
+              <BusyBlocksImport events={busyEvents} blocks={busyBlocks} onChange={setBusyEvents} />
+            </div>
+
           </div>
 
           {showPreview && previewSchedule && (
@@ -682,14 +788,70 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
                     </button>
                   </div>
                 </div>
-                <button
-                  onClick={handleSave}
-                  className="bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 font-medium"
-                >
-                  Save Schedule
-                </button>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => downloadScheduleCalendar({ ...previewSchedule, chunks: previewChunks })}
+                    className="bg-gray-200 text-gray-800 px-4 py-2 rounded hover:bg-gray-300 font-medium"
+                    title="Download as an .ics file for Google Calendar, Outlook or Apple Calendar"
+                  >
+                    📅 Export .ics
+                  </button>
+                  <button
+                    onClick={() => setShowTemplateForm(!showTemplateForm)}
+                    className="bg-gray-200 text-gray-800 px-4 py-2 rounded hover:bg-gray-300 font-medium"
+                  >
+                    🔁 Save as Template
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 font-medium"
+                  >
+                    Save Schedule
+                  </button>
+                </div>
               </div>
 
+              {showTemplateForm && (
+                <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded">
+                  <p className="text-sm text-gray-700 mb-3">
+                    Create this schedule automatically ({formatTime(startTime)} - {formatTime(endTime)}, {selectedTaskIds.length} tasks) on every matching date.
+                  </p>
+                  <RecurrencePicker
+                    value={templateRecurrence}
+                    allowNone={false}
+                    onChange={setTemplateRecurrence}
+                  />
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      onClick={handleSaveTemplate}
+                      className="bg-blue-500 text-white px-3 py-1 rounded text-sm hover:bg-blue-600"
+                    >
+                      Save Template
+                    </button>
+                    <button
+                      onClick={() => setShowTemplateForm(false)}
+                      className="bg-gray-200 text-gray-800 px-3 py-1 rounded text-sm hover:bg-gray-300"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {deadlineWarnings.length > 0 && (
+                <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded">
+                  <p className="text-sm font-medium text-amber-800 mb-1">⚠️ Some deadlines can't be met</p>
+                  <ul className="text-sm text-amber-700 space-y-1">
+                    {deadlineWarnings.map(warning => (
+                      <li key={warning.taskId}>
+                        <span className="font-medium">{warning.taskTitle}</span> is due {warning.dueDate} at {formatTime(warning.dueTime)}
+                        {' '}but only gets {formatDuration(warning.scheduledMinutes)} of its {formatDuration(warning.remainingMinutes)} remaining
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {viewMode === 'visual' ? (
                 <VisualScheduleEditor
                   schedule={previewSchedule}
@@ -702,7 +864,10 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
                     <div
                       key={chunk.id}
                       onClick={() => handleChunkClick(chunk)}
-                      className={`border-l-4 rounded-r p-3 cursor-pointer hover:opacity-80 transition-opacity ${chunk.type === 'break' ? 'border-gray-400 bg-gray-100' : getPriorityColor(chunk.taskPriority)}`}
+                      className={`border-l-4 rounded-r p-3 transition-opacity ${
+                        chunk.type === 'busy' ? 'border-slate-600 bg-slate-200 cursor-default' :
+                        `cursor-pointer hover:opacity-80 ${chunk.type === 'break' ? 'border-gray-400 bg-gray-100' : getPriorityColor(chunk.taskPriority)}`
+                      }`}
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
@@ -715,7 +880,7 @@ export default function ScheduleForm({ tasks, defaultNagInterval, onScheduleCrea
                             </span>
                           </div>
                           <p className="font-medium mt-1">
-                            {chunk.type === 'break' ? '☕ ' : ''}{chunk.taskTitle}
+                            {chunk.type === 'break' ? '☕ ' : chunk.type === 'busy' ? '🔒 ' : ''}{chunk.taskTitle}
                           </p>
                         </div>
 
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { ScheduleSession } from '../types';
+import { fetchSessionHistory } from '../lib/sessions';
+import { formatDuration } from '../lib/utils';
+
+export default function SessionHistory() {
+  const [sessions, setSessions] = useState<ScheduleSession[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSessionHistory().then(history => {
+      if (!cancelled) setSessions(history);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!sessions || sessions.length === 0) return null;
+
+  return (
+    <div className="px-6 pb-6">
+      <h3 className="text-lg font-semibold mb-3">Past sessions</h3>
+      <ul className="space-y-2">
+        {sessions.map(session => {
+          const { summary } = session;
+          return (
+            <li key={session.id} className="bg-white border border-gray-200 rounded-lg p-3 flex items-center justify-between">
+              <div>
+                <div className="font-medium">
+                  {session.scheduleName || new Date(`${session.scheduleDate}T00:00`).toLocaleDateString()}
+                </div>
+                <div className="text-sm text-gray-600">
+                  {summary.chunksCompleted} of {summary.chunksTotal} chunks done
+                  {summary.chunksSkipped > 0 && `, ${summary.chunksSkipped} skipped`}
+                  {' · '}{formatDuration(summary.focusMinutes)} focused of {formatDuration(summary.plannedMinutes)} planned
+                </div>
+              </div>
+              <span className={`text-xs font-medium px-2 py-1 rounded ${
+                session.outcome === 'completed' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+              }`}>
+                {session.outcome === 'completed' ? 'Completed' : 'Ended early'}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
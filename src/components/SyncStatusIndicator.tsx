@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { getSyncState, onSyncStateChange, syncNow, SyncState } from '../lib/sync';
+
+interface SyncStatusIndicatorProps {
+  onSynced: () => void;
+}
+
+export default function SyncStatusIndicator({ onSynced }: SyncStatusIndicatorProps) {
+  const [sync, setSync] = useState<SyncState>(getSyncState());
+
+  useEffect(() => onSyncStateChange(setSync), []);
+
+  const handleSyncNow = async () => {
+    if (await syncNow()) onSynced();
+  };
+
+  const waiting = sync.pendingChanges > 0 ? ` - ${sync.pendingChanges} change${sync.pendingChanges === 1 ? '' : 's'} waiting` : '';
+
+  const label = {
+    idle: sync.pendingChanges > 0 ? `↻ Saving${waiting}` : '✓ Synced',
+    syncing: '↻ Syncing...',
+    offline: `⚠️ Offline${waiting}`,
+    error: `⚠️ Sync problem${waiting}`
+  }[sync.status];
+
+  const color = {
+    idle: 'text-green-700',
+    syncing: 'text-blue-600',
+    offline: 'text-yellow-700',
+    error: 'text-red-600'
+  }[sync.status];
+
+  const details = [
+    sync.lastSyncedAt && `Last synced ${new Date(sync.lastSyncedAt).toLocaleTimeString()}`,
+    sync.conflictsResolved > 0 && `${sync.conflictsResolved} conflict${sync.conflictsResolved === 1 ? '' : 's'} resolved (newest change kept)`,
+    sync.error,
+    'Click to sync now'
+  ].filter(Boolean).join('\n');
+
+  return (
+    <button
+      onClick={handleSyncNow}
+      disabled={sync.status === 'syncing'}
+      className={`text-sm font-medium ${color} hover:underline disabled:no-underline`}
+      title={details}
+    >
+      {label}
+    </button>
+  );
+}
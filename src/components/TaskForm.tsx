@@ -1,26 +1,56 @@
 import { useState, useEffect } from 'react';
-import { Task } from '../types';
-import { generateId } from '../lib/utils';
+import { Task, RecurrenceRule, EscalationPolicy } from '../types';
+import { generateId, getTodayDate } from '../lib/utils';
+import { wouldCreateCycle } from '../lib/dependencies';
+import { getLatestOccurrence } from '../lib/recurrence';
+import { CalibrationSample, DEFAULT_ESCALATION_POLICY, getEstimateCorrection } from '../../backend/src/types/shared';
+import RecurrencePicker from './RecurrencePicker';
+import EscalationPolicyFields from './EscalationPolicyFields';
 
 interface TaskFormProps {
   task?: Task;
+  tasks: Task[];
   timeUnit: 'hours' | 'minutes';
+  calibration?: CalibrationSample[];
   onSave: (task: Task) => void;
   onCancel: () => void;
 }
 
-export default function TaskForm({ task, timeUnit, onSave, onCancel }: TaskFormProps) {
+export default function TaskForm({ task, tasks, timeUnit, calibration = [], onSave, onCancel }: TaskFormProps) {
   const [title, setTitle] = useState(task?.title || '');
   // Display values in the selected time unit (hours or minutes)
   const [estimatedValue, setEstimatedValue] = useState(
     timeUnit === 'minutes' ? (task?.estimatedHours || 1) * 60 : (task?.estimatedHours || 1)
   );
   const [priority, setPriority] = useState<'high' | 'medium' | 'low'>(task?.priority || 'medium');
+  const correction = title.trim() ? getEstimateCorrection(calibration, { id: task?.id, title, priority }) : null;
+  const suggestedValue = correction && estimatedValue > 0
+    ? Math.round(estimatedValue * correction.factor * (timeUnit === 'minutes' ? 1 : 4)) / (timeUnit === 'minutes' ? 1 : 4)
+    : null;
+  const correctionSource = correction?.basis === 'similar'
+    ? `Tasks like "${correction.keyword}…"`
+    : correction?.basis === 'priority' ? `Your ${priority} priority tasks` : 'Your tasks';
   const [completedValue, setCompletedValue] = useState(
     timeUnit === 'minutes' ? (task?.hoursCompleted || 0) * 60 : (task?.hoursCompleted || 0)
   );
   const [defaultNagInterval, setDefaultNagInterval] = useState(task?.defaultNagInterval || 0);
   const [defaultChunkSize, setDefaultChunkSize] = useState(task?.defaultChunkSize || 0);
+  const [dueDate, setDueDate] = useState(task?.dueDate || '');
+  const [dueTime, setDueTime] = useState(task?.dueTime || '');
+  const [dependsOn, setDependsOn] = useState<string[]>(task?.dependsOn || []);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(task?.recurrence);
+  const [escalation, setEscalation] = useState<EscalationPolicy | undefined>(task?.escalation);
+
+  const taskId = task?.id || '';
+  const otherTasks = tasks.filter(t => t.id !== taskId);
+
+  const toggleDependency = (depId: string) => {
+    if (dependsOn.includes(depId)) {
+      setDependsOn(dependsOn.filter(id => id !== depId));
+    } else {
+      setDependsOn([...dependsOn, depId]);
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,6 +65,16 @@ export default function TaskForm({ task, timeUnit, onSave, onCancel }: TaskFormP
       return;
     }
 
+    if (dueTime && !dueDate) {
+      alert('Please set a due date for the due time');
+      return;
+    }
+
+    if (task && wouldCreateCycle(tasks, task.id, dependsOn)) {
+      alert('These prerequisites would create a circular dependency');
+      return;
+    }
+
     // Convert display values to hours for storage (internal format is always hours)
     const estimatedHours = timeUnit === 'minutes' ? estimatedValue / 60 : estimatedValue;
     const hoursCompleted = timeUnit === 'minutes' ? completedValue / 60 : completedValue;
@@ -44,9 +84,20 @@ export default function TaskForm({ task, timeUnit, onSave, onCancel }: TaskFormP
       title: title.trim(),
       priority,
       estimatedHours,
-      hoursCompleted: Math.min(hoursCompleted, estimatedHours),
+      // Raising the estimate later keeps the first one for estimate accuracy
+      originalEstimatedHours: task ? task.originalEstimatedHours ?? task.estimatedHours : estimatedHours,
+      hoursCompleted,
       defaultNagInterval: defaultNagInterval > 0 ? defaultNagInterval : undefined,
       defaultChunkSize: defaultChunkSize > 0 ? defaultChunkSize : undefined,
+      dueDate: dueDate || undefined,
+      dueTime: dueDate && dueTime ? dueTime : undefined,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      recurrence,
+      // Count the current occurrence as done so saving doesn't wipe today's progress
+      lastRecurredOn: recurrence
+        ? task?.lastRecurredOn || getLatestOccurrence(recurrence, getTodayDate()) || undefined
+        : undefined,
+      escalation,
       createdAt: task?.createdAt || new Date().toISOString()
     };
 
@@ -55,7 +106,7 @@ export default function TaskForm({ task, timeUnit, onSave, onCancel }: TaskFormP
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg p-6 w-full max-w-md">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
         <h2 className="text-2xl font-bold mb-4">
           {task ? 'Edit Task' : 'New Task'}
         </h2>
@@ -98,8 +149,89 @@ export default function TaskForm({ task, timeUnit, onSave, onCancel }: TaskFormP
               step="any"
               className="w-full border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
+            {correction && suggestedValue !== null && Math.abs(correction.factor - 1) >= 0.1 && suggestedValue !== estimatedValue && (
+              <p className="text-xs text-gray-600 mt-1">
+                {correctionSource} usually take {correction.factor.toFixed(1)}× {correction.factor > 1 ? 'as long as estimated' : 'of the estimate'}
+                {' '}({correction.sampleSize} finished) - suggest {suggestedValue} {timeUnit}.
+                <button
+                  type="button"
+                  onClick={() => setEstimatedValue(suggestedValue)}
+                  className="ml-2 text-blue-600 hover:underline"
+                >
+                  Use
+                </button>
+              </p>
+            )}
           </div>
 
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Due Date
+                <span className="text-xs text-gray-500 ml-1">(optional)</span>
+              </label>
+              <input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="w-full border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Due Time
+                <span className="text-xs text-gray-500 ml-1">(end of day if empty)</span>
+              </label>
+              <input
+                type="time"
+                value={dueTime}
+                onChange={(e) => setDueTime(e.target.value)}
+                disabled={!dueDate}
+                className="w-full border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Repeat
+              <span className="text-xs text-gray-500 ml-1">(progress resets on each occurrence)</span>
+            </label>
+            <RecurrencePicker value={recurrence} onChange={setRecurrence} />
+          </div>
+
+          {otherTasks.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Depends On
+                <span className="text-xs text-gray-500 ml-1">(finish these first)</span>
+              </label>
+              <div className="border border-gray-300 rounded max-h-32 overflow-y-auto divide-y divide-gray-100">
+                {otherTasks.map(other => {
+                  const checked = dependsOn.includes(other.id);
+                  const createsCycle = !checked && !!task && wouldCreateCycle(tasks, task.id, [...dependsOn, other.id]);
+
+                  return (
+                    <label
+                      key={other.id}
+                      className={`flex items-center px-3 py-1.5 text-sm ${createsCycle ? 'text-gray-400' : 'cursor-pointer hover:bg-gray-50'}`}
+                      title={createsCycle ? `${other.title} already depends on this task` : undefined}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={createsCycle}
+                        onChange={() => toggleDependency(other.id)}
+                        className="mr-2"
+                      />
+                      {other.title}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {task && (
             <div>
               <label className="block text-sm font-medium mb-1">
@@ -111,7 +243,6 @@ export default function TaskForm({ task, timeUnit, onSave, onCancel }: TaskFormP
                 onChange={(e) => setCompletedValue(parseFloat(e.target.value))}
                 min="0"
                 step="any"
-                max={estimatedValue}
                 className="w-full border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
@@ -132,6 +263,24 @@ export default function TaskForm({ task, timeUnit, onSave, onCancel }: TaskFormP
             />
           </div>
 
+          <div>
+            <label className="flex items-center text-sm font-medium mb-1">
+              <input
+                type="checkbox"
+                checked={!!escalation}
+                onChange={(e) => setEscalation(e.target.checked ? DEFAULT_ESCALATION_POLICY : undefined)}
+                className="mr-2"
+              />
+              Custom nag escalation
+              <span className="text-xs text-gray-500 ml-1">(otherwise use settings)</span>
+            </label>
+            {escalation && (
+              <div className="border border-gray-200 rounded p-3">
+                <EscalationPolicyFields value={escalation} onChange={setEscalation} />
+              </div>
+            )}
+          </div>
+
           <div>
             <label className="block text-sm font-medium mb-1">
               Default Chunk Size (minutes)
@@ -1,19 +1,25 @@
 import { useState } from 'react';
 import { Task } from '../types';
 import TaskForm from './TaskForm';
+import { CalibrationSample } from '../../backend/src/types/shared';
+import { formatTime } from '../lib/utils';
+import { getIncompletePrerequisites } from '../lib/dependencies';
+import { describeRecurrence } from '../lib/recurrence';
 
 interface TaskListProps {
   tasks: Task[];
   timeUnit: 'hours' | 'minutes';
+  calibration: CalibrationSample[];
   onTasksChange: () => void;
-  onAddTask: (task: Task) => void;
-  onUpdateTask: (task: Task) => void;
-  onDeleteTask: (taskId: string) => void;
+  onAddTask: (task: Task) => Promise<void>;
+  onUpdateTask: (task: Task) => Promise<void>;
+  onDeleteTask: (taskId: string) => Promise<void>;
 }
 
 export default function TaskList({
   tasks,
   timeUnit,
+  calibration,
   onTasksChange,
   onAddTask,
   onUpdateTask,
@@ -22,11 +28,11 @@ export default function TaskList({
   const [showForm, setShowForm] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
 
-  const handleSave = (task: Task) => {
+  const handleSave = async (task: Task) => {
     if (editingTask) {
-      onUpdateTask(task);
+      await onUpdateTask(task);
     } else {
-      onAddTask(task);
+      await onAddTask(task);
     }
     setShowForm(false);
     setEditingTask(undefined);
@@ -38,9 +44,9 @@ export default function TaskList({
     setShowForm(true);
   };
 
-  const handleDelete = (taskId: string) => {
+  const handleDelete = async (taskId: string) => {
     if (confirm('Are you sure you want to delete this task?')) {
-      onDeleteTask(taskId);
+      await onDeleteTask(taskId);
       onTasksChange();
     }
   };
@@ -83,6 +89,7 @@ export default function TaskList({
             const progress = task.hoursCompleted / task.estimatedHours;
             const progressPercent = Math.min(progress * 100, 100);
             const isComplete = task.hoursCompleted >= task.estimatedHours;
+            const blockedBy = getIncompletePrerequisites(task, tasks);
 
             return (
               <div
@@ -98,6 +105,14 @@ export default function TaskList({
                       <span className={`text-xs px-2 py-1 rounded ${getPriorityColor(task.priority)}`}>
                         {task.priority}
                       </span>
+                      {!isComplete && blockedBy.length > 0 && (
+                        <span
+                          className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-700"
+                          title={`Waiting on: ${blockedBy.map(t => t.title).join(', ')}`}
+                        >
+                          🔒 Blocked
+                        </span>
+                      )}
                     </div>
                     <p className="text-sm text-gray-600">
                       {timeUnit === 'minutes'
@@ -106,6 +121,21 @@ export default function TaskList({
                       } {timeUnit}
                       {isComplete && <span className="ml-2 text-green-600 font-medium">✓ Complete</span>}
                     </p>
+                    {task.dueDate && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        📆 Due {task.dueDate}{task.dueTime ? ` at ${formatTime(task.dueTime)}` : ''}
+                      </p>
+                    )}
+                    {task.recurrence && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        🔁 {describeRecurrence(task.recurrence)}
+                      </p>
+                    )}
+                    {!isComplete && blockedBy.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Waiting on: {blockedBy.map(t => t.title).join(', ')}
+                      </p>
+                    )}
                   </div>
 
                   <div className="flex gap-2">
@@ -140,7 +170,9 @@ export default function TaskList({
       {showForm && (
         <TaskForm
           task={editingTask}
+          tasks={tasks}
           timeUnit={timeUnit}
+          calibration={calibration}
           onSave={handleSave}
           onCancel={() => {
             setShowForm(false);
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Schedule, ScheduleChunk, Task } from '../types';
 import { formatTime, timeToMinutes, minutesToTime } from '../lib/utils';
+import { skipBusyChunks } from '../lib/scheduler';
 import ChunkEditModal from './ChunkEditModal';
 
 interface VisualScheduleEditorProps {
@@ -72,6 +73,9 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
     }
   };
 
+  // Busy blocks are fixed appointments - they can't be moved, resized or edited
+  const isLocked = (chunk: ScheduleChunk) => chunk.type === 'busy';
+
   const handleDragStart = (chunkId: string) => {
     setDraggedChunkId(chunkId);
   };
@@ -115,10 +119,12 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
       chunks.splice(insertIndex, 0, draggedChunk);
     }
 
-    // Recalculate times based on new order, handling overlaps
+    // Recalculate times based on new order, handling overlaps and going around busy blocks
     let currentMinutes = startMinutes;
-    const updatedChunks = chunks.map((chunk, index) => {
+    const movable = chunks.filter(c => !isLocked(c));
+    const updatedChunks = movable.map((chunk, index) => {
       const duration = chunk.durationMinutes;
+      currentMinutes = skipBusyChunks(currentMinutes, duration, chunks);
 
       // Check if we're going to exceed the end time
       const potentialEnd = currentMinutes + duration;
@@ -130,7 +136,7 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
       }
 
       // Check if next chunk would overlap - if so, adjust current chunk
-      if (index < chunks.length - 1) {
+      if (index < movable.length - 1) {
         const nextChunkMinDuration = 5; // Minimum 5 minutes for next chunk
         const maxAllowedEnd = endMinutes - nextChunkMinDuration;
         if (currentMinutes + actualDuration > maxAllowedEnd) {
@@ -148,7 +154,11 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
       return newChunk;
     });
 
-    const updatedSchedule = { ...schedule, chunks: updatedChunks };
+    const lockedChunks = chunks.filter(isLocked);
+    const sortedChunks = [...updatedChunks, ...lockedChunks]
+      .sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+
+    const updatedSchedule = { ...schedule, chunks: sortedChunks };
     onScheduleUpdate(updatedSchedule);
     setDraggedChunkId(null);
   };
@@ -222,6 +232,7 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
     if (resizingChunk) return;
     const target = e.target as HTMLElement;
     if (target.classList.contains('cursor-ns-resize')) return;
+    if (isLocked(chunk)) return;
 
     setEditingChunk(chunk);
   };
@@ -244,10 +255,12 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
 
     const chunks = schedule.chunks.filter(c => c.id !== editingChunk.id);
 
-    // Recalculate times to fill the gap
+    // Recalculate times to fill the gap - busy blocks stay put
     let currentMinutes = startMinutes;
     const updatedChunks = chunks.map((chunk) => {
+      if (isLocked(chunk)) return chunk;
       const duration = chunk.durationMinutes;
+      currentMinutes = skipBusyChunks(currentMinutes, duration, chunks);
       const newChunk = {
         ...chunk,
         startTime: minutesToTime(currentMinutes),
@@ -255,7 +268,7 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
       };
       currentMinutes += duration;
       return newChunk;
-    });
+    }).sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
 
     const updatedSchedule = { ...schedule, chunks: updatedChunks };
     onScheduleUpdate(updatedSchedule);
@@ -323,6 +336,7 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
                 {schedule.chunks.map((chunk, index) => {
                   const style = getChunkStyle(chunk);
                   const isBreak = chunk.type === 'break';
+                  const locked = isLocked(chunk);
                   const heightPx = chunk.durationMinutes * pixelsPerMinute;
 
                   // Determine what to show based on height
@@ -333,21 +347,23 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
                   return (
                     <div
                       key={chunk.id}
-                      draggable={!resizingChunk}
+                      draggable={!resizingChunk && !locked}
                       onDragStart={() => handleDragStart(chunk.id)}
                       onDragOver={handleDragOver}
                       onDrop={(e) => handleDrop(e, chunk.id)}
                       onClick={(e) => handleChunkClick(chunk, e)}
-                      className={`absolute left-0 right-0 mx-2 border-2 rounded cursor-pointer transition-colors ${
-                        isBreak
-                          ? 'bg-gray-300 border-gray-500 hover:bg-gray-400'
-                          : getPriorityColor(chunk.taskPriority)
+                      className={`absolute left-0 right-0 mx-2 border-2 rounded transition-colors ${
+                        locked
+                          ? 'bg-slate-400 border-slate-600 border-dashed cursor-not-allowed'
+                          : isBreak
+                          ? 'bg-gray-300 border-gray-500 hover:bg-gray-400 cursor-pointer'
+                          : `${getPriorityColor(chunk.taskPriority)} cursor-pointer`
                       } ${draggedChunkId === chunk.id ? 'opacity-50' : ''}`}
                       style={style}
-                      title={`${chunk.taskTitle} (${formatTime(chunk.startTime)} - ${formatTime(chunk.endTime)})`}
+                      title={`${locked ? '🔒 ' : ''}${chunk.taskTitle} (${formatTime(chunk.startTime)} - ${formatTime(chunk.endTime)})`}
                     >
                       {/* Resize handle - top */}
-                      {!isBreak && (
+                      {!isBreak && !locked && (
                         <div
                           className="absolute top-0 left-0 right-0 h-2 cursor-ns-resize hover:bg-black hover:bg-opacity-20"
                           onMouseDown={(e) => handleResizeStart(chunk.id, 'start', e)}
@@ -359,14 +375,14 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
                         {showFullContent ? (
                           <div className="w-full overflow-hidden">
                             <div className="font-semibold text-gray-900 truncate">
-                              {chunk.taskTitle}
+                              {locked && '🔒 '}{chunk.taskTitle}
                             </div>
                             <div className="text-xs text-gray-700 mt-1 truncate">
                               {formatTime(chunk.startTime)} - {formatTime(chunk.endTime)}
                             </div>
                             <div className="text-xs text-gray-700 truncate">
                               {chunk.durationMinutes} min
-                              {!isBreak && chunk.nagIntervalMinutes > 0 && (
+                              {!isBreak && !locked && chunk.nagIntervalMinutes > 0 && (
                                 <span className="ml-2">🔔 {chunk.nagIntervalMinutes}m</span>
                               )}
                             </div>
@@ -374,7 +390,7 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
                         ) : showMinimalContent ? (
                           <div className="w-full overflow-hidden">
                             <div className="font-semibold text-gray-900 truncate text-xs">
-                              {chunk.taskTitle}
+                              {locked && '🔒 '}{chunk.taskTitle}
                             </div>
                           </div>
                         ) : showOnlyTime ? (
@@ -387,7 +403,7 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
                       </div>
 
                       {/* Resize handle - bottom */}
-                      {!isBreak && (
+                      {!isBreak && !locked && (
                         <div
                           className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize hover:bg-black hover:bg-opacity-20"
                           onMouseDown={(e) => handleResizeStart(chunk.id, 'end', e)}
@@ -422,6 +438,10 @@ export default function VisualScheduleEditor({ schedule, tasks, onScheduleUpdate
                 <div className="w-4 h-4 bg-gray-300 border border-gray-500 rounded"></div>
                 <span>Break</span>
               </div>
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 bg-slate-400 border border-dashed border-slate-600 rounded"></div>
+                <span>Busy (locked)</span>
+              </div>
             </div>
 
             <div className="mt-4 pt-3 border-t border-gray-300">
@@ -1,8 +1,46 @@
 // API client for communicating with backend
+import type { ErrorCode, ErrorResponse } from '../../backend/src/types/errors';
+import type { FieldError } from '../../backend/src/types/schemas';
+
+// What the server answers with (see backend/src/types/errors.ts), plus NETWORK for a
+// request that never got an answer
+export type ApiErrorCode = ErrorCode | 'NETWORK';
+
+// For responses that didn't come from our error handler, e.g. a proxy's 502 page
+function codeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 400: return 'VALIDATION';
+    case 401: return 'UNAUTHENTICATED';
+    case 403: return 'INVALID_TOKEN';
+    case 404: return 'NOT_FOUND';
+    case 409: return 'CONFLICT';
+    case 413: return 'PAYLOAD_TOO_LARGE';
+    case 429: return 'RATE_LIMITED';
+    default: return 'INTERNAL';
+  }
+}
+
+// A request that failed - components switch on code rather than matching the message.
+// status is 0 for NETWORK; data is the parsed body, for callers that need more (current)
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly requestId?: string;
+  readonly details: FieldError[];
+
+  constructor(message: string, public status: number, public data: Partial<ErrorResponse> | null, code?: ApiErrorCode) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code ?? data?.code ?? codeForStatus(status);
+    this.requestId = data?.requestId;
+    this.details = data?.details ?? [];
+  }
+}
 
 class ApiClient {
   private baseURL: string;
   private token: string | null = null;
+  // Identifies this tab, so the server doesn't echo our own changes back over the event stream
+  readonly clientId = crypto.randomUUID();
 
   constructor() {
     this.baseURL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
@@ -28,17 +66,23 @@ class ApiClient {
     if (this.token) {
       headers['Authorization'] = `Bearer ${this.token}`;
     }
+    headers['X-Client-Id'] = this.clientId;
 
-    const response = await fetch(`${this.baseURL}${endpoint}`, {
-      ...options,
-      headers
-    });
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}${endpoint}`, {
+        ...options,
+        headers
+      });
+    } catch {
+      throw new ApiError(`Cannot reach the server at ${this.baseURL}`, 0, null, 'NETWORK');
+    }
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({
+      const error: Partial<ErrorResponse> = await response.json().catch(() => ({
         error: response.statusText
       }));
-      throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+      throw new ApiError(error.error || `HTTP ${response.status}: ${response.statusText}`, response.status, error);
     }
 
     // Handle empty responses
@@ -46,6 +90,20 @@ class ApiClient {
     return text ? JSON.parse(text) : null;
   }
 
+  // EventSource can't send headers, so the URL carries a short-lived stream ticket -
+  // never the token itself. Each ticket opens one stream within a minute.
+  async getEventStreamUrl(): Promise<string | null> {
+    if (!this.token) return null;
+    const { ticket } = await this.post<{ ticket: string }>('/api/events/ticket');
+    const params = new URLSearchParams({ ticket, clientId: this.clientId });
+    return `${this.baseURL}/api/events?${params}`;
+  }
+
+  // Calendar apps fetch the feed themselves, so this is the URL to give them
+  getCalendarFeedUrl(token: string): string {
+    return `${this.baseURL}/api/calendar/${encodeURIComponent(token)}.ics`;
+  }
+
   // Convenience methods
   async get<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: 'GET' });
@@ -65,13 +123,38 @@ class ApiClient {
     });
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'DELETE' });
+  async delete<T>(endpoint: string, data?: any): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'DELETE',
+      body: data ? JSON.stringify(data) : undefined
+    });
   }
 }
 
 export const api = new ApiClient();
 
+// Changes from GET /api/sync - rows are snake_case, as the server stores them
+export type SyncEntityChanges = {
+  created: any[];
+  updated: any[];
+  deleted: string[]; // IDs
+};
+
+export type SyncDelta = {
+  cursor: string; // Pass back as `since` to get what changed after this
+  full: boolean; // The cursor was too old: this is everything, and what isn't in it is gone
+  tasks: SyncEntityChanges;
+  schedules: SyncEntityChanges; // With breaks; chunks come separately
+  chunks: SyncEntityChanges;
+  settings: any | null; // Only when changed
+  active: { scheduleId: string | null; since: string | null }; // Always sent
+};
+
+// Everything created, updated or deleted since the cursor (null for everything)
+export function fetchChangesSince(cursor: string | null): Promise<SyncDelta> {
+  return api.get<SyncDelta>(`/api/sync?since=${encodeURIComponent(cursor || '0')}`);
+}
+
 // Helper to check if user is authenticated
 export function isAuthenticated(): boolean {
   return !!api.getToken();
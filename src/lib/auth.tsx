@@ -1,5 +1,7 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { api } from './api';
+import { unsubscribeFromServerPush } from './notifications';
+import { resetSyncQueue } from './syncQueue';
 
 interface User {
   id: string;
@@ -13,7 +15,7 @@ interface AuthContextType {
   isAuthenticated: boolean;
   loading: boolean;
   login: () => void;
-  logout: () => void;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -71,7 +73,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     window.location.href = `${apiUrl}/auth/google`;
   };
 
-  const logout = () => {
+  const logout = async () => {
+    // Stop server nags to this browser while the token is still valid
+    await unsubscribeFromServerPush();
+    // Unpushed changes belong to this account, not the next one to sign in
+    resetSyncQueue();
     localStorage.removeItem('jwt_token');
     api.setToken(null);
     setUser(null);
@@ -0,0 +1,167 @@
+import { AppSettings, Backup, ImportMode, ImportResult, Schedule, ScheduleChunk, Task } from '../types';
+import { getTasks, saveTasks, getSchedules, saveSchedules, getTemplates, saveTemplates, getSettings, saveSettings, getActiveScheduleId } from './storage';
+import { activateSchedule, endActiveSession } from './sessions';
+import { DEFAULT_ESCALATION_POLICY } from '../../backend/src/types/shared';
+import { downloadFile, getTodayDate } from './utils';
+import { backupSchema, describeIssues } from '../../backend/src/types/schemas';
+
+// Same format as GET /api/export (see backend/src/services/backup.service.ts). Bump the
+// version when the shape changes, and upgrade older files in upgradeBackup.
+export const BACKUP_FORMAT = 'naggle-backup';
+export const BACKUP_VERSION = 1;
+
+const MAX_ERRORS = 20;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Everything wrong with a backup file (empty when it's fine) - stops after a few.
+// Checked with the same schema as the backend's import, so a file that imports here imports there.
+export function validateBackup(data: unknown): string[] {
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    return ['Not a Naggle backup'];
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    return ['Backup version is missing'];
+  }
+  if (data.version > BACKUP_VERSION) {
+    return [`Backup version ${data.version} is newer than this app understands (${BACKUP_VERSION})`];
+  }
+
+  const result = backupSchema.safeParse(data);
+  if (result.success) return [];
+  return describeIssues(result.error)
+    .slice(0, MAX_ERRORS)
+    .map(({ path, message }) => (path ? `${path}: ${message}` : message));
+}
+
+// Older backup versions are brought up to date here, one version at a time
+function upgradeBackup(backup: Backup): Backup {
+  return backup;
+}
+
+export async function createBackup(): Promise<Backup> {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    tasks: await getTasks(),
+    schedules: await getSchedules(),
+    templates: await getTemplates(),
+    settings: getSettings(),
+    activeScheduleId: getActiveScheduleId() || undefined
+  };
+}
+
+// Task estimates are stored in the current time unit, so imported tasks are converted to it
+function convertTasks(tasks: Task[], from: AppSettings['timeUnit'], to: AppSettings['timeUnit']): Task[] {
+  if (from === to) return tasks;
+  const factor = to === 'minutes' ? 60 : 1 / 60;
+  return tasks.map(task => ({
+    ...task,
+    estimatedHours: task.estimatedHours * factor,
+    originalEstimatedHours: task.originalEstimatedHours !== undefined ? task.originalEstimatedHours * factor : undefined,
+    hoursCompleted: task.hoursCompleted * factor
+  }));
+}
+
+// Call validateBackup first. Imported records are stamped as changed now, so sync pushes
+// them over older copies on the server. Records whose ID is already taken are skipped
+// when merging.
+export async function importBackup(data: Backup, mode: ImportMode): Promise<ImportResult> {
+  const backup = upgradeBackup(data);
+  const updatedAt = new Date().toISOString();
+  const stamp = <T extends { updatedAt?: string }>(item: T): T => ({ ...item, updatedAt });
+
+  if (mode === 'replace') {
+    // Whatever is running goes into the session history before it disappears
+    await endActiveSession('ended');
+
+    await saveTasks(backup.tasks.map(stamp));
+    await saveSchedules(backup.schedules.map(stamp));
+    await saveTemplates(backup.templates);
+    saveSettings({ ...backup.settings, escalation: backup.settings.escalation || DEFAULT_ESCALATION_POLICY });
+    if (backup.activeScheduleId) {
+      await activateSchedule(backup.activeScheduleId);
+    }
+
+    return { tasks: backup.tasks.length, schedules: backup.schedules.length, templates: backup.templates.length };
+  }
+
+  const tasks = await getTasks();
+  const schedules = await getSchedules();
+  const templates = await getTemplates();
+  const isNew = (existing: { id: string }[]) => (item: { id: string }) => !existing.some(e => e.id === item.id);
+
+  const newTasks = convertTasks(backup.tasks.filter(isNew(tasks)), backup.settings.timeUnit, getSettings().timeUnit);
+  const newSchedules = backup.schedules.filter(isNew(schedules));
+  const newTemplates = backup.templates.filter(isNew(templates));
+
+  await saveTasks([...tasks, ...newTasks.map(stamp)]);
+  await saveSchedules([...schedules, ...newSchedules.map(stamp)]);
+  await saveTemplates([...templates, ...newTemplates]);
+
+  return { tasks: newTasks.length, schedules: newSchedules.length, templates: newTemplates.length };
+}
+
+// RFC 4180: quote fields with commas, quotes or line breaks, doubling the quotes
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number | undefined)[][]): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function tasksToCsv(tasks: Task[], timeUnit: AppSettings['timeUnit']): string {
+  return toCsv(
+    ['Title', 'Priority', `Estimate (${timeUnit})`, `Completed (${timeUnit})`, 'Due date', 'Due time', 'Created'],
+    tasks.map(task => [
+      task.title,
+      task.priority,
+      task.estimatedHours,
+      task.hoursCompleted,
+      task.dueDate,
+      task.dueTime,
+      task.createdAt
+    ])
+  );
+}
+
+// One row per finished task chunk, oldest first
+export function completedChunksToCsv(schedules: Schedule[]): string {
+  const rows: { schedule: Schedule; chunk: ScheduleChunk }[] = schedules.flatMap(schedule =>
+    schedule.chunks
+      .filter(chunk => chunk.type === 'task' && chunk.completed)
+      .map(chunk => ({ schedule, chunk }))
+  );
+  rows.sort((a, b) => `${a.schedule.date} ${a.chunk.startTime}`.localeCompare(`${b.schedule.date} ${b.chunk.startTime}`));
+
+  return toCsv(
+    ['Date', 'Schedule', 'Task', 'Priority', 'Start', 'End', 'Planned minutes', 'Focus minutes', 'Completed at'],
+    rows.map(({ schedule, chunk }) => [
+      schedule.date,
+      schedule.name,
+      chunk.taskTitle,
+      chunk.taskPriority,
+      chunk.startTime,
+      chunk.endTime,
+      chunk.durationMinutes,
+      chunk.focusMinutes,
+      chunk.completedAt
+    ])
+  );
+}
+
+export async function downloadBackup(): Promise<void> {
+  downloadFile(`naggle-backup-${getTodayDate()}.json`, JSON.stringify(await createBackup(), null, 2), 'application/json');
+}
+
+export async function downloadTasksCsv(): Promise<void> {
+  downloadFile(`naggle-tasks-${getTodayDate()}.csv`, tasksToCsv(await getTasks(), getSettings().timeUnit), 'text/csv;charset=utf-8');
+}
+
+export async function downloadCompletedChunksCsv(): Promise<void> {
+  downloadFile(`naggle-completed-${getTodayDate()}.csv`, completedChunksToCsv(await getSchedules()), 'text/csv;charset=utf-8');
+}
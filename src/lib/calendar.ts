@@ -0,0 +1,313 @@
+import { BusyBlock, Schedule } from '../types';
+import { api, ApiError } from './api';
+import { downloadFile, generateId, minutesToTime } from './utils';
+import { addDays, buildCalendar, getLocalClock, zonedTimeToUtc } from '../../backend/src/types/shared';
+
+// iCalendar (RFC 5545) export - built by the same code as the server's feed (see
+// buildCalendar in backend/src/types/shared.ts): one event per chunk, breaks included.
+
+export type CalendarFeed = {
+  token: string;
+  timeZone: string;
+  createdAt: string;
+};
+
+// Chunk times are wall-clock times here, so the browser's zone does the conversion
+export function buildScheduleCalendar(schedules: Schedule[], name: string): string {
+  return buildCalendar(schedules, { name, toInstant: (date, time) => new Date(`${date}T${time.slice(0, 5)}`) });
+}
+
+export function downloadScheduleCalendar(schedule: Schedule): void {
+  const name = schedule.name || `Schedule ${schedule.date}`;
+  const filename = `${name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'schedule'}.ics`;
+  downloadFile(filename, buildScheduleCalendar([schedule], name), 'text/calendar;charset=utf-8');
+}
+
+// Subscribable feed - signed-in users only. null when there isn't one yet.
+export async function fetchCalendarFeed(): Promise<CalendarFeed | null> {
+  try {
+    return await api.get<CalendarFeed>('/api/calendar/feed');
+  } catch (error) {
+    if (error instanceof ApiError && error.code === 'NOT_FOUND') return null;
+    throw error;
+  }
+}
+
+// Also used to get a new URL - the old one stops working
+export function createCalendarFeed(): Promise<CalendarFeed> {
+  return api.post<CalendarFeed>('/api/calendar/feed', {
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+  });
+}
+
+export async function deleteCalendarFeed(): Promise<void> {
+  await api.delete('/api/calendar/feed');
+}
+
+// Import: events from an .ics file become busy blocks on a given day. Enough of
+// RFC 5545 for what calendar apps export - DAILY and WEEKLY repeats (other repeats
+// only count once), EXDATE and moved occurrences. All-day, free and cancelled
+// events are left out.
+
+export type CalendarEvent = {
+  uid: string;
+  title: string;
+  date: string; // YYYY-MM-DD, wall clock in timeZone
+  time: string; // HH:mm, wall clock in timeZone
+  timeZone: string | null; // null = floating, i.e. the browser's zone
+  durationMinutes: number;
+  repeat?: {
+    frequency: 'DAILY' | 'WEEKLY';
+    interval: number;
+    weekdays: number[]; // 0 = Sunday, WEEKLY only
+    until?: string; // ISO timestamp
+    count?: number;
+  };
+  excludedDates: string[]; // YYYY-MM-DD in timeZone
+};
+
+type Property = { name: string; params: Record<string, string>; value: string };
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function parseProperty(line: string): Property | null {
+  // The value starts at the first colon that isn't inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, value = ''] = part.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+}
+
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// The instant a wall-clock date and time happen in a time zone (null = the browser's)
+function zonedTimeToDate(date: string, time: string, timeZone: string | null): Date {
+  return timeZone ? zonedTimeToUtc(date, time, timeZone) : new Date(`${date}T${time}`);
+}
+
+// DTSTART-style value as a wall clock and zone; null for all-day dates
+function parseDateTime(property: Property): { date: string; time: string; timeZone: string | null } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})\d{2}(Z?)$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, utc] = match;
+  const tzid = property.params.TZID;
+  return {
+    date: `${year}-${month}-${day}`,
+    time: `${hours}:${minutes}`,
+    // Zones only Outlook knows (e.g. "Pacific Standard Time") fall back to the browser's
+    timeZone: utc ? 'UTC' : tzid && isKnownTimeZone(tzid) ? tzid : null
+  };
+}
+
+// The date an EXDATE or RECURRENCE-ID value falls on in the event's zone - given in
+// UTC or another zone, an evening occurrence can be on the next day there
+function toEventDate(value: string, params: Record<string, string>, timeZone: string | null): string {
+  const dateTime = parseDateTime({ name: 'EXDATE', params, value });
+  if (!dateTime) return value.slice(0, 8).replace(/(\d{4})(\d{2})(\d{2})/, '$1-$2-$3');
+  if (dateTime.timeZone === timeZone) return dateTime.date;
+
+  const instant = zonedTimeToDate(dateTime.date, dateTime.time, dateTime.timeZone);
+  return getLocalClock(instant, timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone).date;
+}
+
+function parseDurationMinutes(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (Number(weeks || 0) * 7 + Number(days || 0)) * 24 * 60 + Number(hours || 0) * 60 + Number(minutes || 0);
+  return sign === '-' ? -total : total;
+}
+
+function parseRepeat(value: string, start: { date: string; time: string; timeZone: string | null }): CalendarEvent['repeat'] {
+  const rule: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    rule[key.toUpperCase()] = val;
+  });
+  if (rule.FREQ !== 'DAILY' && rule.FREQ !== 'WEEKLY') return undefined;
+
+  let until: string | undefined;
+  if (rule.UNTIL) {
+    const untilTime = parseDateTime({ name: 'UNTIL', params: {}, value: rule.UNTIL });
+    until = untilTime
+      ? zonedTimeToDate(untilTime.date, untilTime.time, untilTime.timeZone).toISOString()
+      : zonedTimeToDate(`${rule.UNTIL.slice(0, 4)}-${rule.UNTIL.slice(4, 6)}-${rule.UNTIL.slice(6, 8)}`, '23:59', start.timeZone).toISOString();
+  }
+
+  const weekdays = (rule.BYDAY || '')
+    .split(',')
+    .map(day => WEEKDAYS.indexOf(day.slice(-2)))
+    .filter(day => day !== -1);
+
+  return {
+    frequency: rule.FREQ,
+    interval: Math.max(1, parseInt(rule.INTERVAL) || 1),
+    weekdays: weekdays.length > 0 ? weekdays : [getWeekday(start.date)],
+    until,
+    count: rule.COUNT ? parseInt(rule.COUNT) : undefined
+  };
+}
+
+export function parseCalendar(text: string): CalendarEvent[] {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new Error('This is not an iCalendar (.ics) file');
+  }
+
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  const moved: { uid: string; recurrenceId: Property }[] = [];
+  let properties: Property[] | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line)) {
+      properties = [];
+    } else if (properties && /^END:VEVENT$/i.test(line)) {
+      const event = toCalendarEvent(properties);
+      const recurrenceId = properties.find(p => p.name === 'RECURRENCE-ID');
+      if (event) events.push(event);
+      if (event && recurrenceId) moved.push({ uid: event.uid, recurrenceId });
+      properties = null;
+    } else if (properties) {
+      const property = parseProperty(line);
+      if (property) properties.push(property);
+    }
+  }
+
+  // A moved occurrence shows up as its own event - drop it from the series
+  for (const { uid, recurrenceId } of moved) {
+    const series = events.find(e => e.uid === uid && e.repeat);
+    series?.excludedDates.push(toEventDate(recurrenceId.value, recurrenceId.params, series.timeZone));
+  }
+
+  return events;
+
+  function toCalendarEvent(properties: Property[]): CalendarEvent | null {
+    const get = (name: string) => properties.find(p => p.name === name);
+
+    const startProperty = get('DTSTART');
+    const start = startProperty && parseDateTime(startProperty);
+    if (!start) return null;
+
+    const status = get('STATUS')?.value.toUpperCase();
+    const transparency = get('TRANSP')?.value.toUpperCase();
+    if (status === 'CANCELLED' || transparency === 'TRANSPARENT') return null;
+
+    const endProperty = get('DTEND');
+    const end = endProperty && parseDateTime(endProperty);
+    const durationProperty = get('DURATION');
+    const durationMinutes = end
+      ? Math.round((zonedTimeToDate(end.date, end.time, end.timeZone).getTime() -
+          zonedTimeToDate(start.date, start.time, start.timeZone).getTime()) / 60000)
+      : durationProperty ? parseDurationMinutes(durationProperty.value) : null;
+    if (!durationMinutes || durationMinutes <= 0) return null;
+
+    const repeatProperty = get('RRULE');
+    return {
+      uid: get('UID')?.value || generateId(),
+      title: unescapeText(get('SUMMARY')?.value || 'Busy'),
+      ...start,
+      durationMinutes,
+      repeat: repeatProperty && !get('RECURRENCE-ID') ? parseRepeat(repeatProperty.value, start) : undefined,
+      excludedDates: properties
+        .filter(p => p.name === 'EXDATE')
+        .flatMap(p => p.value.split(',').map(value => toEventDate(value, p.params, start.timeZone)))
+    };
+  }
+}
+
+// Whether the event starts on this date - a wall-clock date in the event's zone
+function occursOn(event: CalendarEvent, date: string): boolean {
+  if (event.excludedDates.includes(date)) return false;
+  if (date === event.date) return true;
+  const { repeat } = event;
+  if (!repeat || date < event.date) return false;
+
+  const matches = (day: string) => {
+    if (repeat.frequency === 'DAILY') return daysBetween(event.date, day) % repeat.interval === 0;
+    // Weeks start on Monday
+    const weekStart = (d: string) => addDays(d, -((getWeekday(d) + 6) % 7));
+    const weeks = daysBetween(weekStart(event.date), weekStart(day)) / 7;
+    return repeat.weekdays.includes(getWeekday(day)) && weeks % repeat.interval === 0;
+  };
+  if (!matches(date)) return false;
+
+  if (repeat.until && zonedTimeToDate(date, event.time, event.timeZone).toISOString() > repeat.until) {
+    return false;
+  }
+
+  if (repeat.count !== undefined) {
+    // Excluded occurrences still count towards COUNT
+    let occurrences = 0;
+    for (let day = event.date; day <= date; day = addDays(day, 1)) {
+      if (day === event.date || matches(day)) occurrences++;
+    }
+    if (occurrences > repeat.count) return false;
+  }
+
+  return true;
+}
+
+// The parts of the events that fall on a date (in the browser's zone), as HH:mm blocks
+export function getBusyBlocks(events: CalendarEvent[], date: string): BusyBlock[] {
+  const dayStart = new Date(`${date}T00:00`).getTime();
+  const dayEnd = new Date(`${addDays(date, 1)}T00:00`).getTime();
+  const toMinutes = (instant: number) => Math.round((instant - dayStart) / 60000);
+  const blocks: BusyBlock[] = [];
+
+  for (const event of events) {
+    // The event's own zone can be a day ahead or behind
+    for (const day of [addDays(date, -1), date, addDays(date, 1)]) {
+      if (!occursOn(event, day)) continue;
+
+      const start = zonedTimeToDate(day, event.time, event.timeZone).getTime();
+      const end = start + event.durationMinutes * 60 * 1000;
+      if (end <= dayStart || start >= dayEnd) continue;
+
+      blocks.push({
+        id: `${event.uid}/${day}`,
+        title: event.title,
+        startTime: minutesToTime(Math.max(0, toMinutes(start))),
+        // Running past midnight ends the block at the last minute of the day
+        endTime: minutesToTime(Math.min(24 * 60 - 1, toMinutes(end)))
+      });
+    }
+  }
+
+  return blocks.sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
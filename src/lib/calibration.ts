@@ -0,0 +1,9 @@
+import { Task, Schedule } from '../types';
+import { CalibrationSample, getCalibrationSamples } from '../../backend/src/types/shared';
+import { getEstimateAccuracy } from './insights';
+
+// Calibration samples from what's stored on this device - the calibration itself is
+// worked out in backend/src/types/shared.ts, where the server's tests can reach it
+export function buildCalibration(tasks: Task[], schedules: Schedule[]): CalibrationSample[] {
+  return getCalibrationSamples(getEstimateAccuracy(tasks, schedules), tasks);
+}
@@ -0,0 +1,176 @@
+import { Schedule, ScheduleSession, ScheduleTemplate, STORAGE_KEYS, Task } from '../types';
+import { readStored, setAside, upgrades, Upgrades } from './storageSchema';
+
+// IndexedDB holds one record per task, schedule, template and finished session, so
+// saving a schedule writes that schedule and nothing else. Settings and the active
+// schedule stay in localStorage - they're small and read synchronously at startup.
+
+const DB_NAME = 'nagging_app';
+const DB_VERSION = 2;
+
+export type StoreName = 'tasks' | 'schedules' | 'templates' | 'sessions';
+
+// Puts and deletes per store, applied in one transaction
+export type RecordWrites = Partial<Record<StoreName, { put?: object[]; delete?: string[] }>>;
+
+// Schedules are indexed by the tasks their chunks work on
+export type ScheduleRecord = Schedule & { taskIds: string[] };
+
+// What used to live in localStorage, one JSON blob per key
+const LEGACY_KEYS: Record<StoreName, string> = {
+  tasks: STORAGE_KEYS.tasks,
+  schedules: STORAGE_KEYS.schedules,
+  templates: STORAGE_KEYS.templates,
+  sessions: STORAGE_KEYS.sessionHistory
+};
+
+// Records are upgraded a step per database version, like localStorage payloads (see
+// storageSchema.ts). Version 1 is the shape they were moved out of localStorage with.
+const RECORD_UPGRADES: Record<StoreName, Upgrades<unknown>> = {
+  // Estimate accuracy compares against the first estimate
+  tasks: upgrades<Task>(1).then(task => ({
+    ...task,
+    originalEstimatedHours: task.originalEstimatedHours ?? task.estimatedHours
+  })),
+  schedules: upgrades<ScheduleRecord>(1),
+  templates: upgrades<ScheduleTemplate>(1),
+  sessions: upgrades<ScheduleSession>(1)
+};
+
+let opening: Promise<IDBDatabase> | null = null;
+
+export function toScheduleRecord(schedule: Schedule): ScheduleRecord {
+  const taskIds = schedule.chunks.filter(c => c.type === 'task' && c.taskId).map(c => c.taskId);
+  return { ...schedule, taskIds: [...new Set(taskIds)] };
+}
+
+export function fromScheduleRecord(record: ScheduleRecord): Schedule {
+  const { taskIds: _taskIds, ...schedule } = record;
+  return schedule;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function whenDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function createStores(db: IDBDatabase): void {
+  const tasks = db.createObjectStore('tasks', { keyPath: 'id' });
+  tasks.createIndex('dueDate', 'dueDate');
+
+  const schedules = db.createObjectStore('schedules', { keyPath: 'id' });
+  schedules.createIndex('date', 'date');
+  schedules.createIndex('taskIds', 'taskIds', { multiEntry: true });
+
+  db.createObjectStore('templates', { keyPath: 'id' });
+
+  const sessions = db.createObjectStore('sessions', { keyPath: 'id' });
+  sessions.createIndex('endedAt', 'endedAt');
+}
+
+// One-time move out of localStorage, upgrading old payloads on the way (see
+// storageSchema.ts). It runs inside the upgrade transaction, so it lands completely or
+// not at all; the old keys are removed once the database is open.
+function moveFromLocalStorage(tx: IDBTransaction): void {
+  const put = (store: StoreName, records: object[] = []) => records.forEach(record => tx.objectStore(store).put(record));
+  put('tasks', readStored<Task[]>(LEGACY_KEYS.tasks));
+  put('schedules', readStored<Schedule[]>(LEGACY_KEYS.schedules)?.map(toScheduleRecord));
+  put('templates', readStored<ScheduleTemplate[]>(LEGACY_KEYS.templates));
+  put('sessions', readStored<ScheduleSession[]>(LEGACY_KEYS.sessions));
+}
+
+// Brings every record stored at an older version up to date, inside the upgrade
+// transaction. A record an upgrade fails on is set aside rather than blocking the app.
+function upgradeRecords(tx: IDBTransaction, from: number): void {
+  for (const [store, { since, steps }] of Object.entries(RECORD_UPGRADES) as [StoreName, Upgrades<unknown>][]) {
+    const pending = steps.slice(Math.max(from, since) - since);
+    if (pending.length === 0) continue;
+
+    tx.objectStore(store).openCursor().onsuccess = event => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      try {
+        cursor.update(pending.reduce((record, step) => step(record), cursor.value));
+      } catch (error) {
+        setAside(store, `upgrade failed: ${error instanceof Error ? error.message : error}`, JSON.stringify(cursor.value));
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!opening) {
+    opening = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let moved = false;
+
+      request.onupgradeneeded = event => {
+        const tx = request.transaction!;
+        if (event.oldVersion < 1) {
+          createStores(request.result);
+          moveFromLocalStorage(tx);
+          moved = true;
+        }
+        upgradeRecords(tx, event.oldVersion);
+      };
+      request.onsuccess = () => {
+        if (moved) {
+          Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+        }
+        // Let a newer version of the app in another tab upgrade the database
+        request.result.onversionchange = () => request.result.close();
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        opening = null;
+        reject(request.error);
+      };
+    });
+  }
+  return opening;
+}
+
+export async function getRecord<T>(store: StoreName, id: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return toPromise<T | undefined>(db.transaction(store).objectStore(store).get(id));
+}
+
+// Every record of a store, or with an index, the ones matching the query in index order
+export async function getRecords<T>(store: StoreName, index?: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]> {
+  const db = await openDatabase();
+  const objectStore = db.transaction(store).objectStore(store);
+  return toPromise<T[]>(index ? objectStore.index(index).getAll(query) : objectStore.getAll());
+}
+
+export async function writeRecords(writes: RecordWrites): Promise<void> {
+  const stores = Object.keys(writes) as StoreName[];
+  if (stores.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(stores, 'readwrite');
+  for (const store of stores) {
+    const objectStore = tx.objectStore(store);
+    writes[store]!.delete?.forEach(id => objectStore.delete(id));
+    writes[store]!.put?.forEach(record => objectStore.put(record));
+  }
+  return whenDone(tx);
+}
+
+export async function clearRecords(stores: StoreName[]): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, 'readwrite');
+  stores.forEach(store => tx.objectStore(store).clear());
+  return whenDone(tx);
+}
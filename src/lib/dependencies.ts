@@ -0,0 +1,38 @@
+import { Task } from '../types';
+
+// Would letting taskId depend on dependsOn create a dependency cycle?
+export function wouldCreateCycle(tasks: Task[], taskId: string, dependsOn: string[]): boolean {
+  const graph = new Map<string, string[]>(
+    tasks.map(t => [t.id, t.id === taskId ? dependsOn : t.dependsOn || []])
+  );
+  if (!graph.has(taskId)) graph.set(taskId, dependsOn);
+
+  // Walk prerequisites from taskId - reaching taskId again means a cycle
+  const stack = [...dependsOn];
+  const visited = new Set<string>();
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(graph.get(current) || []));
+  }
+
+  return false;
+}
+
+// Prerequisites of a task that are not finished yet
+export function getIncompletePrerequisites(task: Task, tasks: Task[]): Task[] {
+  return (task.dependsOn || [])
+    .map(depId => tasks.find(t => t.id === depId))
+    .filter((t): t is Task => !!t && t.hoursCompleted < t.estimatedHours);
+}
+
+// Drop references to a deleted task from everything that depended on it
+export function removeDependencyOn(tasks: Task[], deletedTaskId: string): Task[] {
+  return tasks.map(t =>
+    t.dependsOn?.includes(deletedTaskId)
+      ? { ...t, dependsOn: t.dependsOn.filter(id => id !== deletedTaskId) }
+      : t
+  );
+}
@@ -0,0 +1,23 @@
+import { AppSettings, EscalationPolicy, ScheduleChunk, Task } from '../types';
+import { DEFAULT_ESCALATION_POLICY, EscalatedNag, getEscalatedNags } from '../../backend/src/types/shared';
+
+export const ESCALATION_LEVEL_NAMES = ['Calm', 'Firm', 'Insistent'];
+
+export function resolveEscalationPolicy(task: Task | undefined, settings: AppSettings): EscalationPolicy {
+  return task?.escalation || settings.escalation || DEFAULT_ESCALATION_POLICY;
+}
+
+// Every nag of a chunk running from chunkStart to chunkEnd, at epoch milliseconds.
+// Answering a nag calms things down again.
+export function getChunkNags(
+  chunk: ScheduleChunk,
+  chunkStart: number,
+  chunkEnd: number,
+  policy: EscalationPolicy
+): EscalatedNag[] {
+  if (chunk.type !== 'task') return [];
+
+  const lastInteraction = chunk.lastInteractionAt ? new Date(chunk.lastInteractionAt).getTime() : 0;
+  const snoozedUntil = chunk.snoozedUntil ? new Date(chunk.snoozedUntil).getTime() : 0;
+  return getEscalatedNags(chunkStart, chunkEnd, chunk.nagIntervalMinutes, snoozedUntil, lastInteraction, policy, 60 * 1000);
+}
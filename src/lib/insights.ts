@@ -0,0 +1,103 @@
+import { Insights, Task, Schedule, ScheduleChunk } from '../types';
+import { fillDays, fillWeeks, getStreak } from '../../backend/src/types/shared';
+import { api, isAuthenticated } from './api';
+import { getTasks, getSchedules } from './storage';
+import { getTodayDate } from './utils';
+
+const DAYS = 14;
+const WEEKS = 8;
+
+// Focus time of a completed chunk - chunks completed before tracking count their planned length
+const focusOf = (chunk: ScheduleChunk) => chunk.focusMinutes ?? chunk.durationMinutes;
+
+// Each task with tracked time: the estimate it was created with next to the focus time
+// it actually took
+export function getEstimateAccuracy(tasks: Task[], schedules: Schedule[]): Insights['estimates'] {
+  const actualByTask = new Map<string, number>();
+  schedules.forEach(schedule => schedule.chunks.forEach(chunk => {
+    if (chunk.type !== 'task' || !chunk.completed) return;
+    actualByTask.set(chunk.taskId, (actualByTask.get(chunk.taskId) || 0) + focusOf(chunk));
+  }));
+
+  return tasks
+    .filter(task => actualByTask.has(task.id))
+    .map(task => ({
+      taskId: task.id,
+      title: task.title,
+      estimatedMinutes: Math.round((task.originalEstimatedHours ?? task.estimatedHours) * 60),
+      actualMinutes: actualByTask.get(task.id)!,
+      finished: task.hoursCompleted >= task.estimatedHours
+    }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+// Same numbers the /api/insights endpoints work out, from what's stored on this device
+export function computeInsights(tasks: Task[], schedules: Schedule[], today: string): Insights {
+  const chunks = schedules.flatMap(schedule =>
+    schedule.chunks.filter(c => c.type === 'task').map(chunk => ({ chunk, date: schedule.date }))
+  );
+  const completed = chunks.filter(({ chunk }) => chunk.completed);
+
+  const minutesByDate = new Map<string, number>();
+  completed.filter(({ date }) => date <= today).forEach(({ chunk, date }) => {
+    minutesByDate.set(date, (minutesByDate.get(date) || 0) + focusOf(chunk));
+  });
+
+  // Chunks still ahead today don't count against the rate
+  const settled = chunks.filter(({ chunk, date }) => date < today || (date === today && (chunk.completed || chunk.skipped)));
+  const completedCount = settled.filter(({ chunk }) => chunk.completed).length;
+
+  const byTask = new Map<string, Insights['time']['byTask'][number]>();
+  const byPriority = new Map<Task['priority'], number>();
+  completed.forEach(({ chunk }) => {
+    const task = tasks.find(t => t.id === chunk.taskId);
+    // Deleted tasks are listed under their chunks' title
+    const key = task ? task.id : `title:${chunk.taskTitle}`;
+    const entry = byTask.get(key) || { taskId: task?.id || null, title: task?.title || chunk.taskTitle, minutes: 0 };
+    entry.minutes += focusOf(chunk);
+    byTask.set(key, entry);
+
+    byPriority.set(chunk.taskPriority, (byPriority.get(chunk.taskPriority) || 0) + focusOf(chunk));
+  });
+
+  return {
+    focus: {
+      daily: fillDays(minutesByDate, today, DAYS),
+      weekly: fillWeeks(minutesByDate, today, WEEKS)
+    },
+    completion: {
+      planned: settled.length,
+      completed: completedCount,
+      skipped: settled.filter(({ chunk }) => !chunk.completed && chunk.skipped).length,
+      rate: settled.length > 0 ? completedCount / settled.length : null
+    },
+    time: {
+      byTask: [...byTask.values()].sort((a, b) => b.minutes - a.minutes),
+      byPriority: [...byPriority.entries()]
+        .map(([priority, minutes]) => ({ priority, minutes }))
+        .sort((a, b) => b.minutes - a.minutes)
+    },
+    streak: getStreak(completed.map(({ date }) => date), today),
+    estimates: getEstimateAccuracy(tasks, schedules)
+  };
+}
+
+// Signed in, the server's numbers cover every device; this device's data is the fallback
+export async function fetchInsights(): Promise<Insights> {
+  const today = getTodayDate();
+  if (!isAuthenticated()) return computeInsights(await getTasks(), await getSchedules(), today);
+
+  try {
+    const [focus, completion, time, streak, estimates] = await Promise.all([
+      api.get<Insights['focus']>(`/api/insights/focus?today=${today}&days=${DAYS}&weeks=${WEEKS}`),
+      api.get<Insights['completion']>(`/api/insights/completion?today=${today}`),
+      api.get<Insights['time']>('/api/insights/time'),
+      api.get<Insights['streak']>(`/api/insights/streak?today=${today}`),
+      api.get<Insights['estimates']>('/api/insights/estimates')
+    ]);
+    return { focus, completion, time, streak, estimates };
+  } catch (error) {
+    console.error('Failed to load insights:', error);
+    return computeInsights(await getTasks(), await getSchedules(), today);
+  }
+}
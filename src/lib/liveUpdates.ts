@@ -0,0 +1,65 @@
+import { api } from './api';
+import { syncAgain } from './sync';
+
+// Changes made on the user's other devices, as they happen. Events only name what
+// changed (see ChangeEvent in backend/src/types); every change - active schedule
+// switches included - is then pulled through the regular sync.
+
+const RETRY_DELAY_MS = 3 * 1000; // After a dropped connection
+const RECONNECT_DELAY_MS = 30 * 1000; // After the server turned the stream down, or couldn't be reached
+
+// Listen while signed in - returns a function that stops listening.
+// onRemoteChange runs whenever an event changed what's stored locally.
+export function startLiveUpdates(onRemoteChange: () => void): () => void {
+  let source: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+  let connectedBefore = false;
+
+  const handleChange = async () => {
+    const changed = await syncAgain();
+    if (!stopped && changed) onRemoteChange();
+  };
+
+  const connect = async () => {
+    let url: string | null;
+    try {
+      url = await api.getEventStreamUrl();
+    } catch {
+      if (!stopped) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      return;
+    }
+    if (!url || stopped) return;
+
+    source = new EventSource(url);
+    source.addEventListener('change', handleChange);
+
+    // Events sent while we were disconnected are gone - catch up through sync
+    source.onopen = () => {
+      if (connectedBefore) {
+        syncAgain().then(changed => {
+          if (!stopped && changed) onRemoteChange();
+        });
+      }
+      connectedBefore = true;
+    };
+
+    // EventSource would retry a dropped connection with the same ticket, which is soon
+    // expired - so every retry is ours, with a new one. It gives up on error responses.
+    source.onerror = () => {
+      if (!source) return;
+      const dropped = source.readyState === EventSource.CONNECTING;
+      source.close();
+      source = null;
+      reconnectTimer = setTimeout(connect, dropped ? RETRY_DELAY_MS : RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    source?.close();
+  };
+}
@@ -1,4 +1,7 @@
-import { ScheduleChunk } from '../types';
+import { EscalationPolicy, Schedule, ScheduleChunk } from '../types';
+import { getChunkNags } from './escalation';
+import { getEndMessage, getNagMessage, getStartMessage } from '../../backend/src/types/shared';
+import { api } from './api';
 
 export async function requestNotificationPermission(): Promise<boolean> {
   if (!('Notification' in window)) {
@@ -16,63 +19,107 @@ export async function requestNotificationPermission(): Promise<boolean> {
   return false;
 }
 
-// Cheeky notification messages based on progress through the task
-const getNagMessage = (taskTitle: string, progress: number): { title: string; body: string } => {
-  // Progress: 0-1 (0% to 100%)
-
-  if (progress < 0.25) {
-    // Early stage (0-25%)
-    const early = [
-      { title: "Just getting started?", body: `${taskTitle} - You've barely scratched the surface! Let's gooo!` },
-      { title: "Wakey wakey!", body: `${taskTitle} is calling... and it sounds impatient! 😤` },
-      { title: "Ahem... 👀", body: `${taskTitle} won't finish itself. No pressure though... 🙃` },
-      { title: "Still there?", body: `${taskTitle} is looking at you like 👁️👄👁️` },
-      { title: "Yoo-hoo! 👋", body: `${taskTitle} is feeling neglected. Show it some love!` }
-    ];
-    return early[Math.floor(Math.random() * early.length)];
-  } else if (progress < 0.5) {
-    // Quarter-way through (25-50%)
-    const quarter = [
-      { title: "Quarter of the way there!", body: `${taskTitle} - Looking good so far! Keep the momentum! 💪` },
-      { title: "Making progress!", body: `${taskTitle} - You're on a roll... don't stop now! 🔥` },
-      { title: "You're doing it!", body: `${taskTitle} - Past the awkward start phase. It's smooth sailing now!` },
-      { title: "Momentum check!", body: `${taskTitle} - You started strong! Let's finish stronger! 🚀` },
-      { title: "Nice pace!", body: `${taskTitle} - Keep this up and you'll be done before you know it!` }
-    ];
-    return quarter[Math.floor(Math.random() * quarter.length)];
-  } else if (progress < 0.75) {
-    // Halfway through (50-75%)
-    const half = [
-      { title: "Halfway there! 🎉", body: `${taskTitle} - You're crushing it! Don't give up now!` },
-      { title: "The home stretch!", body: `${taskTitle} - So close you can taste it! Keep going! 🏃` },
-      { title: "Past the halfway mark!", body: `${taskTitle} - It's all downhill from here! (in a good way) 📉✨` },
-      { title: "You're unstoppable!", body: `${taskTitle} - Giving up now would be silly. You're SO close! 💫` },
-      { title: "Look at you go!", body: `${taskTitle} - More than halfway done! Finish strong! 💪` }
-    ];
-    return half[Math.floor(Math.random() * half.length)];
-  } else {
-    // Final stretch (75-100%)
-    const final = [
-      { title: "Almost there!", body: `${taskTitle} - You can see the finish line! Sprint! 🏁` },
-      { title: "SO CLOSE!", body: `${taskTitle} - Just a little more... you've got this! 🎯` },
-      { title: "Final push!", body: `${taskTitle} - Don't stop now! Victory is near! 🏆` },
-      { title: "Nearly done!", body: `${taskTitle} - The end is in sight! Finish like a champion! ⭐` },
-      { title: "Last lap!", body: `${taskTitle} - You didn't come this far to only come this far! 🚀` }
-    ];
-    return final[Math.floor(Math.random() * final.length)];
-  }
-};
-
 interface NotificationInfo {
   nextNotificationAt: Date | null;
   allNotifications: Date[];
 }
 
+export type NagEvent = {
+  at: number; // Epoch milliseconds
+  kind: 'start' | 'nag' | 'end';
+  scheduleId: string;
+  chunkId: string;
+  title: string;
+  body: string;
+  tag: string;
+  requireInteraction: boolean;
+};
+
+// Start, nag and end notifications for a chunk between chunkStart and chunkEnd
+function buildChunkEvents(
+  chunk: ScheduleChunk,
+  scheduleId: string,
+  chunkStart: Date,
+  chunkEnd: Date,
+  now: Date,
+  policy: EscalationPolicy
+): NagEvent[] {
+  const events: NagEvent[] = [];
+  const base = { scheduleId, chunkId: chunk.id };
+
+  // Start notification
+  if (chunkStart.getTime() > now.getTime()) {
+    events.push({
+      ...base,
+      at: chunkStart.getTime(),
+      kind: 'start',
+      ...getStartMessage(chunk.taskTitle),
+      tag: 'chunk-start',
+      requireInteraction: false
+    });
+  }
+
+  // Nag notifications with context-aware messages, escalating while ignored
+  const totalDuration = chunkEnd.getTime() - chunkStart.getTime();
+  for (const nag of getChunkNags(chunk, chunkStart.getTime(), chunkEnd.getTime(), policy)) {
+    if (nag.at <= now.getTime()) continue;
+
+    // Calculate progress through the task
+    const elapsedTime = nag.at - chunkStart.getTime();
+    const message = getNagMessage(chunk.taskTitle, elapsedTime / totalDuration, nag.level);
+
+    events.push({
+      ...base,
+      at: nag.at,
+      kind: 'nag',
+      title: message.title,
+      body: message.body,
+      tag: 'nag',
+      requireInteraction: nag.requireInteraction
+    });
+  }
+
+  // End notification
+  if (chunkEnd.getTime() > now.getTime()) {
+    events.push({
+      ...base,
+      at: chunkEnd.getTime(),
+      kind: 'end',
+      ...getEndMessage(chunk.taskTitle),
+      tag: 'chunk-end',
+      requireInteraction: true
+    });
+  }
+
+  return events;
+}
+
+// Every upcoming notification of a schedule, on the schedule's own date
+export function buildScheduleTimeline(
+  schedule: Schedule,
+  getPolicy: (chunk: ScheduleChunk) => EscalationPolicy,
+  now: Date = new Date()
+): NagEvent[] {
+  return schedule.chunks
+    .filter(chunk => chunk.type === 'task' && !chunk.completed && !chunk.skipped)
+    .flatMap(chunk => buildChunkEvents(
+      chunk,
+      schedule.id,
+      new Date(`${schedule.date}T${chunk.startTime}:00`),
+      new Date(`${schedule.date}T${chunk.endTime}:00`),
+      now,
+      getPolicy(chunk)
+    ))
+    .sort((a, b) => a.at - b.at);
+}
+
 let activeCleanupFunction: (() => void) | null = null;
 
 export function startChunkNagging(
   chunk: ScheduleChunk,
-  onChunkEnd: () => void
+  policy: EscalationPolicy,
+  onChunkEnd: () => void,
+  onInteraction?: () => void
 ): { cleanup: () => void; info: NotificationInfo } {
   // Clear any existing notifications first
   if (activeCleanupFunction) {
@@ -81,7 +128,6 @@ export function startChunkNagging(
   }
 
   const timeouts: ReturnType<typeof setTimeout>[] = [];
-  const allNotificationTimes: Date[] = [];
   const now = new Date();
 
   // Parse chunk times
@@ -101,20 +147,7 @@ export function startChunkNagging(
     };
   }
 
-  // Start notification
-  const startDelay = chunkStart.getTime() - now.getTime();
-  if (startDelay > 0) {
-    allNotificationTimes.push(new Date(chunkStart));
-    timeouts.push(
-      setTimeout(() => {
-        new Notification('🎬 Action time!', {
-          body: `Time to work on: ${chunk.taskTitle}`,
-          requireInteraction: false,
-          tag: 'chunk-start'
-        });
-      }, startDelay)
-    );
-  } else if (now.getTime() < chunkEnd.getTime()) {
+  if (chunkStart.getTime() <= now.getTime()) {
     // Task already started but not finished - send immediate notification
     new Notification('⚡ Task in progress!', {
       body: `Currently working on: ${chunk.taskTitle}`,
@@ -122,54 +155,29 @@ export function startChunkNagging(
     });
   }
 
-  // Nag notifications with context-aware messages
-  if (chunk.nagIntervalMinutes > 0 && chunk.type === 'task') {
-    const nagInterval = chunk.nagIntervalMinutes * 60 * 1000;
-    const totalDuration = chunkEnd.getTime() - chunkStart.getTime();
-    let nextNagTime = Math.max(now.getTime(), chunkStart.getTime()) + nagInterval;
-
-    while (nextNagTime < chunkEnd.getTime()) {
-      const delay = nextNagTime - now.getTime();
-      if (delay > 0) {
-        allNotificationTimes.push(new Date(nextNagTime));
-
-        // Calculate progress through the task
-        const elapsedTime = nextNagTime - chunkStart.getTime();
-        const progress = elapsedTime / totalDuration;
-
-        timeouts.push(
-          setTimeout(() => {
-            const message = getNagMessage(chunk.taskTitle, progress);
-            new Notification(message.title, {
-              body: message.body,
-              tag: 'nag',
-              requireInteraction: false
-            });
-          }, delay)
-        );
-      }
-      nextNagTime += nagInterval;
-    }
-  }
-
-  // End notification
-  const endDelay = chunkEnd.getTime() - now.getTime();
-  if (endDelay > 0) {
-    allNotificationTimes.push(new Date(chunkEnd));
+  const events = buildChunkEvents(chunk, '', chunkStart, chunkEnd, now, policy);
+  for (const event of events) {
     timeouts.push(
       setTimeout(() => {
-        new Notification("⏰ Time's up!", {
-          body: `Finished with ${chunk.taskTitle}? Mark it complete!`,
-          requireInteraction: true,
-          tag: 'chunk-end'
+        const notification = new Notification(event.title, {
+          body: event.body,
+          tag: event.tag,
+          requireInteraction: event.requireInteraction
         });
-        onChunkEnd();
-      }, endDelay)
+        // Answering a nag calms the escalation down
+        notification.onclick = () => {
+          window.focus();
+          onInteraction?.();
+        };
+        if (event.kind === 'end') {
+          onChunkEnd();
+        }
+      }, event.at - now.getTime())
     );
   }
 
   // Sort notification times
-  allNotificationTimes.sort((a, b) => a.getTime() - b.getTime());
+  const allNotificationTimes = events.map(e => new Date(e.at)).sort((a, b) => a.getTime() - b.getTime());
   const nextNotification = allNotificationTimes.find(time => time.getTime() > now.getTime()) || null;
 
   // Cleanup function
@@ -197,4 +205,126 @@ export function clearAllNotifications(): void {
     activeCleanupFunction();
     activeCleanupFunction = null;
   }
+  clearServiceWorkerNagging();
+}
+
+// Service worker nagging - the worker owns the timeline so nags survive closed tabs
+
+export type NagAction = {
+  action: 'done' | 'snooze' | 'skip' | 'ack'; // ack: notification clicked or dismissed
+  scheduleId: string;
+  chunkId: string;
+  minutes?: number; // For snooze
+};
+
+const NAG_SERVICE_WORKER_URL = '/nag-sw.js';
+
+let nagWorkerRegistration: ServiceWorkerRegistration | null = null;
+
+export async function registerNagServiceWorker(): Promise<boolean> {
+  if (!('serviceWorker' in navigator)) return false;
+
+  try {
+    await navigator.serviceWorker.register(NAG_SERVICE_WORKER_URL);
+    nagWorkerRegistration = await navigator.serviceWorker.ready;
+    return true;
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return false;
+  }
+}
+
+export function isServiceWorkerNaggingAvailable(): boolean {
+  return !!nagWorkerRegistration?.active;
+}
+
+// Hand the whole schedule timeline to the service worker, replacing any previous one
+export function syncServiceWorkerNagging(
+  schedule: Schedule,
+  getPolicy: (chunk: ScheduleChunk) => EscalationPolicy
+): void {
+  nagWorkerRegistration?.active?.postMessage({
+    type: 'SET_TIMELINE',
+    scheduleId: schedule.id,
+    events: buildScheduleTimeline(schedule, getPolicy)
+  });
+}
+
+export function clearServiceWorkerNagging(): void {
+  nagWorkerRegistration?.active?.postMessage({ type: 'CLEAR_TIMELINE' });
+}
+
+// With server push on, the worker keeps the timeline but leaves the nagging to the
+// server - both would otherwise alert for the same nag
+export function setServiceWorkerPushActive(active: boolean): void {
+  nagWorkerRegistration?.active?.postMessage({ type: 'SET_PUSH_ACTIVE', active });
+}
+
+// Listen for notification actions and chunk ends reported by the service worker.
+// Actions taken while no tab was open are delivered once a listener subscribes.
+export function onServiceWorkerNagEvent(handlers: {
+  onAction: (action: NagAction) => void;
+  onChunkEnd: () => void;
+}): () => void {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'NAG_ACTION') {
+      handlers.onAction(event.data.payload as NagAction);
+    } else if (event.data?.type === 'CHUNK_END') {
+      handlers.onChunkEnd();
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('message', listener);
+  nagWorkerRegistration?.active?.postMessage({ type: 'FLUSH_ACTIONS' });
+
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+}
+
+// Server push - the backend sends nags for the active schedule even if the browser
+// has dropped the worker's local timers. While subscribed it's the only source of nags.
+
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + '='.repeat((4 - base64.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+export async function subscribeToServerPush(): Promise<boolean> {
+  if (!nagWorkerRegistration || !('PushManager' in window)) return false;
+
+  try {
+    const { publicKey } = await api.get<{ publicKey: string }>('/api/push/vapid-public-key');
+
+    const subscription = await nagWorkerRegistration.pushManager.getSubscription() ||
+      await nagWorkerRegistration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey)
+      });
+
+    await api.post('/api/push/subscriptions', {
+      subscription: subscription.toJSON(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    });
+    setServiceWorkerPushActive(true);
+    return true;
+  } catch (error) {
+    // Push not configured on the server, or permission denied - local nagging still works
+    console.error('Push subscription failed:', error);
+    setServiceWorkerPushActive(false);
+    return false;
+  }
+}
+
+export async function unsubscribeFromServerPush(): Promise<void> {
+  setServiceWorkerPushActive(false);
+  const subscription = await nagWorkerRegistration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  try {
+    await api.delete('/api/push/subscriptions', { endpoint: subscription.endpoint });
+  } catch (error) {
+    console.error('Push unsubscribe failed:', error);
+  }
+  await subscription.unsubscribe();
 }
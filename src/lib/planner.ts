@@ -0,0 +1,103 @@
+import { Task, Schedule, ScheduleBreak, WeeklyWorkingWindows } from '../types';
+import { generateSchedule } from './scheduler';
+import { generateId } from './utils';
+
+export const DEFAULT_WORKING_WINDOWS: WeeklyWorkingWindows = {
+  0: null,
+  1: { startTime: '09:00', endTime: '17:00' },
+  2: { startTime: '09:00', endTime: '17:00' },
+  3: { startTime: '09:00', endTime: '17:00' },
+  4: { startTime: '09:00', endTime: '17:00' },
+  5: { startTime: '09:00', endTime: '17:00' },
+  6: null
+};
+
+// All dates from startDate to endDate inclusive, in YYYY-MM-DD format
+export function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+
+  while (current.getTime() <= end.getTime()) {
+    dates.push(current.toISOString().split('T')[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+export function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Spread the remaining hours of tasks over every working day in the range,
+// using generateSchedule for each day. Returns one schedule per day that got work.
+export function generatePlan(input: {
+  tasks: Task[];
+  startDate: string;
+  endDate: string;
+  workingWindows: WeeklyWorkingWindows;
+  dailyBreaks: Omit<ScheduleBreak, 'id'>[];
+  defaultChunkSize: number;
+  defaultNagInterval: number;
+  name?: string;
+}): Schedule[] {
+  const planId = generateId();
+  const schedules: Schedule[] = [];
+
+  // Track progress as if earlier days in the plan were already worked
+  let plannedTasks = input.tasks.map(t => ({ ...t }));
+
+  for (const date of getDatesInRange(input.startDate, input.endDate)) {
+    const workingWindow = input.workingWindows[getWeekday(date)];
+    if (!workingWindow) continue;
+
+    if (plannedTasks.every(t => t.hoursCompleted >= t.estimatedHours)) break;
+
+    const schedule = generateSchedule({
+      tasks: plannedTasks,
+      startTime: workingWindow.startTime,
+      endTime: workingWindow.endTime,
+      breaks: input.dailyBreaks.map(b => ({ ...b, id: generateId() })),
+      defaultChunkSize: input.defaultChunkSize,
+      defaultNagInterval: input.defaultNagInterval,
+      date,
+      name: input.name ? `${input.name} (${date})` : undefined
+    });
+
+    if (!schedule.chunks.some(c => c.type === 'task')) continue;
+
+    schedules.push({ ...schedule, planId });
+
+    plannedTasks = plannedTasks.map(task => {
+      const scheduledMinutes = schedule.chunks
+        .filter(c => c.type === 'task' && c.taskId === task.id)
+        .reduce((total, c) => total + c.durationMinutes, 0);
+      return {
+        ...task,
+        hoursCompleted: Math.min(task.hoursCompleted + scheduledMinutes / 60, task.estimatedHours)
+      };
+    });
+  }
+
+  return schedules;
+}
+
+// Minutes of each task that could not fit anywhere in the plan
+export function getUnplannedMinutes(tasks: Task[], schedules: Schedule[]): Record<string, number> {
+  const unplanned: Record<string, number> = {};
+
+  for (const task of tasks) {
+    const remainingMinutes = Math.round((task.estimatedHours - task.hoursCompleted) * 60);
+    const plannedMinutes = schedules
+      .flatMap(s => s.chunks)
+      .filter(c => c.type === 'task' && c.taskId === task.id && !c.skipped)
+      .reduce((total, c) => total + c.durationMinutes, 0);
+
+    if (plannedMinutes < remainingMinutes) {
+      unplanned[task.id] = remainingMinutes - plannedMinutes;
+    }
+  }
+
+  return unplanned;
+}
@@ -0,0 +1,110 @@
+import { Task, Schedule, RecurrenceRule, ScheduleTemplate, AppSettings } from '../types';
+import { generateSchedule } from './scheduler';
+import { generateId } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_SHORT_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+export function matchesRecurrence(rule: RecurrenceRule, date: string): boolean {
+  if (date < rule.startDate) return false;
+
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+  switch (rule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return weekday >= 1 && weekday <= 5;
+    case 'weekly':
+      return (rule.daysOfWeek || []).includes(weekday);
+    case 'interval':
+      return daysBetween(rule.startDate, date) % Math.max(1, rule.intervalDays || 1) === 0;
+  }
+}
+
+// Most recent matching date on or before the given date (null if none yet)
+export function getLatestOccurrence(rule: RecurrenceRule, onOrBefore: string): string | null {
+  const lookback = Math.max(7, rule.intervalDays || 1);
+
+  for (let offset = 0; offset < lookback; offset++) {
+    const date = addDays(onOrBefore, -offset);
+    if (date < rule.startDate) return null;
+    if (matchesRecurrence(rule, date)) return date;
+  }
+
+  return null;
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.frequency) {
+    case 'daily':
+      return 'Every day';
+    case 'weekdays':
+      return 'Every weekday';
+    case 'weekly':
+      return `Weekly on ${[...(rule.daysOfWeek || [])].sort().map(d => WEEKDAY_SHORT_NAMES[d]).join(', ')}`;
+    case 'interval':
+      return `Every ${rule.intervalDays || 1} days`;
+  }
+}
+
+// Reset progress on recurring tasks whose next occurrence has arrived.
+// Returns the updated list and whether anything changed.
+export function applyTaskRecurrence(tasks: Task[], today: string): { tasks: Task[]; changed: boolean } {
+  let changed = false;
+
+  const updated = tasks.map(task => {
+    if (!task.recurrence) return task;
+
+    const latest = getLatestOccurrence(task.recurrence, today);
+    if (!latest || (task.lastRecurredOn && task.lastRecurredOn >= latest)) return task;
+
+    changed = true;
+    return { ...task, hoursCompleted: 0, lastRecurredOn: latest };
+  });
+
+  return { tasks: updated, changed };
+}
+
+// Build today's schedules from templates that match and haven't run yet
+export function instantiateTemplates(
+  templates: ScheduleTemplate[],
+  tasks: Task[],
+  settings: AppSettings,
+  today: string
+): { schedules: Schedule[]; templates: ScheduleTemplate[] } {
+  const schedules: Schedule[] = [];
+
+  const updatedTemplates = templates.map(template => {
+    if (template.lastCreatedOn === today || !matchesRecurrence(template.recurrence, today)) {
+      return template;
+    }
+
+    const schedule = generateSchedule({
+      tasks: tasks.filter(t => template.taskIds.includes(t.id)),
+      startTime: template.startTime,
+      endTime: template.endTime,
+      breaks: template.breaks.map(b => ({ ...b, id: generateId() })),
+      defaultChunkSize: template.defaultChunkSize,
+      defaultNagInterval: settings.defaultNagInterval,
+      date: today,
+      name: template.name
+    });
+
+    if (schedule.chunks.length > 0) {
+      schedules.push(schedule);
+    }
+
+    return { ...template, lastCreatedOn: today };
+  });
+
+  return { schedules, templates: updatedTemplates };
+}
@@ -1,11 +1,73 @@
-import { Task, Schedule, ScheduleChunk, ScheduleBreak } from '../types';
+import { Task, Schedule, ScheduleChunk, ScheduleBreak, BusyBlock } from '../types';
 import { generateId, timeToMinutes, minutesToTime } from './utils';
 
-function sortTasksByPriority(tasks: Task[]): Task[] {
+export type DeadlineWarning = {
+  taskId: string;
+  taskTitle: string;
+  dueDate: string;
+  dueTime: string;
+  remainingMinutes: number;
+  scheduledMinutes: number; // Minutes scheduled before the deadline
+};
+
+// Minutes from midnight of scheduleDate until the task is due (null if no due date)
+export function getDeadlineMinutes(task: Task, scheduleDate: string): number | null {
+  if (!task.dueDate) return null;
+
+  const dayDiff = Math.round(
+    (Date.parse(task.dueDate) - Date.parse(scheduleDate)) / (24 * 60 * 60 * 1000)
+  );
+  return dayDiff * 24 * 60 + timeToMinutes(task.dueTime || '23:59');
+}
+
+function getRemainingMinutes(task: Task): number {
+  return (task.estimatedHours - task.hoursCompleted) * 60;
+}
+
+// A prerequisite is due as early as the earliest deadline of anything waiting on it
+function getEffectiveDeadlines(tasks: Task[], scheduleDate: string): Map<string, number | null> {
+  const deadlines = new Map<string, number | null>();
+
+  const resolve = (task: Task, visited: Set<string>): number | null => {
+    if (deadlines.has(task.id)) return deadlines.get(task.id)!;
+    if (visited.has(task.id)) return null; // Cycle - ignore the back edge
+    visited.add(task.id);
+
+    let deadline = getDeadlineMinutes(task, scheduleDate);
+    for (const dependent of tasks.filter(t => t.dependsOn?.includes(task.id))) {
+      const dependentDeadline = resolve(dependent, visited);
+      if (dependentDeadline !== null && (deadline === null || dependentDeadline < deadline)) {
+        deadline = dependentDeadline;
+      }
+    }
+
+    deadlines.set(task.id, deadline);
+    return deadline;
+  };
+
+  tasks.forEach(task => resolve(task, new Set()));
+  return deadlines;
+}
+
+function sortTasks(tasks: Task[], deadlines: Map<string, number | null>): Task[] {
   const priorityWeight = { high: 3, medium: 2, low: 1 };
 
   return [...tasks].sort((a, b) => {
-    // First by priority
+    // First by deadline - tasks with a due date come before those without
+    const aDeadline = deadlines.get(a.id) ?? null;
+    const bDeadline = deadlines.get(b.id) ?? null;
+    if (aDeadline !== null && bDeadline === null) return -1;
+    if (aDeadline === null && bDeadline !== null) return 1;
+    if (aDeadline !== null && bDeadline !== null) {
+      if (aDeadline !== bDeadline) return aDeadline - bDeadline;
+
+      // Same deadline - least slack (most remaining work) first
+      const aSlack = aDeadline - getRemainingMinutes(a);
+      const bSlack = bDeadline - getRemainingMinutes(b);
+      if (aSlack !== bSlack) return aSlack - bSlack;
+    }
+
+    // Then by priority
     const priorityDiff = priorityWeight[b.priority] - priorityWeight[a.priority];
     if (priorityDiff !== 0) return priorityDiff;
 
@@ -16,20 +78,98 @@ function sortTasksByPriority(tasks: Task[]): Task[] {
   });
 }
 
+// Find tasks that won't get all of their remaining time before their deadline
+export function findDeadlineWarnings(schedule: Schedule, tasks: Task[]): DeadlineWarning[] {
+  const scheduleEnd = timeToMinutes(schedule.endTime);
+  const warnings: DeadlineWarning[] = [];
+
+  for (const task of tasks) {
+    const deadline = getDeadlineMinutes(task, schedule.date);
+    const remainingMinutes = getRemainingMinutes(task);
+
+    // Deadlines after this session could still be met by a later schedule
+    if (deadline === null || deadline > scheduleEnd || remainingMinutes <= 0) continue;
+
+    const scheduledMinutes = schedule.chunks
+      .filter(c => c.type === 'task' && c.taskId === task.id && !c.skipped)
+      .reduce((total, c) => {
+        const start = timeToMinutes(c.startTime);
+        const end = Math.min(timeToMinutes(c.endTime), deadline);
+        return total + Math.max(0, end - start);
+      }, 0);
+
+    if (scheduledMinutes < Math.round(remainingMinutes)) {
+      warnings.push({
+        taskId: task.id,
+        taskTitle: task.title,
+        dueDate: task.dueDate!,
+        dueTime: task.dueTime || '23:59',
+        remainingMinutes: Math.round(remainingMinutes),
+        scheduledMinutes
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// Earliest start at or after `minutes` where `duration` fits without touching a busy chunk
+export function skipBusyChunks(minutes: number, duration: number, chunks: ScheduleChunk[]): number {
+  const busy = chunks
+    .filter(c => c.type === 'busy')
+    .sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+
+  let start = minutes;
+  for (const block of busy) {
+    if (start < timeToMinutes(block.endTime) && start + duration > timeToMinutes(block.startTime)) {
+      start = timeToMinutes(block.endTime);
+    }
+  }
+  return start;
+}
+
+// Busy blocks as locked chunks, cut to the schedule's hours
+function getBusyChunks(blocks: BusyBlock[], startTime: string, endTime: string): ScheduleChunk[] {
+  return blocks
+    .map(block => ({
+      block,
+      start: Math.max(timeToMinutes(block.startTime), timeToMinutes(startTime)),
+      end: Math.min(timeToMinutes(block.endTime), timeToMinutes(endTime))
+    }))
+    .filter(({ start, end }) => end > start)
+    .sort((a, b) => a.start - b.start)
+    .map(({ block, start, end }) => ({
+      id: generateId(),
+      type: 'busy' as const,
+      taskId: '',
+      taskTitle: block.title,
+      taskPriority: 'medium' as const,
+      startTime: minutesToTime(start),
+      endTime: minutesToTime(end),
+      durationMinutes: end - start,
+      nagIntervalMinutes: 0,
+      completed: false
+    }));
+}
+
 export function generateSchedule(input: {
   tasks: Task[];
   startTime: string;
   endTime: string;
   breaks: ScheduleBreak[];
+  busyBlocks?: BusyBlock[]; // Fixed appointments - nothing gets scheduled over them
   defaultChunkSize: number;
   defaultNagInterval: number;
   date: string;
   name?: string;
+  // Pads each task's remaining time by this factor (see lib/calibration.ts); below 1 is ignored
+  getEstimateFactor?: (task: Task) => number;
 }): Schedule {
   // 1. Filter tasks with remaining time
   const availableTasks = input.tasks.filter(
     t => t.hoursCompleted < t.estimatedHours
   );
+  const busyChunks = getBusyChunks(input.busyBlocks || [], input.startTime, input.endTime);
 
   if (availableTasks.length === 0) {
     return {
@@ -41,13 +181,24 @@ export function generateSchedule(input: {
       breaks: input.breaks,
       defaultChunkSize: input.defaultChunkSize,
       status: 'active',
-      chunks: [],
+      chunks: busyChunks,
       createdAt: new Date().toISOString()
     };
   }
 
-  // 2. Sort by priority and progress
-  const sortedTasks = sortTasksByPriority(availableTasks);
+  // 2. Sort by deadline, priority and progress
+  const deadlines = getEffectiveDeadlines(availableTasks, input.date);
+  const sortedTasks = sortTasks(availableTasks, deadlines);
+
+  // A task is blocked while any of its prerequisites still has time to schedule
+  const isBlocked = (task: Task) =>
+    (task.dependsOn || []).some(depId => sortedTasks.some(t => t.id === depId));
+
+  // Padding stretches what's left of a task by the usual overrun - it never shrinks it
+  const getPlannedMinutes = (task: Task) => {
+    const factor = input.getEstimateFactor ? Math.max(1, input.getEstimateFactor(task)) : 1;
+    return factor > 1 ? Math.ceil(getRemainingMinutes(task) * factor) : getRemainingMinutes(task);
+  };
 
   // 3. Sort breaks by time
   const sortedBreaks = [...input.breaks].sort((a, b) =>
@@ -55,22 +206,36 @@ export function generateSchedule(input: {
   );
 
   // 4. Generate chunks
-  const chunks: ScheduleChunk[] = [];
+  const chunks: ScheduleChunk[] = [...busyChunks];
   let currentMinutes = timeToMinutes(input.startTime);
   let taskIndex = 0;
   let breakIndex = 0;
+  const allocatedMinutes = new Map<string, number>();
 
   while (currentMinutes < timeToMinutes(input.endTime)) {
+    // Jump over a busy block we've run into
+    const busy = busyChunks.find(c =>
+      timeToMinutes(c.startTime) <= currentMinutes && timeToMinutes(c.endTime) > currentMinutes
+    );
+    if (busy) {
+      currentMinutes = timeToMinutes(busy.endTime);
+      continue;
+    }
+
+    // Nothing may run into the next busy block
+    const nextBusy = busyChunks.find(c => timeToMinutes(c.startTime) > currentMinutes);
+    const freeUntil = Math.min(
+      timeToMinutes(input.endTime),
+      nextBusy ? timeToMinutes(nextBusy.startTime) : Infinity
+    );
+
     // Check if we should insert a break
     if (
       breakIndex < sortedBreaks.length &&
       currentMinutes >= timeToMinutes(sortedBreaks[breakIndex].time)
     ) {
       const breakItem = sortedBreaks[breakIndex];
-      const breakEnd = Math.min(
-        currentMinutes + breakItem.durationMinutes,
-        timeToMinutes(input.endTime)
-      );
+      const breakEnd = Math.min(currentMinutes + breakItem.durationMinutes, freeUntil);
 
       chunks.push({
         id: generateId(),
@@ -90,15 +255,35 @@ export function generateSchedule(input: {
       continue;
     }
 
-    // Get next task (round-robin)
+    // Tasks due before the session ends are worked earliest-deadline-first,
+    // everything else shares the time round-robin. Blocked tasks wait.
     if (sortedTasks.length === 0) break;
-    const task = sortedTasks[taskIndex % sortedTasks.length];
+    const urgentIndex = sortedTasks.findIndex(t => {
+      const deadline = deadlines.get(t.id) ?? null;
+      return deadline !== null && deadline <= timeToMinutes(input.endTime) && !isBlocked(t);
+    });
+
+    let currentTaskIndex = urgentIndex;
+    if (currentTaskIndex === -1) {
+      for (let offset = 0; offset < sortedTasks.length; offset++) {
+        const index = (taskIndex + offset) % sortedTasks.length;
+        if (!isBlocked(sortedTasks[index])) {
+          currentTaskIndex = index;
+          taskIndex = index;
+          break;
+        }
+      }
+    }
 
-    // Calculate remaining time for this task
-    const remainingMinutes = (task.estimatedHours - task.hoursCompleted) * 60;
+    // Everything left is waiting on a prerequisite that can't be scheduled
+    if (currentTaskIndex === -1) break;
+    const task = sortedTasks[currentTaskIndex];
+
+    // Calculate remaining time for this task (minus what this schedule already gave it)
+    const remainingMinutes = getPlannedMinutes(task) - (allocatedMinutes.get(task.id) || 0);
 
     // Calculate how much time until next break or end of schedule
-    let maxChunkSize = timeToMinutes(input.endTime) - currentMinutes;
+    let maxChunkSize = freeUntil - currentMinutes;
     if (breakIndex < sortedBreaks.length) {
       maxChunkSize = Math.min(maxChunkSize, timeToMinutes(sortedBreaks[breakIndex].time) - currentMinutes);
     }
@@ -135,17 +320,19 @@ export function generateSchedule(input: {
     });
 
     currentMinutes += chunkSize;
+    allocatedMinutes.set(task.id, (allocatedMinutes.get(task.id) || 0) + chunkSize);
 
     // Check if current task is fully allocated before moving to next
     if (chunkSize >= remainingMinutes) {
-      // Remove this task from sorted list (use current index before incrementing)
-      const currentTaskIndex = taskIndex % sortedTasks.length;
+      // Remove this task from sorted list
       sortedTasks.splice(currentTaskIndex, 1);
       if (sortedTasks.length === 0) break;
       // Don't increment taskIndex since we removed an element
       // The next task is now at the same index position
-      taskIndex = currentTaskIndex % sortedTasks.length;
-    } else {
+      if (urgentIndex === -1) {
+        taskIndex = currentTaskIndex % sortedTasks.length;
+      }
+    } else if (urgentIndex === -1) {
       // Task not fully allocated, move to next task in round-robin
       taskIndex++;
     }
@@ -160,7 +347,105 @@ export function generateSchedule(input: {
     breaks: input.breaks,
     defaultChunkSize: input.defaultChunkSize,
     status: 'active',
-    chunks,
+    chunks: chunks.sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime)),
     createdAt: new Date().toISOString()
   };
 }
+
+export type ReflowResult = {
+  schedule: Schedule;
+  removed: ScheduleChunk[]; // Not-done chunks at their old times
+  added: ScheduleChunk[]; // The same work placed from now on
+  unplacedMinutes: Record<string, number>; // Work that no longer fits before the end
+};
+
+// Re-place every task chunk that isn't done yet from `now` until the end of the
+// schedule, keeping finished chunks, past breaks, and the fixed breaks and busy blocks still ahead
+export function reflowSchedule(schedule: Schedule, tasks: Task[], now: string): ReflowResult {
+  const nowMinutes = timeToMinutes(now);
+  const isOpen = (c: ScheduleChunk) => c.type === 'task' && !c.completed && !c.skipped;
+
+  // Don't cut into a break that's already running
+  const runningBreak = schedule.chunks.find(c =>
+    c.type === 'break' && timeToMinutes(c.startTime) <= nowMinutes && timeToMinutes(c.endTime) > nowMinutes
+  );
+  const startMinutes = Math.max(
+    nowMinutes,
+    runningBreak ? timeToMinutes(runningBreak.endTime) : 0,
+    timeToMinutes(schedule.startTime)
+  );
+
+  const removed = schedule.chunks.filter(isOpen);
+  const kept = schedule.chunks.filter(c => !isOpen(c));
+
+  // Breaks still ahead stay exactly where they are
+  const fixedBreaks: ScheduleBreak[] = kept
+    .filter(c => c.type === 'break' && timeToMinutes(c.startTime) >= startMinutes)
+    .map(c => ({ id: c.id, time: c.startTime, durationMinutes: c.durationMinutes }));
+  const busyBlocks: BusyBlock[] = kept
+    .filter(c => c.type === 'busy' && timeToMinutes(c.endTime) > startMinutes)
+    .map(c => ({ id: c.id, title: c.taskTitle, startTime: c.startTime, endTime: c.endTime }));
+
+  // Each task gets exactly its not-done minutes, keeping its chunk size and nag interval
+  const openMinutes = new Map<string, number>();
+  removed.forEach(c => openMinutes.set(c.taskId, (openMinutes.get(c.taskId) || 0) + c.durationMinutes));
+
+  const reflowTasks: Task[] = [...openMinutes.entries()].map(([taskId, minutes]) => {
+    const chunk = removed.find(c => c.taskId === taskId)!;
+    const task = tasks.find(t => t.id === taskId) || {
+      id: taskId,
+      title: chunk.taskTitle,
+      priority: chunk.taskPriority,
+      estimatedHours: 0,
+      hoursCompleted: 0,
+      createdAt: schedule.createdAt
+    };
+    return {
+      ...task,
+      estimatedHours: task.hoursCompleted + minutes / 60,
+      defaultNagInterval: chunk.nagIntervalMinutes
+    };
+  });
+
+  const placed = startMinutes < timeToMinutes(schedule.endTime)
+    ? generateSchedule({
+        tasks: reflowTasks,
+        startTime: minutesToTime(startMinutes),
+        endTime: schedule.endTime,
+        breaks: fixedBreaks,
+        busyBlocks,
+        defaultChunkSize: schedule.defaultChunkSize,
+        defaultNagInterval: 0,
+        date: schedule.date
+      }).chunks.filter(c => c.type === 'task')
+    : [];
+
+  // Reuse the old chunks task by task so anything keyed on them keeps working,
+  // and time already tracked on them isn't lost
+  const spare = new Map<string, ScheduleChunk[]>();
+  removed.forEach(c => spare.set(c.taskId, [...(spare.get(c.taskId) || []), c]));
+  const added = placed.map(c => {
+    const old = spare.get(c.taskId)?.shift();
+    return old ? { ...c, id: old.id, timeEvents: old.timeEvents } : c;
+  });
+
+  const unplacedMinutes: Record<string, number> = {};
+  openMinutes.forEach((minutes, taskId) => {
+    const placedMinutes = added
+      .filter(c => c.taskId === taskId)
+      .reduce((total, c) => total + c.durationMinutes, 0);
+    if (placedMinutes < minutes) {
+      unplacedMinutes[taskId] = minutes - placedMinutes;
+    }
+  });
+
+  return {
+    schedule: {
+      ...schedule,
+      chunks: [...kept, ...added].sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime))
+    },
+    removed,
+    added,
+    unplacedMinutes
+  };
+}
@@ -0,0 +1,100 @@
+import { Schedule, ScheduleSession, ScheduleSummary } from '../types';
+import { api, isAuthenticated } from './api';
+import { getActiveSchedule, getActiveScheduleSince, setActiveScheduleId, updateSchedule, getSessionHistory, addSessionToHistory } from './storage';
+import { getActiveScheduleChanges, queueActiveScheduleChange } from './syncQueue';
+import { generateId } from './utils';
+import { summarizeChunks } from '../../backend/src/types/shared';
+
+// Starting, ending and completing the active schedule. The switch happens here at once;
+// signed-in users also get it pushed to the server, which keeps their session history.
+
+// Same numbers the server records with the session
+export function getScheduleSummary(schedule: Schedule): ScheduleSummary {
+  return summarizeChunks(schedule.chunks);
+}
+
+export async function activateSchedule(scheduleId: string): Promise<void> {
+  const previous = await getActiveSchedule();
+  if (previous && previous.id !== scheduleId) {
+    await recordSession(previous, 'ended');
+  }
+
+  setActiveScheduleId(scheduleId);
+  queueActiveScheduleChange('activate', scheduleId);
+}
+
+// Stop the running session, finished or not. Returns the session as recorded.
+export async function endActiveSession(outcome: ScheduleSession['outcome']): Promise<ScheduleSession | null> {
+  const schedule = await getActiveSchedule();
+  if (!schedule) return null;
+
+  const session = await recordSession(schedule, outcome);
+  if (outcome === 'completed') {
+    await updateSchedule({ ...schedule, status: 'completed', completedAt: session.endedAt });
+  }
+
+  setActiveScheduleId('');
+  queueActiveScheduleChange(outcome === 'completed' ? 'complete' : 'deactivate', schedule.id);
+  return session;
+}
+
+async function recordSession(schedule: Schedule, outcome: ScheduleSession['outcome']): Promise<ScheduleSession> {
+  const endedAt = new Date().toISOString();
+  const session: ScheduleSession = {
+    id: generateId(),
+    scheduleId: schedule.id,
+    scheduleName: schedule.name || null,
+    scheduleDate: schedule.date,
+    startedAt: getActiveScheduleSince() || schedule.createdAt,
+    endedAt,
+    outcome,
+    summary: getScheduleSummary(schedule)
+  };
+
+  await addSessionToHistory(session);
+  return session;
+}
+
+// Rows of GET /api/schedules/history are snake_case, as the server stores them
+type SessionRow = {
+  id: string;
+  schedule_id: string | null;
+  schedule_name: string | null;
+  schedule_date: string;
+  started_at: string;
+  ended_at: string;
+  outcome: ScheduleSession['outcome'];
+  summary: ScheduleSummary;
+};
+
+function sessionFromRow(row: SessionRow): ScheduleSession {
+  return {
+    id: row.id,
+    scheduleId: row.schedule_id,
+    scheduleName: row.schedule_name,
+    scheduleDate: row.schedule_date,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    outcome: row.outcome,
+    summary: row.summary
+  };
+}
+
+// Signed in, the server's history covers every device; this device's own is the fallback
+export async function fetchSessionHistory(): Promise<ScheduleSession[]> {
+  if (!isAuthenticated()) return getSessionHistory();
+
+  try {
+    const history = (await api.get<SessionRow[]>('/api/schedules/history')).map(sessionFromRow);
+
+    // Sessions ended here that the server hasn't heard about yet
+    if (getActiveScheduleChanges().length > 0) {
+      const newest = history.length > 0 ? new Date(history[0].endedAt).getTime() : 0;
+      return [...(await getSessionHistory()).filter(s => new Date(s.endedAt).getTime() > newest), ...history];
+    }
+    return history;
+  } catch (error) {
+    console.error('Failed to load session history:', error);
+    return getSessionHistory();
+  }
+}
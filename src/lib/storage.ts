@@ -1,76 +1,150 @@
-import { Task, Schedule, AppSettings, STORAGE_KEYS } from '../types';
+import { Task, Schedule, ScheduleSession, AppSettings, ScheduleTemplate, ChunkTimeEventType, STORAGE_KEYS } from '../types';
+import { removeDependencyOn } from './dependencies';
+import { timeToMinutes, minutesToTime } from './utils';
+import { canRecordTimeEvent, DEFAULT_ESCALATION_POLICY, getFocusMinutes, withImplicitStart } from '../../backend/src/types/shared';
+import { recordLocalChanges } from './syncQueue';
+import { readStored, writeStored } from './storageSchema';
+import { ScheduleRecord, getRecord, getRecords, writeRecords, clearRecords, toScheduleRecord, fromScheduleRecord } from './database';
+
+// Tasks, schedules, templates and session history live in IndexedDB (see database.ts),
+// so reading and saving them is async. Writes are made one at a time: each one reads
+// what it changes after the previous write has landed.
+let writing: Promise<unknown> = Promise.resolve();
+
+function exclusive<T>(write: () => Promise<T>): Promise<T> {
+  const result = writing.then(write);
+  writing = result.catch(() => undefined);
+  return result;
+}
+
+// Only records that actually changed are written
+function diff<T extends { id: string }>(before: T[], after: T[]): { put: T[]; delete: string[] } {
+  const previous = new Map(before.map(item => [item.id, JSON.stringify(item)]));
+  return {
+    put: after.filter(item => previous.get(item.id) !== JSON.stringify(item)),
+    delete: before.filter(item => !after.some(a => a.id === item.id)).map(item => item.id)
+  };
+}
+
+// `record` is false for data that came from the server, which mustn't be queued to go back there
+async function writeTasks(before: Task[], after: Task[], record: boolean): Promise<void> {
+  if (record) recordLocalChanges('task', before, after);
+  await writeRecords({ tasks: diff(before, after) });
+}
+
+async function writeSchedules(before: Schedule[], after: Schedule[], record: boolean): Promise<void> {
+  if (record) recordLocalChanges('schedule', before, after);
+  const changes = diff(before, after);
+  await writeRecords({ schedules: { put: changes.put.map(toScheduleRecord), delete: changes.delete } });
+}
 
 // Settings
 export function getSettings(): AppSettings {
-  const stored = localStorage.getItem(STORAGE_KEYS.settings);
+  const stored = readStored<AppSettings>(STORAGE_KEYS.settings);
   if (stored) {
-    const settings = JSON.parse(stored);
-    // Backward compatibility - add timeUnit if missing
-    if (!settings.timeUnit) {
-      settings.timeUnit = 'minutes';
-    }
-    return settings;
+    return stored;
   }
   const defaultSettings: AppSettings = {
     notificationsEnabled: false,
     defaultBreakDuration: 15,
     defaultChunkSize: 30,
     defaultNagInterval: 15,
-    timeUnit: 'minutes'
+    timeUnit: 'minutes',
+    escalation: DEFAULT_ESCALATION_POLICY
   };
-  localStorage.setItem(STORAGE_KEYS.settings, JSON.stringify(defaultSettings));
+  writeStored(STORAGE_KEYS.settings, defaultSettings);
   return defaultSettings;
 }
 
 export function saveSettings(settings: AppSettings): void {
-  localStorage.setItem(STORAGE_KEYS.settings, JSON.stringify(settings));
+  writeStored(STORAGE_KEYS.settings, settings);
 }
 
 // Tasks
-export function getTasks(): Task[] {
-  const stored = localStorage.getItem(STORAGE_KEYS.tasks);
-  return stored ? JSON.parse(stored) : [];
+export function getTasks(): Promise<Task[]> {
+  return getRecords<Task>('tasks');
 }
 
-export function saveTasks(tasks: Task[]): void {
-  localStorage.setItem(STORAGE_KEYS.tasks, JSON.stringify(tasks));
+export function getTask(taskId: string): Promise<Task | undefined> {
+  return getRecord<Task>('tasks', taskId);
 }
 
-export function addTask(task: Task): void {
-  const tasks = getTasks();
-  tasks.push(task);
-  saveTasks(tasks);
+export function saveTasks(tasks: Task[], record = true): Promise<void> {
+  return exclusive(async () => writeTasks(await getTasks(), tasks, record));
 }
 
-export function updateTask(updatedTask: Task): void {
-  const tasks = getTasks();
-  const index = tasks.findIndex(t => t.id === updatedTask.id);
-  if (index !== -1) {
-    tasks[index] = updatedTask;
-    saveTasks(tasks);
-  }
+export function addTask(task: Task): Promise<void> {
+  return exclusive(() => writeTasks([], [task], true));
 }
 
-export function deleteTask(taskId: string): void {
-  const tasks = getTasks();
-  const filtered = tasks.filter(t => t.id !== taskId);
-  saveTasks(filtered);
+export function updateTask(updatedTask: Task): Promise<void> {
+  return exclusive(async () => {
+    const task = await getTask(updatedTask.id);
+    if (task) {
+      await writeTasks([task], [updatedTask], true);
+    }
+  });
+}
+
+export function deleteTask(taskId: string): Promise<void> {
+  return exclusive(async () => {
+    const tasks = await getTasks();
+    const filtered = tasks.filter(t => t.id !== taskId);
+    await writeTasks(tasks, removeDependencyOn(filtered, taskId), true);
+  });
 }
 
 // Schedules
-export function getSchedules(): Schedule[] {
-  const stored = localStorage.getItem(STORAGE_KEYS.schedules);
-  return stored ? JSON.parse(stored) : [];
+export async function getSchedules(): Promise<Schedule[]> {
+  return (await getRecords<ScheduleRecord>('schedules')).map(fromScheduleRecord);
+}
+
+export async function getSchedule(scheduleId: string): Promise<Schedule | undefined> {
+  const record = await getRecord<ScheduleRecord>('schedules', scheduleId);
+  return record && fromScheduleRecord(record);
 }
 
-export function saveSchedules(schedules: Schedule[]): void {
-  localStorage.setItem(STORAGE_KEYS.schedules, JSON.stringify(schedules));
+// Schedules dated from ... to (YYYY-MM-DD, inclusive), oldest first
+export async function getSchedulesBetween(from: string, to: string): Promise<Schedule[]> {
+  return (await getRecords<ScheduleRecord>('schedules', 'date', IDBKeyRange.bound(from, to))).map(fromScheduleRecord);
 }
 
-export function addSchedule(schedule: Schedule): void {
-  const schedules = getSchedules();
-  schedules.push(schedule);
-  saveSchedules(schedules);
+// Schedules with at least one chunk of the task
+export async function getSchedulesForTask(taskId: string): Promise<Schedule[]> {
+  return (await getRecords<ScheduleRecord>('schedules', 'taskIds', taskId)).map(fromScheduleRecord);
+}
+
+export function saveSchedules(schedules: Schedule[], record = true): Promise<void> {
+  return exclusive(async () => writeSchedules(await getSchedules(), schedules, record));
+}
+
+export function addSchedule(schedule: Schedule): Promise<void> {
+  return exclusive(() => writeSchedules([], [schedule], true));
+}
+
+export function addSchedules(newSchedules: Schedule[]): Promise<void> {
+  return exclusive(() => writeSchedules([], newSchedules, true));
+}
+
+export function updateSchedule(updatedSchedule: Schedule): Promise<void> {
+  return exclusive(async () => {
+    const schedule = await getSchedule(updatedSchedule.id);
+    if (schedule) {
+      await writeSchedules([schedule], [updatedSchedule], true);
+    }
+  });
+}
+
+// Change one schedule in place. The change returns false when there's nothing to save.
+async function changeSchedule(scheduleId: string, change: (schedule: Schedule) => boolean): Promise<boolean> {
+  const before = await getSchedule(scheduleId);
+  if (!before) return false;
+
+  const schedule = structuredClone(before);
+  if (!change(schedule)) return false;
+
+  await writeSchedules([before], [schedule], true);
+  return true;
 }
 
 export function getActiveScheduleId(): string | null {
@@ -78,60 +152,171 @@ export function getActiveScheduleId(): string | null {
 }
 
 export function setActiveScheduleId(scheduleId: string): void {
+  // A new session starts when the active schedule changes
+  if (scheduleId !== getActiveScheduleId()) {
+    localStorage.setItem(STORAGE_KEYS.activeScheduleSince, new Date().toISOString());
+  }
   localStorage.setItem(STORAGE_KEYS.activeScheduleId, scheduleId);
 }
 
-export function getActiveSchedule(): Schedule | null {
+// When the running session started
+export function getActiveScheduleSince(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.activeScheduleSince);
+}
+
+export async function getActiveSchedule(): Promise<Schedule | null> {
   const scheduleId = getActiveScheduleId();
   if (!scheduleId) return null;
 
-  const schedules = getSchedules();
-  return schedules.find(s => s.id === scheduleId) || null;
+  return (await getSchedule(scheduleId)) || null;
 }
 
-export function markChunkComplete(scheduleId: string, chunkId: string): void {
-  const schedules = getSchedules();
-  const schedule = schedules.find(s => s.id === scheduleId);
-  if (!schedule) return;
+export function markChunkComplete(scheduleId: string, chunkId: string): Promise<void> {
+  return exclusive(async () => {
+    const credit = { taskId: '', minutes: 0 };
 
-  const chunk = schedule.chunks.find(c => c.id === chunkId);
-  if (!chunk || chunk.completed) return;
+    await changeSchedule(scheduleId, schedule => {
+      const chunk = schedule.chunks.find(c => c.id === chunkId);
+      if (!chunk || chunk.completed) return false;
 
-  // Mark chunk complete
-  chunk.completed = true;
-  const completedAt = new Date();
-  chunk.completedAt = completedAt.toISOString();
+      // Mark chunk complete
+      chunk.completed = true;
+      const completedAt = new Date();
+      chunk.completedAt = completedAt.toISOString();
 
-  // Update task progress (if task chunk)
-  if (chunk.type === 'task') {
-    const tasks = getTasks();
-    const task = tasks.find(t => t.id === chunk.taskId);
-    if (task) {
-      // Calculate actual elapsed time
-      const now = completedAt;
-      const [startHours, startMinutes] = chunk.startTime.split(':').map(Number);
-      const chunkStart = new Date(now);
-      chunkStart.setHours(startHours, startMinutes, 0, 0);
-
-      // If chunk start is in the future (shouldn't happen), use full duration
-      // Otherwise calculate elapsed minutes
-      let elapsedMinutes: number;
-      if (now.getTime() < chunkStart.getTime()) {
-        elapsedMinutes = chunk.durationMinutes; // Shouldn't happen, but use full duration as fallback
-      } else {
-        elapsedMinutes = Math.round((now.getTime() - chunkStart.getTime()) / (1000 * 60));
-        // No maximum cap - overtime work should be fully credited!
-        // Ensure at least 1 minute is counted
-        elapsedMinutes = Math.max(elapsedMinutes, 1);
+      if (chunk.type === 'task') {
+        // Credit the measured focus time - pauses don't count, overtime does
+        const scheduledStart = new Date(`${schedule.date}T${chunk.startTime}:00`);
+        chunk.timeEvents = withImplicitStart(chunk.timeEvents, scheduledStart, completedAt);
+        chunk.focusMinutes = getFocusMinutes(chunk.timeEvents, completedAt);
+        credit.taskId = chunk.taskId;
+        credit.minutes = chunk.focusMinutes;
       }
+      return true;
+    });
 
-      // Add only the elapsed time to task progress
-      task.hoursCompleted += elapsedMinutes / 60;
-      // Ensure we don't exceed estimated hours
-      task.hoursCompleted = Math.min(task.hoursCompleted, task.estimatedHours);
-      saveTasks(tasks);
+    // Update task progress (if task chunk)
+    const task = credit.taskId ? await getTask(credit.taskId) : undefined;
+    if (task) {
+      // Overtime counts past the estimate, so estimate accuracy can see the overrun
+      await writeTasks([task], [{ ...task, hoursCompleted: task.hoursCompleted + credit.minutes / 60 }], true);
     }
-  }
+  });
+}
+
+// Start, pause or resume the focus clock of a chunk. Resolves to false if the chunk
+// isn't open or the event doesn't follow from the last one.
+export function recordChunkTimeEvent(scheduleId: string, chunkId: string, type: ChunkTimeEventType): Promise<boolean> {
+  return exclusive(() => changeSchedule(scheduleId, schedule => {
+    const chunk = schedule.chunks.find(c => c.id === chunkId);
+    if (!chunk || chunk.type !== 'task' || chunk.completed || chunk.skipped) return false;
+    if (!canRecordTimeEvent(chunk.timeEvents, type)) return false;
+
+    const now = new Date().toISOString();
+    chunk.timeEvents = [...(chunk.timeEvents || []), { type, at: now }];
+    chunk.lastInteractionAt = now;
+    return true;
+  }));
+}
+
+export async function skipChunk(scheduleId: string, chunkId: string): Promise<void> {
+  await exclusive(() => changeSchedule(scheduleId, schedule => {
+    const chunk = schedule.chunks.find(c => c.id === chunkId);
+    if (!chunk || chunk.completed || chunk.skipped) return false;
+
+    chunk.skipped = true;
+    chunk.snoozedUntil = undefined;
+    return true;
+  }));
+}
+
+export async function snoozeChunk(scheduleId: string, chunkId: string, minutes: number): Promise<void> {
+  await exclusive(() => changeSchedule(scheduleId, schedule => {
+    const chunk = schedule.chunks.find(c => c.id === chunkId);
+    if (!chunk || chunk.completed || chunk.skipped) return false;
+
+    chunk.snoozedUntil = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    chunk.lastInteractionAt = new Date().toISOString();
+    return true;
+  }));
+}
+
+// The user answered a nag - escalation starts over from here
+export async function acknowledgeChunk(scheduleId: string, chunkId: string): Promise<void> {
+  await exclusive(() => changeSchedule(scheduleId, schedule => {
+    const chunk = schedule.chunks.find(c => c.id === chunkId);
+    if (!chunk || chunk.completed || chunk.skipped) return false;
+
+    chunk.lastInteractionAt = new Date().toISOString();
+    return true;
+  }));
+}
+
+// Lengthen a chunk and push every later chunk and break back by the same amount.
+// Resolves to false if that would run the schedule past midnight.
+export function extendChunk(scheduleId: string, chunkId: string, minutes: number): Promise<boolean> {
+  return exclusive(() => changeSchedule(scheduleId, schedule => {
+    const chunk = schedule.chunks.find(c => c.id === chunkId);
+    if (!chunk || chunk.completed || chunk.skipped) return false;
+
+    const originalEnd = timeToMinutes(chunk.endTime);
+    const laterChunks = schedule.chunks.filter(c => c.id !== chunkId && timeToMinutes(c.startTime) >= originalEnd);
+    const lastEnd = Math.max(originalEnd, ...laterChunks.map(c => timeToMinutes(c.endTime)));
+    if (lastEnd + minutes >= 24 * 60) return false;
+
+    const shift = (time: string) => minutesToTime(timeToMinutes(time) + minutes);
+
+    chunk.endTime = shift(chunk.endTime);
+    chunk.durationMinutes += minutes;
+    chunk.lastInteractionAt = new Date().toISOString();
+    for (const later of laterChunks) {
+      later.startTime = shift(later.startTime);
+      later.endTime = shift(later.endTime);
+    }
+    for (const breakItem of schedule.breaks) {
+      if (timeToMinutes(breakItem.time) >= originalEnd) {
+        breakItem.time = shift(breakItem.time);
+      }
+    }
+    if (lastEnd + minutes > timeToMinutes(schedule.endTime)) {
+      schedule.endTime = minutesToTime(lastEnd + minutes);
+    }
+    return true;
+  }));
+}
+
+// Session history - newest first
+export async function getSessionHistory(): Promise<ScheduleSession[]> {
+  return (await getRecords<ScheduleSession>('sessions', 'endedAt')).reverse();
+}
+
+export function addSessionToHistory(session: ScheduleSession): Promise<void> {
+  return exclusive(() => writeRecords({ sessions: { put: [session] } }));
+}
+
+// Schedule templates
+export function getTemplates(): Promise<ScheduleTemplate[]> {
+  return getRecords<ScheduleTemplate>('templates');
+}
+
+export function saveTemplates(templates: ScheduleTemplate[]): Promise<void> {
+  return exclusive(async () => writeRecords({ templates: diff(await getTemplates(), templates) }));
+}
+
+export function addTemplate(template: ScheduleTemplate): Promise<void> {
+  return exclusive(() => writeRecords({ templates: { put: [template] } }));
+}
+
+export function deleteTemplate(templateId: string): Promise<void> {
+  return exclusive(() => writeRecords({ templates: { delete: [templateId] } }));
+}
 
-  saveSchedules(schedules);
+// Drop this device's tasks, schedules, settings and active schedule without queueing
+// deletes - once they're safely on the server
+export function clearLocalData(): Promise<void> {
+  return exclusive(async () => {
+    await clearRecords(['tasks', 'schedules']);
+    localStorage.removeItem(STORAGE_KEYS.activeScheduleId);
+    localStorage.removeItem(STORAGE_KEYS.settings);
+  });
 }
@@ -0,0 +1,228 @@
+import { AppSettings, Schedule, ScheduleSession, ScheduleTemplate, STORAGE_KEYS, Task } from '../types';
+import type { ActiveScheduleChange, SyncChange } from './syncQueue';
+import { DEFAULT_ESCALATION_POLICY } from '../../backend/src/types/shared';
+
+// App data under STORAGE_KEYS is stored as { version, data }. Payloads written before
+// the envelope existed are bare JSON and count as version 0. Each key has its own
+// upgrades - one step per version, typed from the shape it reads to the shape it
+// returns - and a validator that drops what can't be used. Anything that can't be read
+// is set aside under STORAGE_KEYS.recovered instead of crashing the app.
+
+type Envelope = {
+  version: number;
+  data: unknown;
+};
+
+// upgrades<Old>(0).then(old => ...) lifts data stored at version 0 to version 1, and so
+// on; the shape the last step returns is the current one
+export type Upgrades<T> = {
+  // The first version with upgrades - anything stored earlier already has its shape
+  since: number;
+  steps: ((data: unknown) => unknown)[];
+  then: <Next>(step: (data: T) => Next) => Upgrades<Next>;
+};
+
+export function upgrades<T>(since: number, steps: ((data: unknown) => unknown)[] = []): Upgrades<T> {
+  return {
+    since,
+    steps,
+    then: <Next>(step: (data: T) => Next) => upgrades<Next>(since, [...steps, step as (data: unknown) => unknown])
+  };
+}
+
+type Schema<T> = {
+  upgrades: Upgrades<T>;
+  // The usable part of the data, or null if none of it is
+  validate: (data: unknown) => { data: T; dropped: unknown[] } | null;
+};
+
+export type RecoveredData = {
+  key: string;
+  reason: string;
+  raw: string;
+  recoveredAt: string; // ISO timestamp
+};
+
+const MAX_RECOVERED = 20;
+const listeners = new Set<() => void>();
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A list whose broken entries are dropped one by one
+function list<T>(isItem: (item: Record<string, any>) => boolean) {
+  return (data: unknown) => {
+    if (!Array.isArray(data)) return null;
+    const valid = data.filter(item => isObject(item) && isItem(item));
+    return { data: valid as T[], dropped: data.filter(item => !valid.includes(item)) };
+  };
+}
+
+// A list of records, each with an ID
+const collection = <T>(isItem: (item: Record<string, any>) => boolean) =>
+  list<T>(item => typeof item.id === 'string' && isItem(item));
+
+// Settings from before time units and escalation existed
+type SettingsV0 = Partial<AppSettings>;
+
+const SCHEMAS: Record<string, Schema<unknown>> = {
+  // Tasks, schedules, templates and sessions moved to IndexedDB (see database.ts) -
+  // their keys are only read once, to move them there
+  [STORAGE_KEYS.tasks]: {
+    upgrades: upgrades<Task[]>(1),
+    validate: collection<Task>(task =>
+      typeof task.title === 'string' && typeof task.estimatedHours === 'number' && typeof task.hoursCompleted === 'number'
+    )
+  },
+  [STORAGE_KEYS.schedules]: {
+    upgrades: upgrades<Schedule[]>(1),
+    validate: collection<Schedule>(schedule =>
+      typeof schedule.date === 'string' && Array.isArray(schedule.chunks) && Array.isArray(schedule.breaks)
+    )
+  },
+  [STORAGE_KEYS.templates]: {
+    upgrades: upgrades<ScheduleTemplate[]>(1),
+    validate: collection<ScheduleTemplate>(template => typeof template.name === 'string' && Array.isArray(template.taskIds))
+  },
+  [STORAGE_KEYS.sessionHistory]: {
+    upgrades: upgrades<ScheduleSession[]>(1),
+    validate: collection<ScheduleSession>(session => typeof session.scheduleDate === 'string' && isObject(session.summary))
+  },
+  [STORAGE_KEYS.settings]: {
+    upgrades: upgrades<SettingsV0>(0).then(settings => ({
+      ...settings,
+      timeUnit: settings.timeUnit || 'minutes',
+      escalation: settings.escalation || DEFAULT_ESCALATION_POLICY
+    })),
+    validate: settings => isObject(settings) ? { data: settings as AppSettings, dropped: [] } : null
+  },
+  [STORAGE_KEYS.syncQueue]: {
+    upgrades: upgrades<SyncChange[]>(1),
+    validate: collection<SyncChange>(change =>
+      ['task', 'schedule'].includes(change.entity) && ['upsert', 'delete'].includes(change.op) && typeof change.queuedAt === 'string'
+    )
+  },
+  [STORAGE_KEYS.syncActiveChanges]: {
+    // Versions that kept a single switch stored the object on its own
+    upgrades: upgrades<ActiveScheduleChange | ActiveScheduleChange[]>(0).then(changes =>
+      Array.isArray(changes) ? changes : [changes]
+    ),
+    validate: list<ActiveScheduleChange>(change =>
+      ['activate', 'deactivate', 'complete'].includes(change.action) &&
+      typeof change.scheduleId === 'string' &&
+      typeof change.queuedAt === 'string'
+    )
+  },
+  [STORAGE_KEYS.syncVersions]: {
+    upgrades: upgrades<Record<string, string>>(1),
+    validate: versions => isObject(versions) ? { data: versions as Record<string, string>, dropped: [] } : null
+  }
+};
+
+function getSchema(key: string): Schema<unknown> {
+  const schema = SCHEMAS[key];
+  if (!schema) throw new Error(`No storage schema for ${key}`);
+  return schema;
+}
+
+export function getSchemaVersion(key: string): number {
+  const { since, steps } = getSchema(key).upgrades;
+  return since + steps.length;
+}
+
+function isEnvelope(value: unknown): value is Envelope {
+  return isObject(value) && Number.isInteger(value.version) && 'data' in value && Object.keys(value).length === 2;
+}
+
+export function getRecoveredData(): RecoveredData[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.recovered);
+    const recovered = stored ? JSON.parse(stored) : [];
+    return Array.isArray(recovered) ? recovered : [];
+  } catch {
+    return [];
+  }
+}
+
+export function clearRecoveredData(): void {
+  localStorage.removeItem(STORAGE_KEYS.recovered);
+  listeners.forEach(listener => listener());
+}
+
+export function onRecoveredDataChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function setAside(key: string, reason: string, raw: string): void {
+  console.warn(`Set aside stored ${key}: ${reason}`);
+  const entry: RecoveredData = { key, reason, raw, recoveredAt: new Date().toISOString() };
+  const recovered = [entry, ...getRecoveredData()].slice(0, MAX_RECOVERED);
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.recovered, JSON.stringify(recovered));
+  } catch {
+    // Out of space - losing the copy beats failing to start
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function writeStored(key: string, data: unknown): void {
+  const envelope: Envelope = { version: getSchemaVersion(key), data };
+  localStorage.setItem(key, JSON.stringify(envelope));
+}
+
+// The stored data for a key, upgraded to the current version - or undefined if there's
+// none or it couldn't be read. Upgrades and repairs are written back once.
+export function readStored<T>(key: string): T | undefined {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+
+  const schema = getSchema(key);
+  const current = getSchemaVersion(key);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    setAside(key, 'not valid JSON', raw);
+    localStorage.removeItem(key);
+    return undefined;
+  }
+
+  let version = 0;
+  let data = parsed;
+  if (isEnvelope(parsed)) {
+    version = parsed.version;
+    data = parsed.data;
+  }
+
+  // Written by a newer version of the app - use it as far as it validates, but leave it be
+  const newer = version > current;
+
+  try {
+    for (version = Math.max(version, schema.upgrades.since); version < current; version++) {
+      data = schema.upgrades.steps[version - schema.upgrades.since](data);
+    }
+  } catch (error) {
+    setAside(key, `upgrade to version ${version + 1} failed: ${error instanceof Error ? error.message : error}`, raw);
+    localStorage.removeItem(key);
+    return undefined;
+  }
+
+  const result = schema.validate(data);
+  if (!result) {
+    setAside(key, 'unexpected shape', raw);
+    localStorage.removeItem(key);
+    return undefined;
+  }
+
+  if (!newer && result.dropped.length > 0) {
+    setAside(key, `${result.dropped.length} unreadable records`, JSON.stringify(result.dropped));
+  }
+  if (!newer && (!isEnvelope(parsed) || parsed.version !== current || result.dropped.length > 0)) {
+    writeStored(key, result.data);
+  }
+
+  return result.data as T;
+}
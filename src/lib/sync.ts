@@ -0,0 +1,362 @@
+import { Task, Schedule } from '../types';
+import type { ScheduleRow, TaskRow } from '../../backend/src/types';
+import { chunkFromRow, scheduleFromRow, taskFromRow } from '../../backend/src/types/shared';
+import { api, ApiError, isAuthenticated, fetchChangesSince, SyncDelta, SyncEntityChanges } from './api';
+import { getTasks, getTask, saveTasks, getSchedules, getSchedule, saveSchedules, getActiveScheduleId, setActiveScheduleId } from './storage';
+import {
+  SyncChange,
+  SyncEntity,
+  ActiveScheduleChange,
+  getSyncQueue,
+  getActiveScheduleChanges,
+  removeActiveScheduleChange,
+  getActiveScheduleVersion,
+  setActiveScheduleVersion,
+  onSyncQueueChange,
+  removeQueuedChange,
+  getServerVersion,
+  setServerVersion,
+  getSyncCursor,
+  setSyncCursor
+} from './syncQueue';
+
+// Offline-first sync of tasks and schedules. Local storage stays the source the app
+// reads from; queued local changes are pushed, then whatever changed on the server
+// since the last pull is fetched from GET /api/sync and applied.
+// Conflicts (someone else changed the record since we last saw it) go to whichever
+// side changed it last.
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+export type SyncState = {
+  status: SyncStatus;
+  pendingChanges: number;
+  conflictsResolved: number;
+  lastSyncedAt?: string; // ISO timestamp
+  error?: string;
+};
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+const PUSH_DELAY_MS = 1500; // Batch bursts of local edits into one push
+
+let state: SyncState = { status: 'idle', pendingChanges: 0, conflictsResolved: 0 };
+const stateListeners = new Set<(state: SyncState) => void>();
+let running: Promise<boolean> | null = null;
+
+function setState(changes: Partial<SyncState>): void {
+  state = { ...state, ...changes, pendingChanges: getSyncQueue().length + getActiveScheduleChanges().length };
+  stateListeners.forEach(listener => listener(state));
+}
+
+export function getSyncState(): SyncState {
+  return state;
+}
+
+export function onSyncStateChange(listener: (state: SyncState) => void): () => void {
+  stateListeners.add(listener);
+  return () => stateListeners.delete(listener);
+}
+
+// Cleared fields are sent as null so the server clears them too
+function taskBody(task: Task) {
+  return {
+    ...task,
+    dueDate: task.dueDate ?? null,
+    dueTime: task.dueTime ?? null,
+    dependsOn: task.dependsOn ?? [],
+    recurrence: task.recurrence ?? null,
+    escalation: task.escalation ?? null
+  };
+}
+
+const endpoints: Record<SyncEntity, string> = {
+  task: '/api/tasks',
+  schedule: '/api/schedules'
+};
+
+function findLocal(entity: SyncEntity, id: string): Promise<Task | Schedule | undefined> {
+  return entity === 'task' ? getTask(id) : getSchedule(id);
+}
+
+// Replace the local copy with the server's without queueing it back to the server
+async function applyRemote(entity: SyncEntity, remote: Task | Schedule): Promise<void> {
+  if ('chunks' in remote) {
+    const schedules = (await getSchedules()).filter(s => s.id !== remote.id);
+    await saveSchedules([...schedules, remote], false);
+  } else {
+    const tasks = (await getTasks()).filter(t => t.id !== remote.id);
+    await saveTasks([...tasks, remote], false);
+  }
+  setServerVersion(entity, remote.id, remote.updatedAt);
+}
+
+async function pushChange(change: SyncChange): Promise<void> {
+  const endpoint = endpoints[change.entity];
+
+  if (change.op === 'delete') {
+    try {
+      await api.delete(`${endpoint}/${change.id}`);
+    } catch (error) {
+      // Already gone on the server is as good as deleted
+      if (!(error instanceof ApiError && error.code === 'NOT_FOUND')) throw error;
+    }
+    setServerVersion(change.entity, change.id, undefined);
+    removeQueuedChange(change);
+    return;
+  }
+
+  const local = await findLocal(change.entity, change.id);
+  if (!local) {
+    removeQueuedChange(change);
+    return;
+  }
+
+  // Syncing a schedule mustn't make it the active one on the server
+  const body = change.entity === 'task' ? taskBody(local as Task) : { ...local, activate: false };
+  const send = (baseUpdatedAt: string | undefined) => baseUpdatedAt
+    ? api.put<any>(`${endpoint}/${change.id}`, { ...body, baseUpdatedAt })
+    : api.post<any>(endpoint, body);
+
+  let row: any;
+  try {
+    row = await send(getServerVersion(change.entity, change.id));
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error;
+
+    if (error.code === 'NOT_FOUND') {
+      // Deleted elsewhere while edited here - the edit brings it back
+      row = await send(undefined);
+    } else if (error.code === 'CONFLICT' && error.data?.current) {
+      // The server's copy, as its row
+      const remote = change.entity === 'task'
+        ? taskFromRow(error.data.current as TaskRow)
+        : scheduleFromRow(error.data.current as ScheduleRow);
+      setState({ conflictsResolved: state.conflictsResolved + 1 });
+
+      if (new Date(local.updatedAt || 0).getTime() <= new Date(remote.updatedAt || 0).getTime()) {
+        // The server's copy is newer - take it and drop ours
+        await applyRemote(change.entity, remote);
+        removeQueuedChange(change);
+        return;
+      }
+      // Ours is newer - write it over the server's copy
+      row = await send(remote.updatedAt);
+    } else {
+      throw error;
+    }
+  }
+
+  setServerVersion(change.entity, change.id, row.updated_at);
+  removeQueuedChange(change);
+}
+
+function upsert<T extends { id: string }>(items: T[], item: T): T[] {
+  const index = items.findIndex(i => i.id === item.id);
+  return index >= 0 ? items.map((i, j) => (j === index ? item : i)) : [...items, item];
+}
+
+// Apply changes from GET /api/sync. Records with a change still waiting to be pushed are
+// left alone - the push settles them. Settings aren't synced from this device yet, so the
+// server's copy isn't applied either. Returns true if anything changed locally.
+export async function applyDelta(delta: SyncDelta): Promise<boolean> {
+  const pending = (entity: SyncEntity) => new Set(getSyncQueue().filter(c => c.entity === entity).map(c => c.id));
+  const pendingTasks = pending('task');
+  const pendingSchedules = pending('schedule');
+
+  const localTasks = await getTasks();
+  const localSchedules = await getSchedules();
+
+  // After a full resync, whatever the server didn't send was deleted there
+  const deletedIds = (changes: SyncEntityChanges, local: { id: string }[]) => {
+    if (!delta.full) return changes.deleted;
+    const present = new Set([...changes.created, ...changes.updated].map(row => row.id));
+    return local.map(item => item.id).filter(id => !present.has(id));
+  };
+
+  const deletedTasks = deletedIds(delta.tasks, localTasks).filter(id => !pendingTasks.has(id));
+  let tasks = localTasks.filter(t => !deletedTasks.includes(t.id));
+  deletedTasks.forEach(id => setServerVersion('task', id, undefined));
+
+  for (const row of [...delta.tasks.created, ...delta.tasks.updated]) {
+    if (pendingTasks.has(row.id)) continue;
+    tasks = upsert(tasks, taskFromRow(row));
+    setServerVersion('task', row.id, row.updated_at);
+  }
+
+  const deletedSchedules = deletedIds(delta.schedules, localSchedules).filter(id => !pendingSchedules.has(id));
+  let schedules = localSchedules.filter(s => !deletedSchedules.includes(s.id));
+  deletedSchedules.forEach(id => setServerVersion('schedule', id, undefined));
+
+  for (const row of [...delta.schedules.created, ...delta.schedules.updated]) {
+    if (pendingSchedules.has(row.id)) continue;
+    // Chunks arrive on their own below
+    const existing = schedules.find(s => s.id === row.id);
+    schedules = upsert(schedules, { ...scheduleFromRow(row), chunks: existing?.chunks || [] });
+    setServerVersion('schedule', row.id, row.updated_at);
+  }
+
+  const deletedChunks = new Set(deletedIds(delta.chunks, localSchedules.flatMap(s => s.chunks)));
+  schedules = schedules.map(schedule => {
+    if (pendingSchedules.has(schedule.id)) return schedule;
+
+    const rows = [...delta.chunks.created, ...delta.chunks.updated].filter(row => row.schedule_id === schedule.id);
+    if (rows.length === 0 && !schedule.chunks.some(c => deletedChunks.has(c.id))) return schedule;
+
+    let chunks = schedule.chunks.filter(c => !deletedChunks.has(c.id));
+    rows.forEach(row => {
+      chunks = upsert(chunks, chunkFromRow(row));
+    });
+    chunks.sort((a, b) => a.startTime.localeCompare(b.startTime));
+    return { ...schedule, chunks };
+  });
+
+  const changed = JSON.stringify(tasks) !== JSON.stringify(localTasks) ||
+    JSON.stringify(schedules) !== JSON.stringify(localSchedules);
+
+  if (changed) {
+    await saveTasks(tasks, false);
+    await saveSchedules(schedules, false);
+  }
+  return applyActiveSchedule(delta.active, schedules) || changed;
+}
+
+// Take the server's active schedule if it was switched there since the last pull, and
+// no switch made here is still on its way
+function applyActiveSchedule(active: SyncDelta['active'], schedules: Schedule[]): boolean {
+  if (getActiveScheduleChanges().length > 0) return false;
+  if ((active.since || undefined) === getActiveScheduleVersion()) return false;
+
+  const scheduleId = active.scheduleId || '';
+  if (scheduleId && !schedules.some(s => s.id === scheduleId)) return false;
+  setActiveScheduleVersion(active.since);
+
+  if (scheduleId === (getActiveScheduleId() || '')) return false;
+  setActiveScheduleId(scheduleId);
+  return true;
+}
+
+// Only what changed since the last pull
+async function pull(): Promise<boolean> {
+  const delta = await fetchChangesSince(getSyncCursor());
+  const changed = await applyDelta(delta);
+  setSyncCursor(delta.cursor);
+  return changed;
+}
+
+// Resolves to false if the switch has to wait for its schedule to reach the server
+async function pushActiveScheduleChange(change: ActiveScheduleChange): Promise<boolean> {
+  if (getSyncQueue().some(c => c.entity === 'schedule' && c.id === change.scheduleId)) return false;
+
+  try {
+    await api.put(`${endpoints.schedule}/${change.scheduleId}/${change.action}`);
+  } catch (error) {
+    // Deleted on the server since - there's nothing left to switch
+    if (!(error instanceof ApiError && error.code === 'NOT_FOUND')) throw error;
+  }
+  removeActiveScheduleChange(change);
+  return true;
+}
+
+async function runSync(): Promise<boolean> {
+  if (!navigator.onLine) {
+    setState({ status: 'offline' });
+    return false;
+  }
+
+  setState({ status: 'syncing', error: undefined });
+
+  try {
+    // Tasks first - schedules refer to them
+    const queue = getSyncQueue().sort((a, b) => (a.entity === b.entity ? 0 : a.entity === 'task' ? -1 : 1));
+    let failure: string | undefined;
+
+    for (const change of queue) {
+      try {
+        await pushChange(change);
+      } catch (error) {
+        // A rejected change stays queued for the next round; the rest carry on
+        if (!(error instanceof ApiError) || error.code === 'NETWORK') throw error;
+        failure = error.message;
+      }
+    }
+
+    // In order - a switch that can't go yet holds back the ones after it
+    for (const change of getActiveScheduleChanges()) {
+      try {
+        if (!(await pushActiveScheduleChange(change))) break;
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.code === 'NETWORK') throw error;
+        failure = error.message;
+        break;
+      }
+    }
+
+    const changed = await pull();
+    setState({ status: failure ? 'error' : 'idle', error: failure, lastSyncedAt: new Date().toISOString() });
+    return changed;
+  } catch (error) {
+    if (error instanceof ApiError && error.code === 'NETWORK') {
+      setState({ status: 'offline' });
+    } else {
+      setState({ status: 'error', error: error instanceof Error ? error.message : 'Sync failed' });
+    }
+    return false;
+  }
+}
+
+// Push queued changes, then pull. Resolves to true if local data changed.
+export function syncNow(): Promise<boolean> {
+  if (!isAuthenticated()) return Promise.resolve(false);
+  if (!running) {
+    running = runSync().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+// Sync once more even if a round is under way - it may have pulled before a change
+// we were just told about reached the server
+export function syncAgain(): Promise<boolean> {
+  if (!running) return syncNow();
+  return running.then(changed => syncNow().then(again => changed || again));
+}
+
+// Keep syncing while signed in - returns a function that stops it.
+// onRemoteChange runs whenever pulled data changed what's stored locally.
+export function startSync(onRemoteChange: () => void): () => void {
+  let pushTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const run = () => {
+    syncNow().then(changed => {
+      if (changed) onRemoteChange();
+    });
+  };
+
+  const scheduleRun = () => {
+    setState({});
+    clearTimeout(pushTimer);
+    pushTimer = setTimeout(run, PUSH_DELAY_MS);
+  };
+
+  const handleOffline = () => setState({ status: 'offline' });
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') run();
+  };
+
+  const unsubscribe = onSyncQueueChange(scheduleRun);
+  const interval = setInterval(run, SYNC_INTERVAL_MS);
+  window.addEventListener('online', run);
+  window.addEventListener('offline', handleOffline);
+  document.addEventListener('visibilitychange', handleVisibility);
+  run();
+
+  return () => {
+    unsubscribe();
+    clearTimeout(pushTimer);
+    clearInterval(interval);
+    window.removeEventListener('online', run);
+    window.removeEventListener('offline', handleOffline);
+    document.removeEventListener('visibilitychange', handleVisibility);
+  };
+}
@@ -0,0 +1,162 @@
+import { STORAGE_KEYS } from '../types';
+import { isAuthenticated } from './api';
+import { readStored, writeStored } from './storageSchema';
+
+// Local changes waiting to be pushed to the server, plus the server's updated_at for
+// every record seen there. Switches of the active schedule are queued separately and
+// pushed in order, since each one closes a session on the server. Kept apart from
+// sync.ts so storage can record changes without importing the sync engine.
+
+export type SyncEntity = 'task' | 'schedule';
+
+export type SyncChange = {
+  entity: SyncEntity;
+  id: string;
+  op: 'upsert' | 'delete';
+  queuedAt: string; // ISO timestamp
+};
+
+// Pushed as PUT /api/schedules/:id/<action>
+export type ActiveScheduleChange = {
+  action: 'activate' | 'deactivate' | 'complete';
+  scheduleId: string;
+  queuedAt: string; // ISO timestamp
+};
+
+type Versioned = { id: string; updatedAt?: string };
+
+const listeners = new Set<() => void>();
+
+export function getSyncQueue(): SyncChange[] {
+  return readStored<SyncChange[]>(STORAGE_KEYS.syncQueue) || [];
+}
+
+function saveSyncQueue(queue: SyncChange[]): void {
+  writeStored(STORAGE_KEYS.syncQueue, queue);
+  listeners.forEach(listener => listener());
+}
+
+export function onSyncQueueChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Drop a pushed change - unless the record changed again while it was on its way
+export function removeQueuedChange(change: SyncChange): void {
+  saveSyncQueue(getSyncQueue().filter(c =>
+    !(c.entity === change.entity && c.id === change.id && c.queuedAt === change.queuedAt)
+  ));
+}
+
+// Oldest first
+export function getActiveScheduleChanges(): ActiveScheduleChange[] {
+  return readStored<ActiveScheduleChange[]>(STORAGE_KEYS.syncActiveChanges) || [];
+}
+
+function saveActiveScheduleChanges(changes: ActiveScheduleChange[]): void {
+  if (changes.length > 0) {
+    writeStored(STORAGE_KEYS.syncActiveChanges, changes);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.syncActiveChanges);
+  }
+  listeners.forEach(listener => listener());
+}
+
+// Signed-in users only, like recordLocalChanges
+export function queueActiveScheduleChange(action: ActiveScheduleChange['action'], scheduleId: string): void {
+  if (!isAuthenticated()) return;
+  const change: ActiveScheduleChange = { action, scheduleId, queuedAt: new Date().toISOString() };
+  saveActiveScheduleChanges([...getActiveScheduleChanges(), change]);
+}
+
+// Drop a pushed switch
+export function removeActiveScheduleChange(change: ActiveScheduleChange): void {
+  const changes = getActiveScheduleChanges();
+  const index = changes.findIndex(c =>
+    c.action === change.action && c.scheduleId === change.scheduleId && c.queuedAt === change.queuedAt
+  );
+  if (index >= 0) {
+    saveActiveScheduleChanges(changes.filter((_, i) => i !== index));
+  }
+}
+
+function getServerVersions(): Record<string, string> {
+  return readStored<Record<string, string>>(STORAGE_KEYS.syncVersions) || {};
+}
+
+// The server's updated_at as last seen - undefined for records it has never had
+export function getServerVersion(entity: SyncEntity, id: string): string | undefined {
+  return getServerVersions()[`${entity}:${id}`];
+}
+
+export function setServerVersion(entity: SyncEntity, id: string, updatedAt: string | undefined): void {
+  const versions = getServerVersions();
+  if (updatedAt) {
+    versions[`${entity}:${id}`] = updatedAt;
+  } else {
+    delete versions[`${entity}:${id}`];
+  }
+  writeStored(STORAGE_KEYS.syncVersions, versions);
+}
+
+// When the server's active schedule was last switched, as last seen there. A different
+// one in a pull means it was switched elsewhere since.
+export function getActiveScheduleVersion(): string | undefined {
+  return getServerVersions().active;
+}
+
+export function setActiveScheduleVersion(since: string | null): void {
+  const versions = getServerVersions();
+  if (since) {
+    versions.active = since;
+  } else {
+    delete versions.active;
+  }
+  writeStored(STORAGE_KEYS.syncVersions, versions);
+}
+
+// Where the last GET /api/sync left off - null pulls everything
+export function getSyncCursor(): string | null {
+  return localStorage.getItem(STORAGE_KEYS.syncCursor);
+}
+
+export function setSyncCursor(cursor: string): void {
+  localStorage.setItem(STORAGE_KEYS.syncCursor, cursor);
+}
+
+// Forget everything queued - the next account to sign in starts clean
+export function resetSyncQueue(): void {
+  localStorage.removeItem(STORAGE_KEYS.syncVersions);
+  localStorage.removeItem(STORAGE_KEYS.syncCursor);
+  localStorage.removeItem(STORAGE_KEYS.syncActiveChanges);
+  saveSyncQueue([]);
+}
+
+// Called by storage before every save made here (not data from the server): stamps
+// changed records with updatedAt and, for signed-in users, queues them for the next push
+export function recordLocalChanges<T extends Versioned>(entity: SyncEntity, before: T[], after: T[]): void {
+  const comparable = (item: T) => JSON.stringify({ ...item, updatedAt: undefined });
+  const previous = new Map(before.map(item => [item.id, comparable(item)]));
+  const now = new Date().toISOString();
+  const changes: SyncChange[] = [];
+
+  for (const item of after) {
+    if (previous.get(item.id) !== comparable(item)) {
+      item.updatedAt = now;
+      changes.push({ entity, id: item.id, op: 'upsert', queuedAt: now });
+    }
+    previous.delete(item.id);
+  }
+  for (const id of previous.keys()) {
+    changes.push({ entity, id, op: 'delete', queuedAt: now });
+  }
+
+  if (changes.length === 0 || !isAuthenticated()) return;
+
+  // One entry per record - the latest change wins. A delete of something the
+  // server never had just cancels the queued create.
+  const changed = new Set(changes.map(c => c.id));
+  const queue = getSyncQueue().filter(c => !(c.entity === entity && changed.has(c.id)));
+  queue.push(...changes.filter(c => c.op === 'upsert' || getServerVersion(entity, c.id)));
+  saveSyncQueue(queue);
+}
@@ -39,3 +39,15 @@ export function getTodayDate(): string {
   const today = new Date();
   return today.toISOString().split('T')[0];
 }
+
+// Save text as a file through the browser's download prompt
+export function downloadFile(filename: string, content: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
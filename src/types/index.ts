@@ -1,58 +1,144 @@
-export type Task = {
+import type { z } from 'zod';
+import type {
+  escalationSchema,
+  importSchema,
+  recurrenceSchema,
+  scheduleSchema,
+  settingsSchema,
+  taskSchema,
+  templateSchema
+} from '../../backend/src/types/schemas';
+
+// Records as backend/src/types/schemas.ts describes them. The server takes null for a
+// value that isn't there; this app leaves the field out instead.
+type WithoutNulls<T> = T extends (infer Item)[]
+  ? WithoutNulls<Item>[]
+  : T extends object
+    ? { [K in keyof T]: WithoutNulls<Exclude<T[K], null>> }
+    : T;
+
+export type Task = WithoutNulls<z.infer<typeof taskSchema>>;
+export type RecurrenceRule = WithoutNulls<z.infer<typeof recurrenceSchema>>;
+type StoredSchedule = WithoutNulls<z.infer<typeof scheduleSchema>>;
+// Breaks and busy blocks have an empty taskId
+export type ScheduleChunk = StoredSchedule['chunks'][number] & { taskId: string };
+export type Schedule = Omit<StoredSchedule, 'chunks'> & { chunks: ScheduleChunk[] };
+export type ScheduleBreak = Schedule['breaks'][number];
+export type ChunkTimeEvent = NonNullable<ScheduleChunk['timeEvents']>[number];
+export type ChunkTimeEventType = ChunkTimeEvent['type'];
+export type ScheduleTemplate = WithoutNulls<z.infer<typeof templateSchema>>;
+export type EscalationPolicy = z.infer<typeof escalationSchema>;
+// Escalation is filled in when settings are read (see src/lib/storageSchema.ts)
+export type AppSettings = WithoutNulls<z.infer<typeof settingsSchema>> & { escalation: EscalationPolicy };
+// merge adds what isn't there yet and keeps your settings; replace deletes everything first
+export type ImportMode = z.infer<typeof importSchema>['mode'];
+
+// A fixed appointment (e.g. a meeting imported from a calendar) that chunks route around
+export type BusyBlock = {
   id: string;
   title: string;
-  priority: 'high' | 'medium' | 'low';
-  estimatedHours: number;
-  hoursCompleted: number;
-  defaultNagInterval?: number; // Per-task default nag interval in minutes
-  defaultChunkSize?: number; // Per-task default chunk size in minutes
-  createdAt: string;
+  startTime: string; // HH:mm format
+  endTime: string; // HH:mm format
 };
 
-export type ScheduleBreak = {
-  id: string;
-  time: string; // HH:mm format
-  durationMinutes: number;
+// How a session went - task chunks only
+export type ScheduleSummary = {
+  chunksTotal: number;
+  chunksCompleted: number;
+  chunksSkipped: number;
+  plannedMinutes: number;
+  focusMinutes: number;
 };
 
-export type Schedule = {
-  id: string;
-  name?: string; // Optional name for saved schedules
-  date: string;
-  startTime: string;
-  endTime: string;
-  breaks: ScheduleBreak[]; // Multiple breaks at specific times
-  defaultChunkSize: number;
-  status: 'active' | 'completed';
-  chunks: ScheduleChunk[];
-  createdAt: string;
-};
-
-export type ScheduleChunk = {
+// A finished stint with an active schedule: completed, or ended early
+export type ScheduleSession = {
   id: string;
-  taskId: string;
-  taskTitle: string;
-  taskPriority: 'high' | 'medium' | 'low';
-  startTime: string;
-  endTime: string;
-  durationMinutes: number;
-  nagIntervalMinutes: number;
-  type: 'task' | 'break';
-  completed: boolean;
-  completedAt?: string;
-};
-
-export type AppSettings = {
-  notificationsEnabled: boolean;
-  defaultBreakDuration: number;
-  defaultChunkSize: number;
-  defaultNagInterval: number;
-  timeUnit: 'hours' | 'minutes'; // Toggle between hours and minutes
+  scheduleId: string | null; // null once the schedule is deleted
+  scheduleName: string | null;
+  scheduleDate: string;
+  startedAt: string; // ISO timestamp
+  endedAt: string; // ISO timestamp
+  outcome: 'completed' | 'ended';
+  summary: ScheduleSummary;
+};
+
+export type WorkingWindow = {
+  startTime: string; // HH:mm format
+  endTime: string; // HH:mm format
+};
+
+// Working windows keyed by weekday (0 = Sunday ... 6 = Saturday), null = day off
+export type WeeklyWorkingWindows = Record<number, WorkingWindow | null>;
+
+// Versioned file with everything the app stores - see src/lib/backup.ts
+export type Backup = {
+  format: 'naggle-backup';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  tasks: Task[];
+  schedules: Schedule[];
+  templates: ScheduleTemplate[];
+  settings: AppSettings;
+  activeScheduleId?: string;
+};
+
+export type ImportResult = {
+  tasks: number;
+  schedules: number;
+  templates: number;
+};
+
+// Insights - days are the schedule's date, focus is measured focus time (planned
+// length for chunks completed before tracking)
+export type DailyFocus = {
+  date: string; // YYYY-MM-DD
+  minutes: number;
+};
+
+export type WeeklyFocus = {
+  weekStart: string; // Monday, YYYY-MM-DD
+  minutes: number;
+};
+
+export type Insights = {
+  focus: {
+    daily: DailyFocus[]; // Oldest first, days without focus included
+    weekly: WeeklyFocus[];
+  };
+  completion: {
+    planned: number; // Task chunks from past days, plus today's that are settled
+    completed: number;
+    skipped: number;
+    rate: number | null; // completed / planned
+  };
+  time: {
+    byTask: { taskId: string | null; title: string; minutes: number }[];
+    byPriority: { priority: 'high' | 'medium' | 'low'; minutes: number }[];
+  };
+  streak: {
+    current: number; // Days in a row with a completed chunk, up to today (or yesterday)
+    longest: number;
+  };
+  estimates: {
+    taskId: string;
+    title: string;
+    estimatedMinutes: number;
+    actualMinutes: number;
+    finished: boolean;
+  }[];
 };
 
 export const STORAGE_KEYS = {
   tasks: 'nagging_app_tasks',
   schedules: 'nagging_app_schedules',
   activeScheduleId: 'nagging_app_active_schedule',
-  settings: 'nagging_app_settings'
+  activeScheduleSince: 'nagging_app_active_schedule_since',
+  sessionHistory: 'nagging_app_session_history',
+  settings: 'nagging_app_settings',
+  templates: 'nagging_app_templates',
+  syncQueue: 'nagging_app_sync_queue',
+  syncVersions: 'nagging_app_sync_versions',
+  syncCursor: 'nagging_app_sync_cursor',
+  syncActiveChanges: 'nagging_app_sync_active_change',
+  recovered: 'nagging_app_recovered'
 } as const;